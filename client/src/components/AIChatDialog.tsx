@@ -1,29 +1,56 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, Send } from "lucide-react";
-import { StudyPlan } from '@/types';
-import { handleAIChatQuery } from '@/lib/aiService';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, Loader2, Plus, Send, Square, Trash2, X } from "lucide-react";
+import { format } from 'date-fns';
+import { StudyPlan, StudyTask } from '@/types';
+import { streamAIChatMessage } from '@/lib/aiService';
+import { ChatAction, applyChatAction, describeChatAction } from '@/lib/chatActions';
+import { useChatThread } from '@/hooks/useChatThread';
 
 interface AIChatDialogProps {
   studyPlan: StudyPlan;
+  tasks?: StudyTask[];
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  onPlanChanged?: () => void; // called after a proposed change has been applied
+}
+
+interface ProposedAction {
+  action: ChatAction;
+  status: 'pending' | 'applying' | 'applied' | 'dismissed' | 'failed';
+  error?: string;
 }
 
 interface ChatMessage {
   sender: 'user' | 'ai';
   text: string;
+  actions?: ProposedAction[];
 }
 
-export default function AIChatDialog({ studyPlan, open, onOpenChange }: AIChatDialogProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { sender: 'ai', text: `Hi! How can I help you with your ${studyPlan.courseName} study plan today? Ask me about topics, schedule adjustments, or study strategies.` }
-  ]);
+export default function AIChatDialog({ studyPlan, tasks = [], open, onOpenChange, onPlanChanged }: AIChatDialogProps) {
+  const greeting: ChatMessage = { sender: 'ai', text: `Hi! How can I help you with your ${studyPlan.courseName} study plan today? Ask me about topics, schedule adjustments, or study strategies.` };
+  const [messages, setMessages] = useState<ChatMessage[]>([greeting]);
+  const { threads, threadId, history, target, openThread, rememberThread, startNewThread, removeThread } = useChatThread(studyPlan.id);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // The reply being streamed in, shown below the finished messages
+  const [streamingText, setStreamingText] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any reply still streaming when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Show the saved conversation when a thread is opened or a new one started
+  useEffect(() => {
+    setMessages([
+      greeting,
+      ...history.map(({ role, content }): ChatMessage => ({ sender: role === 'user' ? 'user' : 'ai', text: content })),
+    ]);
+  }, [history, studyPlan.courseName]);
 
   const handleSendMessage = async () => {
     if (!inputValue.trim()) return;
@@ -33,23 +60,80 @@ export default function AIChatDialog({ studyPlan, open, onOpenChange }: AIChatDi
     setInputValue("");
     setIsLoading(true);
 
-    // Use the OpenRouter API through our aiService
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let partialText = "";
+
+    // Upcoming open tasks, so the assistant can propose moving them
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const upcomingTasks = tasks
+      .filter(task => !task.isCompleted && task.date >= today)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(({ id, title, date, startTime, duration }) => ({ id, title, date, startTime, duration }));
+
     try {
-      const aiResponseText = await handleAIChatQuery(userMessage.text, studyPlan);
-      const aiMessage: ChatMessage = { sender: 'ai', text: aiResponseText };
+      const response = await streamAIChatMessage(userMessage.text, { ...studyPlan, tasks: upcomingTasks }, {
+        signal: controller.signal,
+        thread: target,
+        onThread: rememberThread,
+        onText: text => {
+          partialText = text;
+          setStreamingText(text);
+        },
+      });
+      const aiMessage: ChatMessage = {
+        sender: 'ai',
+        text: response.message,
+        actions: response.actions?.map(action => ({ action, status: 'pending' })),
+      };
       setMessages(prev => [...prev, aiMessage]);
     } catch (error) {
-      console.error("Error getting AI response:", error);
-      const errorMessage: ChatMessage = { 
-        sender: 'ai', 
-        text: "I'm sorry, I encountered an error processing your request. Please try again." 
-      };
-      setMessages(prev => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user stopped the reply
+        if (partialText) {
+          setMessages(prev => [...prev, { sender: 'ai', text: `${partialText} …` }]);
+        }
+      } else {
+        console.error("Error getting AI response:", error);
+        const errorMessage: ChatMessage = { 
+          sender: 'ai', 
+          text: "I'm sorry, I encountered an error processing your request. Please try again." 
+        };
+        setMessages(prev => [...prev, errorMessage]);
+      }
     } finally {
+      abortRef.current = null;
+      setStreamingText("");
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const updateAction = (messageIndex: number, actionIndex: number, update: Partial<ProposedAction>) => {
+    setMessages(prev => prev.map((msg, i) => i !== messageIndex ? msg : {
+      ...msg,
+      actions: msg.actions?.map((proposed, j) => j === actionIndex ? { ...proposed, ...update } : proposed),
+    }));
+  };
+
+  const handleApplyAction = async (messageIndex: number, actionIndex: number, action: ChatAction) => {
+    updateAction(messageIndex, actionIndex, { status: 'applying', error: undefined });
+    try {
+      await applyChatAction(studyPlan.id, action, tasks);
+      updateAction(messageIndex, actionIndex, { status: 'applied' });
+      onPlanChanged?.();
+    } catch (error) {
+      console.error("Error applying chat action:", error);
+      updateAction(messageIndex, actionIndex, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Could not apply this change',
+      });
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px] h-[70vh] flex flex-col">
@@ -59,6 +143,35 @@ export default function AIChatDialog({ studyPlan, open, onOpenChange }: AIChatDi
             Ask questions about your {studyPlan.courseName} plan or study strategies.
           </DialogDescription>
         </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={threadId ? String(threadId) : undefined}
+            onValueChange={(value) => openThread(parseInt(value))}
+            disabled={isLoading || threads.length === 0}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder={threads.length === 0 ? "No saved chats yet" : "New chat"} />
+            </SelectTrigger>
+            <SelectContent>
+              {threads.map(thread => (
+                <SelectItem key={thread.id} value={String(thread.id)}>{thread.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={startNewThread} disabled={isLoading} title="New chat">
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => threadId && removeThread(threadId)}
+            disabled={isLoading || !threadId}
+            title="Delete this chat"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
         
         <ScrollArea className="flex-grow mb-4 pr-4 -mr-4">
           <div className="space-y-4">
@@ -70,13 +183,52 @@ export default function AIChatDialog({ studyPlan, open, onOpenChange }: AIChatDi
                   className={`max-w-[80%] p-3 rounded-lg ${msg.sender === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}
                 >
                   {msg.text}
+                  {msg.actions && msg.actions.length > 0 && (
+                    <div className="mt-3 space-y-2">
+                      {msg.actions.map((proposed, actionIndex) => (
+                        <div key={actionIndex} className="rounded-md border bg-background p-2 text-sm">
+                          <p className={proposed.status === 'dismissed' ? 'line-through text-muted-foreground' : ''}>
+                            {describeChatAction(proposed.action, tasks)}
+                          </p>
+                          {proposed.status === 'failed' && (
+                            <p className="text-xs text-destructive mt-1">{proposed.error}</p>
+                          )}
+                          {proposed.status === 'applied' ? (
+                            <p className="text-xs text-green-600 mt-1 flex items-center gap-1">
+                              <Check className="h-3 w-3" /> Applied
+                            </p>
+                          ) : proposed.status !== 'dismissed' && (
+                            <div className="flex gap-2 mt-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleApplyAction(index, actionIndex, proposed.action)}
+                                disabled={proposed.status === 'applying'}
+                              >
+                                {proposed.status === 'applying'
+                                  ? <Loader2 className="h-3 w-3 animate-spin" />
+                                  : proposed.status === 'failed' ? 'Retry' : 'Apply'}
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => updateAction(index, actionIndex, { status: 'dismissed' })}
+                                disabled={proposed.status === 'applying'}
+                              >
+                                <X className="h-3 w-3 mr-1" /> Dismiss
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
             {isLoading && (
               <div className="flex justify-start">
                  <div className="max-w-[80%] p-3 rounded-lg bg-muted">
-                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {streamingText || <Loader2 className="h-4 w-4 animate-spin" />}
                 </div>
               </div>
             )}
@@ -92,9 +244,15 @@ export default function AIChatDialog({ studyPlan, open, onOpenChange }: AIChatDi
               onKeyPress={(e) => { if (e.key === 'Enter' && !isLoading) handleSendMessage(); }}
               disabled={isLoading}
             />
-            <Button onClick={handleSendMessage} disabled={isLoading || !inputValue.trim()}>
-              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4"/>}
-            </Button>
+            {isLoading ? (
+              <Button variant="outline" onClick={handleStop} title="Stop the reply">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button onClick={handleSendMessage} disabled={!inputValue.trim()}>
+                <Send className="h-4 w-4"/>
+              </Button>
+            )}
           </div>
         </DialogFooter>
       </DialogContent>
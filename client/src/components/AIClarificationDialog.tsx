@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { StudyPlanFormData } from '@/types';
-import { handleAIChatQuery } from '@/lib/aiService'; // Import for AI-generated questions
+import { getAIClarificationQuestions } from '@/lib/aiService';
 
 interface ClarificationQuestion {
   id: string;
@@ -289,65 +289,15 @@ export default function AIClarificationDialog({
 // Function to generate AI-powered clarification questions
 async function generateAIClarificationQuestions(planData: StudyPlanFormData): Promise<ClarificationQuestion[]> {
   try {
-    // Create context for the AI
-    const studyContext = {
+    const questions = await getAIClarificationQuestions({
       courseName: planData.courseName,
-      topics: planData.topics,
+      topics: planData.topics.map(topic => topic.title),
       examDate: planData.examDate,
       weeklyStudyTime: planData.weeklyStudyTime,
       learningStyle: planData.learningStyle
-    };
-    
-    // Generate AI prompt
-    const aiPrompt = `As a study planning assistant, I need to ask the student a few clarifying questions about their study plan for ${planData.courseName}. 
-    Based on their information:
-    - Topics: ${planData.topics.join(', ')}
-    - Exam date: ${planData.examDate}
-    - Weekly study time: ${planData.weeklyStudyTime} hours
-    - Learning style: ${planData.learningStyle || 'Not specified'}
-    
-    Generate 2 specific, helpful clarification questions that would improve their study plan. Each question must be relevant to their specific situation.
-    
-    Format your response as a list like:
-    1. [Question text] | [question type: text, long-text, or choice] | [Optional: choice1,choice2,choice3] | [Optional context explaining why this question helps]
-    2. [Question text] | [question type: text, long-text, or choice] | [Optional: choice1,choice2,choice3] | [Optional context explaining why this question helps]`;
-    
-    // Call AI service
-    const aiResponse = await handleAIChatQuery(aiPrompt, studyContext);
-    
-    // Parse response into questions
-    const questions: ClarificationQuestion[] = [];
-    
-    // Extract numbered items from the response
-    const items = aiResponse.split(/\d+\./).filter(item => item.trim().length > 0);
-    
-    items.forEach((item, index) => {
-      const parts = item.trim().split('|').map(p => p.trim());
-      
-      if (parts.length >= 2) {
-        const question = parts[0];
-        const type = (parts[1].toLowerCase().includes('text') ? 
-          (parts[1].toLowerCase().includes('long') ? 'long-text' : 'text') : 
-          'choice') as 'text' | 'choice' | 'long-text';
-        
-        let choices: string[] | undefined;
-        if (type === 'choice' && parts[2]) {
-          choices = parts[2].split(',').map(c => c.trim());
-        }
-        
-        const context = parts[parts.length - 1];
-        
-        questions.push({
-          id: `ai-question-${index + 1}`,
-          question,
-          type,
-          choices,
-          context: context !== question ? context : undefined
-        });
-      }
     });
     
-    return questions;
+    return questions.map((question, index) => ({ ...question, id: `ai-question-${index + 1}` }));
   } catch (error) {
     console.error("Error generating AI clarification questions:", error);
     return []; // Return empty array if AI fails
@@ -1,20 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { ChevronRight, Lightbulb, BookOpen, Clock, Sparkles, RefreshCw, Send, MessageSquare } from "lucide-react";
+import { ChevronRight, Lightbulb, BookOpen, Clock, Sparkles, RefreshCw, Send, MessageSquare, Square, Plus } from "lucide-react";
 import { Topic, LearningStyle, StudyMaterial } from "@/types";
 import { StudyRecommendation, generateRecommendations } from "@/lib/studyRecommendations";
 import { AIStudyRecommendation, generateAIRecommendations } from "@/lib/openRouterService";
+import { sendAIChatMessage, streamAIChatMessage } from "@/lib/aiService";
+import { useChatThread } from "@/hooks/useChatThread";
 
 interface AIRecommendationsProps {
   topics: Topic[];
   examDate: string;
   learningStyle?: LearningStyle;
   studyMaterials?: StudyMaterial[];
+  studyPlanId?: number; // saves the chat tab's conversation to this plan
   onAddTask?: (task: any) => void;
 }
 
@@ -28,6 +31,7 @@ export default function AIRecommendations({
   examDate, 
   learningStyle, 
   studyMaterials,
+  studyPlanId,
   onAddTask 
 }: AIRecommendationsProps) {
   const [activeTab, setActiveTab] = useState<string>("all");
@@ -36,6 +40,9 @@ export default function AIRecommendations({
   const [useAI, setUseAI] = useState<boolean>(true);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState<string>("");
+  const [isChatting, setIsChatting] = useState<boolean>(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const chatThread = useChatThread(studyPlanId);
   const [selectedRecommendation, setSelectedRecommendation] = useState<StudyRecommendation | null>(null);
   
   useEffect(() => {
@@ -83,51 +90,79 @@ export default function AIRecommendations({
     fetchRecommendations();
   }, [topics, examDate, learningStyle, studyMaterials, useAI]);
 
+  // Stop a streaming reply when the component unmounts
+  useEffect(() => () => chatAbortRef.current?.abort(), []);
+
+  // Show the saved conversation once it has loaded
+  useEffect(() => {
+    setChatMessages(chatThread.history);
+  }, [chatThread.history]);
+
+  // Replace the text of the reply being streamed, which is always the last message
+  const setLastReply = (content: string) => {
+    setChatMessages(prev => [...prev.slice(0, -1), { role: 'assistant', content }]);
+  };
+
   const handleChatSubmit = async () => {
-    if (!userInput.trim()) return;
+    if (!userInput.trim() || isChatting) return;
 
     const newMessage: ChatMessage = {
       role: 'user',
       content: userInput
     };
 
-    setChatMessages(prev => [...prev, newMessage]);
+    setChatMessages(prev => [...prev, newMessage, { role: 'assistant', content: '' }]);
     setUserInput("");
+    setIsChatting(true);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let partialText = "";
 
     try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          message: userInput,
-          context: {
-            topics,
-            examDate,
-            learningStyle,
-            studyMaterials,
-            currentRecommendations: recommendations
-          }
-        })
+      const data = await streamAIChatMessage(userInput, {
+        topics,
+        examDate,
+        learningStyle,
+        studyMaterials,
+        currentRecommendations: recommendations
+      }, {
+        signal: controller.signal,
+        thread: chatThread.target,
+        onThread: chatThread.rememberThread,
+        onText: text => {
+          partialText = text;
+          setLastReply(text);
+        }
       });
-
-      const data = await response.json();
       
-      setChatMessages(prev => [...prev, {
-        role: 'assistant',
-        content: data.message
-      }]);
+      setLastReply(data.message);
 
       // If the AI suggests adding a task
       if (data.suggestedTask && onAddTask) {
         onAddTask(data.suggestedTask);
       }
     } catch (error) {
-      console.error('Error in chat:', error);
+      if (controller.signal.aborted) {
+        if (partialText) {
+          setLastReply(`${partialText} …`);
+        } else {
+          setChatMessages(prev => prev.slice(0, -1));
+        }
+      } else {
+        console.error('Error in chat:', error);
+        setLastReply("Sorry, I couldn't answer that right now. Please try again.");
+      }
+    } finally {
+      chatAbortRef.current = null;
+      setIsChatting(false);
     }
   };
 
+  const handleChatStop = () => {
+    chatAbortRef.current?.abort();
+  };
+
   const handleRecommendationAction = async (recommendation: StudyRecommendation, action: 'accept' | 'modify' | 'reject') => {
     setSelectedRecommendation(recommendation);
 
@@ -148,24 +183,13 @@ export default function AIRecommendations({
 
     // Get AI feedback
     try {
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          message: `User ${action}ed recommendation: ${recommendation.title}`,
-          context: {
-            topics,
-            examDate,
-            learningStyle,
-            studyMaterials,
-            currentRecommendations: recommendations
-          }
-        })
+      const data = await sendAIChatMessage(`User ${action}ed recommendation: ${recommendation.title}`, {
+        topics,
+        examDate,
+        learningStyle,
+        studyMaterials,
+        currentRecommendations: recommendations
       });
-
-      const data = await response.json();
       
       setChatMessages(prev => [...prev, {
         role: 'assistant',
@@ -237,16 +261,71 @@ export default function AIRecommendations({
       
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <div className="px-6">
-          <TabsList className="w-full grid grid-cols-4">
+          <TabsList className="w-full grid grid-cols-5">
             <TabsTrigger value="all">All</TabsTrigger>
             <TabsTrigger value="technique">Techniques</TabsTrigger>
             <TabsTrigger value="resource">Resources</TabsTrigger>
             <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="chat">Chat</TabsTrigger>
           </TabsList>
         </div>
         
         <CardContent className="pt-6">
-          <TabsContent value={activeTab} className="m-0">
+          <TabsContent value="chat" className="m-0">
+            <div className="space-y-3 max-h-80 overflow-y-auto mb-4">
+              {chatMessages.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+                  <MessageSquare className="h-8 w-8 mb-2 text-gray-400" />
+                  <p>Ask about these recommendations or how to study your topics.</p>
+                </div>
+              ) : (
+                chatMessages.map((msg, index) => (
+                  <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[80%] p-3 rounded-lg text-sm whitespace-pre-wrap ${msg.role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted'}`}>
+                      {msg.content || <RefreshCw className="h-4 w-4 animate-spin" />}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Textarea
+                placeholder="Ask a question..."
+                value={userInput}
+                onChange={(e) => setUserInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleChatSubmit();
+                  }
+                }}
+                disabled={isChatting}
+                className="min-h-[40px] resize-none"
+                rows={2}
+              />
+              {studyPlanId && (
+                <Button
+                  variant="ghost"
+                  onClick={chatThread.startNewThread}
+                  disabled={isChatting || chatMessages.length === 0}
+                  title="New chat"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              )}
+              {isChatting ? (
+                <Button variant="outline" onClick={handleChatStop} title="Stop the reply">
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button onClick={handleChatSubmit} disabled={!userInput.trim()}>
+                  <Send className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value={activeTab === "chat" ? "all" : activeTab} className="m-0">
             {isLoading ? (
               <div className="flex flex-col items-center justify-center py-12">
                 <RefreshCw className="h-8 w-8 text-primary animate-spin mb-4" />
@@ -8,18 +8,19 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { GeneratedPlan } from "@/types";
+import { RefinementProposal } from "@/lib/refinementProposal";
 import { Loader2, Wand2 } from "lucide-react";
 
 interface AIRefinementDialogProps {
   studyPlan: GeneratedPlan;
-  onRefinementComplete: (refinedPlan: GeneratedPlan) => void;
+  onProposalReady: (proposal: RefinementProposal) => void;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
 export default function AIRefinementDialog({ 
   studyPlan, 
-  onRefinementComplete,
+  onProposalReady,
   open,
   onOpenChange
 }: AIRefinementDialogProps) {
@@ -97,10 +98,10 @@ export default function AIRefinementDialog({
       // First, clear any previous errors
       setError(null);
       
-      const refinedPlan = await refinePlan(studyPlan, refinementOptions);
+      const proposal = await refinePlan(studyPlan, refinementOptions);
       
-      // If we get here, the refinement was successful
-      onRefinementComplete(refinedPlan);
+      // If we get here, the refinement was successful; it is reviewed before anything is saved
+      onProposalReady(proposal);
       
     } catch (err) {
       console.error("Failed to refine plan:", err);
@@ -125,7 +126,7 @@ export default function AIRefinementDialog({
         <DialogHeader>
           <DialogTitle>Refine Your Study Plan with AI</DialogTitle>
           <DialogDescription>
-            Select a preset or provide custom input to make substantial changes to your plan. Each refinement creates a new version with visible changes.
+            Select a preset or provide custom input to make substantial changes to your plan. You'll review the proposed changes next to your current plan before anything is saved.
           </DialogDescription>
         </DialogHeader>
         
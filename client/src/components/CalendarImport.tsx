@@ -18,13 +18,45 @@ import {
 } from "@/components/ui/accordion";
 import { Calendar, FileUp, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CalendarEvent } from "@/types";
+import { parseICS } from "@/lib/icsParser";
+import { CalendarEventSource } from "@/lib/busyTime";
+import {
+  CSVColumnMapping,
+  CSVDateFormat,
+  CSVRowError,
+  CSVTable,
+  detectDateFormat,
+  guessColumnMapping,
+  mapCSVRows,
+  parseCSV,
+  setHeaderRow
+} from "@/lib/csvParser";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
 
 interface CalendarImportProps {
-  onImport: (events: CalendarEvent[]) => void;
+  onImport: (events: CalendarEvent[], source: CalendarEventSource) => void;
+  examDate?: string; // Recurring events are expanded up to this date
 }
 
-export default function CalendarImport({ onImport }: CalendarImportProps) {
+const CSV_FIELDS: { key: keyof CSVColumnMapping; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'startDate', label: 'Start' },
+  { key: 'startTime', label: 'Start time' },
+  { key: 'endDate', label: 'End' },
+  { key: 'endTime', label: 'End time' },
+  { key: 'allDay', label: 'All day' }
+];
+
+const DATE_FORMAT_LABELS: Record<CSVDateFormat, string> = {
+  iso: 'YYYY-MM-DD',
+  us: 'MM/DD/YYYY',
+  eu: 'DD/MM/YYYY'
+};
+
+export default function CalendarImport({ onImport, examDate }: CalendarImportProps) {
   const [file, setFile] = useState<File | null>(null);
   const [manualEvents, setManualEvents] = useState<CalendarEvent[]>([]);
   const [newEvent, setNewEvent] = useState<Partial<CalendarEvent>>({
@@ -36,15 +68,63 @@ export default function CalendarImport({ onImport }: CalendarImportProps) {
   const [importMethod, setImportMethod] = useState<'file' | 'manual'>('file');
   const [previewEvents, setPreviewEvents] = useState<CalendarEvent[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<CSVRowError[]>([]);
+  const [csvTable, setCsvTable] = useState<CSVTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<CSVColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<CSVDateFormat>('us');
   const [open, setOpen] = useState(false);
 
+  // Only keep events between today and the exam, which is the window the plan covers
+  const importRange = {
+    rangeStart: startOfDay(new Date()),
+    rangeEnd: examDate ? endOfDay(parseISO(examDate)) : undefined
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setFile(e.target.files[0]);
+      setPreviewEvents([]);
+      setCsvTable(null);
+      setColumnMapping(null);
+      setRowErrors([]);
       setError(null);
     }
   };
 
+  const applyCSVMapping = (table: CSVTable, mapping: CSVColumnMapping, format: CSVDateFormat) => {
+    const result = mapCSVRows(table, mapping, format, importRange);
+
+    setPreviewEvents(result.events);
+    setRowErrors(result.errors);
+    setError(result.events.length === 0 && result.errors.length === 0
+      ? "No upcoming events found in this file"
+      : null);
+  };
+
+  const updateCSVSettings = (updates: {
+    table?: CSVTable;
+    mapping?: CSVColumnMapping;
+    format?: CSVDateFormat;
+  }) => {
+    if (!csvTable || !columnMapping) return;
+
+    const table = updates.table ?? csvTable;
+    const mapping = updates.mapping ?? columnMapping;
+    const format = updates.format ?? dateFormat;
+
+    setCsvTable(table);
+    setColumnMapping(mapping);
+    setDateFormat(format);
+    applyCSVMapping(table, mapping, format);
+  };
+
+  const handleHeaderToggle = (hasHeader: boolean) => {
+    if (!csvTable) return;
+
+    const table = setHeaderRow(csvTable, hasHeader);
+    updateCSVSettings({ table, mapping: guessColumnMapping(table) });
+  };
+
   const handleAddManualEvent = () => {
     if (!newEvent.title || !newEvent.start || !newEvent.end) {
       setError("Please fill in all event details");
@@ -88,37 +168,42 @@ export default function CalendarImport({ onImport }: CalendarImportProps) {
     }
 
     try {
-      // This is a simple mock implementation
-      // In a real app, we would parse the ICS or CSV file
       const text = await file.text();
-      
-      // For demo purposes, we'll just create some sample events
-      // In real implementation, we would parse the actual file content
-      const mockEvents: CalendarEvent[] = [
-        {
-          title: "Existing Meeting",
-          start: new Date(Date.now() + 1000 * 60 * 60 * 24).toISOString(),
-          end: new Date(Date.now() + 1000 * 60 * 60 * 25).toISOString()
-        },
-        {
-          title: "Doctor Appointment",
-          start: new Date(Date.now() + 1000 * 60 * 60 * 48).toISOString(),
-          end: new Date(Date.now() + 1000 * 60 * 60 * 49).toISOString()
-        }
-      ];
-      
-      setPreviewEvents(mockEvents);
+      const extension = file.name.split('.').pop()?.toLowerCase();
+
+      if (extension === 'csv') {
+        const table = parseCSV(text);
+        const mapping = guessColumnMapping(table);
+        const format = detectDateFormat(table.rows.map(row => row[mapping.startDate] ?? ''));
+
+        setCsvTable(table);
+        setColumnMapping(mapping);
+        setDateFormat(format);
+        applyCSVMapping(table, mapping, format);
+        return;
+      }
+
+      const events = parseICS(text, importRange);
+
+      setPreviewEvents(events);
+      setRowErrors([]);
+
+      if (events.length === 0) {
+        setError("No upcoming events found in this file");
+        return;
+      }
+
       setError(null);
     } catch (err) {
-      setError("Failed to parse file. Please try again.");
+      setError(err instanceof Error ? err.message : "Failed to parse file. Please try again.");
     }
   };
 
   const handleImport = () => {
     if (importMethod === 'file' && previewEvents.length > 0) {
-      onImport(previewEvents);
+      onImport(previewEvents, csvTable ? 'csv' : 'ics');
     } else if (importMethod === 'manual' && manualEvents.length > 0) {
-      onImport(manualEvents);
+      onImport(manualEvents, 'manual');
     } else {
       setError("No events to import");
       return;
@@ -130,7 +215,7 @@ export default function CalendarImport({ onImport }: CalendarImportProps) {
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
-        <Button variant="outline" className="gap-2">
+        <Button type="button" variant="outline" className="gap-2">
           <Calendar className="h-4 w-4" />
           Import Calendar
         </Button>
@@ -161,11 +246,24 @@ export default function CalendarImport({ onImport }: CalendarImportProps) {
             </Button>
           </div>
 
-          {error && (
+          {(error || (importMethod === 'file' && rowErrors.length > 0)) && (
             <Alert variant="destructive">
               <AlertCircle className="h-4 w-4" />
-              <AlertTitle>Error</AlertTitle>
-              <AlertDescription>{error}</AlertDescription>
+              <AlertTitle>
+                {error ? "Error" : `${rowErrors.length} ${rowErrors.length === 1 ? 'row was' : 'rows were'} skipped`}
+              </AlertTitle>
+              <AlertDescription>
+                {error}
+                {importMethod === 'file' && rowErrors.length > 0 && (
+                  <ul className="mt-1 max-h-32 overflow-y-auto list-disc pl-4">
+                    {rowErrors.map((rowError, idx) => (
+                      <li key={idx}>
+                        {rowError.row > 0 ? `Row ${rowError.row}: ` : ''}{rowError.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </AlertDescription>
             </Alert>
           )}
 
@@ -188,19 +286,79 @@ export default function CalendarImport({ onImport }: CalendarImportProps) {
                 Preview Events
               </Button>
 
+              {csvTable && columnMapping && (
+                <div className="space-y-3 rounded-md border p-3">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="csv-has-header"
+                      checked={csvTable.hasHeader}
+                      onCheckedChange={(checked) => handleHeaderToggle(checked === true)}
+                    />
+                    <label htmlFor="csv-has-header" className="text-sm">
+                      First row contains column names
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    {CSV_FIELDS.map(({ key, label }) => (
+                      <div key={key}>
+                        <label className="block text-xs text-gray-500 mb-1">{label}</label>
+                        <Select
+                          value={columnMapping[key].toString()}
+                          onValueChange={(value) => updateCSVSettings({
+                            mapping: { ...columnMapping, [key]: parseInt(value) }
+                          })}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="-1">Not mapped</SelectItem>
+                            {csvTable.headers.map((header, idx) => (
+                              <SelectItem key={idx} value={idx.toString()}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div>
+                    <label className="block text-xs text-gray-500 mb-1">Date format</label>
+                    <Select
+                      value={dateFormat}
+                      onValueChange={(value) => updateCSVSettings({ format: value as CSVDateFormat })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DATE_FORMAT_LABELS) as CSVDateFormat[]).map(format => (
+                          <SelectItem key={format} value={format}>
+                            {DATE_FORMAT_LABELS[format]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
               {previewEvents.length > 0 && (
                 <div className="mt-4">
-                  <h3 className="text-sm font-medium mb-2">Preview Events</h3>
-                  <Accordion type="single" collapsible className="w-full">
+                  <h3 className="text-sm font-medium mb-2">Preview Events ({previewEvents.length})</h3>
+                  <Accordion type="single" collapsible className="w-full max-h-64 overflow-y-auto">
                     {previewEvents.map((event, idx) => (
                       <AccordionItem key={idx} value={`event-${idx}`}>
                         <AccordionTrigger className="text-sm">
-                          {event.title}
+                          {event.title} – {new Date(event.start).toLocaleDateString()}
                         </AccordionTrigger>
                         <AccordionContent>
                           <div className="text-sm space-y-1">
-                            <p><strong>Start:</strong> {new Date(event.start).toLocaleString()}</p>
-                            <p><strong>End:</strong> {new Date(event.end).toLocaleString()}</p>
+                            <p><strong>Start:</strong> {event.allDay ? new Date(event.start).toLocaleDateString() : new Date(event.start).toLocaleString()}</p>
+                            <p><strong>End:</strong> {event.allDay ? new Date(event.end).toLocaleDateString() : new Date(event.end).toLocaleString()}</p>
                             <p><strong>All Day:</strong> {event.allDay ? 'Yes' : 'No'}</p>
                           </div>
                         </AccordionContent>
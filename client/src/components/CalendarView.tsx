@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { WeekData } from "../types";
+import { WeekData, WeekDay, WeekTask } from "../types";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { format, addDays, startOfToday, parseISO, isSameDay, isAfter, isBefore } from "date-fns";
@@ -89,20 +89,16 @@ export default function CalendarView({ calendarWeeks }: CalendarViewProps) {
 
   // For timeline view - get tasks for a specific date
   const getTasksForDate = (date: Date) => {
-    const tasks = [];
+    const tasks: WeekTask[] = [];
 
     calendarWeeks.forEach(week => {
       // Check each day of the week
-      ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'weekend'].forEach(day => {
-        const task = week[day];
-        if (task) {
-          // Assuming task date is a string like "2023-04-10"
-          // We need to check if the task date matches the current date
-          const taskDate = new Date(task.date);
-          if (isSameDay(taskDate, date)) {
+      Object.values(week.days).forEach(dayTasks => {
+        dayTasks?.forEach(task => {
+          if (isSameDay(parseISO(task.date), date)) {
             tasks.push(task);
           }
-        }
+        });
       });
     });
 
@@ -111,6 +107,11 @@ export default function CalendarView({ calendarWeeks }: CalendarViewProps) {
 
   const timelineDays = generateTimelineDays();
 
+  // The seven dates shown as columns in the weekly view
+  const weekDates = calendarWeeks.length > 0
+    ? Array.from({ length: 7 }, (_, i) => addDays(parseISO(calendarWeeks[currentWeekIndex].startDate), i))
+    : [];
+
   // Handle week navigation
   const goToPreviousWeek = () => {
     if (currentWeekIndex > 0) {
@@ -183,48 +184,52 @@ export default function CalendarView({ calendarWeeks }: CalendarViewProps) {
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-muted/80">
                 <tr>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Monday</th>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Tuesday</th>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Wednesday</th>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Thursday</th>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Friday</th>
-                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Weekend</th>
+                  {weekDates.map(date => (
+                    <th key={date.toISOString()} scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                      {format(date, 'EEEE')}
+                      <span className="block normal-case font-normal">{format(date, 'MMM d')}</span>
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {calendarWeeks.length > 0 ? (
                   <tr>
-                    {['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'weekend'].map((day, i) => {
-                      const task = calendarWeeks[currentWeekIndex][day];
+                    {weekDates.map((date, i) => {
+                      const tasks = calendarWeeks[currentWeekIndex].days[format(date, 'EEEE').toLowerCase() as WeekDay] || [];
                       return (
-                        <td key={i} className="px-6 py-4">
-                          {task ? (
-                            <TooltipProvider>
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <div className={`${getTaskBgColor(task.type)} p-3 rounded-lg border-l-4 ${getTaskBorderColor(task.type)} h-full`}>
-                                    <div className="flex items-center mb-2">
-                                      {getTaskTypeIcon(task.type)}
-                                      <Badge variant="outline" className="ml-2 text-xs">
-                                        {getTaskTypeLabel(task.type)}
-                                      </Badge>
-                                    </div>
-                                    <h4 className="font-medium text-sm">{task.title}</h4>
-                                    <div className="flex items-center text-xs text-muted-foreground mt-2">
-                                      <Clock className="h-3 w-3 mr-1" /> 
-                                      {task.duration} min
-                                    </div>
-                                  </div>
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <div className="space-y-1">
-                                    <p className="font-medium">{task.title}</p>
-                                    <p>{task.resource}</p>
-                                    <p className="text-xs">{task.duration} minutes</p>
-                                  </div>
-                                </TooltipContent>
-                              </Tooltip>
-                            </TooltipProvider>
+                        <td key={i} className="px-6 py-4 align-top">
+                          {tasks.length > 0 ? (
+                            <div className="space-y-2">
+                              {tasks.map((task, idx) => (
+                                <TooltipProvider key={idx}>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <div className={`${getTaskBgColor(task.type)} p-3 rounded-lg border-l-4 ${getTaskBorderColor(task.type)}`}>
+                                        <div className="flex items-center mb-2">
+                                          {getTaskTypeIcon(task.type)}
+                                          <Badge variant="outline" className="ml-2 text-xs">
+                                            {getTaskTypeLabel(task.type)}
+                                          </Badge>
+                                        </div>
+                                        <h4 className="font-medium text-sm">{task.title}</h4>
+                                        <div className="flex items-center text-xs text-muted-foreground mt-2">
+                                          <Clock className="h-3 w-3 mr-1" /> 
+                                          {task.startTime ? `${task.startTime} · ` : ''}{task.duration} min
+                                        </div>
+                                      </div>
+                                    </TooltipTrigger>
+                                    <TooltipContent>
+                                      <div className="space-y-1">
+                                        <p className="font-medium">{task.title}</p>
+                                        <p>{task.resource}</p>
+                                        <p className="text-xs">{task.duration} minutes</p>
+                                      </div>
+                                    </TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                              ))}
+                            </div>
                           ) : (
                             <div className="h-24 flex items-center justify-center border border-dashed border-gray-200 rounded-lg p-3">
                               <span className="text-sm text-muted-foreground">No tasks</span>
@@ -236,7 +241,7 @@ export default function CalendarView({ calendarWeeks }: CalendarViewProps) {
                   </tr>
                 ) : (
                   <tr>
-                    <td colSpan={6} className="px-6 py-12 text-center text-muted-foreground">
+                    <td colSpan={7} className="px-6 py-12 text-center text-muted-foreground">
                       No schedule data available
                     </td>
                   </tr>
@@ -291,7 +296,7 @@ export default function CalendarView({ calendarWeeks }: CalendarViewProps) {
                                 <TooltipTrigger asChild>
                                   <div className={`text-xs p-1.5 rounded-md ${getTaskBgColor(task.type)} flex items-center`}>
                                     {getTaskTypeIcon(task.type)}
-                                    <span className="ml-1.5 truncate">{task.title}</span>
+                                    <span className="ml-1.5 truncate">{task.startTime ? `${task.startTime} ` : ''}{task.title}</span>
                                   </div>
                                 </TooltipTrigger>
                                 <TooltipContent>
@@ -0,0 +1,131 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ArrowRight, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { applyCatchUp, previewCatchUp, CatchUpPlan } from "@/lib/catchUp";
+
+interface CatchUpDialogProps {
+  planId: number | string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied: (catchUp: CatchUpPlan) => void;
+}
+
+export default function CatchUpDialog({
+  planId,
+  open,
+  onOpenChange,
+  onApplied
+}: CatchUpDialogProps) {
+  // Recompute the preview every time the dialog opens
+  const { data: preview, isLoading, error, refetch } = useQuery({
+    queryKey: ['catch-up', planId],
+    queryFn: () => previewCatchUp(planId),
+    enabled: open,
+    staleTime: 0
+  });
+
+  // Applies exactly the preview shown; if the plan changed meanwhile, show the new preview instead
+  const { mutate: accept, isPending, error: applyError, reset } = useMutation({
+    mutationFn: () => applyCatchUp(planId, preview!),
+    onSuccess: (catchUp) => {
+      onApplied(catchUp);
+      onOpenChange(false);
+    },
+    onError: () => {
+      refetch();
+    }
+  });
+
+  const formatDate = (date: string) => format(parseISO(date), 'EEE, MMM d');
+  const hasChanges = !!preview && (preview.moved.length > 0 || preview.dropped.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Catch Up on Missed Tasks</DialogTitle>
+          <DialogDescription>
+            Overdue tasks are moved into your free time before the exam, within your weekly study hours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {error && (
+          <div className="text-sm text-red-500 p-2 border border-red-200 rounded bg-red-50">
+            Failed to work out a catch-up schedule. Please try again.
+          </div>
+        )}
+
+        {applyError && (
+          <div className="text-sm text-red-500 p-2 border border-red-200 rounded bg-red-50">
+            {applyError.message}. Please check the updated changes below.
+          </div>
+        )}
+
+        {preview && !hasChanges && (
+          <p className="text-sm text-muted-foreground py-4">You have no overdue tasks.</p>
+        )}
+
+        {preview && preview.moved.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Moved ({preview.moved.length})</h3>
+            <ul className="space-y-2">
+              {preview.moved.map(task => (
+                <li key={task.id} className="flex items-center justify-between gap-4 p-2 border rounded-md text-sm">
+                  <span className="font-medium">{task.title}</span>
+                  <span className="flex items-center gap-2 text-muted-foreground whitespace-nowrap">
+                    {formatDate(task.fromDate)}
+                    <ArrowRight className="h-3 w-3" />
+                    {formatDate(task.toDate)} {task.startTime}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {preview && preview.dropped.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-red-600">Dropped ({preview.dropped.length})</h3>
+            <p className="text-xs text-muted-foreground">
+              There is no free time left before the exam for these tasks, so they will be removed.
+            </p>
+            <ul className="space-y-2">
+              {preview.dropped.map(task => (
+                <li key={task.id} className="flex items-center justify-between gap-4 p-2 border border-red-200 rounded-md text-sm">
+                  <span className="font-medium line-through">{task.title}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {formatDate(task.date)} • {task.duration} min
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { reset(); onOpenChange(false); }} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => accept()} disabled={!hasChanges || isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Rescheduling...
+              </>
+            ) : (
+              "Accept Changes"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
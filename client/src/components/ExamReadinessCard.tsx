@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, CalendarClock, GraduationCap } from "lucide-react";
+import CatchUpDialog from "@/components/CatchUpDialog";
+import { CatchUpPlan } from "@/lib/catchUp";
+import { getExamForecast, READINESS_TARGET, TopicForecast } from "@/lib/forecast";
+
+interface ExamReadinessCardProps {
+  planId: number;
+}
+
+export default function ExamReadinessCard({ planId }: ExamReadinessCardProps) {
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [isCatchUpOpen, setIsCatchUpOpen] = useState(false);
+
+  const { data: forecast, isLoading, error } = useQuery({
+    queryKey: ["forecast", planId],
+    queryFn: () => getExamForecast(planId),
+    retry: false,
+  });
+
+  const handleCatchUpApplied = (catchUp: CatchUpPlan) => {
+    queryClient.invalidateQueries({ queryKey: ["forecast", planId] });
+    toast({
+      title: "Schedule caught up",
+      description: `Moved ${catchUp.moved.length} overdue tasks into your free time.`,
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (error || !forecast) {
+    return null;
+  }
+
+  const atRisk = forecast.topics.filter(topic => topic.atRisk);
+
+  const renderAction = (topic: TopicForecast) => {
+    if (!topic.action) return null;
+
+    return (
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2 p-2 rounded bg-amber-50 border border-amber-200 text-xs text-amber-800">
+        <span>{topic.action.description}</span>
+        {topic.action.type === 'catch-up' ? (
+          <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => setIsCatchUpOpen(true)}>
+            <CalendarClock className="h-3 w-3 mr-1" />
+            Catch Up
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" className="h-7 px-2 text-xs" onClick={() => navigate(`/schedule/${planId}`)}>
+            Open Schedule
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GraduationCap className="h-5 w-5 mr-2 text-primary" />
+          Exam Readiness
+        </CardTitle>
+        <CardDescription>
+          {forecast.remainingMinutes === 0
+            ? 'Every planned task is done.'
+            : forecast.onTrack
+              ? `On track: at ${forecast.minutesPerDay} min a day the remaining tasks are done by ${format(parseISO(forecast.projectedFinishDate!), 'MMM d')}.`
+              : `Behind: at ${forecast.minutesPerDay} min a day only ${forecast.projectedMinutes} of the ${forecast.remainingMinutes} remaining minutes fit before the exam.`}
+          {forecast.paceFromPlan && ' The pace is your weekly study time until there is a day of history.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex justify-between mb-1 text-sm">
+            <span className="font-medium">Projected readiness on exam day</span>
+            <span>{forecast.readiness}%</span>
+          </div>
+          <Progress value={forecast.readiness} className="h-2" />
+        </div>
+
+        {atRisk.length > 0 && (
+          <p className="flex items-center text-sm text-amber-700">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {atRisk.length} {atRisk.length === 1 ? 'topic is' : 'topics are'} projected below {READINESS_TARGET}%
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {forecast.topics.map(topic => (
+            <div key={topic.topic}>
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-sm font-medium flex items-center gap-2">
+                  {topic.topic}
+                  {topic.atRisk && <Badge variant="outline" className="text-amber-700 border-amber-300">At risk</Badge>}
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  {topic.mastery}% now • {topic.readiness}% by exam
+                </span>
+              </div>
+              <Progress value={topic.readiness} className="h-2" />
+              {renderAction(topic)}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <CatchUpDialog
+        planId={planId}
+        open={isCatchUpOpen}
+        onOpenChange={setIsCatchUpOpen}
+        onApplied={handleCatchUpApplied}
+      />
+    </Card>
+  );
+}
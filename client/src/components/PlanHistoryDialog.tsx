@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, Loader2, RotateCcw } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  diffPlanVersion,
+  listPlanVersions,
+  rollbackPlanVersion,
+  PlanVersion,
+  PlanVersionSource,
+  TaskSnapshot
+} from "@/lib/planVersions";
+
+interface PlanHistoryDialogProps {
+  planId: number | string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (version: PlanVersion) => void;
+}
+
+const SOURCE_LABELS: Record<PlanVersionSource, string> = {
+  created: "Created",
+  generated: "Schedule generated",
+  refined: "Refined with AI",
+  edited: "Your edits",
+  rollback: "Rolled back"
+};
+
+export default function PlanHistoryDialog({
+  planId,
+  open,
+  onOpenChange,
+  onRestored
+}: PlanHistoryDialogProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: versions, isLoading, error } = useQuery({
+    queryKey: ['plan-versions', planId],
+    queryFn: () => listPlanVersions(planId),
+    enabled: open,
+    staleTime: 0
+  });
+
+  // Show the newest version's changes when the dialog opens
+  useEffect(() => {
+    if (open && versions?.length && (selected === null || !versions.some(v => v.version === selected))) {
+      setSelected(versions[0].version);
+    }
+  }, [open, versions, selected]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery({
+    queryKey: ['plan-version-diff', planId, selected],
+    queryFn: () => diffPlanVersion(planId, selected!),
+    enabled: open && selected !== null
+  });
+
+  const { mutate: restore, isPending } = useMutation({
+    mutationFn: (version: number) => rollbackPlanVersion(planId, version),
+    onSuccess: ({ version }) => {
+      // The rollback is saved as a new version
+      queryClient.invalidateQueries({ queryKey: ['plan-versions', planId] });
+      onRestored(version);
+      onOpenChange(false);
+    }
+  });
+
+  const formatDate = (date: string) => format(parseISO(date), 'EEE, MMM d');
+  const formatCreatedAt = (createdAt: string | null) =>
+    createdAt ? format(parseISO(createdAt.replace(' ', 'T') + 'Z'), 'MMM d, HH:mm') : '';
+  const isLatest = selected !== null && versions?.[0]?.version === selected;
+
+  const taskLine = (task: TaskSnapshot) => (
+    <span className="text-muted-foreground whitespace-nowrap">
+      {formatDate(task.date)}{task.startTime ? ` ${task.startTime}` : ''} • {task.duration} min
+    </span>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Plan History</DialogTitle>
+          <DialogDescription>
+            Every generated or refined schedule is kept. Compare a version with the one before it, or restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {error && (
+          <div className="text-sm text-red-500 p-2 border border-red-200 rounded bg-red-50">
+            Failed to load the plan history. Please try again.
+          </div>
+        )}
+
+        {versions && versions.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4">This plan has no saved versions yet.</p>
+        )}
+
+        {versions && versions.length > 0 && (
+          <div className="grid gap-4 sm:grid-cols-[220px_1fr]">
+            <ul className="space-y-1">
+              {versions.map(version => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(version.version)}
+                    className={`w-full text-left p-2 rounded-md border text-sm ${
+                      version.version === selected ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">Version {version.version}</span>
+                      <Badge variant="outline">{SOURCE_LABELS[version.source]}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {formatCreatedAt(version.createdAt)} • {version.taskCount} tasks
+                    </div>
+                    {version.note && (
+                      <div className="text-xs text-muted-foreground mt-1 truncate">{version.note}</div>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="space-y-4">
+              {isDiffLoading && (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              )}
+
+              {diff && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    {diff.from ? `Changes since version ${diff.from}` : 'The first version of this plan'}
+                  </p>
+
+                  {diff.added.length === 0 && diff.removed.length === 0 && diff.moved.length === 0 && diff.fields.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No changes.</p>
+                  )}
+
+                  {diff.fields.length > 0 && (
+                    <p className="text-sm">
+                      Plan settings changed: {diff.fields.map(change => change.field).join(', ')}
+                    </p>
+                  )}
+
+                  {diff.added.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-green-700">Added ({diff.added.length})</h3>
+                      <ul className="space-y-2">
+                        {diff.added.map(task => (
+                          <li key={task.id} className="flex items-center justify-between gap-4 p-2 border border-green-200 rounded-md text-sm">
+                            <span className="font-medium">{task.title}</span>
+                            {taskLine(task)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {diff.removed.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium text-red-600">Removed ({diff.removed.length})</h3>
+                      <ul className="space-y-2">
+                        {diff.removed.map(task => (
+                          <li key={task.id} className="flex items-center justify-between gap-4 p-2 border border-red-200 rounded-md text-sm">
+                            <span className="font-medium line-through">{task.title}</span>
+                            {taskLine(task)}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {diff.moved.length > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-sm font-medium">Moved ({diff.moved.length})</h3>
+                      <ul className="space-y-2">
+                        {diff.moved.map(({ task, fromDate, fromStartTime }) => (
+                          <li key={task.id} className="flex items-center justify-between gap-4 p-2 border rounded-md text-sm">
+                            <span className="font-medium">{task.title}</span>
+                            <span className="flex items-center gap-2 text-muted-foreground whitespace-nowrap">
+                              {formatDate(fromDate)}{fromStartTime ? ` ${fromStartTime}` : ''}
+                              <ArrowRight className="h-3 w-3" />
+                              {formatDate(task.date)}{task.startTime ? ` ${task.startTime}` : ''}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Close
+          </Button>
+          <Button onClick={() => selected !== null && restore(selected)} disabled={selected === null || isLatest || isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Restoring...
+              </>
+            ) : (
+              <>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Restore Version {selected ?? ''}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
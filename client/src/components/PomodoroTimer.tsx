@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Pause, Play, Square, Timer } from "lucide-react";
+import { usePomodoro } from "@/hooks/usePomodoro";
+import { hasReachedPlannedTime, PomodoroSettings } from "@/lib/pomodoro";
+
+interface PomodoroTimerProps {
+  task: { id: number; title: string; duration: number; studyPlanId?: number | null; isCompleted?: boolean | null };
+  onComplete: () => void;
+  disabled?: boolean;
+}
+
+const SETTING_FIELDS: { key: keyof PomodoroSettings; label: string }[] = [
+  { key: 'workMinutes', label: 'Focus (min)' },
+  { key: 'breakMinutes', label: 'Break (min)' },
+  { key: 'longBreakMinutes', label: 'Long break (min)' }
+];
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function PomodoroTimer({ task, onComplete, disabled }: PomodoroTimerProps) {
+  const {
+    timer,
+    otherTaskTimer,
+    settings,
+    remainingMs,
+    changeSettings,
+    start,
+    pause,
+    resume,
+    finishEarly,
+    markCompletionOffered,
+    discard
+  } = usePomodoro(task);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const isRunning = !!timer && timer.phase !== 'ready';
+  const offerCompletion = !!timer && hasReachedPlannedTime(timer) && !timer.completionOffered && !task.isCompleted;
+
+  const phaseLabel = !timer || timer.phase === 'ready'
+    ? 'Ready'
+    : timer.phase === 'work' ? 'Focus' : 'Break';
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          <Button
+            variant={isRunning ? "outline" : "ghost"}
+            size="sm"
+            className={`h-7 px-2 gap-1 ${isRunning ? 'text-primary' : ''}`}
+            disabled={disabled && !timer}
+            title="Pomodoro focus timer"
+          >
+            <Timer className="h-3 w-3" />
+            {isRunning ? formatRemaining(remainingMs) : 'Focus'}
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Focus Timer</DialogTitle>
+            <DialogDescription>{task.title}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="text-center space-y-1">
+              <p className="text-sm font-medium text-muted-foreground">
+                {phaseLabel}{timer?.pausedAt ? ' (paused)' : ''}
+              </p>
+              <p className="text-5xl font-semibold tabular-nums">
+                {formatRemaining(isRunning ? remainingMs : settings.workMinutes * 60000)}
+              </p>
+              {timer && (
+                <p className="text-xs text-muted-foreground">
+                  {timer.completedPomodoros} {timer.completedPomodoros === 1 ? 'pomodoro' : 'pomodoros'} • {timer.focusedMinutes} of {timer.plannedMinutes} planned minutes
+                </p>
+              )}
+            </div>
+
+            {timer && (
+              <Progress value={Math.min(100, (timer.focusedMinutes / Math.max(1, timer.plannedMinutes)) * 100)} />
+            )}
+
+            {otherTaskTimer && (
+              <p className="text-xs text-amber-700 p-2 border border-amber-200 rounded bg-amber-50">
+                A timer is running for "{otherTaskTimer.taskTitle}". Starting here stops it and logs its time so far.
+              </p>
+            )}
+
+            <div className="flex flex-wrap justify-center gap-2">
+              {!isRunning && (
+                <Button onClick={start} disabled={disabled}>
+                  <Play className="mr-2 h-4 w-4" />
+                  {timer?.completedPomodoros ? 'Next Pomodoro' : 'Start'}
+                </Button>
+              )}
+              {isRunning && (timer.pausedAt ? (
+                <Button variant="outline" onClick={resume}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Resume
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={pause}>
+                  <Pause className="mr-2 h-4 w-4" />
+                  Pause
+                </Button>
+              ))}
+              {timer?.phase === 'work' && (
+                <Button variant="outline" onClick={finishEarly}>
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop and Log
+                </Button>
+              )}
+              {timer?.phase === 'break' && (
+                <Button variant="outline" onClick={finishEarly}>
+                  Skip Break
+                </Button>
+              )}
+              {timer && (
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    discard();
+                    setIsOpen(false);
+                  }}
+                >
+                  Close Timer
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 border-t pt-4">
+              {SETTING_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`pomodoro-${key}-${task.id}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`pomodoro-${key}-${task.id}`}
+                    type="number"
+                    min={1}
+                    max={120}
+                    value={settings[key]}
+                    disabled={isRunning}
+                    onChange={(e) => changeSettings({
+                      ...settings,
+                      [key]: Math.min(120, Math.max(1, parseInt(e.target.value) || 1))
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={offerCompletion}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Planned time reached</AlertDialogTitle>
+            <AlertDialogDescription>
+              You've focused on "{task.title}" for {timer?.focusedMinutes} of its {task.duration} planned minutes.
+              Mark it as complete?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={markCompletionOffered}>Keep Going</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                markCompletionOffered();
+                setIsOpen(false);
+                onComplete();
+              }}
+            >
+              Mark Complete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
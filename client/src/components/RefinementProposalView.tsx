@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Sparkles } from "lucide-react";
+import { AIWeeklyPlan } from "@/types";
+import {
+  ACCEPT_ALL,
+  countAcceptedTasks,
+  isTaskAccepted,
+  isWeekAccepted,
+  proposalTaskKey,
+  ProposalDecisions,
+  RefinementProposal
+} from "@/lib/refinementProposal";
+
+interface RefinementProposalViewProps {
+  proposal: RefinementProposal;
+  isApplying: boolean;
+  onApply: (decisions: ProposalDecisions) => void;
+  onDiscard: () => void;
+}
+
+export default function RefinementProposalView({
+  proposal,
+  isApplying,
+  onApply,
+  onDiscard
+}: RefinementProposalViewProps) {
+  const [decisions, setDecisions] = useState<ProposalDecisions>(ACCEPT_ALL);
+
+  const weekNumbers = [...new Set([...proposal.current, ...proposal.proposed].map(week => week.week))]
+    .sort((a, b) => a - b);
+  const acceptedCount = countAcceptedTasks(proposal, decisions);
+
+  const setWeek = (week: number, accepted: boolean) =>
+    setDecisions(prev => ({ ...prev, weeks: { ...prev.weeks, [week]: accepted } }));
+
+  const setTask = (key: string, accepted: boolean) =>
+    setDecisions(prev => ({ ...prev, tasks: { ...prev.tasks, [key]: accepted } }));
+
+  const rejectAll = () => setDecisions({
+    weeks: Object.fromEntries(proposal.proposed.map(week => [week.week, false])),
+    tasks: {},
+    notes: false
+  });
+
+  const renderWeek = (week: AIWeeklyPlan | undefined, proposed: boolean) => {
+    if (!week) {
+      return <p className="text-sm text-muted-foreground">{proposed ? "No changes proposed" : "Not in the current plan"}</p>;
+    }
+
+    const weekAccepted = isWeekAccepted(decisions, week.week);
+
+    return (
+      <div className="space-y-2">
+        {week.focus && <p className="text-xs text-muted-foreground">{week.focus}</p>}
+        {week.days.map(day => (
+          <div key={day.day} className="space-y-1">
+            <p className="text-xs font-medium uppercase text-muted-foreground">{day.day}</p>
+            {day.tasks.map((task, i) => {
+              const key = proposalTaskKey(week.week, day.day, i);
+              const accepted = weekAccepted && isTaskAccepted(decisions, key);
+
+              return (
+                <div key={key} className="flex items-start gap-2 p-2 border rounded-md text-sm">
+                  {proposed && (
+                    <Checkbox
+                      id={`proposal-${key}`}
+                      checked={accepted}
+                      disabled={!weekAccepted || isApplying}
+                      onCheckedChange={(checked) => setTask(key, checked === true)}
+                    />
+                  )}
+                  <label
+                    htmlFor={proposed ? `proposal-${key}` : undefined}
+                    className={`flex-1 ${proposed && !accepted ? 'line-through text-muted-foreground' : ''}`}
+                  >
+                    <span className="font-medium">{task.topic}</span>: {task.activity}
+                    <span className="block text-xs text-muted-foreground">
+                      {task.duration} min • {task.type}{task.resource ? ` • ${task.resource}` : ''}
+                    </span>
+                  </label>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="border-blue-200">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center">
+          <Sparkles className="h-5 w-5 mr-2 text-blue-500" />
+          Proposed Refinement
+        </CardTitle>
+        <CardDescription>
+          {proposal.goals ? `For "${proposal.goals}". ` : ''}
+          Nothing has changed yet. Accept or reject weeks and tasks, then apply the ones you want.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {proposal.partialSuccess && (
+          <div className="text-sm text-amber-700 p-2 border border-amber-200 rounded bg-amber-50">
+            The AI's schedule couldn't be used, so only its notes and tips are new.
+          </div>
+        )}
+
+        {proposal.summary && (
+          <div className="flex items-start gap-3 bg-blue-50 p-4 rounded-lg">
+            <Checkbox
+              id="proposal-notes"
+              checked={decisions.notes}
+              disabled={isApplying}
+              onCheckedChange={(checked) => setDecisions(prev => ({ ...prev, notes: checked === true }))}
+            />
+            <label htmlFor="proposal-notes" className="text-sm text-gray-700">
+              <span className="font-medium block mb-1">Use the new summary, final week strategy and tips</span>
+              {proposal.summary}
+            </label>
+          </div>
+        )}
+
+        {weekNumbers.map(number => {
+          const current = proposal.current.find(week => week.week === number);
+          const proposed = proposal.proposed.find(week => week.week === number);
+
+          return (
+            <div key={number} className="space-y-3 border-t pt-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">
+                  Week {number}
+                  {(proposed?.dateRange || current?.dateRange) && (
+                    <span className="ml-2 text-sm text-muted-foreground">{proposed?.dateRange || current?.dateRange}</span>
+                  )}
+                </h3>
+                {proposed && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`proposal-week-${number}`}
+                      checked={isWeekAccepted(decisions, number)}
+                      disabled={isApplying}
+                      onCheckedChange={(checked) => setWeek(number, checked === true)}
+                    />
+                    <label htmlFor={`proposal-week-${number}`} className="text-sm">Accept week</label>
+                  </div>
+                )}
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Badge variant="outline">Current</Badge>
+                  {renderWeek(current, false)}
+                </div>
+                <div className="space-y-2">
+                  <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Proposed</Badge>
+                  {renderWeek(proposed, true)}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDecisions(ACCEPT_ALL)} disabled={isApplying}>
+              Accept All
+            </Button>
+            <Button variant="outline" size="sm" onClick={rejectAll} disabled={isApplying}>
+              Reject All
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onDiscard} disabled={isApplying}>
+              Discard
+            </Button>
+            <Button onClick={() => onApply(decisions)} disabled={isApplying || (acceptedCount === 0 && !decisions.notes)}>
+              {isApplying ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Applying...
+                </>
+              ) : (
+                acceptedCount > 0
+                  ? `Apply ${acceptedCount} ${acceptedCount === 1 ? 'Task' : 'Tasks'}`
+                  : 'Apply Notes Only'
+              )}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Flame, Target } from "lucide-react";
+import { Bar, BarChart, Cell, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { getPlanGoals, updateRestDays, WeekGoal } from "@/lib/goals";
+
+interface StudyGoalsCardProps {
+  planId: number;
+  courseName: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const weekColor = (week: WeekGoal) => {
+  if (week.status === 'upcoming') return '#e2e8f0';
+  if (week.met) return '#4ade80';
+  return week.status === 'current' ? '#60a5fa' : '#fbbf24';
+};
+
+export default function StudyGoalsCard({ planId, courseName }: StudyGoalsCardProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: goals, isLoading, error } = useQuery({
+    queryKey: ["goals", planId],
+    queryFn: () => getPlanGoals(planId),
+    retry: false,
+  });
+
+  const { mutate: saveRestDays, isPending } = useMutation({
+    mutationFn: (restDays: number[]) => updateRestDays(planId, restDays),
+    onSuccess: (updated) => queryClient.setQueryData(["goals", planId], updated),
+    onError: (error) => toast({
+      title: "Couldn't save rest days",
+      description: error instanceof Error ? error.message : "Please try again.",
+      variant: "destructive",
+    }),
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-80 w-full" />;
+  }
+
+  if (error || !goals) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{courseName}</CardTitle>
+          <CardDescription>Study goals aren't available for this plan.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const currentWeek = goals.weeks.find(week => week.status === 'current');
+  const metWeeks = goals.weeks.filter(week => week.status !== 'upcoming' && week.met).length;
+  const finishedWeeks = goals.weeks.filter(week => week.status === 'past').length + (currentWeek ? 1 : 0);
+
+  const toggleRestDay = (day: number) => saveRestDays(
+    goals.restDays.includes(day)
+      ? goals.restDays.filter(restDay => restDay !== day)
+      : [...goals.restDays, day]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          {courseName}
+          <span className="flex items-center text-base font-medium text-orange-600">
+            <Flame className="h-4 w-4 mr-1" />
+            {goals.streak.current} {goals.streak.current === 1 ? 'day' : 'days'}
+          </span>
+        </CardTitle>
+        <CardDescription>
+          Longest streak {goals.streak.longest} {goals.streak.longest === 1 ? 'day' : 'days'} •
+          {' '}{metWeeks} of {finishedWeeks} {finishedWeeks === 1 ? 'week' : 'weeks'} on target
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span className="flex items-center"><Target className="h-3 w-3 mr-1" />Today</span>
+              <span>
+                {goals.today.targetMinutes > 0
+                  ? `${goals.today.minutes}/${goals.today.targetMinutes} min`
+                  : 'Rest day'}
+              </span>
+            </div>
+            <Progress
+              value={goals.today.targetMinutes > 0
+                ? Math.min(100, (goals.today.minutes / goals.today.targetMinutes) * 100)
+                : goals.today.met ? 100 : 0}
+              className="h-2"
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>This week</span>
+              <span>
+                {currentWeek
+                  ? `${currentWeek.actualMinutes}/${currentWeek.targetMinutes} min`
+                  : `${goals.weeklyTargetMinutes} min target`}
+              </span>
+            </div>
+            <Progress value={currentWeek ? Math.min(100, currentWeek.attainment) : 0} className="h-2" />
+          </div>
+        </div>
+
+        {goals.weeks.length > 0 && (
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={goals.weeks.map(week => ({ ...week, name: `W${week.week}` }))}>
+                <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                <YAxis hide domain={[0, (max: number) => Math.max(100, max)]} />
+                <Tooltip
+                  formatter={(value: number) => [`${value}%`, 'Of target']}
+                  labelFormatter={(_label: string, payload: { payload?: WeekGoal }[]) => {
+                    const week = payload?.[0]?.payload;
+                    return week
+                      ? `${format(parseISO(week.weekStart), 'MMM d')} - ${format(parseISO(week.weekEnd), 'MMM d')}: ${week.actualMinutes}/${week.targetMinutes} min`
+                      : '';
+                  }}
+                />
+                <ReferenceLine y={100} stroke="#94a3b8" strokeDasharray="3 3" />
+                <Bar dataKey="attainment">
+                  {goals.weeks.map(week => <Cell key={week.week} fill={weekColor(week)} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {goals.dailyTargetMinutes} min a day on study days. Rest days:
+          </p>
+          <div className="flex gap-1">
+            {WEEKDAYS.map((label, day) => (
+              <Button
+                key={label}
+                variant={goals.restDays.includes(day) ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={isPending || (!goals.restDays.includes(day) && goals.restDays.length >= 6)}
+                onClick={() => toggleRestDay(day)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,12 +12,16 @@ import { Progress } from "@/components/ui/progress";
 import TopicInput from "./TopicInput";
 import ResourceInput from "./ResourceInput";
 import { AIClarificationDialog } from "./AIClarificationDialog";
-import { StudyPlanFormData, Topic, Resource, LearningStyle, StudyMaterial } from "../types";
+import CalendarImport from "./CalendarImport";
+import { StudyPlanFormData, Topic, Resource, LearningStyle, StudyMaterial, CalendarEvent } from "../types";
+import { CalendarEventSource, mergeBusyEvents, saveBusyEvents } from "@/lib/busyTime";
 
 interface StudyPlanFormProps {
   onSubmit: (data: StudyPlanFormData) => void;
 }
 
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
 export default function StudyPlanForm({ onSubmit }: StudyPlanFormProps) {
   const [topics, setTopics] = useState<Topic[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
@@ -27,6 +31,9 @@ export default function StudyPlanForm({ onSubmit }: StudyPlanFormProps) {
   const [progress, setProgress] = useState("");
   const [showAIClarification, setShowAIClarification] = useState(false);
   const [clarificationQuery, setClarificationQuery] = useState("");
+  const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
+  const [availableDays, setAvailableDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [studyWindow, setStudyWindow] = useState({ startHour: 8, endHour: 22 });
 
   const form = useForm<StudyPlanFormData>({
     defaultValues: {
@@ -79,6 +86,18 @@ export default function StudyPlanForm({ onSubmit }: StudyPlanFormProps) {
     }
   };
 
+  const handleAvailableDayChange = (day: number, checked: boolean) => {
+    setAvailableDays(prev => checked ? [...prev, day].sort((a, b) => a - b) : prev.filter(d => d !== day));
+  };
+
+  const handleCalendarImport = (events: CalendarEvent[], source: CalendarEventSource) => {
+    setCalendarEvents(prev => mergeBusyEvents(prev, events));
+    // Store the busy blocks so later plans and refinements avoid them too
+    saveBusyEvents(events, source).catch(error => {
+      console.error("Failed to save calendar events:", error);
+    });
+  };
+
   const nextStep = () => {
     if (currentStep < steps.length - 1) {
       setCurrentStep(currentStep + 1);
@@ -100,6 +119,9 @@ export default function StudyPlanForm({ onSubmit }: StudyPlanFormProps) {
       studyMaterials: selectedStudyMaterials,
       generateOptions: useAIPersonalization,
       progress: progress,
+      calendarEvents,
+      availableDays,
+      studyWindow,
     };
 
     if (useAIPersonalization) {
@@ -125,6 +147,9 @@ export default function StudyPlanForm({ onSubmit }: StudyPlanFormProps) {
       studyMaterials: selectedStudyMaterials,
       generateOptions: useAIPersonalization,
       progress: progress,
+      calendarEvents,
+      availableDays,
+      studyWindow,
       ...updatedData // Add the clarified data
     };
     
@@ -326,6 +351,72 @@ export default function StudyPlanForm({ onSubmit }: StudyPlanFormProps) {
                       </FormItem>
                     )}
                   />
+
+                  {/* Available Days */}
+                  <div>
+                    <FormLabel>Available Days</FormLabel>
+                    <FormDescription className="mb-3">
+                      Sessions are only scheduled on the days you pick
+                    </FormDescription>
+                    <div className="flex flex-wrap gap-4">
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <div key={label} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`day-${day}`}
+                            checked={availableDays.includes(day)}
+                            onCheckedChange={(checked) => handleAvailableDayChange(day, checked === true)}
+                          />
+                          <label htmlFor={`day-${day}`} className="text-sm font-medium leading-none">
+                            {label}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Study Hours */}
+                  <div>
+                    <FormLabel>Study Hours</FormLabel>
+                    <FormDescription className="mb-3">
+                      The part of the day you're free to study
+                    </FormDescription>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        max="23"
+                        className="w-24"
+                        value={studyWindow.startHour}
+                        onChange={(e) => setStudyWindow(prev => ({ ...prev, startHour: Math.min(parseInt(e.target.value) || 0, prev.endHour - 1) }))}
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="24"
+                        className="w-24"
+                        value={studyWindow.endHour}
+                        onChange={(e) => setStudyWindow(prev => ({ ...prev, endHour: Math.max(parseInt(e.target.value) || 24, prev.startHour + 1) }))}
+                      />
+                      <span className="text-sm text-gray-500">o'clock</span>
+                    </div>
+                  </div>
+
+                  {/* Calendar Commitments */}
+                  <div>
+                    <FormLabel>Busy Times</FormLabel>
+                    <FormDescription className="mb-3">
+                      Import your calendar so study sessions are never scheduled over classes, work or other commitments
+                    </FormDescription>
+                    <div className="flex items-center gap-4">
+                      <CalendarImport onImport={handleCalendarImport} examDate={form.watch("examDate")} />
+                      {calendarEvents.length > 0 && (
+                        <span className="text-sm text-gray-500">
+                          {calendarEvents.length} {calendarEvents.length === 1 ? "commitment" : "commitments"} will be avoided
+                        </span>
+                      )}
+                    </div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Play, Square } from "lucide-react";
+import { useStudySession } from "@/hooks/useStudySession";
+import { FOCUS_RATINGS, FocusRating } from "@/lib/studySessions";
+
+interface StudySessionControlProps {
+  taskId: number;
+  disabled?: boolean;
+}
+
+export default function StudySessionControl({ taskId, disabled }: StudySessionControlProps) {
+  const { activeSession, elapsedMinutes, startSession, stopSession, isStarting, isStopping } = useStudySession();
+  const { toast } = useToast();
+  const [isStopOpen, setIsStopOpen] = useState(false);
+  const [focusRating, setFocusRating] = useState<FocusRating | null>(null);
+  const [interruptions, setInterruptions] = useState(0);
+
+  const isRunningHere = activeSession?.taskId === taskId;
+
+  const handleStart = async () => {
+    try {
+      await startSession(taskId);
+    } catch (error) {
+      toast({
+        title: "Couldn't start the timer",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      const session = await stopSession({ focusRating, interruptions });
+      setIsStopOpen(false);
+      setFocusRating(null);
+      setInterruptions(0);
+      toast({
+        title: "Session logged",
+        description: `${session.minutes} minutes studied.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't stop the timer",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!isRunningHere) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 px-2 gap-1"
+        onClick={handleStart}
+        disabled={disabled || !!activeSession || isStarting}
+        title={activeSession ? "Another study session is running" : "Start timing this task"}
+      >
+        {isStarting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />}
+        Start
+      </Button>
+    );
+  }
+
+  return (
+    <Popover open={isStopOpen} onOpenChange={setIsStopOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-7 px-2 gap-1 text-primary">
+          <Square className="h-3 w-3" />
+          {elapsedMinutes} min
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-4">
+        <div className="space-y-2">
+          <Label>How focused were you?</Label>
+          <div className="flex gap-1">
+            {FOCUS_RATINGS.map(rating => (
+              <Button
+                key={rating}
+                variant={focusRating === rating ? "default" : "outline"}
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => setFocusRating(focusRating === rating ? null : rating)}
+              >
+                {rating}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`interruptions-${taskId}`}>Interruptions</Label>
+          <Input
+            id={`interruptions-${taskId}`}
+            type="number"
+            min={0}
+            value={interruptions}
+            onChange={(e) => setInterruptions(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+        </div>
+        <Button className="w-full" onClick={handleStop} disabled={isStopping}>
+          {isStopping ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Square className="mr-2 h-4 w-4" />}
+          Stop and Log {elapsedMinutes} min
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,174 +1,64 @@
 import { StudyTask } from "../types";
+import { useState } from "react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { apiRequest } from "@/lib/queryClient";
 import { format, parseISO } from "date-fns";
+import type { RecallRating } from "@shared/spacedRepetition";
+import PomodoroTimer from "./PomodoroTimer";
 
 interface TaskItemProps {
   task: StudyTask;
 }
 
+// Recall grades offered when finishing a review, on the SM-2 0-5 scale
+const RECALL_OPTIONS: { label: string; rating: RecallRating }[] = [
+  { label: 'Again', rating: 1 },
+  { label: 'Hard', rating: 3 },
+  { label: 'Good', rating: 4 },
+  { label: 'Easy', rating: 5 }
+];
+
 export default function TaskItem({ task }: TaskItemProps) {
   const queryClient = useQueryClient();
+  const [isRatingRecall, setIsRatingRecall] = useState(false);
+  const [isScoring, setIsScoring] = useState(false);
+  const [score, setScore] = useState('');
   
   const { mutate: toggleTaskCompletion, isPending } = useMutation({
-    mutationFn: async (isCompleted: boolean) => {
+    mutationFn: async ({ isCompleted, recallRating, score }: { isCompleted: boolean; recallRating?: RecallRating; score?: number }) => {
       const response = await apiRequest('PATCH', `/api/study-tasks/${task.id}/complete`, { 
-        isCompleted 
+        isCompleted,
+        recallRating,
+        score
       });
       return response.json();
     },
-    onSuccess: (data, isCompleted) => {
-      // Invalidate queries to refresh data
+    onSuccess: () => {
+      setIsRatingRecall(false);
+      setIsScoring(false);
+      setScore('');
+
+      // Invalidate queries to refresh data; the server recalculates topic progress
       queryClient.invalidateQueries({ queryKey: [`/api/study-plans/${task.studyPlanId}/tasks`] });
       queryClient.invalidateQueries({ queryKey: [`/api/study-plans/${task.studyPlanId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/study-plans/${task.studyPlanId}/reviews`] });
       queryClient.invalidateQueries({ queryKey: ['/api/study-plans'] });
-      
-      // Update topic progress
-      updateTopicProgress(task, isCompleted);
+      queryClient.invalidateQueries({ queryKey: ['goals', task.studyPlanId] });
+      queryClient.invalidateQueries({ queryKey: ['forecast', task.studyPlanId] });
     }
   });
-  
-  const updateTopicProgress = (task: StudyTask, isCompleted: boolean) => {
-    // Extract topic name from the task title
-    let topicName = extractTopicFromTitle(task.title);
-    if (!topicName) return;
-    
-    // Get current study plan data
-    const cachedPlan = queryClient.getQueryData([`/api/study-plans/${task.studyPlanId}`]);
-    if (!cachedPlan || !cachedPlan.studyPlan) return;
-    
-    const { studyPlan } = cachedPlan;
-    
-    // Calculate progress updates based on task type
-    let progressChange = 0;
-    switch (task.taskType) {
-      case 'study':
-        progressChange = isCompleted ? 50 : -50; // Study tasks contribute 50% to topic completion
-        break;
-      case 'practice':
-        progressChange = isCompleted ? 25 : -25; // Practice tasks contribute 25%
-        break;
-      case 'review':
-        progressChange = isCompleted ? 25 : -25; // Review tasks contribute 25%
-        break;
-      default:
-        progressChange = isCompleted ? 30 : -30; // Default contribution
-    }
-    
-    // Find the exact topic that matches or contains our topic name
-    const exactMatch = Object.keys(studyPlan.topicsProgress).find(
-      t => t.toLowerCase() === topicName.toLowerCase()
-    );
-    
-    if (exactMatch) {
-      topicName = exactMatch;
+
+  // Completing a review asks how well the topic was remembered, and a practice task for its score
+  const completeTask = () => {
+    if (task.taskType === 'review') {
+      setIsRatingRecall(true);
+    } else if (task.taskType === 'practice') {
+      setIsScoring(true);
     } else {
-      // Try to find a partial match
-      const partialMatch = Object.keys(studyPlan.topicsProgress).find(
-        t => t.toLowerCase().includes(topicName.toLowerCase()) || 
-             topicName.toLowerCase().includes(t.toLowerCase())
-      );
-      
-      if (partialMatch) {
-        topicName = partialMatch;
-      } else {
-        // If we can't find a match, check if this is a general review/practice
-        if (task.title.toLowerCase().includes('all topics') || 
-            task.title.toLowerCase().includes('final review') ||
-            task.title.toLowerCase().includes('practice exam')) {
-          
-          // Update all topics with a smaller increment
-          const smallIncrement = isCompleted ? 10 : -10;
-          Object.keys(studyPlan.topicsProgress).forEach(topic => {
-            const newProgress = Math.min(100, Math.max(0, studyPlan.topicsProgress[topic] + smallIncrement));
-            studyPlan.topicsProgress[topic] = newProgress;
-          });
-          
-          // Update the cached plan data
-          queryClient.setQueryData([`/api/study-plans/${task.studyPlanId}`], cachedPlan);
-          
-          // Also update the server
-          updateServerProgress(task.studyPlanId, studyPlan.topicsProgress);
-          return;
-        }
-        return; // No matching topic found
-      }
-    }
-    
-    // Update the progress for the topic
-    const currentProgress = studyPlan.topicsProgress[topicName] || 0;
-    const newProgress = Math.min(100, Math.max(0, currentProgress + progressChange));
-    
-    // Only update if progress has changed
-    if (currentProgress !== newProgress) {
-      studyPlan.topicsProgress[topicName] = newProgress;
-      
-      // Update the cached plan data
-      queryClient.setQueryData([`/api/study-plans/${task.studyPlanId}`], cachedPlan);
-      
-      // Also update the server
-      updateServerProgress(task.studyPlanId, studyPlan.topicsProgress);
-      
-      console.log(`Updated progress for topic "${topicName}" from ${currentProgress}% to ${newProgress}%`);
-    }
-  };
-  
-  // Extract the actual topic from the task title
-  const extractTopicFromTitle = (title: string): string | null => {
-    // Common patterns in task titles
-    const patterns = [
-      // "Study [Topic]"
-      /^(Study|Learn|Read|Watch|Listen to)\s+(.+)$/i,
-      
-      // "Review [Topic]"
-      /^(Review|Revisit|Reflect on)\s+(.+)$/i,
-      
-      // "Practice [Topic]"
-      /^(Practice|Apply|Test|Quiz)\s+(.+)$/i,
-      
-      // "[Topic] - Complete"
-      /^(.+)\s+-\s+Completed?$/i,
-      
-      // "Quick Review: [Topic]"
-      /^Quick\s+Review:\s+(.+)$/i
-    ];
-    
-    for (const pattern of patterns) {
-      const match = title.match(pattern);
-      if (match && match[2]) {
-        return match[2].trim();
-      } else if (match && match[1]) {
-        return match[1].trim();
-      }
-    }
-    
-    // If no pattern matches, split by common separators and take what's likely the topic
-    const parts = title.split(/[\s\-:]+/);
-    if (parts.length > 1) {
-      // Skip common action words at the beginning
-      const skipWords = ['study', 'practice', 'review', 'final', 'quick'];
-      let startIndex = 0;
-      while (startIndex < parts.length && skipWords.includes(parts[startIndex].toLowerCase())) {
-        startIndex++;
-      }
-      
-      if (startIndex < parts.length) {
-        return parts.slice(startIndex).join(' ');
-      }
-    }
-    
-    return null;
-  };
-  
-  // Update the server with new progress data
-  const updateServerProgress = async (planId: number, topicsProgress: Record<string, number>) => {
-    try {
-      await apiRequest('PATCH', `/api/study-plans/${planId}/progress`, { 
-        topicsProgress 
-      });
-    } catch (error) {
-      console.error('Failed to update topic progress on server:', error);
+      toggleTaskCompletion({ isCompleted: true });
     }
   };
 
@@ -243,8 +133,12 @@ export default function TaskItem({ task }: TaskItemProps) {
         id={`task-${task.id}`}
         checked={task.isCompleted}
         onCheckedChange={(checked) => {
-          if (typeof checked === 'boolean') {
-            toggleTaskCompletion(checked);
+          if (typeof checked !== 'boolean') return;
+
+          if (checked) {
+            completeTask();
+          } else {
+            toggleTaskCompletion({ isCompleted: false });
           }
         }}
         disabled={isPending}
@@ -259,6 +153,18 @@ export default function TaskItem({ task }: TaskItemProps) {
           <span>{task.date ? format(parseISO(task.date), 'EEEE, MMMM d') : 'Date not set'}</span>
           <span className="hidden sm:inline">•</span>
           <span>{task.duration} minutes</span>
+          {task.topic && (
+            <>
+              <span className="hidden sm:inline">•</span>
+              <span>Topic: {task.topic}</span>
+            </>
+          )}
+          {task.score != null && (
+            <>
+              <span className="hidden sm:inline">•</span>
+              <span>Score: {task.score}%</span>
+            </>
+          )}
           {task.resource && (
             <>
               <span className="hidden sm:inline">•</span>
@@ -269,8 +175,83 @@ export default function TaskItem({ task }: TaskItemProps) {
         {task.description && (
           <p className="mt-1 text-xs text-gray-500 italic">{task.description}</p>
         )}
+        {isRatingRecall && (
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-600">How well did you remember it?</span>
+            {RECALL_OPTIONS.map(({ label, rating }) => (
+              <Button
+                key={label}
+                size="sm"
+                variant="outline"
+                className="h-7 px-2 text-xs"
+                disabled={isPending}
+                onClick={() => toggleTaskCompletion({ isCompleted: true, recallRating: rating })}
+              >
+                {label}
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={isPending}
+              onClick={() => setIsRatingRecall(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
+        {isScoring && (
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            <label htmlFor={`score-${task.id}`} className="text-xs text-gray-600">Your score (%), if you had one:</label>
+            <Input
+              id={`score-${task.id}`}
+              type="number"
+              min={0}
+              max={100}
+              value={score}
+              onChange={(e) => setScore(e.target.value)}
+              className="h-7 w-20 text-xs"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs"
+              disabled={isPending || score === ''}
+              onClick={() => toggleTaskCompletion({
+                isCompleted: true,
+                score: Math.min(100, Math.max(0, Math.round(Number(score))))
+              })}
+            >
+              Save
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={isPending}
+              onClick={() => toggleTaskCompletion({ isCompleted: true })}
+            >
+              No Score
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              disabled={isPending}
+              onClick={() => setIsScoring(false)}
+            >
+              Cancel
+            </Button>
+          </div>
+        )}
       </div>
-      <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass()}`}>
+      <PomodoroTimer
+        task={task}
+        disabled={!!task.isCompleted}
+        onComplete={completeTask}
+      />
+      <span className={`ml-2 px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadgeClass()}`}>
         {getStatusText()}
       </span>
     </li>
@@ -4,20 +4,46 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import type { User as SelectUser } from "@shared/schema";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import { AUTH_API_URL, AuthSession, authHeaders, clearAuthSession, getAuthSession, saveAuthSession } from "../lib/authToken";
 import { useToast } from "@/hooks/use-toast";
 
+type AuthUser = Pick<SelectUser, "id" | "username">;
+
 type AuthContextType = {
-  user: SelectUser | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<AuthUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<AuthUser, Error, LoginData>;
 };
 
-type LoginData = Pick<InsertUser, "username" | "password">;
+// Registering takes the same fields as logging in
+type LoginData = Pick<SelectUser, "username" | "password">;
+
+// Response of /api/auth/login and /api/auth/register
+type AuthResponse = AuthSession & { user: AuthUser };
+
+const USER_QUERY_KEY = [`${AUTH_API_URL}/me`];
+
+// Load the user for the stored token, or null when logged out or the token was rejected
+async function fetchCurrentUser(): Promise<AuthUser | null> {
+  if (!getAuthSession()) return null;
+
+  const res = await fetch(`${AUTH_API_URL}/me`, { headers: await authHeaders() });
+  if (res.status === 401) {
+    clearAuthSession();
+    return null;
+  }
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+
+  const { user } = await res.json();
+  return user;
+}
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -26,18 +52,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | null, Error>({
-    queryKey: ["/api/user"],
-    queryFn: getQueryFn({ on401: "returnNull" }),
+  } = useQuery<AuthUser | null, Error>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: fetchCurrentUser,
   });
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
-      const res = await apiRequest("POST", "/api/login", credentials);
-      return await res.json();
+      const res = await apiRequest("POST", `${AUTH_API_URL}/login`, credentials);
+      const { user, ...session }: AuthResponse = await res.json();
+      saveAuthSession(session);
+      return user;
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (user: AuthUser) => {
+      queryClient.setQueryData(USER_QUERY_KEY, user);
       toast({
         title: "Logged in successfully",
         description: `Welcome back, ${user.username}!`,
@@ -53,12 +81,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
-      const res = await apiRequest("POST", "/api/register", credentials);
-      return await res.json();
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest("POST", `${AUTH_API_URL}/register`, credentials);
+      const { user, ...session }: AuthResponse = await res.json();
+      saveAuthSession(session);
+      return user;
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (user: AuthUser) => {
+      queryClient.setQueryData(USER_QUERY_KEY, user);
       toast({
         title: "Registration successful",
         description: `Welcome, ${user.username}! Your account has been created.`,
@@ -75,10 +105,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("POST", "/api/logout");
+      try {
+        await apiRequest("POST", `${AUTH_API_URL}/logout`);
+      } finally {
+        // Forget the token even if the server couldn't be reached
+        clearAuthSession();
+      }
     },
     onSuccess: () => {
-      queryClient.setQueryData(["/api/user"], null);
+      queryClient.setQueryData(USER_QUERY_KEY, null);
       toast({
         title: "Logged out successfully",
         description: "You've been logged out of your account.",
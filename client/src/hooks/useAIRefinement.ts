@@ -1,7 +1,11 @@
 import { useState } from 'react';
+import { format } from 'date-fns';
 import { GeneratedPlan } from '../types';
 import { refineStudyPlanWithAI } from '../lib/aiService';
-import { mockRefinePlan } from '../lib/apiMocks';
+import { isMockPlan, mockRefinePlan } from '../lib/apiMocks';
+import { addPlanTask } from '../lib/plans';
+import { recordPlanVersion } from '../lib/planVersions';
+import { acceptedProposalTasks, mergeRefinement, ProposalDecisions, RefinementProposal } from '../lib/refinementProposal';
 
 interface RefinementOptions {
   goals?: string;
@@ -17,15 +21,16 @@ interface RefinementOptions {
  */
 export function useAIRefinement() {
   const [isRefining, setIsRefining] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   /**
-   * Refines a study plan using AI to make it more personalized and effective
+   * Asks the AI to refine a study plan, without changing the plan
    * @param currentPlan The original study plan
    * @param options User preferences and metadata
-   * @returns The refined study plan
+   * @returns The proposed changes, to be reviewed and passed to applyRefinement
    */
-  const refinePlan = async (currentPlan: GeneratedPlan, options: RefinementOptions): Promise<GeneratedPlan> => {
+  const refinePlan = async (currentPlan: GeneratedPlan, options: RefinementOptions): Promise<RefinementProposal> => {
     setIsRefining(true);
     setError(null);
 
@@ -55,66 +60,26 @@ export function useAIRefinement() {
         preferredTechniques: options.preferredTechniques || [],
       };
 
-      console.log("Sending refinement request with data:", JSON.stringify(refinementData, null, 2));
-
       // Use AI service to get personalized recommendations
       const aiResult = await refineStudyPlanWithAI(refinementData, currentPlan);
 
       if (aiResult.success) {
-        console.log("Refinement successful, creating new plan");
-        
-        // Create a new plan object that properly combines the original plan with AI refinements
-        const refinedPlan: GeneratedPlan = {
-          studyPlan: {
-            ...currentPlan.studyPlan,
-            aiRecommendations: aiResult.aiRecommendations || currentPlan.studyPlan.aiRecommendations || [],
-            planSummary: aiResult.summary || currentPlan.studyPlan.planSummary || '',
-            finalWeekStrategy: aiResult.finalWeekStrategy || currentPlan.studyPlan.finalWeekStrategy || '',
-            // Track refinement history - if this is the first refinement, create a new array
-            refinementHistory: [
-              ...(currentPlan.studyPlan.refinementHistory || []),
-              {
-                date: new Date().toISOString(),
-                changes: options.goals || "Plan refinement",
-                strongTopics: options.strongestTopics,
-                weakTopics: options.weakestTopics
-              }
-            ]
-          },
-          calendarWeeks: currentPlan.calendarWeeks,
-          // Use the refined weekly plan if available, otherwise keep the original
-          weeklyTasks: aiResult.weeklyPlan && aiResult.weeklyPlan.length > 0 ? 
-            generateWeeklyTasksFromAIPlan(aiResult.weeklyPlan) : 
-            currentPlan.weeklyTasks,
-          aiWeeklyPlan: aiResult.weeklyPlan || currentPlan.aiWeeklyPlan || []
-        };
-
-        // Check if we had a partial success (fallback data was used)
         if (aiResult.partialSuccess) {
           console.log("Partial success with refinement - some fallback data was used");
-          // Keep most of the original plan structure but use the new recommendations
-          refinedPlan.aiWeeklyPlan = aiResult.weeklyPlan && aiResult.weeklyPlan.length > 0 ? 
-            aiResult.weeklyPlan : 
-            currentPlan.aiWeeklyPlan || [];
         }
 
-        try {
-          // Update the mock DB record (this would typically be an API call)
-          await mockRefinePlan({
-            planId: currentPlan.studyPlan.id,
-            ...refinementData,
-            aiRecommendations: aiResult.aiRecommendations,
-            planSummary: aiResult.summary,
-            finalWeekStrategy: aiResult.finalWeekStrategy,
-            aiWeeklyPlan: refinedPlan.aiWeeklyPlan
-          });
-        } catch (dbError) {
-          // Log but don't throw, so the UI can still update even if DB fails
-          console.error("Failed to update plan in database:", dbError);
-        }
-
-        // Return the completely updated plan
-        return refinedPlan;
+        // Nothing is saved yet: the student reviews the proposal next to the current plan first
+        return {
+          goals: options.goals || "",
+          current: currentPlan.aiWeeklyPlan || [],
+          proposed: aiResult.weeklyPlan && aiResult.weeklyPlan.length > 0
+            ? aiResult.weeklyPlan
+            : currentPlan.aiWeeklyPlan || [],
+          summary: aiResult.summary || currentPlan.studyPlan.planSummary || '',
+          finalWeekStrategy: aiResult.finalWeekStrategy || currentPlan.studyPlan.finalWeekStrategy || '',
+          aiRecommendations: aiResult.aiRecommendations || currentPlan.studyPlan.aiRecommendations || [],
+          partialSuccess: aiResult.partialSuccess,
+        };
       } else {
         throw new Error("AI refinement failed: " + (aiResult.error || "Unknown error"));
       }
@@ -124,8 +89,8 @@ export function useAIRefinement() {
       // Provide more specific error messages based on the type of error
       if (err.message && err.message.includes("API key")) {
         setError("API key missing or invalid. Please check your API settings.");
-      } else if (err.message && err.message.includes("Invalid JSON")) {
-        setError("Failed to process AI response. The system will be fixed soon.");
+      } else if (err.message && err.message.includes("invalid plan")) {
+        setError("The AI couldn't produce a valid plan for these inputs. Please try again.");
       } else {
         setError("Failed to refine study plan. Please try again with different inputs.");
       }
@@ -135,9 +100,76 @@ export function useAIRefinement() {
     }
   };
 
+  /**
+   * Saves the accepted part of a refinement proposal
+   * @param currentPlan The plan the proposal was made for
+   * @param proposal The proposal from refinePlan
+   * @param decisions Which weeks and tasks the student accepted
+   * @returns The updated study plan
+   */
+  const applyRefinement = async (
+    currentPlan: GeneratedPlan,
+    proposal: RefinementProposal,
+    decisions: ProposalDecisions
+  ): Promise<GeneratedPlan> => {
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const aiWeeklyPlan = mergeRefinement(proposal, decisions);
+      const studyPlan = decisions.notes
+        ? {
+            ...currentPlan.studyPlan,
+            aiRecommendations: proposal.aiRecommendations,
+            planSummary: proposal.summary,
+            finalWeekStrategy: proposal.finalWeekStrategy,
+          }
+        : currentPlan.studyPlan;
+
+      const planId = currentPlan.studyPlan.id;
+
+      if (isMockPlan(planId)) {
+        // Plans from the mock API only live in localStorage
+        await mockRefinePlan({
+          planId,
+          ...studyPlan,
+          aiWeeklyPlan,
+        });
+      } else {
+        // Week 1 of the proposal starts today
+        const tasks = acceptedProposalTasks(proposal, decisions, format(new Date(), 'yyyy-MM-dd'));
+        for (const task of tasks) {
+          await addPlanTask(planId, task);
+        }
+
+        try {
+          // Keep the refinement in the plan's version history so it can be compared and rolled back
+          await recordPlanVersion(planId, 'refined', proposal.goals || undefined);
+        } catch (versionError) {
+          console.error("Failed to record plan version:", versionError);
+        }
+      }
+
+      return {
+        studyPlan,
+        calendarWeeks: currentPlan.calendarWeeks,
+        weeklyTasks: aiWeeklyPlan.length > 0 ? generateWeeklyTasksFromAIPlan(aiWeeklyPlan) : currentPlan.weeklyTasks,
+        aiWeeklyPlan,
+      };
+    } catch (err) {
+      console.error("Error applying refinement:", err);
+      setError("Failed to save the refined plan. Please try again.");
+      throw err;
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
   return {
     refinePlan,
+    applyRefinement,
     isRefining,
+    isApplying,
     error,
     clearError: () => setError(null)
   };
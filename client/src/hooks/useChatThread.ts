@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChatThread, deleteChatThread, getChatThread, listChatThreads } from '../lib/chatThreads';
+import type { ChatThreadTarget } from '../lib/aiService';
+
+export interface ThreadMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Hook for a study plan's saved AI chats: reopens the most recent thread and
+ * tracks which thread new messages are saved to. Without a plan nothing is saved.
+ */
+export function useChatThread(studyPlanId?: number) {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [threadId, setThreadId] = useState<number | undefined>();
+  const [history, setHistory] = useState<ThreadMessage[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+
+  const refreshThreads = useCallback(async (): Promise<ChatThread[]> => {
+    if (!studyPlanId) return [];
+
+    try {
+      const list = await listChatThreads(studyPlanId);
+      setThreads(list);
+      return list;
+    } catch (error) {
+      console.error('Error loading chat threads:', error);
+      return [];
+    }
+  }, [studyPlanId]);
+
+  /**
+   * Load a thread's messages and send new messages to it
+   */
+  const openThread = useCallback(async (id: number) => {
+    setIsLoadingHistory(true);
+    try {
+      const { messages } = await getChatThread(id);
+      setThreadId(id);
+      setHistory(messages.map(({ role, content }) => ({ role, content })));
+    } catch (error) {
+      console.error('Error loading chat thread:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, []);
+
+  // Pick up the latest conversation whenever the plan changes
+  useEffect(() => {
+    setThreadId(undefined);
+    setHistory([]);
+    refreshThreads().then(list => {
+      if (list[0]) {
+        openThread(list[0].id);
+      }
+    });
+  }, [refreshThreads, openThread]);
+
+  /**
+   * Follow the thread the server saved the conversation to
+   */
+  const rememberThread = (id: number) => {
+    if (id !== threadId) {
+      setThreadId(id);
+      refreshThreads();
+    }
+  };
+
+  /**
+   * Start a fresh conversation; it's saved once the first message is sent
+   */
+  const startNewThread = () => {
+    setThreadId(undefined);
+    setHistory([]);
+  };
+
+  const removeThread = async (id: number) => {
+    try {
+      await deleteChatThread(id);
+      setThreads(prev => prev.filter(thread => thread.id !== id));
+      if (id === threadId) {
+        startNewThread();
+      }
+    } catch (error) {
+      console.error('Error deleting chat thread:', error);
+    }
+  };
+
+  // Where the next message is saved
+  const target: ChatThreadTarget = threadId ? { threadId } : { studyPlanId };
+
+  return {
+    threads,
+    threadId,
+    history,
+    isLoadingHistory,
+    target,
+    openThread,
+    rememberThread,
+    startNewThread,
+    removeThread,
+  };
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  createPomodoroTimer,
+  finishWorkEarly,
+  loadPomodoroSettings,
+  loadPomodoroTimer,
+  pauseTimer,
+  FinishedPomodoro,
+  PomodoroSettings,
+  PomodoroTimer,
+  remainingMs,
+  resumeTimer,
+  savePomodoroSettings,
+  savePomodoroTimer,
+  startWork,
+  tickPomodoro
+} from '../lib/pomodoro';
+import { logStudySession } from '../lib/studySessions';
+
+const CHANGE_EVENT = 'pomodorochange';
+
+// Work intervals being saved right now, so two renders never log one twice
+const logsInFlight = new Set<string>();
+
+// Log finished work intervals of a task, skipping any already being saved
+function saveLogs(taskId: number, logs: FinishedPomodoro[], onSaved: (log: FinishedPomodoro) => void = () => {}) {
+  for (const log of logs) {
+    const key = `${taskId}:${log.startedAt}`;
+    if (logsInFlight.has(key)) continue;
+    logsInFlight.add(key);
+
+    logStudySession({ taskId, startedAt: log.startedAt, minutes: log.minutes, note: 'Pomodoro' })
+      .then(() => onSaved(log))
+      .catch(error => console.error('Failed to log pomodoro:', error))
+      .finally(() => logsInFlight.delete(key));
+  }
+}
+
+function storeTimer(timer: PomodoroTimer | null) {
+  savePomodoroTimer(timer);
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/**
+ * Hook for the Pomodoro timer of a task. There is one timer at a time,
+ * shared with every task through localStorage; only the task it belongs to
+ * runs it, logging each finished work interval as a study session.
+ */
+export function usePomodoro(task: { id: number; title: string; duration: number; studyPlanId?: number | null }) {
+  const queryClient = useQueryClient();
+  const [timer, setTimer] = useState<PomodoroTimer | null>(loadPomodoroTimer);
+  const [settings, setSettings] = useState<PomodoroSettings>(loadPomodoroSettings);
+  const [now, setNow] = useState(() => new Date());
+
+  const isThisTask = timer?.taskId === task.id;
+
+  // Follow changes made by other tasks and other tabs
+  useEffect(() => {
+    const reload = () => setTimer(loadPomodoroTimer());
+    window.addEventListener(CHANGE_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const update = useCallback((change: (timer: PomodoroTimer) => PomodoroTimer) => {
+    const current = loadPomodoroTimer();
+    if (current?.taskId !== task.id) return;
+    storeTimer(change(current));
+  }, [task.id]);
+
+  // Tick every second while this task's timer runs
+  useEffect(() => {
+    if (!isThisTask || timer?.phase === 'ready') return;
+
+    const tick = () => {
+      const date = new Date();
+      setNow(date);
+      const current = loadPomodoroTimer();
+      if (current?.taskId === task.id) {
+        const next = tickPomodoro(current, date);
+        if (next !== current) storeTimer(next);
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [isThisTask, timer?.phase, task.id]);
+
+  // Save finished work intervals as study sessions
+  useEffect(() => {
+    if (!isThisTask || !timer?.pendingLogs.length) return;
+
+    saveLogs(task.id, timer.pendingLogs, log => {
+      update(current => ({
+        ...current,
+        pendingLogs: current.pendingLogs.filter(pending => pending.startedAt !== log.startedAt),
+      }));
+      if (task.studyPlanId) {
+        queryClient.invalidateQueries({ queryKey: ['study-time', task.studyPlanId] });
+        queryClient.invalidateQueries({ queryKey: ['goals', task.studyPlanId] });
+        queryClient.invalidateQueries({ queryKey: ['forecast', task.studyPlanId] });
+      }
+    });
+  }, [isThisTask, timer?.pendingLogs, task.id, task.studyPlanId, update, queryClient]);
+
+  const changeSettings = (next: PomodoroSettings) => {
+    setSettings(next);
+    savePomodoroSettings(next);
+    update(current => ({ ...current, settings: next }));
+  };
+
+  return {
+    timer: isThisTask ? timer : null,
+    otherTaskTimer: timer && !isThisTask ? timer : null, // another task's timer, which starting here replaces
+    settings,
+    remainingMs: isThisTask && timer ? remainingMs(timer, now) : 0,
+    changeSettings,
+    // Start (or replace another task's timer with) a timer for this task and begin a pomodoro
+    start: () => {
+      const current = loadPomodoroTimer();
+      if (current && current.taskId !== task.id) {
+        saveLogs(current.taskId, finishWorkEarly(current, new Date()).pendingLogs);
+      }
+      const base = current?.taskId === task.id ? current : createPomodoroTimer(task, settings);
+      storeTimer(startWork(base, new Date()));
+    },
+    pause: () => update(current => pauseTimer(current, new Date())),
+    resume: () => update(current => resumeTimer(current, new Date())),
+    // End the current pomodoro now and log the time focused so far
+    finishEarly: () => update(current => finishWorkEarly(current, new Date())),
+    markCompletionOffered: () => update(current => ({ ...current, completionOffered: true })),
+    // Close the timer, logging the time focused so far
+    discard: () => {
+      const current = loadPomodoroTimer();
+      if (current?.taskId !== task.id) return;
+      storeTimer(null);
+      saveLogs(task.id, finishWorkEarly(current, new Date()).pendingLogs);
+    }
+  };
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getActiveStudySession,
+  startStudySession,
+  stopStudySession,
+  SessionDetails,
+  StudySession
+} from '../lib/studySessions';
+
+const ACTIVE_SESSION_KEY = ['study-session', 'active'];
+
+/**
+ * Hook for timing study sessions: the user's running session (at most one),
+ * the minutes it has been running, and starting or stopping one
+ */
+export function useStudySession() {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: activeSession = null } = useQuery({
+    queryKey: ACTIVE_SESSION_KEY,
+    queryFn: getActiveStudySession,
+    retry: false
+  });
+
+  // Tick once a minute while a session runs
+  useEffect(() => {
+    if (!activeSession) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [activeSession]);
+
+  const onSessionChanged = (session: StudySession) => {
+    queryClient.setQueryData(ACTIVE_SESSION_KEY, session.endedAt ? null : session);
+    queryClient.invalidateQueries({ queryKey: ['study-time', session.studyPlanId] });
+    queryClient.invalidateQueries({ queryKey: ['goals', session.studyPlanId] });
+    queryClient.invalidateQueries({ queryKey: ['forecast', session.studyPlanId] });
+  };
+
+  const start = useMutation({
+    mutationFn: (taskId: number) => startStudySession(taskId),
+    onSuccess: onSessionChanged
+  });
+
+  const stop = useMutation({
+    mutationFn: (details: SessionDetails) => stopStudySession(activeSession!.id, details),
+    onSuccess: onSessionChanged
+  });
+
+  const elapsedMinutes = activeSession
+    ? Math.max(0, Math.floor((now - new Date(activeSession.startedAt).getTime()) / 60000))
+    : 0;
+
+  return {
+    activeSession,
+    elapsedMinutes,
+    startSession: start.mutateAsync,
+    stopSession: stop.mutateAsync,
+    isStarting: start.isPending,
+    isStopping: stop.isPending
+  };
+}
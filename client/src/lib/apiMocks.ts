@@ -164,10 +164,16 @@ export async function mockRefinePlan(refineData: any) {
   // Get the existing plan data
   const existingPlan = JSON.parse(localStorage.getItem(`plan_${refineData.planId}`) || '{}');
   
-  // Update the plan with AI recommendations
+  // Update the plan with the AI's recommendations, or ours when it gave none,
+  // and with the refined weekly plan and notes that were accepted
   const updatedPlan = {
     ...existingPlan,
-    aiRecommendations: recommendations.slice(0, 5), // Limit to 5 recommendations
+    aiRecommendations: refineData.aiRecommendations?.length
+      ? refineData.aiRecommendations
+      : recommendations.slice(0, 5), // Limit to 5 recommendations
+    ...(refineData.aiWeeklyPlan ? { aiWeeklyPlan: refineData.aiWeeklyPlan } : {}),
+    ...(refineData.planSummary !== undefined ? { planSummary: refineData.planSummary } : {}),
+    ...(refineData.finalWeekStrategy !== undefined ? { finalWeekStrategy: refineData.finalWeekStrategy } : {}),
   };
   
   // Save the updated plan
@@ -176,6 +182,11 @@ export async function mockRefinePlan(refineData: any) {
   return updatedPlan;
 }
 
+// Whether a plan was made by the mock API and so exists only in localStorage
+export function isMockPlan(planId: string | number): boolean {
+  return localStorage.getItem(`plan_${planId}`) !== null;
+}
+
 // Mock plan details fetch
 export async function mockGetPlan(planId: string) {
   console.log(`Fetching mock plan with id: ${planId}`);
@@ -0,0 +1,88 @@
+/**
+ * Bearer token storage for the API
+ *
+ * The token returned by /api/auth/login is kept in localStorage and sent with
+ * every API request. It is exchanged for a fresh one shortly before it expires.
+ */
+
+export const AUTH_API_URL = `${import.meta.env.VITE_API_URL || 'http://localhost:3000/api'}/auth`;
+
+const STORAGE_KEY = 'auth_session';
+const REFRESH_BEFORE_MS = 24 * 60 * 60 * 1000; // Refresh during the token's last day
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string; // ISO date-time
+}
+
+let pendingRefresh: Promise<AuthSession | null> | null = null;
+
+export function getAuthSession(): AuthSession | null {
+  try {
+    const sessionJson = localStorage.getItem(STORAGE_KEY);
+    return sessionJson ? JSON.parse(sessionJson) : null;
+  } catch (error) {
+    console.error('Error loading auth session from localStorage:', error);
+    return null;
+  }
+}
+
+export function saveAuthSession(session: AuthSession): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ token: session.token, expiresAt: session.expiresAt }));
+}
+
+export function clearAuthSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Exchange the current token for a new one; clears the session if the server rejects it
+ */
+export function refreshAuthToken(): Promise<AuthSession | null> {
+  const session = getAuthSession();
+  if (!session) return Promise.resolve(null);
+
+  // Concurrent requests share a single refresh
+  pendingRefresh ??= fetch(`${AUTH_API_URL}/refresh`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${session.token}` }
+  })
+    .then(async response => {
+      if (!response.ok) {
+        if (response.status === 401) clearAuthSession();
+        return null;
+      }
+
+      const refreshed: AuthSession = await response.json();
+      saveAuthSession(refreshed);
+      return refreshed;
+    })
+    .catch(error => {
+      console.error('Failed to refresh auth token:', error);
+      return null;
+    })
+    .finally(() => {
+      pendingRefresh = null;
+    });
+
+  return pendingRefresh;
+}
+
+/**
+ * Authorization header for the current session, refreshing the token first if it is about to expire
+ */
+export async function authHeaders(): Promise<Record<string, string>> {
+  let session = getAuthSession();
+  if (!session) return {};
+
+  const expiresIn = new Date(session.expiresAt).getTime() - Date.now();
+  if (expiresIn <= 0) {
+    clearAuthSession();
+    return {};
+  }
+  if (expiresIn < REFRESH_BEFORE_MS) {
+    session = (await refreshAuthToken()) ?? getAuthSession();
+  }
+
+  return session ? { Authorization: `Bearer ${session.token}` } : {};
+}
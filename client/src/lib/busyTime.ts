@@ -0,0 +1,125 @@
+/**
+ * Busy-time support for the plan generators
+ *
+ * Loads the user's stored calendar commitments from the server and fits
+ * generated weekly plans around them.
+ */
+
+import { addDays, format, startOfDay } from 'date-fns';
+import { AIStudyTask, AIWeeklyPlan, CalendarEvent } from '../types';
+import { fetcher } from './utils';
+import { busyBlocksBetween, fitTasksAroundBusyTime, parseDateKey, toDateKey } from '@shared/calendar';
+
+export type CalendarEventSource = 'ics' | 'csv' | 'manual';
+
+/**
+ * Fetch the user's stored busy blocks, or an empty list if the server is unavailable
+ */
+export async function fetchBusyEvents(): Promise<CalendarEvent[]> {
+  try {
+    return await fetcher<CalendarEvent[]>('/calendar-events');
+  } catch (error) {
+    console.warn('Could not load calendar events:', error);
+    return [];
+  }
+}
+
+/**
+ * Store imported busy blocks, replacing earlier imports from the same source
+ */
+export async function saveBusyEvents(events: CalendarEvent[], source: CalendarEventSource): Promise<void> {
+  await fetcher('/calendar-events', {
+    method: 'POST',
+    body: JSON.stringify({ events, source, replace: true })
+  });
+}
+
+/**
+ * Combine event lists, dropping duplicates of the same commitment
+ */
+export function mergeBusyEvents(...lists: (CalendarEvent[] | undefined)[]): CalendarEvent[] {
+  const seen = new Set<string>();
+
+  return lists.flatMap(list => list || []).filter(event => {
+    const key = `${new Date(event.start).getTime()}|${new Date(event.end).getTime()}|${event.title}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Format the busy blocks before the exam as prompt lines for the AI
+ */
+export function formatBusyTimes(events: CalendarEvent[], examDate: string): string {
+  return busyBlocksBetween(events, startOfDay(new Date()), parseDateKey(examDate))
+    .map(event => event.allDay
+      ? `- ${event.title}: ${format(new Date(event.start), 'EEE MMM d')} (all day)`
+      : `- ${event.title}: ${format(new Date(event.start), 'EEE MMM d, h:mm a')} - ${format(new Date(event.end), 'h:mm a')}`)
+    .join('\n');
+}
+
+// Weekly plans start today, so week N covers today + 7(N-1) through the following 6 days
+function getPlanDayDate(week: number, day: string, today: Date): Date | null {
+  const weekStart = addDays(today, (week - 1) * 7);
+
+  for (let offset = 0; offset < 7; offset++) {
+    const date = addDays(weekStart, offset);
+    if (format(date, 'EEEE').toLowerCase() === day.trim().toLowerCase()) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Move tasks in a generated weekly plan off days that are blocked by calendar events.
+ * Tasks stay within their own week; ones that can't fit anywhere in it are dropped.
+ */
+export function fitWeeklyPlanAroundBusyTime(
+  weeklyPlan: AIWeeklyPlan[],
+  events: CalendarEvent[],
+  examDate?: string
+): AIWeeklyPlan[] {
+  if (events.length === 0) return weeklyPlan;
+
+  const today = startOfDay(new Date());
+  const lastDay = examDate ? parseDateKey(examDate) : null;
+
+  return weeklyPlan.map(week => {
+    const weekStart = addDays(today, (week.week - 1) * 7);
+    const weekEnd = addDays(weekStart, 6);
+
+    const tasks = week.days.flatMap(day => {
+      const date = getPlanDayDate(week.week, day.day, today);
+      return date ? day.tasks.map(task => ({ ...task, date: toDateKey(date) })) : [];
+    });
+
+    const fitted = fitTasksAroundBusyTime(tasks, events, {
+      firstDate: toDateKey(weekStart),
+      lastDate: toDateKey(lastDay && lastDay < weekEnd ? lastDay : weekEnd)
+    });
+
+    // Regroup by date, keeping days the plan named but that couldn't be placed
+    const byDate = new Map<string, AIStudyTask[]>();
+    fitted
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(({ date, ...task }) => {
+        byDate.set(date, [...(byDate.get(date) || []), task]);
+      });
+
+    const unplacedDays = week.days.filter(day => !getPlanDayDate(week.week, day.day, today));
+
+    return {
+      ...week,
+      days: [
+        ...Array.from(byDate.entries()).map(([date, dayTasks]) => ({
+          day: format(parseDateKey(date), 'EEEE'),
+          tasks: dayTasks
+        })),
+        ...unplacedDays
+      ]
+    };
+  });
+}
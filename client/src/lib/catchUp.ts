@@ -0,0 +1,33 @@
+/**
+ * Catch-up rescheduling of overdue tasks
+ *
+ * The server works out where a plan's missed tasks fit before the exam;
+ * the preview is shown to the user before anything is moved.
+ */
+
+import { browserTimeZone, fetcher } from './utils';
+import type { CatchUpPlan } from '@shared/catchUp';
+
+export type { CatchUpPlan, DroppedTask, MovedTask } from '@shared/catchUp';
+
+/**
+ * Preview where a plan's overdue tasks would be moved
+ */
+export async function previewCatchUp(planId: number | string): Promise<CatchUpPlan> {
+  return fetcher<CatchUpPlan>(`/plans/${planId}/catch-up?timeZone=${encodeURIComponent(browserTimeZone())}`);
+}
+
+/**
+ * Move the overdue tasks and remove the ones that no longer fit, exactly as
+ * previewed. The server refuses with 409 if the preview is out of date.
+ */
+export async function applyCatchUp(planId: number | string, preview: CatchUpPlan): Promise<CatchUpPlan> {
+  return fetcher<CatchUpPlan>(`/plans/${planId}/catch-up`, {
+    method: 'POST',
+    body: JSON.stringify({
+      moved: preview.moved,
+      dropped: preview.dropped,
+      timeZone: browserTimeZone(),
+    }),
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Plan changes proposed by the chat assistant
+ *
+ * The assistant only proposes changes; once the student confirms one it is
+ * applied through the regular plan and task routes.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { browserTimeZone, fetcher } from './utils';
+import type { ChatAction } from '@shared/aiPlan';
+import type { StudyTask } from '../types';
+
+export type { ChatAction } from '@shared/aiPlan';
+
+const MIN_TASK_MINUTES = 10;
+
+function formatDay(date: string): string {
+  return format(parseISO(date), 'EEE, MMM d');
+}
+
+// Open tasks in the seven days from weekStart
+function openTasksInWeek(tasks: StudyTask[], weekStart: string): StudyTask[] {
+  const weekEnd = format(addDays(parseISO(weekStart), 7), 'yyyy-MM-dd');
+  return tasks.filter(task => !task.isCompleted && task.date >= weekStart && task.date < weekEnd);
+}
+
+/**
+ * One line describing the change, for the confirmation card
+ */
+export function describeChatAction(action: ChatAction, tasks: StudyTask[] = []): string {
+  switch (action.type) {
+    case 'add_task':
+      return `Add "${action.title}" on ${formatDay(action.date)}${action.startTime ? ` at ${action.startTime}` : ''} (${action.duration} min)`;
+    case 'move_task': {
+      const task = tasks.find(task => task.id === action.taskId);
+      return `Move "${task?.title ?? `task ${action.taskId}`}" to ${formatDay(action.date)}${action.startTime ? ` at ${action.startTime}` : ''}`;
+    }
+    case 'set_topic_progress':
+      return `Set your starting level on ${action.topic} to ${action.progress}%`;
+    case 'shorten_week':
+      return `Shorten the week of ${formatDay(action.weekStart)} by ${action.reduceByPercent}%`;
+    case 'regenerate_week':
+      return `Reschedule the week of ${formatDay(action.weekStart)}`;
+  }
+}
+
+/**
+ * Apply a confirmed action to the plan
+ */
+export async function applyChatAction(planId: number | string, action: ChatAction, tasks: StudyTask[] = []): Promise<void> {
+  switch (action.type) {
+    case 'add_task':
+      await fetcher('/tasks', {
+        method: 'POST',
+        body: JSON.stringify({
+          studyPlanId: Number(planId),
+          title: action.title,
+          description: action.description,
+          date: action.date,
+          startTime: action.startTime,
+          duration: action.duration,
+          taskType: action.taskType,
+        }),
+      });
+      return;
+
+    case 'move_task':
+      if (!tasks.some(task => task.id === action.taskId)) {
+        throw new Error('That task is no longer in the plan');
+      }
+      await fetcher(`/tasks/${action.taskId}`, {
+        method: 'PUT',
+        body: JSON.stringify({ date: action.date, ...(action.startTime ? { startTime: action.startTime } : {}) }),
+      });
+      return;
+
+    case 'set_topic_progress':
+      await fetcher(`/plans/${planId}/progress`, {
+        method: 'PATCH',
+        body: JSON.stringify({ topicsProgress: { [action.topic]: action.progress } }),
+      });
+      return;
+
+    case 'shorten_week': {
+      const factor = 1 - action.reduceByPercent / 100;
+      await Promise.all(openTasksInWeek(tasks, action.weekStart).map(task =>
+        fetcher(`/tasks/${task.id}`, {
+          method: 'PUT',
+          body: JSON.stringify({ duration: Math.max(MIN_TASK_MINUTES, Math.round(task.duration * factor / 5) * 5) }),
+        })
+      ));
+      return;
+    }
+
+    case 'regenerate_week':
+      await fetcher(`/plans/${planId}/schedule`, {
+        method: 'POST',
+        body: JSON.stringify({
+          startDate: action.weekStart,
+          endDate: format(addDays(parseISO(action.weekStart), 7), 'yyyy-MM-dd'),
+          timeZone: browserTimeZone(),
+        }),
+      });
+      return;
+  }
+}
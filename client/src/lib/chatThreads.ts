@@ -0,0 +1,32 @@
+/**
+ * Saved AI chat conversations for a study plan
+ *
+ * Messages are sent through the chat functions in aiService with a thread;
+ * these calls list, load and delete the saved conversations.
+ */
+
+import { fetcher } from './utils';
+import type { ChatThread, ChatThreadMessage } from '@shared/schema';
+
+export type { ChatThread, ChatThreadMessage } from '@shared/schema';
+
+/**
+ * A plan's chat threads, most recently used first
+ */
+export async function listChatThreads(planId: number | string): Promise<ChatThread[]> {
+  return fetcher<ChatThread[]>(`/chat-threads?planId=${planId}`);
+}
+
+/**
+ * A chat thread with all of its messages
+ */
+export async function getChatThread(threadId: number): Promise<{ thread: ChatThread; messages: ChatThreadMessage[] }> {
+  return fetcher(`/chat-threads/${threadId}`);
+}
+
+/**
+ * Delete a chat thread and its messages
+ */
+export async function deleteChatThread(threadId: number): Promise<void> {
+  await fetcher<void>(`/chat-threads/${threadId}`, { method: 'DELETE' });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { detectDateFormat, guessColumnMapping, mapCSVRows, parseCSV, type CSVDateFormat } from './csvParser';
+
+describe('detectDateFormat', () => {
+  it.each<{ name: string; values: string[]; expected: CSVDateFormat }>([
+    { name: 'year-first dates', values: ['2026-03-04', '2026/03/15 09:00'], expected: 'iso' },
+    { name: 'a month over 12 in the second place', values: ['03/04/2026', '03/15/2026'], expected: 'us' },
+    { name: 'a day over 12 in the first place', values: ['03/04/2026', '15/03/2026'], expected: 'eu' },
+    { name: 'dotted European dates with times', values: ['25.12.2026 18:00', '01.01.2027'], expected: 'eu' },
+    { name: 'two-digit years', values: ['31/01/26'], expected: 'eu' },
+    { name: 'only ambiguous dates, as Outlook writes them', values: ['03/04/2026', '05/06/2026'], expected: 'us' },
+    { name: 'blank cells among the dates', values: ['', '  ', '13/02/2026'], expected: 'eu' },
+  ])('$name', ({ values, expected }) => {
+    expect(detectDateFormat(values)).toBe(expected);
+  });
+});
+
+describe('mapCSVRows', () => {
+  // Outlook's export layout, with a semicolon delimiter
+  const csv = [
+    'Subject;Start Date;Start Time;End Date;End Time',
+    'Lab;03/04/2026;9:00 AM;03/04/2026;10:30 AM',
+    'Seminar;31/04/2026;14:00;31/04/2026;15:00',
+  ].join('\n');
+
+  it('reads dates in the detected format and reports the rows that do not parse', () => {
+    const table = parseCSV(csv);
+    const mapping = guessColumnMapping(table);
+    const format = detectDateFormat(table.rows.map(row => row[mapping.startDate]));
+
+    // 31/04 is no date in either layout, so the ambiguous 03/04 is read the US way
+    expect(format).toBe('us');
+    expect(mapCSVRows(table, mapping, format)).toEqual({
+      events: [{
+        title: 'Lab',
+        start: new Date(2026, 2, 4, 9, 0).toISOString(),
+        end: new Date(2026, 2, 4, 10, 30).toISOString(),
+        allDay: false,
+      }],
+      errors: [{ row: 3, message: 'Invalid start date "31/04/2026"' }],
+    });
+  });
+
+  it('reads day-first dates when told to', () => {
+    const table = parseCSV(csv);
+    const { events } = mapCSVRows(table, guessColumnMapping(table), 'eu');
+
+    expect(events[0].start).toBe(new Date(2026, 3, 3, 9, 0).toISOString());
+  });
+});
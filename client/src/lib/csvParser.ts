@@ -0,0 +1,439 @@
+import { CalendarEvent } from "../types";
+
+// CSV calendar import. Supports generic spreadsheets as well as the Outlook and
+// Google Calendar export layouts, which split dates and times into separate columns.
+
+export type CSVDateFormat = 'iso' | 'us' | 'eu';
+
+export interface CSVTable {
+  delimiter: string;
+  hasHeader: boolean;
+  headers: string[]; // Header row, or generated "Column N" names
+  rows: string[][]; // Data rows only
+  rowNumbers: number[]; // 1-based line in the file where each data row starts
+  headerRowNumber: number | null; // Line of the header row, when there is one
+}
+
+// Column indexes for each CalendarEvent field; -1 means "not mapped"
+export interface CSVColumnMapping {
+  title: number;
+  startDate: number;
+  startTime: number;
+  endDate: number;
+  endTime: number;
+  allDay: number;
+}
+
+export interface CSVRowError {
+  row: number; // 1-based line in the file where the record starts, 0 for the whole file
+  message: string;
+}
+
+export interface CSVImportResult {
+  events: CalendarEvent[];
+  errors: CSVRowError[];
+}
+
+export interface CSVImportOptions {
+  rangeStart?: Date;
+  rangeEnd?: Date;
+}
+
+// One record of the file and the line it starts on
+interface CSVRecord {
+  cells: string[];
+  line: number;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+const DEFAULT_EVENT_MINUTES = 60;
+
+/**
+ * Splits CSV text into a table, detecting the delimiter and whether the first row is a header
+ */
+export function parseCSV(text: string): CSVTable {
+  const delimiter = detectDelimiter(text);
+  const records = splitRecords(text.replace(/^\uFEFF/, ''), delimiter)
+    .filter(record => record.cells.some(cell => cell.trim().length > 0));
+
+  if (records.length === 0) {
+    throw new Error("The CSV file is empty");
+  }
+
+  const hasHeader = detectHeader(records.map(record => record.cells));
+  const columnCount = Math.max(...records.map(record => record.cells.length));
+  const headers = hasHeader
+    ? Array.from({ length: columnCount }, (_, i) => records[0].cells[i]?.trim() || `Column ${i + 1}`)
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  return {
+    delimiter,
+    hasHeader,
+    headers,
+    rows: dataRecords.map(record => record.cells),
+    rowNumbers: dataRecords.map(record => record.line),
+    headerRowNumber: hasHeader ? records[0].line : null
+  };
+}
+
+/**
+ * Re-splits a table after the user overrides header detection
+ */
+export function setHeaderRow(table: CSVTable, hasHeader: boolean): CSVTable {
+  if (table.hasHeader === hasHeader) return table;
+
+  if (hasHeader) {
+    const [first = [], ...rest] = table.rows;
+    const [firstNumber = null, ...restNumbers] = table.rowNumbers;
+    return {
+      ...table,
+      hasHeader,
+      headers: table.headers.map((name, i) => first[i]?.trim() || name),
+      rows: rest,
+      rowNumbers: restNumbers,
+      headerRowNumber: firstNumber
+    };
+  }
+
+  return {
+    ...table,
+    hasHeader,
+    headers: table.headers.map((_, i) => `Column ${i + 1}`),
+    rows: [table.headers, ...table.rows],
+    rowNumbers: [table.headerRowNumber ?? 1, ...table.rowNumbers],
+    headerRowNumber: null
+  };
+}
+
+// Picks the delimiter that splits the first lines into the most consistent number of columns
+function detectDelimiter(text: string): string {
+  const sample = text.split(/\r\n?|\n/).filter(line => line.trim().length > 0).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = sample.map(line => splitRecords(line, delimiter)[0]?.cells.length ?? 1);
+    const columns = counts[0] ?? 1;
+    if (columns < 2) return;
+
+    const consistent = counts.filter(count => count === columns).length;
+    const score = consistent * columns;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+// RFC 4180 splitting: quoted fields may contain delimiters, newlines and doubled quotes.
+// Each record keeps the line it starts on, counting the newlines inside quoted fields.
+function splitRecords(text: string, delimiter: string): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push({ cells: record, line: recordLine });
+  }
+
+  return records;
+}
+
+// The first row is a header when none of its cells look like dates but the next row has some
+function detectHeader(records: string[][]): boolean {
+  const [first, second] = records;
+  const looksLikeDate = (cell: string) => parseDateParts(cell.trim(), 'iso') !== null
+    || parseDateParts(cell.trim(), 'us') !== null
+    || parseDateParts(cell.trim(), 'eu') !== null;
+
+  if (first.some(looksLikeDate)) return false;
+  if (!second) return first.every(cell => /[a-z]/i.test(cell));
+  return second.some(looksLikeDate) || first.every(cell => /[a-z]/i.test(cell));
+}
+
+/**
+ * Guesses which columns hold each event field from the header names
+ */
+export function guessColumnMapping(table: CSVTable): CSVColumnMapping {
+  const headers = table.headers.map(h => h.toLowerCase().trim());
+  const find = (...patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const index = headers.findIndex(h => pattern.test(h));
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  if (!table.hasHeader) {
+    // Without headers assume the common "title, start, end" layout
+    return {
+      title: 0,
+      startDate: table.headers.length > 1 ? 1 : -1,
+      startTime: -1,
+      endDate: table.headers.length > 2 ? 2 : -1,
+      endTime: -1,
+      allDay: -1
+    };
+  }
+
+  const startDate = find(/^start ?date$/, /^(start|begin|from)$/, /start|begin|from|^date$/);
+  const startTime = find(/^start ?time$/);
+  const endDate = find(/^end ?date$/, /^(end|finish|to|until)$/, /end|finish|until/);
+  const endTime = find(/^end ?time$/);
+
+  const allDay = find(/all ?day/);
+  let title = find(/^(subject|title|summary|event|name)$/, /^(?!all ?day).*(subject|title|summary|event|name|course)/);
+
+  if (title === -1) {
+    // Fall back to the first column that isn't used for anything else
+    const used = [startDate, startTime, endDate, endTime, allDay];
+    title = headers.findIndex((_, i) => !used.includes(i));
+  }
+
+  return {
+    title,
+    startDate,
+    // A single "Start Time" column holding full timestamps is used as the start date
+    startTime: startTime === startDate ? -1 : startTime,
+    endDate,
+    endTime: endTime === endDate ? -1 : endTime,
+    allDay
+  };
+}
+
+// Returns [year, month (1-12), day, rest-of-string] or null
+function parseDateParts(value: string, format: CSVDateFormat): [number, number, number, string] | null {
+  const match = format === 'iso'
+    ? value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(.*)$/)
+    : value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(.*)$/);
+
+  if (!match) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === 'iso') {
+    [year, month, day] = [+match[1], +match[2], +match[3]];
+  } else {
+    year = match[3].length === 2 ? 2000 + +match[3] : +match[3];
+    [month, day] = format === 'us' ? [+match[1], +match[2]] : [+match[2], +match[1]];
+  }
+
+  const check = new Date(year, month - 1, day);
+  if (check.getFullYear() !== year || check.getMonth() !== month - 1 || check.getDate() !== day) {
+    return null;
+  }
+
+  return [year, month, day, match[4]];
+}
+
+// Parses "9:00", "09:00:00", "9:00 AM" or "21.30" into minutes after midnight
+function parseTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\.\d+)?\s*([ap]\.?m\.?)?(?:Z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+
+  let hours = +match[1];
+  const minutes = +match[2];
+  const meridiem = match[4]?.toLowerCase().replace(/\./g, '');
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Detects the date format used by a column from its values. Ambiguous
+ * values (e.g. 03/04/2025) default to the US layout used by Outlook exports.
+ */
+export function detectDateFormat(values: string[]): CSVDateFormat {
+  const nonEmpty = values.map(v => v.trim()).filter(v => v.length > 0);
+
+  if (nonEmpty.length > 0 && nonEmpty.every(v => /^\d{4}[-/.]/.test(v))) {
+    return 'iso';
+  }
+
+  let usPossible = true;
+  let euPossible = true;
+
+  nonEmpty.forEach(value => {
+    if (!parseDateParts(value, 'us')) usPossible = false;
+    if (!parseDateParts(value, 'eu')) euPossible = false;
+  });
+
+  if (euPossible && !usPossible) return 'eu';
+  return 'us';
+}
+
+// Parses a date with an optional trailing time; time is null for date-only values
+function parseDateTime(value: string, format: CSVDateFormat): { date: Date; time: number | null } | null {
+  const trimmed = value.trim();
+  const parts = parseDateParts(trimmed, /^\d{4}/.test(trimmed) ? 'iso' : format);
+  if (!parts) return null;
+
+  const [year, month, day, rest] = parts;
+  const timeText = rest.replace(/^[T\s,]+/, '');
+  const time = timeText.length > 0 ? parseTime(timeText) : null;
+
+  if (timeText.length > 0 && time === null) return null;
+
+  // ISO values carrying an explicit offset are absolute instants
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(timeText) && !isNaN(Date.parse(trimmed))) {
+    const date = new Date(trimmed);
+    return { date, time: date.getHours() * 60 + date.getMinutes() };
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (time !== null) {
+    date.setHours(Math.floor(time / 60), time % 60);
+  }
+
+  return { date, time };
+}
+
+function parseBoolean(value: string): boolean {
+  return ['true', 'yes', 'y', '1', 'x'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Converts table rows into calendar events. Invalid rows are reported
+ * individually instead of failing the whole import.
+ */
+export function mapCSVRows(
+  table: CSVTable,
+  mapping: CSVColumnMapping,
+  dateFormat: CSVDateFormat,
+  options: CSVImportOptions = {}
+): CSVImportResult {
+  const events: CalendarEvent[] = [];
+  const errors: CSVRowError[] = [];
+
+  if (mapping.title === -1 || mapping.startDate === -1) {
+    return { events, errors: [{ row: 0, message: "Map at least the title and start columns" }] };
+  }
+
+  table.rows.forEach((row, index) => {
+    const line = table.rowNumbers[index] ?? 0;
+    const cell = (column: number) => (column >= 0 ? (row[column] ?? '').trim() : '');
+
+    const title = cell(mapping.title);
+    if (!title) {
+      errors.push({ row: line, message: "Missing title" });
+      return;
+    }
+
+    const start = parseDateTime(cell(mapping.startDate), dateFormat);
+    if (!start) {
+      errors.push({ row: line, message: `Invalid start date "${cell(mapping.startDate)}"` });
+      return;
+    }
+
+    if (mapping.startTime !== -1 && cell(mapping.startTime)) {
+      const time = parseTime(cell(mapping.startTime));
+      if (time === null) {
+        errors.push({ row: line, message: `Invalid start time "${cell(mapping.startTime)}"` });
+        return;
+      }
+      start.date.setHours(Math.floor(time / 60), time % 60);
+      start.time = time;
+    }
+
+    const allDay = mapping.allDay !== -1 && cell(mapping.allDay)
+      ? parseBoolean(cell(mapping.allDay))
+      : start.time === null;
+
+    let end: Date;
+    const endText = cell(mapping.endDate);
+    const endTimeText = cell(mapping.endTime);
+
+    if (endText) {
+      const parsedEnd = parseDateTime(endText, dateFormat);
+      if (!parsedEnd) {
+        errors.push({ row: line, message: `Invalid end date "${endText}"` });
+        return;
+      }
+      end = parsedEnd.date;
+    } else {
+      end = new Date(start.date);
+    }
+
+    if (endTimeText) {
+      const time = parseTime(endTimeText);
+      if (time === null) {
+        errors.push({ row: line, message: `Invalid end time "${endTimeText}"` });
+        return;
+      }
+      end.setHours(Math.floor(time / 60), time % 60);
+    }
+
+    if (allDay) {
+      // Exports list the last day of an all-day event inclusively
+      start.date.setHours(0, 0, 0, 0);
+      end.setHours(0, 0, 0, 0);
+      end.setDate(end.getDate() + 1);
+    } else if (end.getTime() === start.date.getTime() && !endText && !endTimeText) {
+      // No end given, whether or not the end columns are mapped
+      end = new Date(start.date.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000);
+    }
+
+    if (end.getTime() <= start.date.getTime()) {
+      errors.push({ row: line, message: "End is before start" });
+      return;
+    }
+
+    if (options.rangeStart && end < options.rangeStart) return;
+    if (options.rangeEnd && start.date > options.rangeEnd) return;
+
+    events.push({
+      title,
+      start: start.date.toISOString(),
+      end: end.toISOString(),
+      allDay
+    });
+  });
+
+  events.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+  return { events, errors };
+}
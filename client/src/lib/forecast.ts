@@ -0,0 +1,20 @@
+/**
+ * Exam readiness forecast
+ *
+ * The server projects the recent study pace forward to the exam: whether the
+ * plan's open tasks will be done in time, how ready each topic will be, and a
+ * suggested catch-up action for topics at risk.
+ */
+
+import { browserTimeZone, fetcher } from './utils';
+import type { ExamForecast } from '@shared/forecast';
+
+export type { ExamForecast, ForecastAction, ForecastActionType, TopicForecast } from '@shared/forecast';
+export { READINESS_TARGET } from '@shared/forecast';
+
+/**
+ * The exam forecast of a plan
+ */
+export async function getExamForecast(planId: number | string): Promise<ExamForecast> {
+  return fetcher<ExamForecast>(`/plans/${planId}/forecast?timeZone=${encodeURIComponent(browserTimeZone())}`);
+}
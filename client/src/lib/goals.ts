@@ -0,0 +1,28 @@
+/**
+ * Study goals: daily and weekly targets, streaks and weekly attainment
+ *
+ * Targets come from the plan's weekly study time, spread over the days that
+ * aren't rest days; the server works out the streak and each week's result.
+ */
+
+import { browserTimeZone, fetcher } from './utils';
+import type { GoalSummary } from '@shared/goals';
+
+export type { DayGoal, GoalSummary, StreakSummary, WeekGoal } from '@shared/goals';
+
+/**
+ * A plan's targets, streak and week-by-week attainment
+ */
+export async function getPlanGoals(planId: number): Promise<GoalSummary> {
+  return fetcher<GoalSummary>(`/plans/${planId}/goals?timeZone=${encodeURIComponent(browserTimeZone())}`);
+}
+
+/**
+ * Set the days of the week without a study goal (0 = Sunday)
+ */
+export async function updateRestDays(planId: number, restDays: number[]): Promise<GoalSummary> {
+  return fetcher<GoalSummary>(`/plans/${planId}/goals?timeZone=${encodeURIComponent(browserTimeZone())}`, {
+    method: 'PUT',
+    body: JSON.stringify({ restDays }),
+  });
+}
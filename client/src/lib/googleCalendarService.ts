@@ -1,4 +1,5 @@
 import { StudyTask } from "@/types";
+import { authHeaders } from "./authToken";
 
 export interface GoogleCalendarEvent {
   title: string;
@@ -35,7 +36,7 @@ interface CalendarSyncState {
  */
 export async function getGoogleAuthUrl(): Promise<string> {
   try {
-    const response = await fetch('/api/auth/google/url');
+    const response = await fetch('/api/auth/google/url', { headers: await authHeaders() });
     const data = await response.json();
     return data.url;
   } catch (error) {
@@ -72,7 +73,7 @@ export async function checkGoogleAuth(): Promise<boolean> {
   }
   
   try {
-    const response = await fetch('/api/auth/google/status');
+    const response = await fetch('/api/auth/google/status', { headers: await authHeaders() });
     if (!response.ok) {
       return false;
     }
@@ -179,7 +180,8 @@ export async function exportToGoogleCalendar(
     const response = await fetch('/api/calendar/google/export', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(await authHeaders())
       },
       body: JSON.stringify({
         events: eventsWithIds,
@@ -201,7 +203,7 @@ export async function exportToGoogleCalendar(
         };
       }
       
-      throw new Error(errorData.message || 'Failed to export to Google Calendar');
+      throw new Error(errorData.error || errorData.message || 'Failed to export to Google Calendar');
     }
     
     const data = await response.json();
@@ -233,12 +235,13 @@ export async function disableGoogleCalendarSync(): Promise<boolean> {
   
   try {
     const response = await fetch('/api/calendar/google/disable-sync', {
-      method: 'POST'
+      method: 'POST',
+      headers: await authHeaders()
     });
     
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.message || 'Failed to disable Google Calendar sync');
+      throw new Error(errorData.error || errorData.message || 'Failed to disable Google Calendar sync');
     }
     
     return true;
@@ -262,11 +265,11 @@ export async function fetchUserCalendars(): Promise<{id: string, name: string}[]
   }
   
   try {
-    const response = await fetch('/api/calendar/google/list');
+    const response = await fetch('/api/calendar/google/list', { headers: await authHeaders() });
     
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.message || 'Failed to fetch calendars');
+      throw new Error(errorData.error || errorData.message || 'Failed to fetch calendars');
     }
     
     const data = await response.json();
@@ -294,14 +297,15 @@ export async function createStudyPlanCalendar(name: string): Promise<{id: string
     const response = await fetch('/api/calendar/google/create', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json'
+        'Content-Type': 'application/json',
+        ...(await authHeaders())
       },
       body: JSON.stringify({ name })
     });
     
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.message || 'Failed to create calendar');
+      throw new Error(errorData.error || errorData.message || 'Failed to create calendar');
     }
     
     const data = await response.json();
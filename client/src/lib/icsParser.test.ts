@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { parseICS } from './icsParser';
+
+const range = { rangeStart: new Date('2026-01-01T00:00:00Z'), rangeEnd: new Date('2027-12-31T00:00:00Z') };
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+function event(...lines: string[]): string[] {
+  return ['BEGIN:VEVENT', 'UID:lecture-1', 'SUMMARY:Lecture', ...lines, 'END:VEVENT'];
+}
+
+function starts(text: string): string[] {
+  return parseICS(text, range).map(e => e.start);
+}
+
+// Europe/Berlin written out by hand, with a TZID that isn't an IANA name
+const berlin = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Custom Berlin',
+  'BEGIN:DAYLIGHT',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+describe('parseICS recurrence', () => {
+  it.each([
+    {
+      name: 'BYSETPOS picks the last weekday of each month',
+      lines: event('DTSTART:20260130T100000Z', 'RRULE:FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3'),
+      expected: ['2026-01-30T10:00:00.000Z', '2026-02-27T10:00:00.000Z', '2026-03-31T10:00:00.000Z'],
+    },
+    {
+      name: 'BYSETPOS picks the second Tuesday or Thursday',
+      lines: event('DTSTART:20260106T100000Z', 'RRULE:FREQ=MONTHLY;BYDAY=TU,TH;BYSETPOS=2;COUNT=2'),
+      expected: ['2026-01-06T10:00:00.000Z', '2026-02-05T10:00:00.000Z'],
+    },
+    {
+      name: 'a negative BYMONTHDAY counts from the end of the month',
+      lines: event('DTSTART:20260131T090000Z', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3'),
+      expected: ['2026-01-31T09:00:00.000Z', '2026-02-28T09:00:00.000Z', '2026-03-31T09:00:00.000Z'],
+    },
+    {
+      name: 'BYMONTHDAY=-3 in February is the 26th',
+      lines: event('DTSTART:20270226T090000Z', 'RRULE:FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-3;COUNT=1'),
+      expected: ['2027-02-26T09:00:00.000Z'],
+    },
+    {
+      name: 'a YEARLY BYDAY ordinal counts weekdays across the year',
+      lines: event('DTSTART:20260518T080000Z', 'RRULE:FREQ=YEARLY;BYDAY=20MO;COUNT=2'),
+      expected: ['2026-05-18T08:00:00.000Z', '2027-05-17T08:00:00.000Z'],
+    },
+    {
+      name: 'a YEARLY BYDAY ordinal with BYMONTH counts within the month',
+      lines: event('DTSTART:20261126T170000Z', 'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=2'),
+      expected: ['2026-11-26T17:00:00.000Z', '2027-11-25T17:00:00.000Z'],
+    },
+    {
+      name: 'UNTIL as a date includes that whole day',
+      lines: event('DTSTART:20260301T100000Z', 'RRULE:FREQ=DAILY;UNTIL=20260303'),
+      expected: ['2026-03-01T10:00:00.000Z', '2026-03-02T10:00:00.000Z', '2026-03-03T10:00:00.000Z'],
+    },
+    {
+      name: 'UNTIL as a date-time stops at that instant',
+      lines: event('DTSTART:20260301T100000Z', 'RRULE:FREQ=DAILY;UNTIL=20260303T095959Z'),
+      expected: ['2026-03-01T10:00:00.000Z', '2026-03-02T10:00:00.000Z'],
+    },
+    {
+      name: 'EXDATE removes an occurrence, by instant or by whole day',
+      lines: event(
+        'DTSTART:20260301T100000Z',
+        'RRULE:FREQ=DAILY;COUNT=5',
+        'EXDATE:20260302T100000Z',
+        'EXDATE;VALUE=DATE:20260304'
+      ),
+      expected: ['2026-03-01T10:00:00.000Z', '2026-03-03T10:00:00.000Z', '2026-03-05T10:00:00.000Z'],
+    },
+    {
+      name: 'a RECURRENCE-ID event replaces that occurrence of the series',
+      lines: [
+        ...event('DTSTART:20260301T100000Z', 'RRULE:FREQ=DAILY;COUNT=3'),
+        ...event('RECURRENCE-ID:20260302T100000Z', 'DTSTART:20260302T150000Z'),
+      ],
+      expected: ['2026-03-01T10:00:00.000Z', '2026-03-02T15:00:00.000Z', '2026-03-03T10:00:00.000Z'],
+    },
+    {
+      name: 'VTIMEZONE onsets move the UTC time when daylight saving starts',
+      // Summer time starts on Sunday 29 March 2026
+      lines: [...berlin, ...event('DTSTART;TZID=Custom Berlin:20260320T090000', 'RRULE:FREQ=WEEKLY;COUNT=3')],
+      expected: ['2026-03-20T08:00:00.000Z', '2026-03-27T08:00:00.000Z', '2026-04-03T07:00:00.000Z'],
+    },
+    {
+      name: 'VTIMEZONE onsets move the UTC time back when daylight saving ends',
+      // Winter time starts on Sunday 25 October 2026
+      lines: [...berlin, ...event('DTSTART;TZID=Custom Berlin:20261024T090000', 'RRULE:FREQ=DAILY;COUNT=2')],
+      expected: ['2026-10-24T07:00:00.000Z', '2026-10-25T08:00:00.000Z'],
+    },
+  ])('$name', ({ lines, expected }) => {
+    expect(starts(calendar(...lines))).toEqual(expected);
+  });
+});
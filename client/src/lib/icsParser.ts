@@ -0,0 +1,634 @@
+import { CalendarEvent } from "../types";
+
+// Parser for iCalendar (RFC 5545) files, used by the calendar import dialog.
+// Recurring events are expanded into individual CalendarEvent occurrences so
+// the plan generators only ever have to deal with concrete busy blocks.
+
+export interface ICSParseOptions {
+  rangeStart?: Date; // Occurrences ending before this are dropped (default: now)
+  rangeEnd?: Date; // Occurrences starting after this are dropped (default: 180 days out)
+}
+
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICSComponent {
+  type: string;
+  properties: ICSProperty[];
+  components: ICSComponent[];
+}
+
+// A date as written in the file. `wall` holds the wall-clock time encoded as
+// UTC milliseconds so recurrence arithmetic never crosses a DST boundary.
+interface ICSDateValue {
+  wall: number;
+  isDate: boolean;
+  isUtc: boolean;
+  tzid?: string;
+}
+
+// Converts a wall-clock time into an absolute instant (UTC milliseconds)
+type ZoneResolver = (wall: number) => number;
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: ICSDateValue;
+  byDay: { weekday: number; ordinal: number }[]; // ordinal 0 means "every"
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+  weekStart: number; // 0 = Sunday
+}
+
+interface Occurrence {
+  wall: number;
+  instant: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WINDOW_DAYS = 180;
+const MAX_OCCURRENCES = 1000; // Per recurring event
+const MAX_PERIODS = 50000; // Guards against rules that never match
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Parses an ICS file into calendar events, expanding recurrences inside the given window
+ */
+export function parseICS(text: string, options: ICSParseOptions = {}): CalendarEvent[] {
+  const root = parseComponents(unfoldLines(text));
+  const calendar = root.components.find(c => c.type === 'VCALENDAR');
+
+  if (!calendar) {
+    throw new Error("The file is not a valid iCalendar (.ics) file");
+  }
+
+  const rangeStart = (options.rangeStart ?? new Date()).getTime();
+  const rangeEnd = options.rangeEnd
+    ? options.rangeEnd.getTime()
+    : rangeStart + DEFAULT_WINDOW_DAYS * DAY_MS;
+
+  const timezones = new Map<string, ZoneResolver>();
+  calendar.components
+    .filter(c => c.type === 'VTIMEZONE')
+    .forEach(vtimezone => {
+      const tzid = getProperty(vtimezone, 'TZID')?.value;
+      const resolver = createVTimezoneResolver(vtimezone);
+      if (tzid && resolver) {
+        timezones.set(tzid, resolver);
+      }
+    });
+
+  const vevents = calendar.components.filter(c => c.type === 'VEVENT');
+
+  // Occurrences of a series that are replaced by a standalone VEVENT carrying a RECURRENCE-ID
+  const overridden = new Set<string>();
+  vevents.forEach(vevent => {
+    const uid = getProperty(vevent, 'UID')?.value;
+    const recurrenceId = getProperty(vevent, 'RECURRENCE-ID');
+    const date = recurrenceId && parseDateValue(recurrenceId);
+    if (uid && date) {
+      overridden.add(`${uid}|${getResolver(date, timezones)(date.wall)}`);
+    }
+  });
+
+  const events = vevents.flatMap(vevent =>
+    expandEvent(vevent, timezones, overridden, rangeStart, rangeEnd)
+  );
+
+  return events.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+}
+
+// Joins folded lines (a line break followed by a space or tab continues the previous line)
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const ch of text) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    }
+    if (ch === separator && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+function parseContentLine(line: string): ICSProperty | null {
+  let inQuotes = false;
+  let colonIndex = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colonIndex), ';');
+  const params: Record<string, string> = {};
+
+  rawParams.forEach(param => {
+    const eq = param.indexOf('=');
+    if (eq !== -1) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+}
+
+function parseComponents(lines: string[]): ICSComponent {
+  const root: ICSComponent = { type: 'ROOT', properties: [], components: [] };
+  const stack = [root];
+
+  lines.forEach(line => {
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    const current = stack[stack.length - 1];
+
+    if (property.name === 'BEGIN') {
+      const component: ICSComponent = {
+        type: property.value.trim().toUpperCase(),
+        properties: [],
+        components: []
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  });
+
+  return root;
+}
+
+function getProperty(component: ICSComponent, name: string): ICSProperty | undefined {
+  return component.properties.find(p => p.name === name);
+}
+
+function getProperties(component: ICSComponent, name: string): ICSProperty[] {
+  return component.properties.filter(p => p.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+function parseDateValue(property: ICSProperty): ICSDateValue | null {
+  return parseDateString(property.value, property.params);
+}
+
+function parseDateString(value: string, params: Record<string, string>): ICSDateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+
+  return {
+    wall: Date.UTC(+year, +month - 1, +day, hour ? +hour : 0, minute ? +minute : 0, second ? +second : 0),
+    isDate: params.VALUE === 'DATE' || hour === undefined,
+    isUtc: utc === 'Z',
+    tzid: params.TZID
+  };
+}
+
+// Parses durations like P1W, P2D, PT1H30M
+function parseDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 3600
+    + +(hours || 0) * 3600
+    + +(minutes || 0) * 60
+    + +(seconds || 0)) * 1000;
+
+  return sign === '-' ? -ms : ms;
+}
+
+// Parses UTC offsets like +0100, -0500 or +053000
+function parseUtcOffset(value: string): number {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+
+  const [, sign, hours, minutes, seconds] = match;
+  const ms = (+hours * 3600 + +minutes * 60 + +(seconds || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// Floating times and all-day dates are interpreted in the browser's local timezone
+const floatingResolver: ZoneResolver = wall => {
+  const d = new Date(wall);
+  return new Date(
+    d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(),
+    d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds()
+  ).getTime();
+};
+
+const utcResolver: ZoneResolver = wall => wall;
+
+function getResolver(date: ICSDateValue, timezones: Map<string, ZoneResolver>): ZoneResolver {
+  if (date.isUtc) return utcResolver;
+  if (date.isDate || !date.tzid) return floatingResolver;
+
+  let resolver = timezones.get(date.tzid);
+  if (!resolver) {
+    // TZIDs without a VTIMEZONE block are usually IANA names (e.g. Google exports)
+    resolver = createIanaResolver(date.tzid) ?? floatingResolver;
+    timezones.set(date.tzid, resolver);
+  }
+  return resolver;
+}
+
+function createIanaResolver(tzid: string): ZoneResolver | null {
+  let formatter: Intl.DateTimeFormat;
+
+  try {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+  } catch {
+    return null;
+  }
+
+  const offsetAt = (instant: number) => {
+    const parts: Record<string, number> = {};
+    formatter.formatToParts(new Date(instant)).forEach(part => {
+      parts[part.type] = +part.value;
+    });
+    const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wall - Math.floor(instant / 1000) * 1000;
+  };
+
+  return wall => {
+    // Two passes settle on the right offset except inside a DST gap
+    const guess = wall - offsetAt(wall);
+    return wall - offsetAt(guess);
+  };
+}
+
+function createVTimezoneResolver(vtimezone: ICSComponent): ZoneResolver | null {
+  const observances = vtimezone.components
+    .filter(c => c.type === 'STANDARD' || c.type === 'DAYLIGHT')
+    .map(observance => {
+      const dtstart = getProperty(observance, 'DTSTART');
+      const rrule = getProperty(observance, 'RRULE');
+      const rdates = getProperties(observance, 'RDATE').flatMap(p =>
+        p.value.split(',').map(v => parseDateString(v, p.params)).filter((d): d is ICSDateValue => d !== null)
+      );
+
+      return {
+        start: dtstart ? parseDateValue(dtstart) : null,
+        rule: rrule ? parseRecurrenceRule(rrule.value) : null,
+        rdates: rdates.map(d => d.wall),
+        offsetFrom: parseUtcOffset(getProperty(observance, 'TZOFFSETFROM')?.value || ''),
+        offsetTo: parseUtcOffset(getProperty(observance, 'TZOFFSETTO')?.value || '')
+      };
+    })
+    .filter(o => o.start !== null);
+
+  if (observances.length === 0) return null;
+
+  return wall => {
+    let latestOnset = -Infinity;
+    let offset = observances[0].offsetFrom;
+
+    observances.forEach(observance => {
+      const onsets = observance.rule
+        ? expandRule(observance.rule, observance.start!.wall, onset => onset > wall)
+        : [observance.start!.wall];
+
+      [...onsets, ...observance.rdates]
+        .filter(onset => onset <= wall)
+        .forEach(onset => {
+          if (onset > latestOnset) {
+            latestOnset = onset;
+            offset = observance.offsetTo;
+          }
+        });
+    });
+
+    return wall - offset;
+  };
+}
+
+function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+  });
+
+  const freq = parts.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    return null;
+  }
+
+  const toNumbers = (list?: string) =>
+    list ? list.split(',').map(Number).filter(n => !isNaN(n) && n !== 0) : [];
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : [])
+    .map(entry => {
+      const match = entry.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+      return match ? { weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? +match[1] : 0 } : null;
+    })
+    .filter((d): d is { weekday: number; ordinal: number } => d !== null);
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseDateString(parts.UNTIL, {}) ?? undefined : undefined,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH),
+    bySetPos: toNumbers(parts.BYSETPOS),
+    weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1
+  };
+}
+
+// Expands a recurrence rule into wall-clock start times, including DTSTART itself.
+// Occurrences before `from` still count towards COUNT but are not returned.
+function expandRule(
+  rule: RecurrenceRule,
+  start: number,
+  isPastEnd: (wall: number) => boolean,
+  from = -Infinity
+): number[] {
+  const occurrences: number[] = [];
+  const timeOfDay = ((start % DAY_MS) + DAY_MS) % DAY_MS;
+  const startDay = start - timeOfDay;
+  let counted = 0;
+
+  const add = (wall: number) => {
+    counted++;
+    if (wall >= from) occurrences.push(wall);
+    return counted >= (rule.count ?? Infinity) || occurrences.length >= MAX_OCCURRENCES;
+  };
+
+  if (isPastEnd(start) || add(start)) return occurrences;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = applySetPos(
+      candidateDays(rule, startDay, period).sort((a, b) => a - b),
+      rule.bySetPos
+    );
+
+    for (const day of candidates) {
+      const wall = day + timeOfDay;
+      if (wall <= start) continue;
+      if (isPastEnd(wall) || add(wall)) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+function candidateDays(rule: RecurrenceRule, startDay: number, period: number): number[] {
+  const start = new Date(startDay);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + step * DAY_MS;
+      return matchesDayFilters(day, rule) ? [day] : [];
+    }
+
+    case 'WEEKLY': {
+      const offset = (start.getUTCDay() - rule.weekStart + 7) % 7;
+      const weekStart = startDay - offset * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+
+      return Array.from({ length: 7 }, (_, i) => weekStart + i * DAY_MS).filter(day =>
+        weekdays.includes(new Date(day).getUTCDay()) &&
+        (rule.byMonth.length === 0 || rule.byMonth.includes(new Date(day).getUTCMonth() + 1))
+      );
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month + 1)) return [];
+      return monthCandidates(year, month, rule, start.getUTCDate());
+    }
+
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + step;
+
+      // BYDAY without BYMONTH counts weekday ordinals across the whole year
+      if (rule.byMonth.length === 0 && rule.byMonthDay.length === 0 && rule.byDay.length > 0) {
+        const days = Array.from({ length: 366 }, (_, i) => Date.UTC(year, 0, 1 + i))
+          .filter(day => new Date(day).getUTCFullYear() === year);
+        return selectWeekdays(days, rule.byDay);
+      }
+
+      const months = rule.byMonth.length > 0
+        ? rule.byMonth.map(m => m - 1)
+        : rule.byMonthDay.length > 0 ? Array.from({ length: 12 }, (_, i) => i) : [start.getUTCMonth()];
+
+      return months.flatMap(month => monthCandidates(year, month, rule, start.getUTCDate()));
+    }
+  }
+}
+
+function monthCandidates(year: number, month: number, rule: RecurrenceRule, defaultDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const allDays = Array.from({ length: daysInMonth }, (_, i) => Date.UTC(year, month, i + 1));
+
+  let days: number[] = [];
+
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay
+      .map(d => (d > 0 ? d : daysInMonth + d + 1))
+      .filter(d => d >= 1 && d <= daysInMonth)
+      .map(d => Date.UTC(year, month, d));
+  }
+
+  if (rule.byDay.length > 0) {
+    const weekdayDays = selectWeekdays(allDays, rule.byDay);
+    days = rule.byMonthDay.length > 0 ? days.filter(d => weekdayDays.includes(d)) : weekdayDays;
+  }
+
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0) {
+    days = defaultDay <= daysInMonth ? [Date.UTC(year, month, defaultDay)] : [];
+  }
+
+  return Array.from(new Set(days));
+}
+
+// Picks the days matching BYDAY entries such as MO (every Monday) or -1FR (last Friday)
+function selectWeekdays(days: number[], byDay: RecurrenceRule['byDay']): number[] {
+  return byDay.flatMap(({ weekday, ordinal }) => {
+    const matching = days.filter(day => new Date(day).getUTCDay() === weekday);
+    if (ordinal === 0) return matching;
+
+    const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+    return picked !== undefined ? [picked] : [];
+  });
+}
+
+function matchesDayFilters(day: number, rule: RecurrenceRule): boolean {
+  const date = new Date(day);
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(date.getUTCMonth() + 1)) return false;
+  if (rule.byDay.length > 0 && !rule.byDay.some(d => d.weekday === date.getUTCDay())) return false;
+  if (rule.byMonthDay.length > 0 && !rule.byMonthDay.some(d =>
+    (d > 0 ? d : daysInMonth + d + 1) === date.getUTCDate()
+  )) return false;
+
+  return true;
+}
+
+function applySetPos(candidates: number[], bySetPos: number[]): number[] {
+  if (bySetPos.length === 0) return candidates;
+
+  return bySetPos
+    .map(pos => (pos > 0 ? candidates[pos - 1] : candidates[candidates.length + pos]))
+    .filter((day): day is number => day !== undefined)
+    .sort((a, b) => a - b);
+}
+
+function expandEvent(
+  vevent: ICSComponent,
+  timezones: Map<string, ZoneResolver>,
+  overridden: Set<string>,
+  rangeStart: number,
+  rangeEnd: number
+): CalendarEvent[] {
+  const dtstartProperty = getProperty(vevent, 'DTSTART');
+  const dtstart = dtstartProperty && parseDateValue(dtstartProperty);
+
+  if (!dtstart || getProperty(vevent, 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return [];
+  }
+
+  const resolve = getResolver(dtstart, timezones);
+  const uid = getProperty(vevent, 'UID')?.value;
+  const isOverride = !!getProperty(vevent, 'RECURRENCE-ID');
+  const title = unescapeText(getProperty(vevent, 'SUMMARY')?.value || '') || 'Busy';
+
+  // All-day durations are measured in calendar days, timed ones in absolute time
+  let duration = dtstart.isDate ? DAY_MS : 0;
+  const dtendProperty = getProperty(vevent, 'DTEND');
+  const dtend = dtendProperty && parseDateValue(dtendProperty);
+  const durationValue = getProperty(vevent, 'DURATION');
+
+  if (dtend) {
+    duration = dtstart.isDate
+      ? dtend.wall - dtstart.wall
+      : getResolver(dtend, timezones)(dtend.wall) - resolve(dtstart.wall);
+  } else if (durationValue) {
+    duration = parseDuration(durationValue.value.trim()) ?? duration;
+  }
+
+  const rruleProperty = getProperty(vevent, 'RRULE');
+  const rule = rruleProperty && !isOverride ? parseRecurrenceRule(rruleProperty.value) : null;
+
+  let occurrences: Occurrence[];
+
+  if (rule) {
+    const until = rule.until;
+    const untilInstant = until && !until.isDate ? getResolver(until, timezones)(until.wall) : null;
+
+    const starts = expandRule(rule, dtstart.wall, wall => {
+      if (resolve(wall) > rangeEnd) return true;
+      if (until?.isDate) return wall >= until.wall + DAY_MS;
+      return untilInstant !== null && resolve(wall) > untilInstant;
+    }, rangeStart - Math.max(duration, 0) - DAY_MS);
+
+    occurrences = starts.map(wall => ({ wall, instant: resolve(wall) }));
+  } else {
+    occurrences = [{ wall: dtstart.wall, instant: resolve(dtstart.wall) }];
+  }
+
+  // Extra occurrences (RDATE) and removed ones (EXDATE)
+  getProperties(vevent, 'RDATE').forEach(property => {
+    property.value.split(',').forEach(value => {
+      const date = parseDateString(value.split('/')[0], property.params);
+      if (date) {
+        occurrences.push({ wall: date.wall, instant: getResolver(date, timezones)(date.wall) });
+      }
+    });
+  });
+
+  const excludedInstants = new Set<number>();
+  const excludedDays = new Set<number>();
+
+  getProperties(vevent, 'EXDATE').forEach(property => {
+    property.value.split(',').forEach(value => {
+      const date = parseDateString(value, property.params);
+      if (!date) return;
+
+      if (date.isDate) {
+        excludedDays.add(date.wall);
+      } else {
+        excludedInstants.add(getResolver(date, timezones)(date.wall));
+      }
+    });
+  });
+
+  const seen = new Set<number>();
+
+  return occurrences
+    .filter(({ wall, instant }) => {
+      if (seen.has(instant)) return false;
+      seen.add(instant);
+
+      if (excludedInstants.has(instant)) return false;
+      if (excludedDays.has(wall - (((wall % DAY_MS) + DAY_MS) % DAY_MS))) return false;
+      if (!isOverride && uid && overridden.has(`${uid}|${instant}`)) return false;
+      return true;
+    })
+    .map(({ wall, instant }) => ({
+      start: instant,
+      end: dtstart.isDate ? resolve(wall + duration) : instant + duration
+    }))
+    .filter(({ start, end }) => end > rangeStart && start <= rangeEnd)
+    .map(({ start, end }) => ({
+      title,
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      allDay: dtstart.isDate
+    }));
+}
@@ -5,7 +5,9 @@
  * Used as a fallback when API keys are missing or when in mock/development mode.
  */
 
-import { AIStudyPlanResponse, AIWeeklyPlan, LearningStyle } from "../types";
+import { AIStudyPlanResponse, AIWeeklyPlan, CalendarEvent, LearningStyle } from "../types";
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from "date-fns";
+import { scheduleStudySessions } from "@shared/scheduler";
 
 interface PlanGenerationData {
   courseName: string;
@@ -18,6 +20,9 @@ interface PlanGenerationData {
   resources?: string[];
   targetScore?: number;
   progress?: string;
+  calendarEvents?: CalendarEvent[];
+  availableDays?: number[];
+  studyWindow?: { startHour: number; endHour: number };
 }
 
 /**
@@ -269,127 +274,72 @@ function generateWeeklyPlan(
   topics: string[], 
   resources: string[]
 ): AIWeeklyPlan[] {
-  const {
-    studyPreference,
-    weeklyStudyTime
-  } = planData;
-  
-  const weeklyPlan: AIWeeklyPlan[] = [];
-  const topicsPerWeek = Math.max(1, Math.ceil(topics.length / (weeks - 1))); // Save the last week for review
-  
-  // Session duration based on preference
-  const sessionDuration = studyPreference === 'short' ? 30 : 60;
-  
-  // Calculate sessions per week based on weekly study time
-  const sessionsPerWeek = Math.floor((weeklyStudyTime * 60) / sessionDuration);
-  const daysPerWeek = Math.min(5, sessionsPerWeek); // Cap at 5 days per week
-  
-  const weekdays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-  
-  // Helper to get a date range string for a week
-  const getDateRange = (weekNum: number) => {
-    const today = new Date();
-    const startDate = new Date(today);
-    startDate.setDate(today.getDate() + (weekNum - 1) * 7);
-    
-    const endDate = new Date(startDate);
-    endDate.setDate(startDate.getDate() + 6);
-    
-    const formatDate = (date: Date) => {
-      return `${date.getMonth() + 1}/${date.getDate()}`;
-    };
-    
-    return `${formatDate(startDate)}-${formatDate(endDate)}`;
-  };
-  
-  // Generate the weekly plan
-  for (let week = 1; week <= weeks; week++) {
-    const isLastWeek = week === weeks;
-    
-    // Determine topics for this week
-    let weekTopics;
-    if (isLastWeek) {
-      weekTopics = topics; // Review all topics in the last week
-    } else {
-      const startIdx = (week - 1) * topicsPerWeek;
-      weekTopics = topics.slice(startIdx, startIdx + topicsPerWeek);
-    }
-    
-    // If no topics for this week (shouldn't happen), skip
-    if (weekTopics.length === 0) continue;
-    
-    const weekPlan: AIWeeklyPlan = {
-      week,
-      dateRange: getDateRange(week),
-      focus: isLastWeek ? "Final Review" : `${weekTopics.join(", ")}`,
+  const today = startOfDay(new Date());
+
+  // Lay out dated sessions around the student's availability and commitments
+  const sessions = scheduleStudySessions({
+    startDate: format(today, 'yyyy-MM-dd'),
+    examDate: planData.examDate,
+    weeklyStudyTime: planData.weeklyStudyTime,
+    sessionLength: planData.studyPreference,
+    topics: topics.map(title => ({ title })),
+    availableDays: planData.availableDays,
+    windows: planData.studyWindow ? [planData.studyWindow] : undefined,
+    busyEvents: planData.calendarEvents
+  });
+
+  const weeklyPlan: AIWeeklyPlan[] = Array.from({ length: weeks }, (_, i) => {
+    const startDate = addDays(today, i * 7);
+    return {
+      week: i + 1,
+      dateRange: `${format(startDate, 'M/d')}-${format(addDays(startDate, 6), 'M/d')}`,
+      focus: '',
       days: []
     };
-    
-    // Create daily tasks
-    const studyDays = weekdays.slice(0, daysPerWeek);
-    
-    studyDays.forEach((day, dayIndex) => {
-      // Number of tasks per day
-      const tasksPerDay = Math.max(1, Math.ceil(sessionsPerWeek / daysPerWeek));
-      const dailyTasks = [];
-      
-      for (let t = 0; t < tasksPerDay; t++) {
-        // Select a topic for this task
-        const topicIndex = isLastWeek 
-          ? (dayIndex + t) % topics.length // Distribute review of all topics
-          : (t % weekTopics.length); // Focus on this week's topics
-          
-        const topic = isLastWeek ? topics[topicIndex] : weekTopics[topicIndex];
-        
-        // Select a resource
-        const resource = resources[Math.floor(Math.random() * resources.length)];
-        
-        // Determine activity type
-        let activityType;
-        if (isLastWeek) {
-          // Last week focuses on review and practice
-          activityType = Math.random() > 0.3 ? 'review' : 'practice';
-        } else {
-          // Regular weeks have a mix
-          const rand = Math.random();
-          if (rand < 0.6) activityType = 'study';
-          else if (rand < 0.8) activityType = 'review';
-          else activityType = 'practice';
-        }
-        
-        // Create an appropriate activity based on type
-        let activity;
-        switch (activityType) {
-          case 'study':
-            activity = `Read and take notes on ${topic}`;
-            break;
-          case 'review':
-            activity = `Review key concepts from ${topic}`;
-            break;
-          case 'practice':
-            activity = `Complete practice questions on ${topic}`;
-            break;
-        }
-        
-        dailyTasks.push({
-          topic,
-          activity,
-          resource,
-          duration: sessionDuration,
-          type: activityType
-        });
-      }
-      
-      weekPlan.days.push({
-        day,
-        tasks: dailyTasks
-      });
+  });
+
+  sessions.forEach((session, index) => {
+    const date = parseISO(session.date);
+    const weekPlan = weeklyPlan[Math.floor(differenceInCalendarDays(date, today) / 7)];
+    if (!weekPlan) return;
+
+    // Create an appropriate activity based on type
+    let activity;
+    switch (session.taskType) {
+      case 'study':
+        activity = `Read and take notes on ${session.topic}`;
+        break;
+      case 'review':
+        activity = `Review key concepts from ${session.topic}`;
+        break;
+      case 'practice':
+        activity = `Complete practice questions on ${session.topic}`;
+        break;
+    }
+
+    const dayName = format(date, 'EEEE');
+    let day = weekPlan.days.find(d => d.day === dayName);
+    if (!day) {
+      day = { day: dayName, tasks: [] };
+      weekPlan.days.push(day);
+    }
+
+    day.tasks.push({
+      topic: session.topic,
+      activity,
+      resource: resources[index % resources.length],
+      duration: session.duration,
+      type: session.taskType
     });
-    
-    weeklyPlan.push(weekPlan);
-  }
-  
-  return weeklyPlan;
+  });
+
+  // Describe each week by the topics it covers
+  weeklyPlan.forEach((weekPlan, i) => {
+    const weekTopics = Array.from(new Set(weekPlan.days.flatMap(d => d.tasks.map(t => t.topic))));
+    weekPlan.focus = i === weeks - 1 ? "Final Review" : weekTopics.join(", ");
+  });
+
+  return weeklyPlan.filter(weekPlan => weekPlan.days.length > 0);
 }
 
 /**
@@ -0,0 +1,57 @@
+/**
+ * Version history of a study plan
+ *
+ * The server snapshots a plan and its tasks whenever it is created, generated,
+ * refined or rolled back; these calls list the versions, compare them and
+ * restore an earlier one.
+ */
+
+import { fetcher } from './utils';
+import type { PlanVersion, StudyPlan, StudyTask } from '@shared/schema';
+import type { PlanVersionDiff, PlanVersionSource } from '@shared/planVersions';
+
+export type { PlanVersion } from '@shared/schema';
+export type { MovedTaskChange, PlanVersionDiff, PlanVersionSource, TaskSnapshot } from '@shared/planVersions';
+
+// A version as listed, without its snapshot
+export type PlanVersionSummary = Omit<PlanVersion, 'plan' | 'tasks'> & { taskCount: number };
+
+export interface PlanVersionComparison extends PlanVersionDiff {
+  from: number | null; // null when compared with an empty plan
+  to: number;
+}
+
+/**
+ * A plan's versions, newest first
+ */
+export async function listPlanVersions(planId: number | string): Promise<PlanVersionSummary[]> {
+  return fetcher<PlanVersionSummary[]>(`/plans/${planId}/versions`);
+}
+
+/**
+ * What changed in a version, compared with `against` or else the version before it
+ */
+export async function diffPlanVersion(planId: number | string, version: number, against?: number): Promise<PlanVersionComparison> {
+  const query = against !== undefined ? `?against=${against}` : '';
+  return fetcher<PlanVersionComparison>(`/plans/${planId}/versions/${version}/diff${query}`);
+}
+
+/**
+ * Snapshot the plan as it is now
+ */
+export async function recordPlanVersion(planId: number | string, source: PlanVersionSource, note?: string): Promise<PlanVersion> {
+  return fetcher<PlanVersion>(`/plans/${planId}/versions`, {
+    method: 'POST',
+    body: JSON.stringify({ source, note }),
+  });
+}
+
+/**
+ * Restore the plan and its tasks to an earlier version
+ */
+export async function rollbackPlanVersion(
+  planId: number | string,
+  version: number
+): Promise<{ version: PlanVersion; plan: StudyPlan; tasks: StudyTask[] }> {
+  return fetcher(`/plans/${planId}/versions/${version}/rollback`, { method: 'POST' });
+}
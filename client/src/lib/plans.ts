@@ -0,0 +1,37 @@
+/**
+ * Study plans saved on the server
+ *
+ * Plans made while the app runs on mock data exist only in localStorage (see
+ * apiMocks); every other plan is read and updated through these calls.
+ */
+
+import { fetcher } from './utils';
+import type { DatedProposalTask } from './refinementProposal';
+import type { StudyPlan, StudyTask } from '../types';
+
+/**
+ * A plan and all of its tasks
+ */
+export async function getPlan(planId: number | string): Promise<{ plan: StudyPlan; tasks: StudyTask[] }> {
+  return fetcher(`/plans/${planId}`);
+}
+
+/**
+ * Mark a task done or not done
+ */
+export async function setTaskCompleted(taskId: number, isCompleted: boolean): Promise<StudyTask> {
+  return fetcher<StudyTask>(`/tasks/${taskId}/complete`, {
+    method: 'PATCH',
+    body: JSON.stringify({ isCompleted }),
+  });
+}
+
+/**
+ * Add a task to a plan; the server works out which topic it covers
+ */
+export async function addPlanTask(planId: number | string, task: DatedProposalTask): Promise<StudyTask> {
+  return fetcher<StudyTask>('/tasks', {
+    method: 'POST',
+    body: JSON.stringify({ studyPlanId: Number(planId), ...task }),
+  });
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPomodoroTimer,
+  DEFAULT_POMODORO_SETTINGS,
+  finishWorkEarly,
+  hasReachedPlannedTime,
+  pauseTimer,
+  remainingMs,
+  resumeTimer,
+  startWork,
+  tickPomodoro,
+  type PomodoroTimer,
+} from './pomodoro';
+
+const start = new Date('2026-03-02T10:00:00Z');
+const at = (minutes: number) => new Date(start.getTime() + minutes * 60000);
+
+function working(): PomodoroTimer {
+  return startWork(createPomodoroTimer({ id: 1, title: 'Study Limits', duration: 50 }, DEFAULT_POMODORO_SETTINGS), start);
+}
+
+describe('pomodoro timer', () => {
+  it('does not count paused time', () => {
+    const paused = pauseTimer(working(), at(10));
+    expect(remainingMs(paused, at(30))).toBe(15 * 60000);
+
+    const resumed = resumeTimer(paused, at(30));
+    expect(remainingMs(resumed, at(35))).toBe(10 * 60000);
+    expect(tickPomodoro(resumed, at(25))).toBe(resumed);
+  });
+
+  it('queues a finished work interval and starts a break where the work ended', () => {
+    const resumed = resumeTimer(pauseTimer(working(), at(10)), at(15));
+    // Checked well after the interval ran out, e.g. after a reload
+    const onBreak = tickPomodoro(resumed, at(60));
+
+    expect(onBreak).toMatchObject({
+      phase: 'break',
+      phaseStartedAt: at(30).toISOString(),
+      phaseMinutes: 5,
+      completedPomodoros: 1,
+      focusedMinutes: 25,
+      pendingLogs: [{ startedAt: start.toISOString(), minutes: 25 }],
+    });
+    expect(tickPomodoro(onBreak, at(60))).toMatchObject({ phase: 'ready', phaseStartedAt: null });
+  });
+
+  it('takes a long break after every fourth pomodoro', () => {
+    let timer = working();
+    for (let i = 0; i < 3; i++) {
+      timer = tickPomodoro(tickPomodoro(timer, at(1000)), at(1000));
+      timer = startWork(timer, start);
+    }
+
+    expect(tickPomodoro(timer, at(1000))).toMatchObject({ completedPomodoros: 4, phaseMinutes: 15 });
+  });
+
+  it('logs whole minutes when work ends early, and nothing under a minute', () => {
+    const stopped = finishWorkEarly(working(), at(12.5));
+    expect(stopped).toMatchObject({ phase: 'ready', focusedMinutes: 12, pendingLogs: [{ minutes: 12 }] });
+
+    expect(finishWorkEarly(working(), at(0.5)).pendingLogs).toEqual([]);
+  });
+
+  it('reaches the planned time after enough focused minutes', () => {
+    expect(hasReachedPlannedTime({ ...working(), focusedMinutes: 25 })).toBe(false);
+    expect(hasReachedPlannedTime({ ...working(), focusedMinutes: 50 })).toBe(true);
+  });
+});
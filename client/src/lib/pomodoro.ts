@@ -0,0 +1,197 @@
+/**
+ * Pomodoro focus timer for a study task
+ *
+ * The timer is kept in localStorage so it carries on across page reloads.
+ * Each finished work interval is logged as a study session against the task;
+ * a new interval only starts when the student asks for it, so time away from
+ * the page is never counted as study time.
+ */
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // pomodoros between long breaks
+}
+
+export type PomodoroPhase = 'work' | 'break' | 'ready';
+
+export interface PomodoroTimer {
+  taskId: number;
+  taskTitle: string;
+  plannedMinutes: number; // the task's planned duration
+  settings: PomodoroSettings;
+  phase: PomodoroPhase;
+  phaseStartedAt: string | null; // ISO date-time; null when ready
+  phaseMinutes: number; // length of the current phase
+  pausedAt: string | null; // ISO date-time while paused
+  pausedMs: number; // paused time in the current phase
+  completedPomodoros: number;
+  focusedMinutes: number; // focused on the task with this timer
+  pendingLogs: FinishedPomodoro[]; // finished work intervals not yet saved as study sessions
+  completionOffered: boolean; // the student was already asked to mark the task complete
+}
+
+// A work interval that has just finished and should be logged
+export interface FinishedPomodoro {
+  startedAt: string;
+  minutes: number;
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+};
+
+const TIMER_KEY = 'pomodoroTimer';
+const SETTINGS_KEY = 'pomodoroSettings';
+
+export function loadPomodoroSettings(): PomodoroSettings {
+  try {
+    return { ...DEFAULT_POMODORO_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+}
+
+export function savePomodoroSettings(settings: PomodoroSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadPomodoroTimer(): PomodoroTimer | null {
+  try {
+    return JSON.parse(localStorage.getItem(TIMER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+export function savePomodoroTimer(timer: PomodoroTimer | null) {
+  if (timer) {
+    localStorage.setItem(TIMER_KEY, JSON.stringify(timer));
+  } else {
+    localStorage.removeItem(TIMER_KEY);
+  }
+}
+
+/**
+ * A timer for a task, ready to start its first pomodoro
+ */
+export function createPomodoroTimer(
+  task: { id: number; title: string; duration: number },
+  settings: PomodoroSettings
+): PomodoroTimer {
+  return {
+    taskId: task.id,
+    taskTitle: task.title,
+    plannedMinutes: task.duration,
+    settings,
+    phase: 'ready',
+    phaseStartedAt: null,
+    phaseMinutes: 0,
+    pausedAt: null,
+    pausedMs: 0,
+    completedPomodoros: 0,
+    focusedMinutes: 0,
+    pendingLogs: [],
+    completionOffered: false,
+  };
+}
+
+export function startWork(timer: PomodoroTimer, now: Date): PomodoroTimer {
+  return {
+    ...timer,
+    phase: 'work',
+    phaseStartedAt: now.toISOString(),
+    phaseMinutes: timer.settings.workMinutes,
+    pausedAt: null,
+    pausedMs: 0,
+  };
+}
+
+export function pauseTimer(timer: PomodoroTimer, now: Date): PomodoroTimer {
+  return timer.phase === 'ready' || timer.pausedAt ? timer : { ...timer, pausedAt: now.toISOString() };
+}
+
+export function resumeTimer(timer: PomodoroTimer, now: Date): PomodoroTimer {
+  if (!timer.pausedAt) return timer;
+  return {
+    ...timer,
+    pausedAt: null,
+    pausedMs: timer.pausedMs + (now.getTime() - new Date(timer.pausedAt).getTime()),
+  };
+}
+
+/**
+ * Milliseconds left in the current phase
+ */
+export function remainingMs(timer: PomodoroTimer, now: Date): number {
+  if (timer.phase === 'ready' || !timer.phaseStartedAt) return 0;
+
+  const until = timer.pausedAt ? new Date(timer.pausedAt) : now;
+  const elapsed = until.getTime() - new Date(timer.phaseStartedAt).getTime() - timer.pausedMs;
+  return Math.max(0, timer.phaseMinutes * 60000 - elapsed);
+}
+
+/**
+ * Move the timer on once its phase has run out: a finished work interval
+ * becomes a break (and is queued for logging), a finished break waits for
+ * the next pomodoro to be started.
+ */
+export function tickPomodoro(timer: PomodoroTimer, now: Date): PomodoroTimer {
+  if (timer.phase === 'ready' || timer.pausedAt || remainingMs(timer, now) > 0) {
+    return timer;
+  }
+
+  if (timer.phase === 'break') {
+    return { ...timer, phase: 'ready', phaseStartedAt: null, phaseMinutes: 0, pausedMs: 0 };
+  }
+
+  const completedPomodoros = timer.completedPomodoros + 1;
+  const isLongBreak = completedPomodoros % timer.settings.longBreakEvery === 0;
+  const workEndedAt = new Date(new Date(timer.phaseStartedAt!).getTime() + timer.pausedMs + timer.phaseMinutes * 60000);
+
+  return {
+    ...timer,
+    phase: 'break',
+    phaseStartedAt: workEndedAt.toISOString(),
+    phaseMinutes: isLongBreak ? timer.settings.longBreakMinutes : timer.settings.breakMinutes,
+    pausedMs: 0,
+    completedPomodoros,
+    focusedMinutes: timer.focusedMinutes + timer.phaseMinutes,
+    pendingLogs: [...timer.pendingLogs, { startedAt: timer.phaseStartedAt!, minutes: timer.phaseMinutes }],
+  };
+}
+
+/**
+ * Whether the focused time has reached the task's planned duration
+ */
+export function hasReachedPlannedTime(timer: PomodoroTimer): boolean {
+  return timer.focusedMinutes >= timer.plannedMinutes;
+}
+
+/**
+ * End the current work interval now, queueing the minutes focused so far
+ */
+export function finishWorkEarly(timer: PomodoroTimer, now: Date): PomodoroTimer {
+  if (timer.phase !== 'work') {
+    return { ...timer, phase: 'ready', phaseStartedAt: null, phaseMinutes: 0, pausedAt: null, pausedMs: 0 };
+  }
+
+  const minutes = Math.floor((timer.phaseMinutes * 60000 - remainingMs(timer, now)) / 60000);
+
+  return {
+    ...timer,
+    phase: 'ready',
+    phaseStartedAt: null,
+    phaseMinutes: 0,
+    pausedAt: null,
+    pausedMs: 0,
+    focusedMinutes: timer.focusedMinutes + minutes,
+    pendingLogs: minutes > 0
+      ? [...timer.pendingLogs, { startedAt: timer.phaseStartedAt!, minutes }]
+      : timer.pendingLogs,
+  };
+}
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { authHeaders, clearAuthSession } from "./authToken";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -14,11 +15,19 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(await authHeaders()),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
+  // The token was rejected, so the stored session is no longer usable
+  if (res.status === 401) {
+    clearAuthSession();
+  }
+
   await throwIfResNotOk(res);
   return res;
 }
@@ -30,9 +39,14 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: await authHeaders(),
       credentials: "include",
     });
 
+    if (res.status === 401) {
+      clearAuthSession();
+    }
+
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
     }
@@ -0,0 +1,122 @@
+/**
+ * Pending AI refinements of a study plan
+ *
+ * A refinement is first shown next to the current plan as a proposal; the
+ * student accepts or rejects whole weeks and single tasks, and only the merged
+ * result is saved.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import type { AIStudyTask, AIWeeklyPlan, StudyTask } from '../types';
+
+export interface RefinementProposal {
+  goals: string; // what the student asked the refinement for
+  current: AIWeeklyPlan[];
+  proposed: AIWeeklyPlan[];
+  summary: string;
+  finalWeekStrategy: string;
+  aiRecommendations: string[];
+  partialSuccess?: boolean; // the model's answer was unusable and fallback data was used
+}
+
+// Accept/reject choices by week number and by task key; anything not listed is accepted
+export interface ProposalDecisions {
+  weeks: Record<number, boolean>;
+  tasks: Record<string, boolean>;
+  notes: boolean; // take the new summary, final week strategy and tips
+}
+
+export const ACCEPT_ALL: ProposalDecisions = { weeks: {}, tasks: {}, notes: true };
+
+/**
+ * Key of a proposed task: its week number, day and position in the day
+ */
+export function proposalTaskKey(week: number, day: string, index: number): string {
+  return `${week}:${day.toLowerCase()}:${index}`;
+}
+
+export function isWeekAccepted(decisions: ProposalDecisions, week: number): boolean {
+  return decisions.weeks[week] !== false;
+}
+
+export function isTaskAccepted(decisions: ProposalDecisions, key: string): boolean {
+  return decisions.tasks[key] !== false;
+}
+
+// The proposed week with only its accepted tasks, or null when none are left
+function acceptedWeek(week: AIWeeklyPlan, decisions: ProposalDecisions): AIWeeklyPlan | null {
+  const days = week.days
+    .map(day => ({
+      ...day,
+      tasks: day.tasks.filter((_task: AIStudyTask, i: number) =>
+        isTaskAccepted(decisions, proposalTaskKey(week.week, day.day, i))),
+    }))
+    .filter(day => day.tasks.length > 0);
+
+  return days.length > 0 ? { ...week, days } : null;
+}
+
+/**
+ * The weekly plan to save: accepted proposed weeks (with their accepted tasks)
+ * replace the current ones; rejected weeks, or weeks with every task rejected,
+ * stay as they are now.
+ */
+export function mergeRefinement(proposal: RefinementProposal, decisions: ProposalDecisions): AIWeeklyPlan[] {
+  const weekNumbers = [...new Set([...proposal.current, ...proposal.proposed].map(week => week.week))].sort((a, b) => a - b);
+
+  return weekNumbers.flatMap(number => {
+    const current = proposal.current.find(week => week.week === number);
+    const proposed = proposal.proposed.find(week => week.week === number);
+    const accepted = proposed && isWeekAccepted(decisions, number) ? acceptedWeek(proposed, decisions) : null;
+    const week = accepted ?? current;
+
+    return week ? [week] : [];
+  });
+}
+
+/**
+ * How many proposed tasks would be saved with these decisions
+ */
+export function countAcceptedTasks(proposal: RefinementProposal, decisions: ProposalDecisions): number {
+  return proposal.proposed
+    .filter(week => isWeekAccepted(decisions, week.week))
+    .reduce((count, week) => count + week.days.reduce((sum, day) =>
+      sum + day.tasks.filter((_task: AIStudyTask, i: number) =>
+        isTaskAccepted(decisions, proposalTaskKey(week.week, day.day, i))).length, 0), 0);
+}
+
+// A proposed task as it is saved to the plan
+export type DatedProposalTask = Pick<StudyTask, 'title' | 'description' | 'date' | 'duration' | 'resource' | 'taskType'>;
+
+/**
+ * The proposed tasks the student accepted, dated: week 1 is the seven days
+ * from startDate (yyyy-MM-dd) and each task goes on the day of its week with
+ * the same weekday name. Tasks on a day that isn't a weekday are left out.
+ */
+export function acceptedProposalTasks(
+  proposal: RefinementProposal,
+  decisions: ProposalDecisions,
+  startDate: string
+): DatedProposalTask[] {
+  const start = parseISO(startDate);
+
+  return proposal.proposed
+    .filter(week => isWeekAccepted(decisions, week.week))
+    .flatMap(week => week.days.flatMap(day => {
+      const offset = Array.from({ length: 7 }, (_, i) => i)
+        .find(i => format(addDays(start, i), 'EEEE').toLowerCase() === day.day.trim().toLowerCase());
+      if (offset === undefined) return [];
+
+      const date = format(addDays(start, (week.week - 1) * 7 + offset), 'yyyy-MM-dd');
+      return day.tasks
+        .filter((_task: AIStudyTask, i: number) => isTaskAccepted(decisions, proposalTaskKey(week.week, day.day, i)))
+        .map((task: AIStudyTask) => ({
+          title: task.topic,
+          description: task.activity,
+          date,
+          duration: task.duration,
+          resource: task.resource,
+          taskType: task.type,
+        }));
+    }));
+}
@@ -0,0 +1,57 @@
+/**
+ * Progress reports
+ *
+ * The server builds a plan's progress report over a date range and renders it
+ * as Markdown, CSV (one row per task), JSON or a printable PDF with charts.
+ */
+
+import { apiUrl, browserTimeZone } from './utils';
+import { authHeaders, clearAuthSession } from './authToken';
+
+export type ReportFormat = 'markdown' | 'csv' | 'json' | 'pdf';
+
+export const REPORT_FORMATS: { value: ReportFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+];
+
+export interface ReportOptions {
+  format: ReportFormat;
+  from?: string; // yyyy-MM-dd, defaults to the plan's first day
+  to?: string; // yyyy-MM-dd, defaults to the exam date
+}
+
+/**
+ * Download a plan's progress report as a file
+ */
+export async function downloadProgressReport(planId: number | string, { format, from, to }: ReportOptions): Promise<void> {
+  const params = new URLSearchParams({ format, timeZone: browserTimeZone() });
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+
+  const response = await fetch(apiUrl(`/plans/${planId}/report?${params}`), {
+    headers: await authHeaders(),
+  });
+
+  if (response.status === 401) {
+    clearAuthSession();
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || 'Could not create the report.');
+  }
+
+  // The server names the file after the plan and the range
+  const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+    ?? `progress-report.${format === 'markdown' ? 'md' : format}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -1,6 +1,9 @@
-import { addDays, addWeeks, format, parseISO, differenceInWeeks } from "date-fns";
-import { StudyPlanFormData, StudyTask, WeekData, GeneratedPlan, Topic } from "../types";
+import { addDays, addWeeks, format, parseISO, differenceInCalendarDays, differenceInWeeks, startOfDay } from "date-fns";
+import { StudyPlanFormData, StudyTask, WeekData, WeekDay, GeneratedPlan, Topic } from "../types";
 import { getLLMResponse } from "./openRouterService";
+import { formatBusyTimes } from "./busyTime";
+import { fitTasksAroundBusyTime } from "@shared/calendar";
+import { scheduleStudySessions } from "@shared/scheduler";
 
 export async function generateStudyPlan(formData: StudyPlanFormData): Promise<GeneratedPlan | GeneratedPlan[]> {
   // Check if we should use AI personalization
@@ -49,6 +52,21 @@ Student information:
     prompt += `\n- ${topic.title}: ${topic.progress || 0}% complete`;
   });
 
+  // Add the days and hours the student is available
+  if (formData.availableDays?.length) {
+    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+    prompt += `\n- Available days: ${formData.availableDays.map(d => dayNames[d]).join(', ')}`;
+  }
+  if (formData.studyWindow) {
+    prompt += `\n- Study hours: ${formData.studyWindow.startHour}:00 to ${formData.studyWindow.endHour}:00`;
+  }
+
+  // Add calendar commitments the schedule has to work around
+  const busyTimes = formatBusyTimes(formData.calendarEvents || [], examDate);
+  if (busyTimes) {
+    prompt += `\n\nBusy times (never schedule a study session during these):\n${busyTimes}`;
+  }
+
   // Add specific instructions for the LLM
   prompt += `\n
 Based on this information, create a detailed study plan that:
@@ -60,9 +78,8 @@ Based on this information, create a detailed study plan that:
 6. Includes appropriate breaks and review sessions
 
 Please structure your response in JSON format that includes:
-1. A weekly calendar showing which topics to study on which days
-2. A list of specific tasks with details for each day
-3. Progress tracking information for each topic
+1. A list of specific tasks with a date and start time for each session
+2. Progress tracking information for each topic
 
 Your response should be VALID JSON that I can parse. Follow this exact structure:
 {
@@ -71,18 +88,6 @@ Your response should be VALID JSON that I can parse. Follow this exact structure
     "topicsProgress": {"Topic1": 50, "Topic2": 0...},
     "resources": ["Textbook", "Videos"...]
   },
-  "calendarWeeks": [
-    {
-      "weekRange": "Apr 25 - May 1",
-      "monday": {"title": "Study Topic1", "duration": 60, "resource": "Textbook", "type": "study"},
-      "tuesday": null,
-      "wednesday": {"title": "Practice Topic1", "duration": 30, "resource": "Practice Tests", "type": "practice"},
-      "thursday": null,
-      "friday": {"title": "Study Topic2", "duration": 60, "resource": "Videos", "type": "study"},
-      "saturday": null,
-      "sunday": {"title": "Review Topics 1-2", "duration": 90, "resource": "Notes", "type": "review"}
-    }
-  ],
   "weeklyTasks": [
     {
       "id": 1,
@@ -90,6 +95,7 @@ Your response should be VALID JSON that I can parse. Follow this exact structure
       "title": "Study Topic1",
       "description": "Initial study session for Topic1",
       "date": "2025-04-28",
+      "startTime": "18:00",
       "duration": 60,
       "resource": "Textbook",
       "isCompleted": false,
@@ -148,18 +154,11 @@ function processPlanData(aiGeneratedPlan: any, formData: StudyPlanFormData): Gen
     }
   });
   
-  // Process calendar weeks data
-  let calendarWeeks = aiGeneratedPlan.calendarWeeks || [];
-  if (calendarWeeks.length === 0) {
-    // Generate fallback calendar data
-    calendarWeeks = generateFallbackCalendarWeeks(formData);
-  }
-  
   // Process weekly tasks
   let weeklyTasks = aiGeneratedPlan.weeklyTasks || [];
   if (weeklyTasks.length === 0) {
     // Generate fallback tasks
-    weeklyTasks = generateFallbackTasks(formData, calendarWeeks);
+    weeklyTasks = scheduleTasks(formData);
   }
   
   // Ensure all tasks have required fields and fix any issues
@@ -169,6 +168,7 @@ function processPlanData(aiGeneratedPlan: any, formData: StudyPlanFormData): Gen
     title: task.title || `Task ${index + 1}`,
     description: task.description || `Study session for ${task.title}`,
     date: task.date || format(new Date(), 'yyyy-MM-dd'),
+    startTime: task.startTime,
     duration: task.duration || 30,
     resource: task.resource || "General",
     isCompleted: task.isCompleted || false,
@@ -196,159 +196,95 @@ function processPlanData(aiGeneratedPlan: any, formData: StudyPlanFormData): Gen
     });
   }
   
+  // Move tasks off days taken up by the student's calendar commitments
+  weeklyTasks = fitTasksAroundBusyTime(weeklyTasks, formData.calendarEvents || [], { lastDate: examDate });
+  
   return {
     studyPlan,
-    calendarWeeks,
+    calendarWeeks: buildCalendarWeeks(weeklyTasks),
     weeklyTasks
   };
 }
 
-// Helper function to generate fallback calendar weeks if the LLM fails
-function generateFallbackCalendarWeeks(formData: StudyPlanFormData): WeekData[] {
-  const { examDate, topics } = formData;
-  const examDateObj = parseISO(examDate);
-  const today = new Date();
-  const weeksUntilExam = Math.max(1, differenceInWeeks(examDateObj, today));
-  
+
+// Helper function to lay out dated, timed tasks with the shared scheduler
+function scheduleTasks(formData: StudyPlanFormData): StudyTask[] {
+  const { examDate, topics, resources, weeklyStudyTime, studyPreference, learningStyle } = formData;
+
+  const sessions = scheduleStudySessions({
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    examDate,
+    weeklyStudyTime,
+    sessionLength: studyPreference,
+    topics: topics.map(t => ({ title: t.title, progress: t.progress })),
+    availableDays: formData.availableDays,
+    windows: formData.studyWindow ? [formData.studyWindow] : undefined,
+    busyEvents: formData.calendarEvents
+  });
+
+  // Pick a resource that suits each kind of session
+  const resourceFor = (taskType: StudyTask['taskType']) => {
+    switch (taskType) {
+      case 'study':
+        return resources[0]?.name || "Textbook";
+      case 'review':
+        return resources[1]?.name || resources[0]?.name || "Notes";
+      case 'practice':
+        return "Practice Tests";
+    }
+  };
+
+  return sessions.map((session, index) => {
+    const topic = topics.find(t => t.title === session.topic) || { id: session.topic, title: session.topic };
+    return {
+      id: index + 1,
+      studyPlanId: 1,
+      title: session.title,
+      description: getTaskDescription(topic, session.taskType, learningStyle),
+      date: session.date,
+      startTime: session.startTime,
+      duration: session.duration,
+      resource: resourceFor(session.taskType),
+      isCompleted: false,
+      taskType: session.taskType
+    };
+  });
+}
+
+// Group tasks into weeks starting today, for the calendar view
+export function buildCalendarWeeks(tasks: StudyTask[], startDate: Date = new Date()): WeekData[] {
+  const start = startOfDay(startDate);
   const weeks: WeekData[] = [];
-  const topicsList = [...topics];
-  
-  for (let i = 0; i < Math.min(weeksUntilExam, 8); i++) {
-    const weekStart = addWeeks(today, i);
-    const weekEnd = addDays(weekStart, 6);
-    const weekRange = `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d')}`;
-    
-    // Assign topics to days
-    const topicIndex1 = (i * 2) % topicsList.length;
-    const topicIndex2 = (i * 2 + 1) % topicsList.length;
-    
-    weeks.push({
-      weekRange,
-      monday: {
-        title: `Study ${topicsList[topicIndex1].title}`,
-        duration: 60,
-        resource: "Textbook",
-        type: "study"
-      },
-      wednesday: {
-        title: `Practice ${topicsList[topicIndex1].title}`,
-        duration: 45,
-        resource: "Practice Questions",
-        type: "practice"
-      },
-      friday: {
-        title: `Study ${topicsList[topicIndex2].title}`,
-        duration: 60,
-        resource: "Notes",
-        type: "study"
-      },
-      weekend: {
-        title: `Review Week ${i+1}`,
-        duration: 90,
-        resource: "All Materials",
-        type: "review"
+
+  [...tasks]
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || ''))
+    .forEach(task => {
+      const date = parseISO(task.date);
+      const weekIndex = Math.floor(differenceInCalendarDays(date, start) / 7);
+      if (weekIndex < 0) return;
+
+      for (let i = weeks.length; i <= weekIndex; i++) {
+        const weekStart = addWeeks(start, i);
+        weeks.push({
+          weekRange: `${format(weekStart, 'MMM d')} - ${format(addDays(weekStart, 6), 'MMM d')}`,
+          startDate: format(weekStart, 'yyyy-MM-dd'),
+          days: {}
+        });
       }
+
+      const day = format(date, 'EEEE').toLowerCase() as WeekDay;
+      const days = weeks[weekIndex].days;
+      days[day] = [...(days[day] || []), {
+        title: task.title,
+        date: task.date,
+        startTime: task.startTime,
+        duration: task.duration,
+        resource: task.resource || "General",
+        type: task.taskType
+      }];
     });
-  }
-  
-  return weeks;
-}
 
-// Helper function to generate fallback tasks if the LLM fails
-function generateFallbackTasks(formData: StudyPlanFormData, calendarWeeks: WeekData[]): StudyTask[] {
-  const tasks: StudyTask[] = [];
-  let taskId = 1;
-  const today = new Date();
-  
-  calendarWeeks.forEach((week, weekIndex) => {
-    const weekStart = addWeeks(today, weekIndex);
-    
-    if (week.monday) {
-      tasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: week.monday.title,
-        description: `Study session: ${week.monday.title}`,
-        date: format(addDays(weekStart, 1), 'yyyy-MM-dd'), // Monday
-        duration: week.monday.duration,
-        resource: week.monday.resource,
-        isCompleted: false,
-        taskType: week.monday.type
-      });
-    }
-    
-    if (week.tuesday) {
-      tasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: week.tuesday.title,
-        description: `Study session: ${week.tuesday.title}`,
-        date: format(addDays(weekStart, 2), 'yyyy-MM-dd'), // Tuesday
-        duration: week.tuesday.duration,
-        resource: week.tuesday.resource,
-        isCompleted: false,
-        taskType: week.tuesday.type
-      });
-    }
-    
-    if (week.wednesday) {
-      tasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: week.wednesday.title,
-        description: `Study session: ${week.wednesday.title}`,
-        date: format(addDays(weekStart, 3), 'yyyy-MM-dd'), // Wednesday
-        duration: week.wednesday.duration,
-        resource: week.wednesday.resource,
-        isCompleted: false,
-        taskType: week.wednesday.type
-      });
-    }
-    
-    if (week.thursday) {
-      tasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: week.thursday.title,
-        description: `Study session: ${week.thursday.title}`,
-        date: format(addDays(weekStart, 4), 'yyyy-MM-dd'), // Thursday
-        duration: week.thursday.duration,
-        resource: week.thursday.resource,
-        isCompleted: false,
-        taskType: week.thursday.type
-      });
-    }
-    
-    if (week.friday) {
-      tasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: week.friday.title,
-        description: `Study session: ${week.friday.title}`,
-        date: format(addDays(weekStart, 5), 'yyyy-MM-dd'), // Friday
-        duration: week.friday.duration,
-        resource: week.friday.resource,
-        isCompleted: false,
-        taskType: week.friday.type
-      });
-    }
-    
-    if (week.weekend) {
-      tasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: week.weekend.title,
-        description: `Study session: ${week.weekend.title}`,
-        date: format(addDays(weekStart, 6), 'yyyy-MM-dd'), // Saturday
-        duration: week.weekend.duration,
-        resource: week.weekend.resource,
-        isCompleted: false,
-        taskType: week.weekend.type
-      });
-    }
-  });
-  
-  return tasks;
+  return weeks;
 }
 
 // Function to generate multiple study plan options
@@ -391,19 +327,16 @@ Please return a JSON object with all three plans following this structure for EA
     {
       "planType": "Balanced",
       "studyPlan": {...},
-      "calendarWeeks": [...],
       "weeklyTasks": [...]
     },
     {
       "planType": "WeakAreas",
       "studyPlan": {...},
-      "calendarWeeks": [...],
       "weeklyTasks": [...]
     },
     {
       "planType": "IntensiveDeepDive",
       "studyPlan": {...},
-      "calendarWeeks": [...],
       "weeklyTasks": [...]
     }
   ]
@@ -478,321 +411,11 @@ function fallbackMultipleOptions(formData: StudyPlanFormData): GeneratedPlan[] {
   return plans;
 }
 
-// Use the existing rule-based system as a fallback
+// Use the shared constraint-based scheduler as a fallback
 function fallbackRuleBasedPlan(formData: StudyPlanFormData): GeneratedPlan {
   const { courseName, examDate, topics, resources, weeklyStudyTime, studyPreference, learningStyle, studyMaterials } = formData;
-  
-  const examDateObj = parseISO(examDate);
-  const today = new Date();
-  
-  // Calculate weeks until exam
-  const weeksUntilExam = Math.max(1, differenceInWeeks(examDateObj, today));
-  
-  // Reserve the last 1-2 weeks for final review and practice tests
-  const reviewWeeks = weeksUntilExam > 4 ? 2 : 1;
-  const studyWeeks = weeksUntilExam - reviewWeeks;
-  
-  // Sort topics by progress (lowest first) to prioritize less-studied topics
-  const sortedTopics = [...topics].sort((a, b) => (a.progress || 0) - (b.progress || 0));
-  
-  // Calculate how many topics we need to thoroughly study vs. just review
-  // Topics with progress > 70% only need review
-  const topicsNeedingFullStudy = sortedTopics.filter(t => (t.progress || 0) < 70);
-  const topicsForReview = sortedTopics.filter(t => (t.progress || 0) >= 70 && (t.progress || 0) < 100);
-  const completedTopics = sortedTopics.filter(t => (t.progress || 0) >= 100);
-  
-  // Determine session duration based on preference
-  const sessionCount = studyPreference === 'short' ? 4 : 2; // per week (Mon, Wed, Fri, Weekend vs. Mon, Fri)
-  const sessionDuration = Math.floor((weeklyStudyTime * 60) / sessionCount); // in minutes
-  
-  // Generate calendar weeks
-  const calendarWeeks: WeekData[] = [];
-  const weeklyTasks: StudyTask[] = [];
-  let taskId = 1;
-  
-  // Create a mapping of task types to study materials if provided
-  const materialsByTaskType: Record<string, string[]> = {
-    'study': ['textbooks', 'videos', 'notes'],
-    'review': ['flashcards', 'notes'],
-    'practice': ['practice_tests']
-  };
-  
-  // Filter based on user preferences if provided
-  if (studyMaterials && studyMaterials.length > 0) {
-    Object.keys(materialsByTaskType).forEach(taskType => {
-      materialsByTaskType[taskType] = materialsByTaskType[taskType].filter(m => 
-        studyMaterials.includes(m as any)
-      );
-      // If nothing's left after filtering, keep the original
-      if (materialsByTaskType[taskType].length === 0) {
-        materialsByTaskType[taskType] = ['textbooks', 'notes'];
-      }
-    });
-  }
 
-  // Distribute topics across available weeks - make sure ALL topics are covered
-  const allTopics = [...topicsNeedingFullStudy];
-  let weekTopicAssignments: Topic[][] = [];
-  
-  // Create week assignments - ensure all topics are assigned to at least one week
-  for (let i = 0; i < studyWeeks; i++) {
-    weekTopicAssignments[i] = [];
-  }
-  
-  // Assign each topic to at least one week
-  for (let i = 0; i < allTopics.length; i++) {
-    const weekIndex = i % studyWeeks;
-    weekTopicAssignments[weekIndex].push(allTopics[i]);
-  }
-  
-  // Now process each week with its assigned topics
-  for (let weekIndex = 0; weekIndex < studyWeeks; weekIndex++) {
-    const weekTopics = weekTopicAssignments[weekIndex];
-    
-    // Skip empty weeks
-    if (weekTopics.length === 0) continue;
-    
-    const weekStart = addWeeks(today, weekIndex);
-    const weekEnd = addDays(weekStart, 6);
-    const weekRange = `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d')}`;
-    
-    // Select resources
-    const primaryResource = resources.length > 0 ? resources[0].name : "Textbook";
-    const secondaryResource = resources.length > 1 ? resources[1].name : "Notes";
-    
-    // Create week structure based on assigned topics
-    const weekData: WeekData = {
-      weekRange,
-      monday: weekTopics[0] ? {
-        title: `Study ${weekTopics[0].title}`,
-        duration: sessionDuration,
-        resource: primaryResource,
-        type: 'study'
-      } : undefined,
-      wednesday: studyPreference === 'short' ? (weekTopics[1] || weekTopics[0]) ? {
-        title: `Study ${(weekTopics[1] || weekTopics[0]).title}`,
-        duration: sessionDuration,
-        resource: secondaryResource,
-        type: 'study'
-      } : undefined : undefined,
-      friday: weekTopics[0] ? {
-        title: `Review ${weekTopics[0].title}`,
-        duration: sessionDuration,
-        resource: 'Practice Quiz',
-        type: 'review'
-      } : undefined,
-      weekend: weekTopics.length > 1 ? {
-        title: `Practice ${weekTopics[1] ? weekTopics[1].title : weekTopics[0].title}`,
-        duration: sessionDuration * 2,
-        resource: 'Practice Tests',
-        type: 'practice'
-      } : undefined
-    };
-    
-    calendarWeeks.push(weekData);
-    
-    // Create tasks for this week
-    if (weekData.monday) {
-      const topic = weekTopics[0];
-      const description = getTaskDescription(topic, 'study', learningStyle);
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: weekData.monday.title,
-        description,
-        date: format(addDays(weekStart, 1), 'yyyy-MM-dd'), // Monday
-        duration: weekData.monday.duration,
-        resource: weekData.monday.resource,
-        isCompleted: false,
-        taskType: 'study'
-      });
-    }
-    
-    if (weekData.wednesday) {
-      const topic = weekTopics[1] || weekTopics[0];
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: weekData.wednesday.title,
-        description: `Continue studying ${topic.title} using ${weekData.wednesday.resource}`,
-        date: format(addDays(weekStart, 3), 'yyyy-MM-dd'), // Wednesday
-        duration: weekData.wednesday.duration,
-        resource: weekData.wednesday.resource,
-        isCompleted: false,
-        taskType: 'study'
-      });
-    }
-    
-    if (weekData.friday) {
-      const topic = weekTopics[0];
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: weekData.friday.title,
-        description: `Review what you've learned about ${topic.title}`,
-        date: format(addDays(weekStart, 5), 'yyyy-MM-dd'), // Friday
-        duration: weekData.friday.duration,
-        resource: weekData.friday.resource,
-        isCompleted: false,
-        taskType: 'review'
-      });
-    }
-    
-    if (weekData.weekend) {
-      const topic = weekTopics[1] || weekTopics[0];
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: weekData.weekend.title,
-        description: `Practice applying concepts from ${topic.title}`,
-        date: format(addDays(weekStart, 6), 'yyyy-MM-dd'), // Saturday
-        duration: weekData.weekend.duration,
-        resource: weekData.weekend.resource,
-        isCompleted: false,
-        taskType: 'practice'
-      });
-    }
-  }
-  
-  // Add quick review sessions for topics that are partially complete but not 100%
-  if (topicsForReview.length > 0) {
-    // Find a week where we can add review
-    const reviewWeekIndex = Math.min(studyWeeks - 1, calendarWeeks.length - 1);
-    const reviewWeekStart = addWeeks(today, reviewWeekIndex);
-    
-    topicsForReview.forEach((topic, index) => {
-      // Add one review task for each mostly-completed topic
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: `Quick Review: ${topic.title}`,
-        description: `Brief review of ${topic.title} to reinforce your knowledge`,
-        date: format(addDays(reviewWeekStart, (index % 6) + 1), 'yyyy-MM-dd'),
-        duration: 30, // Short review session
-        resource: 'Review Materials',
-        isCompleted: false,
-        taskType: 'review'
-      });
-    });
-  }
-  
-  // Add completed topics as already completed tasks in the first week
-  // This ensures they appear in the plan but are already marked as done
-  if (completedTopics.length > 0) {
-    const firstWeekStart = today;
-    
-    completedTopics.forEach((topic, index) => {
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: `${topic.title} - Completed`,
-        description: `This topic has been marked as completed based on your initial progress`,
-        date: format(addDays(firstWeekStart, index % 7), 'yyyy-MM-dd'),
-        duration: 60,
-        resource: 'Already Completed',
-        isCompleted: true,
-        taskType: 'study'
-      });
-      
-      // Also add a review task that's not completed yet
-      weeklyTasks.push({
-        id: taskId++,
-        studyPlanId: 1,
-        title: `Review: ${topic.title}`,
-        description: `Quick review of ${topic.title} to ensure retention`,
-        date: format(addDays(firstWeekStart, (index % 7) + 7), 'yyyy-MM-dd'), // Week after
-        duration: 30,
-        resource: 'Review Materials',
-        isCompleted: false,
-        taskType: 'review'
-      });
-    });
-  }
-  
-  // Add review weeks
-  const reviewStart = addWeeks(today, studyWeeks);
-  const reviewEnd = addDays(reviewStart, 6);
-  const reviewWeekRange = `${format(reviewStart, 'MMM d')} - ${format(reviewEnd, 'MMM d')}`;
-  
-  // Final review week
-  const reviewWeekData: WeekData = {
-    weekRange: reviewWeekRange,
-    monday: {
-      title: 'Final Review: All Topics',
-      duration: 60,
-      resource: 'Comprehensive',
-      type: 'review'
-    },
-    wednesday: {
-      title: 'Final Review: Practice Test',
-      duration: 60,
-      resource: 'Multiple Choice',
-      type: 'practice'
-    },
-    friday: {
-      title: 'Final Review: Weak Areas',
-      duration: 60,
-      resource: 'Targeted Review',
-      type: 'review'
-    },
-    weekend: {
-      title: 'Full Practice Exam',
-      duration: 180,
-      resource: 'Timed Test',
-      type: 'practice'
-    }
-  };
-  
-  calendarWeeks.push(reviewWeekData);
-  
-  // Create tasks for review week
-  weeklyTasks.push({
-    id: taskId++,
-    studyPlanId: 1,
-    title: reviewWeekData.monday!.title,
-    description: 'Review all material covered in the course',
-    date: format(addDays(reviewStart, 1), 'yyyy-MM-dd'), // Monday
-    duration: reviewWeekData.monday!.duration,
-    resource: reviewWeekData.monday!.resource,
-    isCompleted: false,
-    taskType: 'review'
-  });
-  
-  weeklyTasks.push({
-    id: taskId++,
-    studyPlanId: 1,
-    title: reviewWeekData.wednesday!.title,
-    description: 'Take a practice test to assess your knowledge',
-    date: format(addDays(reviewStart, 3), 'yyyy-MM-dd'), // Wednesday
-    duration: reviewWeekData.wednesday!.duration,
-    resource: reviewWeekData.wednesday!.resource,
-    isCompleted: false,
-    taskType: 'practice'
-  });
-  
-  weeklyTasks.push({
-    id: taskId++,
-    studyPlanId: 1,
-    title: reviewWeekData.friday!.title,
-    description: 'Focus on areas where you need improvement',
-    date: format(addDays(reviewStart, 5), 'yyyy-MM-dd'), // Friday
-    duration: reviewWeekData.friday!.duration,
-    resource: reviewWeekData.friday!.resource,
-    isCompleted: false,
-    taskType: 'review'
-  });
-  
-  weeklyTasks.push({
-    id: taskId++,
-    studyPlanId: 1,
-    title: reviewWeekData.weekend!.title,
-    description: 'Take a full-length practice exam under test conditions',
-    date: format(addDays(reviewStart, 6), 'yyyy-MM-dd'), // Saturday
-    duration: reviewWeekData.weekend!.duration,
-    resource: reviewWeekData.weekend!.resource,
-    isCompleted: false,
-    taskType: 'practice'
-  });
+  const weeklyTasks = scheduleTasks(formData);
   
   // Create StudyPlan object and include progress data
   const topicsProgress: Record<string, number> = {};
@@ -816,7 +439,7 @@ function fallbackRuleBasedPlan(formData: StudyPlanFormData): GeneratedPlan {
   
   return {
     studyPlan,
-    calendarWeeks,
+    calendarWeeks: buildCalendarWeeks(weeklyTasks),
     weeklyTasks
   };
 }
@@ -0,0 +1,77 @@
+/**
+ * Study sessions: the time actually spent studying
+ *
+ * A session is timed live from a task (start, then stop) or logged afterwards;
+ * the server totals the time per topic and day for the progress page.
+ */
+
+import { browserTimeZone, fetcher } from './utils';
+import type { StudySession } from '@shared/schema';
+import type { FocusRating, StudyTimeSummary } from '@shared/studySessions';
+
+export type { StudySession } from '@shared/schema';
+export type { FocusRating, StudyTimeSummary, TopicStudyTime } from '@shared/studySessions';
+export { FOCUS_RATINGS } from '@shared/studySessions';
+
+export interface SessionDetails {
+  interruptions?: number;
+  focusRating?: FocusRating | null;
+  note?: string;
+}
+
+/**
+ * The session being timed right now, or null
+ */
+export async function getActiveStudySession(): Promise<StudySession | null> {
+  return fetcher<StudySession | null>('/study-sessions/active');
+}
+
+/**
+ * Start timing a session on a task
+ */
+export async function startStudySession(taskId: number): Promise<StudySession> {
+  return fetcher<StudySession>('/study-sessions/start', {
+    method: 'POST',
+    body: JSON.stringify({ taskId }),
+  });
+}
+
+/**
+ * Stop the running session; its minutes are the time since it started
+ */
+export async function stopStudySession(sessionId: number, details: SessionDetails = {}): Promise<StudySession> {
+  return fetcher<StudySession>(`/study-sessions/${sessionId}/stop`, {
+    method: 'POST',
+    body: JSON.stringify(details),
+  });
+}
+
+/**
+ * Log a session that wasn't timed live
+ */
+export async function logStudySession(
+  session: { taskId?: number; studyPlanId?: number; topic?: string; startedAt: string; minutes: number } & SessionDetails
+): Promise<StudySession> {
+  return fetcher<StudySession>('/study-sessions', {
+    method: 'POST',
+    body: JSON.stringify(session),
+  });
+}
+
+/**
+ * A plan's sessions, newest first
+ */
+export async function listStudySessions(planId: number | string): Promise<StudySession[]> {
+  return fetcher<StudySession[]>(`/study-sessions?planId=${planId}`);
+}
+
+/**
+ * Time studied on a plan: totals, per topic and per day over the last `days` days
+ */
+export async function getStudyTimeSummary(planId: number | string, days = 30): Promise<StudyTimeSummary> {
+  return fetcher<StudyTimeSummary>(`/study-sessions/summary?planId=${planId}&days=${days}&timeZone=${encodeURIComponent(browserTimeZone())}`);
+}
+
+export async function deleteStudySession(sessionId: number): Promise<void> {
+  await fetcher<void>(`/study-sessions/${sessionId}`, { method: 'DELETE' });
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { authHeaders, clearAuthSession } from "./authToken"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -13,25 +14,45 @@ export function formatDate(date: Date): string {
   }).format(date)
 }
 
+// The browser's IANA time zone; the server uses it to decide what "today" is
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+// Absolute URL for an API path such as '/plans'
+export function apiUrl(url: string): string {
+  const baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3000/api'
+  return url.startsWith('http') ? url : `${baseUrl}${url.startsWith('/') ? url : `/${url}`}`
+}
+
 export const fetcher = async <T>(
   url: string,
   options?: RequestInit
 ): Promise<T> => {
-  const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3000/api'
-  const fullUrl = url.startsWith('http') ? url : `${apiUrl}${url.startsWith('/') ? url : `/${url}`}`
-  
-  const response = await fetch(fullUrl, {
+  const response = await fetch(apiUrl(url), {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...(await authHeaders()),
       ...options?.headers,
     },
   })
 
+  if (response.status === 401) {
+    clearAuthSession()
+  }
+
   if (!response.ok) {
-    const error = new Error('An error occurred while fetching the data.')
+    // Prefer the server's own message, e.g. when the daily AI limit is reached
+    const body = await response.json().catch(() => null)
+    const error = new Error(body?.error || 'An error occurred while fetching the data.')
     throw error
   }
 
+  // Deletes answer with no content
+  if (response.status === 204) {
+    return undefined as T
+  }
+
   return response.json()
 }
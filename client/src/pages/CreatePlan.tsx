@@ -8,6 +8,7 @@ import { useToast } from '@/components/ui/use-toast';
 import { Loader2 } from 'lucide-react';
 import { mockCreatePlan } from '@/lib/apiMocks';
 import { generateAIStudyPlan } from '@/lib/aiService';
+import { fetchBusyEvents, mergeBusyEvents } from '@/lib/busyTime';
 import { AIStudyPlanResponse, StudyPlanFormData } from '@/types';
 
 export default function CreatePlan() {
@@ -60,6 +61,10 @@ export default function CreatePlan() {
         topicProgressNotes: data.topicProgressNotes,
         timeDistributionPreference: data.timeDistributionPreference,
         lastMinutePriority: data.lastMinutePriority,
+        availableDays: data.availableDays,
+        studyWindow: data.studyWindow,
+        // Stored calendar commitments plus anything imported in the form
+        calendarEvents: mergeBusyEvents(await fetchBusyEvents(), data.calendarEvents),
       };
 
       // Generate AI study plan if options are enabled
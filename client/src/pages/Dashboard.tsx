@@ -17,6 +17,7 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { mockGetAllPlans } from "@/lib/apiMocks";
+import StudyGoalsCard from "@/components/StudyGoalsCard";
 import { StudyPlan, StudyTask } from "@/types";
 
 export default function Dashboard() {
@@ -189,6 +190,17 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {plans.plans.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold mb-4">Study Goals</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {plans.plans.map(plan => (
+              <StudyGoalsCard key={plan.id} planId={plan.id} courseName={plan.courseName} />
+            ))}
+          </div>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Your Tasks</CardTitle>
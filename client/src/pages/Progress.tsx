@@ -8,6 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { StudyPlan, StudyTask } from "../types";
 import { format, parseISO, isAfter, isBefore, addDays, differenceInDays } from "date-fns";
 import { mockGetAllPlans } from "@/lib/apiMocks";
+import { getStudyTimeSummary } from "@/lib/studySessions";
+import { getPlanGoals } from "@/lib/goals";
+import { downloadProgressReport, REPORT_FORMATS, ReportFormat } from "@/lib/reports";
+import ExamReadinessCard from "@/components/ExamReadinessCard";
 import {
   PieChart,
   Pie,
@@ -21,9 +25,11 @@ import {
   Legend,
   ResponsiveContainer,
   LineChart,
-  Line
+  Line,
+  ReferenceLine
 } from "recharts";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { 
   Calendar, 
   Clock, 
@@ -41,6 +47,10 @@ import {
 
 export default function ProgressTracker() {
   const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('pdf');
+  const [reportFrom, setReportFrom] = useState('');
+  const [reportTo, setReportTo] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
   const { toast } = useToast();
 
   // Fetch all study plans
@@ -53,6 +63,22 @@ export default function ProgressTracker() {
     queryFn: () => mockGetAllPlans(),
   });
 
+  // Time actually studied, from the logged study sessions
+  const { data: studyTime } = useQuery({
+    queryKey: ["study-time", selectedPlanId],
+    queryFn: () => getStudyTimeSummary(selectedPlanId!),
+    enabled: selectedPlanId !== null,
+    retry: false,
+  });
+
+  // Daily target and streak for the plan
+  const { data: goals } = useQuery({
+    queryKey: ["goals", selectedPlanId],
+    queryFn: () => getPlanGoals(selectedPlanId!),
+    enabled: selectedPlanId !== null,
+    retry: false,
+  });
+
   // Effect to set first plan as default if available
   useState(() => {
     if (plansData && plansData.plans && plansData.plans.length > 0 && !selectedPlanId) {
@@ -161,6 +187,13 @@ export default function ProgressTracker() {
       .slice(0, 5);
   };
 
+  const formatMinutes = (minutes: number) => {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  };
+
   // Generate daily activity data
   const generateDailyActivity = () => {
     if (!tasks) return [];
@@ -193,10 +226,14 @@ export default function ProgressTracker() {
       }
     });
     
+    // Minutes actually studied per day, where sessions were logged
+    const minutesByDay = new Map((studyTime?.byDay || []).map(day => [day.date, day.minutes]));
+    
     // Convert to array for chart
     return Array.from(activityMap).map(([date, count]) => ({
       date: format(parseISO(date), 'MMM d'),
-      tasks: count
+      tasks: count,
+      minutes: minutesByDay.get(date) ?? 0
     }));
   };
 
@@ -237,57 +274,80 @@ export default function ProgressTracker() {
     },
   ];
 
-  const downloadProgressReport = () => {
-    if (!selectedPlan) return;
-    
-    // Create report content
-    let report = `# Progress Report for ${selectedPlan.courseName}\n`;
-    report += `Date: ${format(new Date(), 'MMMM d, yyyy')}\n\n`;
-    report += `## Overview\n`;
-    report += `- Overall Progress: ${percentComplete}% (${completed}/${total} tasks completed)\n`;
-    report += `- Days Until Exam: ${daysRemaining}\n`;
-    report += `- Weekly Study Time: ${selectedPlan.weeklyStudyTime} hours\n\n`;
-    
-    report += `## Progress by Topic\n`;
-    topicProgress.forEach(topic => {
-      report += `- ${topic.name}: ${topic.progress}% (${topic.completed}/${topic.total} tasks completed)\n`;
-    });
-    
-    report += `\n## Progress by Task Type\n`;
-    report += `- Study: ${completedByType.study}/${totalByType.study} tasks completed\n`;
-    report += `- Review: ${completedByType.review}/${totalByType.review} tasks completed\n`;
-    report += `- Practice: ${completedByType.practice}/${totalByType.practice} tasks completed\n\n`;
-    
-    report += `## Upcoming Tasks\n`;
-    upcomingTasks.forEach(task => {
-      report += `- ${task.title} - ${format(parseISO(task.date), 'MMMM d')} (${task.duration} min)\n`;
-    });
-    
-    // Create and download the file
-    const blob = new Blob([report], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `progress-report-${selectedPlan.courseName.replace(/\s+/g, '-').toLowerCase()}.md`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // The server builds the report; empty dates cover the whole plan
+  const exportReport = async () => {
+    if (!selectedPlanId) return;
+
+    if (reportFrom && reportTo && reportFrom > reportTo) {
+      toast({
+        title: "Invalid date range",
+        description: "The start date must be on or before the end date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      await downloadProgressReport(selectedPlanId, {
+        format: reportFormat,
+        from: reportFrom || undefined,
+        to: reportTo || undefined,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't export the report",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
     <div className="container mx-auto py-8">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Progress Tracker</h1>
-        <Button 
-          variant="outline" 
-          onClick={downloadProgressReport}
-          disabled={!selectedPlanId}
-          className="flex items-center"
-        >
-          <Download className="h-4 w-4 mr-2" />
-          Export Report
-        </Button>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">From</label>
+            <Input
+              type="date"
+              value={reportFrom}
+              onChange={(e) => setReportFrom(e.target.value)}
+              className="h-9 w-36"
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-muted-foreground mb-1">To</label>
+            <Input
+              type="date"
+              value={reportTo}
+              onChange={(e) => setReportTo(e.target.value)}
+              className="h-9 w-36"
+            />
+          </div>
+          <Select value={reportFormat} onValueChange={(value) => setReportFormat(value as ReportFormat)}>
+            <SelectTrigger className="h-9 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPORT_FORMATS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button 
+            variant="outline" 
+            onClick={exportReport}
+            disabled={!selectedPlanId || isExporting}
+            className="flex items-center"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {isExporting ? 'Exporting...' : 'Export Report'}
+          </Button>
+        </div>
       </div>
       
       <div className="max-w-xs mb-6">
@@ -314,7 +374,7 @@ export default function ProgressTracker() {
       {selectedPlanId ? (
         <div className="space-y-6">
           {/* Overview Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="flex items-center text-sm font-medium">
@@ -344,6 +404,28 @@ export default function ProgressTracker() {
               </CardContent>
             </Card>
             
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center text-sm font-medium">
+                  <Clock className="h-4 w-4 text-primary mr-2" />
+                  Time Studied
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatMinutes(studyTime?.actualMinutes ?? 0)}</div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {studyTime
+                    ? `${studyTime.sessionCount} sessions${studyTime.averageFocus !== null ? ` • focus ${studyTime.averageFocus}/5` : ''}`
+                    : 'No study sessions logged yet'}
+                </p>
+                {studyTime && studyTime.untrackedMinutes > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatMinutes(studyTime.untrackedMinutes)} of completed tasks weren't timed
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            
             <Card>
               <CardHeader className="pb-2">
                 <CardTitle className="flex items-center text-sm font-medium">
@@ -443,21 +525,29 @@ export default function ProgressTracker() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {topicProgress.map((topic, idx) => (
-                  <div key={idx}>
-                    <div className="flex justify-between mb-1">
-                      <span className="text-sm font-medium">{topic.name}</span>
-                      <span className="text-sm text-muted-foreground">
-                        {topic.progress}% ({topic.completed}/{topic.total})
-                      </span>
+                {topicProgress.map((topic, idx) => {
+                  const topicTime = studyTime?.byTopic.find(time => time.topic === topic.name);
+                  
+                  return (
+                    <div key={idx}>
+                      <div className="flex justify-between mb-1">
+                        <span className="text-sm font-medium">{topic.name}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {topic.progress}% ({topic.completed}/{topic.total})
+                          {topicTime && topicTime.actualMinutes > 0 && ` • ${formatMinutes(topicTime.actualMinutes)} studied`}
+                        </span>
+                      </div>
+                      <Progress value={topic.progress} className="h-2" />
                     </div>
-                    <Progress value={topic.progress} className="h-2" />
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
 
+          {/* Exam Readiness */}
+          <ExamReadinessCard planId={selectedPlanId} />
+
           {/* Activity Trend */}
           <Card>
             <CardHeader>
@@ -466,7 +556,7 @@ export default function ProgressTracker() {
                 Activity Trend
               </CardTitle>
               <CardDescription>
-                Tasks completed over the last 30 days
+                Tasks completed and minutes studied over the last 30 days, against the daily goal
               </CardDescription>
             </CardHeader>
             <CardContent className="h-64">
@@ -474,10 +564,21 @@ export default function ProgressTracker() {
                 <LineChart data={dailyActivity}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="date" />
-                  <YAxis />
+                  <YAxis yAxisId="tasks" />
+                  <YAxis yAxisId="minutes" orientation="right" />
                   <Tooltip />
                   <Legend />
+                  {goals && goals.dailyTargetMinutes > 0 && (
+                    <ReferenceLine
+                      yAxisId="minutes"
+                      y={goals.dailyTargetMinutes}
+                      stroke="#4ade80"
+                      strokeDasharray="4 4"
+                      label={{ value: 'Daily goal', position: 'insideTopRight', fontSize: 11 }}
+                    />
+                  )}
                   <Line 
+                    yAxisId="tasks"
                     type="monotone" 
                     dataKey="tasks" 
                     stroke="#8884d8" 
@@ -485,6 +586,15 @@ export default function ProgressTracker() {
                     dot={{ r: 3 }}
                     activeDot={{ r: 7 }} 
                   />
+                  <Line 
+                    yAxisId="minutes"
+                    type="monotone" 
+                    dataKey="minutes" 
+                    stroke="#4ade80" 
+                    name="Minutes Studied" 
+                    dot={{ r: 3 }}
+                    activeDot={{ r: 7 }} 
+                  />
                 </LineChart>
               </ResponsiveContainer>
             </CardContent>
@@ -11,11 +11,21 @@ import {
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Calendar, Clock, BookOpen, BarChart3, MessageSquare, Loader2, Sparkles } from 'lucide-react';
+import { Calendar, Clock, BookOpen, BarChart3, MessageSquare, Loader2, Sparkles, CalendarClock, History } from 'lucide-react';
 import { format, parseISO, isAfter, isBefore, addDays, startOfWeek, endOfWeek } from 'date-fns';
-import { mockGetPlan, mockUpdateTask } from '@/lib/apiMocks';
+import { isMockPlan, mockGetPlan, mockUpdateTask } from '@/lib/apiMocks';
 import AIRefinementDialog from '@/components/AIRefinementDialog';
 import AIChatDialog from '@/components/AIChatDialog';
+import CatchUpDialog from '@/components/CatchUpDialog';
+import PlanHistoryDialog from '@/components/PlanHistoryDialog';
+import RefinementProposalView from '@/components/RefinementProposalView';
+import StudySessionControl from '@/components/StudySessionControl';
+import { CatchUpPlan } from '@/lib/catchUp';
+import { getExamForecast } from '@/lib/forecast';
+import { getPlan, setTaskCompleted } from '@/lib/plans';
+import { PlanVersion } from '@/lib/planVersions';
+import { ProposalDecisions, RefinementProposal } from '@/lib/refinementProposal';
+import { useAIRefinement } from '@/hooks/useAIRefinement';
 import { GeneratedPlan, StudyPlan, StudyTask } from '@/types';
 import AIWeeklyPlanView from '@/components/AIWeeklyPlanView';
 
@@ -30,6 +40,12 @@ export default function Schedule({ id }: ScheduleProps) {
   const { toast } = useToast();
   const [isRefinementDialogOpen, setIsRefinementDialogOpen] = useState(false);
   const [isChatDialogOpen, setIsChatDialogOpen] = useState(false);
+  const [isCatchUpDialogOpen, setIsCatchUpDialogOpen] = useState(false);
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
+  const [proposal, setProposal] = useState<RefinementProposal | null>(null);
+  const { applyRefinement, isApplying } = useAIRefinement();
+  // Plans made by the mock API have no server record, so catch-up, history and the forecast are unavailable
+  const isLocalPlan = isMockPlan(id);
   
   // Fetch the study plan and tasks
   const {
@@ -45,8 +61,7 @@ export default function Schedule({ id }: ScheduleProps) {
     queryKey: ['plan', id],
     queryFn: async () => {
       try {
-        // Use the mock API in development
-        return await mockGetPlan(id);
+        return isLocalPlan ? await mockGetPlan(id) : await getPlan(id);
       } catch (error) {
         console.error('Error fetching plan:', error);
         throw new Error('Failed to fetch study plan');
@@ -54,12 +69,21 @@ export default function Schedule({ id }: ScheduleProps) {
     }
   });
 
+  // Whether the plan is on track to be finished by the exam
+  const { data: forecast } = useQuery({
+    queryKey: ['forecast', Number(id)],
+    queryFn: () => getExamForecast(id),
+    enabled: !isLocalPlan,
+    retry: false
+  });
+
   // Update task completion status
   const updateTask = useMutation({
     mutationFn: async ({ taskId, isCompleted }: { taskId: number, isCompleted: boolean }) => {
       try {
-        // Use the mock API in development
-        return await mockUpdateTask(id, taskId, { isCompleted });
+        return isLocalPlan
+          ? await mockUpdateTask(id, taskId, { isCompleted })
+          : await setTaskCompleted(taskId, isCompleted);
       } catch (error) {
         console.error('Error updating task:', error);
         throw new Error('Failed to update task');
@@ -86,12 +110,34 @@ export default function Schedule({ id }: ScheduleProps) {
     updateTask.mutate({ taskId, isCompleted: !currentStatus });
   };
 
-  // Handle successful plan refinement
-  const handleRefinementComplete = (refinedPlan: GeneratedPlan) => {
+  // Show a finished refinement for review instead of saving it straight away
+  const handleProposalReady = (refinement: RefinementProposal) => {
+    setProposal(refinement);
+    setIsRefinementDialogOpen(false);
+    toast({
+      title: "Refinement ready",
+      description: "Review the proposed changes and apply the ones you want.",
+    });
+  };
+
+  // Handle accepted catch-up rescheduling
+  const handleCatchUpApplied = (catchUp: CatchUpPlan) => {
+    queryClient.invalidateQueries({ queryKey: ['plan', id] });
+    queryClient.invalidateQueries({ queryKey: ['forecast', Number(id)] });
+    toast({
+      title: "Schedule caught up",
+      description: catchUp.dropped.length > 0
+        ? `Moved ${catchUp.moved.length} tasks and removed ${catchUp.dropped.length} that no longer fit before the exam.`
+        : `Moved ${catchUp.moved.length} overdue tasks into your free time.`,
+    });
+  };
+
+  const handleVersionRestored = (version: PlanVersion) => {
     queryClient.invalidateQueries({ queryKey: ['plan', id] });
+    queryClient.invalidateQueries({ queryKey: ['forecast', Number(id)] });
     toast({
-      title: "Plan Refined!",
-      description: "Your study plan has been updated with AI suggestions.",
+      title: "Plan restored",
+      description: version.note ?? `Saved as version ${version.version}.`,
     });
   };
 
@@ -155,7 +201,13 @@ export default function Schedule({ id }: ScheduleProps) {
     const diffTime = Math.abs(exam.getTime() - today.getTime());
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     
-    return `${diffDays} days until exam`;
+    if (!forecast || forecast.remainingMinutes === 0) {
+      return `${diffDays} days until exam`;
+    }
+
+    return forecast.onTrack
+      ? `${diffDays} days until exam • on track to finish by ${format(parseISO(forecast.projectedFinishDate!), 'MMM d')}`
+      : `${diffDays} days until exam • behind pace, ${forecast.remainingMinutes - forecast.projectedMinutes} min of tasks won't fit`;
   };
 
   // Get task color based on type
@@ -217,8 +269,31 @@ export default function Schedule({ id }: ScheduleProps) {
     calendarWeeks: [] 
   };
 
+  // Save the accepted part of the pending refinement
+  const handleApplyProposal = async (decisions: ProposalDecisions) => {
+    if (!proposal) return;
+
+    try {
+      await applyRefinement(generatedPlanForDialog, proposal, decisions);
+      setProposal(null);
+      queryClient.invalidateQueries({ queryKey: ['plan', id] });
+      queryClient.invalidateQueries({ queryKey: ['forecast', Number(id)] });
+      toast({
+        title: "Plan Refined!",
+        description: "The changes you accepted have been saved.",
+      });
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to save the refined plan.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const progress = calculateProgress(plan, tasks);
   const filteredTasks = filterTasks(tasks);
+  const overdueCount = tasks.filter(task => isBefore(parseISO(task.date), new Date()) && !task.isCompleted).length;
 
   // Add new section to display AI-generated plan structure
   const AIGeneratedPlanSection = ({ plan }: { plan: StudyPlan }) => {
@@ -360,6 +435,28 @@ export default function Schedule({ id }: ScheduleProps) {
               Refine Plan with AI
             </Button>
             
+            {!isLocalPlan && (
+              <Button 
+                variant="outline" 
+                className="w-full flex items-center justify-center gap-2" 
+                onClick={() => setIsHistoryDialogOpen(true)}
+              >
+                <History className="h-4 w-4" />
+                Plan History
+              </Button>
+            )}
+            
+            {!isLocalPlan && overdueCount > 0 && (
+              <Button 
+                variant="outline" 
+                className="w-full flex items-center justify-center gap-2" 
+                onClick={() => setIsCatchUpDialogOpen(true)}
+              >
+                <CalendarClock className="h-4 w-4" />
+                Catch Up on {overdueCount} Overdue {overdueCount === 1 ? 'Task' : 'Tasks'}
+              </Button>
+            )}
+            
             <div className="text-center p-4 bg-muted rounded-lg">
               <MessageSquare className="h-10 w-10 mx-auto mb-4 text-primary" />
               <h3 className="font-medium mb-2">Ask AI About Your Plan</h3>
@@ -377,6 +474,17 @@ export default function Schedule({ id }: ScheduleProps) {
         </Card>
       </div>
 
+      {proposal && (
+        <div className="mt-8">
+          <RefinementProposalView
+            proposal={proposal}
+            isApplying={isApplying}
+            onApply={handleApplyProposal}
+            onDiscard={() => setProposal(null)}
+          />
+        </div>
+      )}
+
       <AIGeneratedPlanSection plan={plan} />
 
       <Card>
@@ -444,6 +552,7 @@ export default function Schedule({ id }: ScheduleProps) {
                           {task.resource}
                         </div>
                       )}
+                      <StudySessionControl taskId={task.id} disabled={task.isCompleted} />
                     </div>
                   </div>
                 </div>
@@ -455,16 +564,36 @@ export default function Schedule({ id }: ScheduleProps) {
       
       <AIRefinementDialog
         studyPlan={generatedPlanForDialog} 
-        onRefinementComplete={handleRefinementComplete}
+        onProposalReady={handleProposalReady}
         open={isRefinementDialogOpen}
         onOpenChange={setIsRefinementDialogOpen}
       />
       
       <AIChatDialog 
         studyPlan={plan}
+        tasks={tasks}
         open={isChatDialogOpen}
         onOpenChange={setIsChatDialogOpen}
+        onPlanChanged={() => queryClient.invalidateQueries({ queryKey: ['plan', id] })}
       />
+      
+      {!isLocalPlan && (
+        <>
+          <CatchUpDialog
+            planId={id}
+            open={isCatchUpDialogOpen}
+            onOpenChange={setIsCatchUpDialogOpen}
+            onApplied={handleCatchUpApplied}
+          />
+          
+          <PlanHistoryDialog
+            planId={id}
+            open={isHistoryDialogOpen}
+            onOpenChange={setIsHistoryDialogOpen}
+            onRestored={handleVersionRestored}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -1,3 +1,5 @@
+import type { AIWeeklyPlan } from '@shared/aiPlan';
+
 export interface Topic {
   id: string;
   title: string;
@@ -34,8 +36,11 @@ export interface StudyPlanFormData {
   learningStyle?: LearningStyle;
   studyMaterials?: StudyMaterial[];
   topicProgress?: Record<string, number>; // topicId -> progress percentage
+  progress?: string; // The student's own description of how far they've got
   generateOptions?: boolean; // Whether to generate multiple schedule options
   calendarEvents?: CalendarEvent[]; // Existing calendar commitments to work around
+  availableDays?: number[]; // Days of the week the student can study, 0 = Sunday
+  studyWindow?: { startHour: number; endHour: number }; // Hours of the day to study in
 }
 
 export interface StudyTask {
@@ -44,49 +49,34 @@ export interface StudyTask {
   title: string;
   description?: string;
   date: string;
+  startTime?: string; // HH:mm, when the session is scheduled to start
   duration: number; // in minutes
   resource?: string;
   isCompleted: boolean;
   taskType: 'study' | 'review' | 'practice';
+  topic?: string | null; // the plan topic the task covers
+  score?: number | null; // 0-100, from a practice quiz or test
 }
 
 export interface WeekTask {
   title: string;
+  date: string;
+  startTime?: string;
   duration: number;
   resource: string;
   type: 'study' | 'review' | 'practice';
 }
 
+export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
 export interface WeekData {
   weekRange: string;
-  monday?: WeekTask;
-  wednesday?: WeekTask;
-  friday?: WeekTask;
-  weekend?: WeekTask;
+  startDate: string; // yyyy-MM-dd of the first day in the week
+  days: Partial<Record<WeekDay, WeekTask[]>>;
 }
 
-// New AI-generated task interface
-export interface AIStudyTask {
-  topic: string;
-  activity: string;
-  resource: string;
-  duration: number; // in minutes
-  type: 'study' | 'review' | 'practice';
-}
-
-// New interface for AI-generated daily tasks
-export interface AIStudyDay {
-  day: string;
-  tasks: AIStudyTask[];
-}
-
-// New interface for AI-generated weekly plan
-export interface AIWeeklyPlan {
-  week: number;
-  dateRange: string;
-  focus: string;
-  days: AIStudyDay[];
-}
+// AI plan shapes are shared with the server's AI gateway
+export type { AIStudyTask, AIStudyDay, AIWeeklyPlan, AIStudyPlanResponse } from '@shared/aiPlan';
 
 export interface StudyPlan {
   id: number;
@@ -113,13 +103,3 @@ export interface GeneratedPlan {
   weeklyTasks: StudyTask[];
   aiWeeklyPlan?: AIWeeklyPlan[]; // AI-generated structured weekly plan
 }
-
-// Interface for the AI study plan engine response
-export interface AIStudyPlanResponse {
-  success: boolean;
-  aiRecommendations: string[];
-  weeklyPlan?: AIWeeklyPlan[];
-  summary?: string;
-  finalWeekStrategy?: string;
-  rawResponse?: string;
-}
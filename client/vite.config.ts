@@ -8,10 +8,15 @@ export default defineConfig({
   server: {
     port: 5173,
     host: '0.0.0.0',
+    // Relative /api requests go to the API server
+    proxy: {
+      '/api': 'http://localhost:3000',
+    },
   },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@shared': path.resolve(__dirname, '../shared'),
     },
   },
   build: {
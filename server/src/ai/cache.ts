@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import type { ChatMessage, Completion } from './providers.js';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const MAX_ENTRIES = 500;
+
+// Completions for identical prompts, keyed on the normalized prompt and the
+// model that answered. Kept in memory, so the cache starts empty after a
+// restart. AI_CACHE_TTL_SECONDS=0 turns it off.
+const entries = new Map<string, { completion: Completion; expiresAt: number }>();
+
+function ttlMs() {
+  const ttl = parseInt(process.env.AI_CACHE_TTL_SECONDS || '');
+  return (Number.isNaN(ttl) ? DEFAULT_TTL_SECONDS : Math.max(0, ttl)) * 1000;
+}
+
+// Whitespace differences in a prompt shouldn't miss the cache
+function normalize(text: string) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export interface CacheKeyParts {
+  messages: ChatMessage[];
+  model: string;
+  temperature?: number;
+  json?: boolean;
+  tools?: { name: string }[];
+}
+
+export function cacheKey({ messages, model, temperature, json, tools }: CacheKeyParts) {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      model,
+      temperature,
+      json: json ?? false,
+      tools: tools?.map(tool => tool.name) ?? [],
+      messages: messages.map(message => [message.role, normalize(message.content)]),
+    }))
+    .digest('hex');
+}
+
+export function getCached(key: string) {
+  const entry = entries.get(key);
+  if (!entry) {
+    return undefined;
+  }
+  if (entry.expiresAt <= Date.now()) {
+    entries.delete(key);
+    return undefined;
+  }
+  return entry.completion;
+}
+
+export function setCached(key: string, completion: Completion) {
+  const ttl = ttlMs();
+  if (ttl === 0) {
+    return;
+  }
+
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  if (entries.size >= MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value!);
+  }
+  entries.set(key, { completion, expiresAt: Date.now() + ttl });
+}
+
+export function forgetCached(key: string) {
+  entries.delete(key);
+}
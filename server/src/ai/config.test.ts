@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getProviderChain, resetProviderChain } from './config.js';
+import { isAIConfigured } from './gateway.js';
+
+function configure(env: Record<string, string>) {
+  vi.stubEnv('AI_PROVIDERS', '');
+  vi.stubEnv('OPENROUTER_API_KEY', '');
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  resetProviderChain();
+}
+
+const providerNames = () => getProviderChain().map(provider => provider.name);
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetProviderChain();
+});
+
+describe('getProviderChain', () => {
+  it('has no provider when nothing is configured outside tests', () => {
+    configure({ NODE_ENV: 'production' });
+
+    expect(providerNames()).toEqual([]);
+    expect(isAIConfigured()).toBe(false);
+  });
+
+  it('uses the stub by default under test', () => {
+    configure({ NODE_ENV: 'test' });
+
+    expect(providerNames()).toEqual(['stub']);
+  });
+
+  it('uses the stub when AI_PROVIDERS asks for it', () => {
+    configure({ NODE_ENV: 'development', AI_PROVIDERS: 'stub' });
+
+    expect(providerNames()).toEqual(['stub']);
+    expect(isAIConfigured()).toBe(true);
+  });
+
+  it('uses OpenRouter when only a key is set', () => {
+    configure({ NODE_ENV: 'development', OPENROUTER_API_KEY: 'key' });
+
+    expect(providerNames()).toEqual(['openrouter']);
+  });
+
+  it('follows the AI_PROVIDERS order and skips providers it cannot use', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    configure({ NODE_ENV: 'development', AI_PROVIDERS: 'openrouter, local, nonsense, stub' });
+
+    expect(providerNames()).toEqual(['local', 'stub']);
+  });
+});
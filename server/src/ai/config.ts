@@ -0,0 +1,82 @@
+import { LLMProvider, createOpenAICompatibleProvider, createStubProvider } from './providers.js';
+
+// Central AI configuration, read from the environment on first use:
+//   AI_PROVIDERS        ordered fallback chain, e.g. "openrouter,local,stub"
+//   OPENROUTER_MODELS   models to try on OpenRouter, in order
+//   LOCAL_LLM_BASE_URL  OpenAI-compatible endpoint of a local server
+//   LOCAL_LLM_MODELS    models to try on it, in order
+//   LOCAL_LLM_API_KEY   only if the local server wants one
+
+// Free models first to avoid costs
+const DEFAULT_OPENROUTER_MODELS = [
+  'mistralai/mistral-small-24b-instruct-2501:free',
+  'meta-llama/llama-4-scout:free',
+  'huggingfaceh4/zephyr-7b-beta:free',
+];
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_LOCAL_MODELS = ['llama3.1'];
+
+let providerChain: LLMProvider[] | undefined;
+
+function listFromEnv(name: string, fallback: string[]) {
+  const values = (process.env[name] || '').split(',').map(value => value.trim()).filter(Boolean);
+  return values.length > 0 ? values : fallback;
+}
+
+function createProvider(name: string): LLMProvider | null {
+  switch (name) {
+    case 'openrouter':
+      if (!process.env.OPENROUTER_API_KEY) {
+        console.warn('AI provider "openrouter" skipped: OPENROUTER_API_KEY is not set');
+        return null;
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey: process.env.OPENROUTER_API_KEY,
+        models: listFromEnv('OPENROUTER_MODELS', DEFAULT_OPENROUTER_MODELS),
+        headers: {
+          'HTTP-Referer': process.env.NODE_ENV === 'production'
+            ? 'https://focusgrid.app'
+            : 'http://localhost:3000',
+          'X-Title': 'FocusGrid',
+        },
+      });
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name,
+        baseURL: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        models: listFromEnv('LOCAL_LLM_MODELS', DEFAULT_LOCAL_MODELS),
+      });
+    case 'stub':
+      return createStubProvider();
+    default:
+      console.warn(`Unknown AI provider "${name}" in AI_PROVIDERS`);
+      return null;
+  }
+}
+
+// Providers used when AI_PROVIDERS is not set: OpenRouter when a key is set,
+// the offline stub under test, and none otherwise so AI routes answer 503
+function defaultProviderNames(): string[] {
+  if (process.env.OPENROUTER_API_KEY) return ['openrouter'];
+  if (process.env.NODE_ENV === 'test') return ['stub'];
+  return [];
+}
+
+// Providers in the order they should be tried
+export function getProviderChain(): LLMProvider[] {
+  if (!providerChain) {
+    const names = listFromEnv('AI_PROVIDERS', defaultProviderNames());
+    providerChain = names
+      .map(createProvider)
+      .filter((provider): provider is LLMProvider => provider !== null);
+  }
+  return providerChain;
+}
+
+// Read the environment again on next use, e.g. after a test changes it
+export function resetProviderChain() {
+  providerChain = undefined;
+}
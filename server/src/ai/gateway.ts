@@ -0,0 +1,175 @@
+import { getProviderChain } from './config.js';
+import { AIPurpose, ChatMessage, ToolDefinition } from './providers.js';
+import { cacheKey, forgetCached, getCached, setCached } from './cache.js';
+import { TokenUsage, estimateTokens, recordUsage } from './usage.js';
+import type { ValidationResult } from './responses.js';
+
+export type { ChatMessage, ToolCall, ToolDefinition } from './providers.js';
+
+const DEFAULT_MAX_REPAIRS = 2;
+const MAX_REPORTED_ERRORS = 10;
+
+// The model kept answering with output that failed validation
+export class AIValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`AI reply failed validation: ${errors.slice(0, 3).join('; ')}`);
+    this.name = 'AIValidationError';
+  }
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  tools?: ToolDefinition[];
+  purpose?: AIPurpose;
+  userId?: number; // books the call to this user's usage ledger
+  cache?: boolean; // reuse an earlier completion of the same prompt (see cache.ts)
+}
+
+export function isAIConfigured() {
+  return getProviderChain().length > 0;
+}
+
+// Every provider/model pair in fallback order
+function candidates() {
+  return getProviderChain().flatMap(provider => provider.models.map(model => ({ provider, model })));
+}
+
+// Services that don't report usage, and all streams, are estimated from the text
+function estimateUsage(messages: ChatMessage[], content: string): TokenUsage {
+  return {
+    promptTokens: messages.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+    completionTokens: estimateTokens(content),
+  };
+}
+
+function track(options: CompletionOptions, provider: string, model: string, usage: TokenUsage, cached = false) {
+  if (options.userId) {
+    void recordUsage({ userId: options.userId, feature: options.purpose ?? 'other', provider, model, ...usage, cached });
+  }
+}
+
+// A cached completion from any model in the chain, preferring the earlier ones
+function cachedCompletion(messages: ChatMessage[], options: CompletionOptions) {
+  for (const { provider, model } of candidates()) {
+    const completion = getCached(cacheKey({ ...options, messages, model }));
+    if (completion) {
+      return { completion, model, provider: provider.name };
+    }
+  }
+  return undefined;
+}
+
+// Whether a completion of these messages would come from the cache
+export function hasCachedCompletion(messages: ChatMessage[], options: CompletionOptions) {
+  return options.cache === true && cachedCompletion(messages, options) !== undefined;
+}
+
+// Ask each model in turn until one answers, and return its reply
+export async function completeWithFallback(messages: ChatMessage[], options: CompletionOptions = {}) {
+  const hit = options.cache ? cachedCompletion(messages, options) : undefined;
+  if (hit) {
+    track(options, hit.provider, hit.model, { promptTokens: 0, completionTokens: 0 }, true);
+    return { content: hit.completion.content, toolCalls: hit.completion.toolCalls, model: hit.model, provider: hit.provider };
+  }
+
+  let lastError: unknown = new Error('No AI provider is configured');
+
+  for (const { provider, model } of candidates()) {
+    try {
+      const completion = await provider.complete({ ...options, messages, model });
+      track(options, provider.name, model, completion.usage ?? estimateUsage(messages, completion.content));
+      if (options.cache) {
+        setCached(cacheKey({ ...options, messages, model }), completion);
+      }
+      return { content: completion.content, toolCalls: completion.toolCalls, model, provider: provider.name };
+    } catch (error) {
+      console.warn(`AI model ${provider.name}/${model} failed:`, error);
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+// Stream the reply of the first model that starts answering. Once text has
+// been sent a failure can no longer fall back, so it is rethrown.
+export async function* streamWithFallback(messages: ChatMessage[], options: CompletionOptions = {}) {
+  let lastError: unknown = new Error('No AI provider is configured');
+
+  for (const { provider, model } of candidates()) {
+    let started = false;
+    let content = '';
+    try {
+      for await (const chunk of provider.stream({ ...options, messages, model })) {
+        started = true;
+        if (typeof chunk === 'string') {
+          content += chunk;
+        }
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      if (started) {
+        throw error;
+      }
+      console.warn(`AI model ${provider.name}/${model} failed:`, error);
+      lastError = error;
+    } finally {
+      // Also reached when the caller stops reading, e.g. a cancelled chat
+      if (started) {
+        track(options, provider.name, model, estimateUsage(messages, content));
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+function maxRepairs() {
+  const limit = parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '');
+  return Number.isNaN(limit) ? DEFAULT_MAX_REPAIRS : Math.max(0, limit);
+}
+
+function repairPrompt(errors: string[]) {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS).map(error => `- ${error}`).join('\n');
+  const more = errors.length > MAX_REPORTED_ERRORS ? `\n- ...and ${errors.length - MAX_REPORTED_ERRORS} more` : '';
+
+  return `Your previous answer could not be used:\n${listed}${more}\n\nReply again with the complete corrected JSON only, in the same format.`;
+}
+
+// Complete and validate the reply. Invalid replies go back to the model with
+// the validation errors, up to AI_MAX_REPAIR_ATTEMPTS times.
+export async function completeWithRepair<T>(
+  messages: ChatMessage[],
+  options: CompletionOptions,
+  validate: (content: string) => ValidationResult<T>
+): Promise<T> {
+  let conversation = messages;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs(); attempt++) {
+    const { content, model } = await completeWithFallback(conversation, options);
+    const result = validate(content);
+
+    if (result.ok) {
+      return result.value;
+    }
+
+    // Don't serve the same invalid reply from the cache next time
+    if (options.cache) {
+      forgetCached(cacheKey({ ...options, messages: conversation, model }));
+    }
+
+    errors = result.errors;
+    console.warn(`AI reply failed validation (attempt ${attempt + 1}):`, errors);
+    conversation = [
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: repairPrompt(errors) },
+    ];
+  }
+
+  throw new AIValidationError(errors);
+}
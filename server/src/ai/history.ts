@@ -0,0 +1,50 @@
+import { ChatMessage, completeWithFallback } from './gateway.js';
+import { estimateTokens } from './usage.js';
+
+// Keeping multi-turn chat inside the model's context: the newest messages go
+// into the prompt verbatim, older ones are condensed into a running summary.
+
+const DEFAULT_HISTORY_TOKENS = 2000;
+
+// How much earlier conversation to send with each chat message
+export function historyTokenBudget() {
+  const budget = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '');
+  return Number.isNaN(budget) ? DEFAULT_HISTORY_TOKENS : Math.max(0, budget);
+}
+
+// Split a conversation into the newest messages that fit the budget and the older ones that don't
+export function splitHistory<T extends { content: string }>(messages: T[], budget: number) {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(messages[start - 1].content);
+    if (used + cost > budget) {
+      break;
+    }
+    used += cost;
+    start--;
+  }
+
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+// Fold messages that no longer fit the prompt into the conversation summary
+export async function summarizeConversation(previousSummary: string | null, messages: ChatMessage[], userId?: number) {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'Student' : 'Assistant'}: ${message.content}`)
+    .join('\n');
+
+  const { content } = await completeWithFallback([
+    {
+      role: 'system',
+      content: 'You condense a conversation between a student and their study assistant. Keep the facts, decisions, preferences and open questions a tutor would need to continue the conversation. Reply with the summary only, in at most 150 words.',
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}Conversation to add:\n${transcript}`,
+    },
+  ], { temperature: 0.2, maxTokens: 300, purpose: 'summary', userId });
+
+  return content.trim();
+}
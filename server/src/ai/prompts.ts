@@ -0,0 +1,659 @@
+import { busyBlocksBetween, toDateKey } from '../../../shared/calendar.js';
+import type { StudyRules } from '../../../shared/ruleEngine.js';
+import type { AIWeeklyPlan } from '../../../shared/aiPlan.js';
+
+// Prompts for the AI gateway. Built on the server so clients only send their
+// plan data, never free-form prompts billed to the server's key.
+
+// Plan form data sent to /api/ai/generate
+export interface PlanRequestData {
+  courseName: string;
+  examDate: string;
+  weeklyStudyTime: number;
+  studyPreference: 'short' | 'long';
+  learningStyle?: 'visual' | 'auditory' | 'reading' | 'kinesthetic';
+  studyMaterials?: string[];
+  topics?: (string | { title: string; progress?: number })[];
+  resources?: (string | { name: string })[];
+  targetScore?: number;
+  progress?: string;
+  topicsProgress?: Record<string, number>;
+  calendarEvents?: { title?: string | null; start: string; end: string; allDay?: boolean | null }[];
+}
+
+// The student's feedback sent to /api/ai/refine
+export interface RefinementRequest {
+  goals?: string;
+  strongestTopics?: string[];
+  weakestTopics?: string[];
+  stressLevel?: 'low' | 'medium' | 'high';
+  preferredTechniques?: string[];
+}
+
+// The plan being refined, as the client holds it
+export interface ExistingPlan {
+  studyPlan: {
+    courseName: string;
+    examDate: string;
+    weeklyStudyTime: number;
+    learningStyle?: string;
+    topics: string[];
+    resources: string[];
+    topicsProgress?: Record<string, number>;
+    finalWeekStrategy?: string;
+  };
+  aiWeeklyPlan?: AIWeeklyPlan[];
+  calendarWeeks?: unknown[];
+}
+
+// What the chat assistant knows about the plan
+export interface ChatContext {
+  courseName?: string;
+  examDate?: string;
+  learningStyle?: string;
+  topics?: (string | { title: string })[];
+  topicsProgress?: Record<string, number>;
+  weeklyStudyTime?: number;
+  studyPreference?: string;
+  currentRecommendations?: unknown[];
+  tasks?: ChatContextTask[]; // upcoming open tasks, so the assistant can refer to them by id
+}
+
+export interface ChatContextTask {
+  id: number;
+  title: string;
+  date: string;
+  startTime?: string | null;
+  duration: number;
+}
+
+const MAX_CONTEXT_TASKS = 40;
+
+// Sent to /api/ai/recommendations
+export interface RecommendationRequest {
+  learningStyle?: string;
+  topics: { title: string; progress?: number }[];
+  examDate: string;
+  studyMaterials?: string[];
+}
+
+// Busy blocks before the exam as prompt lines
+function formatBusyTimes(events: NonNullable<PlanRequestData['calendarEvents']>, examDate: string) {
+  const dayFormat: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric' };
+  const timeFormat: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  return busyBlocksBetween(events, today, new Date(`${examDate}T00:00:00`))
+    .map(event => event.allDay
+      ? `- ${event.title}: ${new Date(event.start).toLocaleDateString('en-US', dayFormat)} (all day)`
+      : `- ${event.title}: ${new Date(event.start).toLocaleDateString('en-US', dayFormat)}, ${new Date(event.start).toLocaleTimeString('en-US', timeFormat)} - ${new Date(event.end).toLocaleTimeString('en-US', timeFormat)}`)
+    .join('\n');
+}
+
+// Generate the system prompt that guides the AI behavior
+export function getStudyPlanSystemPrompt() {
+  return `You are FocusGrid's AI Study Planning Engine. Your goal is to create a highly personalized and structured study plan based on student data and a set of guiding rules.
+
+YOUR TASK:
+- Take the user's course details, profile, and the provided STUDY RULES.
+- Generate a detailed, week-by-week study plan in the specified JSON format.
+- Ensure the plan adheres strictly to the provided rules, especially regarding time allocation, session structure, learning style adaptations, and resource utilization.
+- Pay special attention to resource types and their appropriate usage phases.
+- Properly handle topics with different progress levels (completed, in-progress, not started).
+
+RESOURCE TYPE GUIDELINES:
+- Practice resources (quizzes, problem sets, practice exams): Use primarily AFTER initial learning of topics
+- Review resources (flashcards, summaries): Use throughout with spaced repetition pattern
+- Learning resources (videos, textbooks): Use primarily during initial learning phase
+- Always match resources to the student's learning style when possible
+
+LEARNING STYLE ADAPTATIONS:
+- Visual: Include diagrams, videos, mind maps, color-coding techniques
+- Auditory: Include discussion sessions, audio explanations, verbal recall exercises
+- Reading/Writing: Focus on note-taking, summaries, and written practice problems
+- Kinesthetic: Include hands-on applications, physical flashcards, interactive simulations
+
+PROGRESS HANDLING:
+- Completed topics (100%): Include only brief review sessions for retention
+- Partial progress (70-99%): Focus on weak areas, review, and practice - not relearning basics
+- Low progress (0-69%): Full learning sequence from basics to application
+
+OUTPUT STRUCTURE (Strict JSON only):
+{
+  "summary": "(String) Overview paragraph explaining the plan, *referencing the rules and why the plan is suitable for this student*...",
+  "weeklyPlan": [
+    {
+      "week": (Number) Week number,
+      "dateRange": "(String) Approx date range (e.g., May 5-11)",
+      "focus": "(String) Main focus/topics for the week",
+      "days": [
+        {
+          "day": "(String) e.g., Monday",
+          "tasks": [
+            {
+              "topic": "(String) Topic name",
+              "activity": "(String) Specific activity *tailored to learning style/resources based on rules*",
+              "resource": "(String) Specific resource from user list or inferred",
+              "duration": (Number) Duration in minutes that respects session length rules,
+              "type": "(String) study|review|practice"
+            }
+            // More tasks for the day
+          ]
+        }
+        // More days for the week
+      ]
+    }
+    // More weeks
+  ],
+  "finalWeekStrategy": "(String) Detailed approach for the final week based on rules...",
+  "studyTips": [
+    "(String) Tip 1 specific to this course and student",
+    "(String) Tip 2...",
+    // Up to 5 tips
+  ]
+}
+
+IMPORTANT: Adhere strictly to the JSON output format. Do not include any text outside the JSON structure. Base the plan directly on the rules provided in the user prompt.`;
+}
+
+// Helper function to create a detailed prompt for the AI, incorporating the rules
+export function createStudyPlanPrompt(planData: PlanRequestData, studyRules: StudyRules) {
+  const {
+    courseName,
+    weeklyStudyTime,
+    learningStyle,
+    studyMaterials,
+    topics = [],
+    resources = [],
+    targetScore,
+    progress,
+    topicsProgress,
+    calendarEvents = []
+  } = planData;
+
+  // Format topics with progress information if available
+  const topicsWithProgress = topics.map((t: any) => {
+    // If it's an object with title and progress
+    if (typeof t === 'object' && t.title) {
+      // Use specific progress if available or object's progress property
+      const progressValue = topicsProgress?.[t.title] ?? t.progress ?? 0;
+      return `${t.title} (Progress: ${progressValue}%)`;
+    }
+    // If it's a string (simple topic name), check topicsProgress object
+    const progressValue = topicsProgress?.[t] ?? 0;
+    return `${t} (Progress: ${progressValue}%)`;
+  }).join(', ');
+
+  // Format resources with more context
+  const resourcesFormatted = resources.map((r: any) => {
+    if (typeof r === 'object' && r.name) {
+      return r.name;
+    }
+    return r;
+  }).join(', ');
+
+  // Parse any reported progress text
+  const progressContext = progress ? 
+    `\nREPORTED PROGRESS: "${progress}"` :
+    '';
+    
+  // Add progress data as structured information
+  let structuredProgressInfo = '';
+  if (topicsProgress && Object.keys(topicsProgress).length > 0) {
+    structuredProgressInfo = '\nTOPIC PROGRESS DATA:';
+    for (const [topic, value] of Object.entries(topicsProgress)) {
+      structuredProgressInfo += `\n- ${topic}: ${value}% complete`;
+    }
+  }
+
+  // Add learning style-specific instructions
+  let learningStyleContext = '';
+  if (learningStyle) {
+    switch (learningStyle) {
+      case 'visual':
+        learningStyleContext = "\nThis student is a VISUAL LEARNER who benefits from diagrams, charts, videos and visual organization of information. Include plenty of visual learning activities.";
+        break;
+      case 'auditory':
+        learningStyleContext = "\nThis student is an AUDITORY LEARNER who benefits from discussions, recordings, verbal explanations, and listening activities. Prioritize audio-based learning methods.";
+        break;
+      case 'reading':
+        learningStyleContext = "\nThis student is a READING/WRITING LEARNER who benefits from text-based materials, note-taking, and written summaries. Include plenty of reading and writing activities.";
+        break;
+      case 'kinesthetic':
+        learningStyleContext = "\nThis student is a KINESTHETIC LEARNER who benefits from hands-on activities, practical applications, and physical engagement with material. Include interactive and tactile learning methods.";
+        break;
+    }
+  }
+
+  // Add specific material preferences
+  let materialPreferences = '';
+  if (studyMaterials && studyMaterials.length > 0) {
+    materialPreferences = `\nThe student specifically prefers these study materials: ${studyMaterials.join(', ')}.`;
+  }
+
+  // List calendar commitments so sessions aren't placed on top of them
+  const busyTimes = formatBusyTimes(calendarEvents, planData.examDate);
+  const busyTimesContext = busyTimes ?
+    `\n- Busy Times (do not schedule study sessions during these):\n${busyTimes}` :
+    '';
+
+  // Construct the prompt using the generated rules with enhanced formatting
+  return `Generate a detailed, personalized study plan based on the following student profile, course details, and mandatory study rules:
+
+STUDENT & COURSE DATA:
+- Course Name: ${courseName}
+- Exam Date: ${studyRules.examDate} (${studyRules.daysUntilExam} days / ${studyRules.weeksUntilExam} weeks remaining)
+- Available Study Time: ${weeklyStudyTime} hours/week
+- Target Score: ${targetScore || 'Aiming for mastery'}
+- Session Preference: ${studyRules.sessionType}
+- Learning Style: ${learningStyle || 'Not specified'}${learningStyleContext}
+- Topics to Cover: ${topicsWithProgress}${structuredProgressInfo}
+- Available Resources: ${resourcesFormatted}${materialPreferences}${progressContext}${busyTimesContext}
+
+**STUDY RULES (Follow these strictly):**
+${studyRules.rules.map((rule, i) => `${i + 1}. ${rule}`).join('\n')}
+
+REQUIRED JSON OUTPUT FORMAT:
+{
+  "summary": "Personalized overview of the study plan strategy...",
+  "weeklyPlan": [
+    {
+      "week": 1,
+      "dateRange": "Apr 24-30",
+      "focus": "Main focus for this week",
+      "days": [
+        {
+          "day": "Monday",
+          "tasks": [
+            {
+              "topic": "Topic name",
+              "activity": "Detailed activity description that matches learning style",
+              "resource": "Specific resource from available list",
+              "duration": 45,
+              "type": "study|review|practice"
+            }
+          ]
+        }
+      ]
+    }
+  ],
+  "finalWeekStrategy": "Detailed approach for the exam week...",
+  "studyTips": ["Tip 1", "Tip 2", "Tip 3", "Tip 4", "Tip 5"]
+}
+
+INSTRUCTIONS:
+1. Generate the complete study plan following ALL provided STUDY RULES.
+2. Create activities that specifically match the student's learning style (${learningStyle || 'general'}).
+3. Account for topic progress in the plan - IMPORTANT RULES:
+   - For topics with high progress (70%+): Focus on review and practice, not relearning
+   - For topics with medium progress (30-69%): Balance learning and practice
+   - For topics with low progress (0-29%): Focus on initial learning and understanding
+   - Topics at 100% progress should only get brief review sessions for retention
+4. Prioritize topics with lower progress percentages.
+5. Output ONLY the JSON object. No introductory text or explanations outside the JSON.`;
+}
+
+// Updated system prompt for refinement
+export function getRefinementSystemPrompt() {
+  return `You are FocusGrid's AI Study Plan Refinement Engine. Your purpose is to make SUBSTANTIAL changes to an existing study plan based on a student's feedback and preferences.
+
+YOUR TASK:
+- Review the student's original study plan and their refinement requests/feedback
+- Create a significantly revised version that addresses their specific needs
+- Make BOLD, NOTICEABLE changes to the plan - students should clearly see the differences
+- Output a complete study plan in the required JSON format - this will fully replace their current plan
+
+The changes you make should be SUBSTANTIAL and CLEARLY VISIBLE. If the student asks for more focus on weak topics, really emphasize those topics with much more time allocation. If they want less intensity, visibly reduce daily workload.
+
+IMPORTANT SPECIAL INSTRUCTIONS:
+- If preferred techniques include specific study methods (like flashcards, mind maps, etc.), EXPLICITLY include these techniques in MULTIPLE activity descriptions
+- For example, if the student likes flashcards, at least 25-30% of activities should explicitly mention "Create/Review flashcards for [topic]"
+- When the student mentions preferring a specific resource or technique, make it HIGHLY VISIBLE throughout the plan
+
+OUTPUT STRUCTURE (Strict JSON):
+{
+  "summary": "EXPLAIN THE MAJOR CHANGES YOU MADE and why they address the student's feedback. Highlight what's different.",
+  "weeklyPlan": [
+    {
+      "week": (Number) Week number,
+      "dateRange": "(String) Approx date range",
+      "focus": "(String) Main focus/topics for the week",
+      "days": [
+        {
+          "day": "(String) e.g., Monday",
+          "tasks": [
+            {
+              "topic": "(String) Topic name",
+              "activity": "(String) Specific activity that clearly implements the requested changes",
+              "resource": "(String) Specific resource from user list or inferred",
+              "duration": (Number) Duration in minutes that reflects requested changes,
+              "type": "(String) study|review|practice"
+            }
+            // More tasks for the day
+          ]
+        }
+        // More days for the week
+      ]
+    }
+    // More weeks
+  ],
+  "finalWeekStrategy": "(String) Updated final week approach based on feedback...",
+  "studyTips": [
+    "(String) New tip 1 specifically addressing their refinement request",
+    "(String) New tip 2...",
+    // Up to 5 tips
+  ]
+}
+
+IMPORTANT: Your changes must be SUBSTANTIAL and DIRECTLY ADDRESS the student's feedback. Do not make minimal changes - transform the plan significantly based on their needs. Output ONLY the JSON.`;
+}
+
+// Helper function to create refinement-specific prompt
+export function createRefinementPrompt(refinementInput: RefinementRequest, existingPlan: ExistingPlan) {
+  const {
+    goals, // This is the primary request (preset or custom)
+    strongestTopics = [],
+    weakestTopics = [],
+    stressLevel,
+    preferredTechniques = []
+  } = refinementInput;
+  
+  // Extract key details from the *original* plan for context
+  const originalPlan = existingPlan.studyPlan;
+  const { courseName, examDate, weeklyStudyTime, learningStyle, topics, resources, topicsProgress } = originalPlan;
+  
+  // We also need the actual weekly plan structure to modify
+  const originalWeeklyPlanJson = JSON.stringify(existingPlan.aiWeeklyPlan || existingPlan.calendarWeeks, null, 2);
+  
+  // Calculate days until exam
+  const daysUntilExam = Math.ceil(
+    (new Date(examDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
+  );
+  
+  // Format topics with their progress information
+  const topicsWithProgressInfo = topics.map((topic: string) => {
+    const progress = topicsProgress?.[topic] || 0;
+    return `${topic} (Progress: ${progress}%)`;
+  });
+  
+  // Build detailed feedback context to ensure substantial changes
+  let feedbackContext = "";
+  
+  // Add the main refinement goal
+  if (goals) {
+    feedbackContext += `PRIMARY REQUEST: "${goals}"\n\n`;
+  }
+  
+  // Add topic strengths/weaknesses
+  if (strongestTopics.length > 0) {
+    feedbackContext += `STRONGEST TOPICS (need less focus):\n${strongestTopics.map(t => `- ${t}`).join('\n')}\n\n`;
+  }
+  
+  if (weakestTopics.length > 0) {
+    feedbackContext += `WEAKEST TOPICS (need MORE focus, significantly increase presence):\n${weakestTopics.map(t => `- ${t}`).join('\n')}\n\n`;
+  }
+  
+  // Add stress level context
+  if (stressLevel) {
+    feedbackContext += `STRESS LEVEL: ${stressLevel.toUpperCase()}\n`;
+    if (stressLevel === 'high') {
+      feedbackContext += `Please reduce overall workload and add more breaks. Break topics into smaller, manageable chunks.\n\n`;
+    } else if (stressLevel === 'low') {
+      feedbackContext += `Student can handle more challenging material or longer sessions if needed.\n\n`;
+    }
+  }
+  
+  // Add preferred techniques context with enhanced instruction
+  if (preferredTechniques.length > 0) {
+    const techniqueMappings: Record<string, string> = {
+      'spaced-repetition': 'Spaced Repetition (reviewing material at increasing intervals) - HEAVILY incorporate this approach in the schedule structure',
+      'active-recall': 'Active Recall (testing yourself on material) - EXPLICITLY include activities with this technique',
+      'pomodoro': 'Pomodoro Technique (25-minute focused sessions with 5-minute breaks) - STRUCTURE many sessions using this format',
+      'mind-mapping': 'Mind Mapping (visual organization of topics and connections) - EXPLICITLY include mind-mapping activities for multiple topics',
+      'feynman': 'Feynman Technique (teaching concepts simply to solidify understanding) - EXPLICITLY include teaching/explanation activities'
+    };
+    
+    feedbackContext += `PREFERRED STUDY TECHNIQUES (MUST BE CLEARLY VISIBLE IN THE PLAN):\n${preferredTechniques.map(t => `- ${techniqueMappings[t] || t}`).join('\n')}\n\n`;
+    feedbackContext += `IMPORTANT: The plan MUST explicitly incorporate these techniques into multiple study activities. For example, if "mind-mapping" is preferred, include at least 6-8 activities that specifically mention creating or reviewing mind maps.\n\n`;
+  }
+  
+  // Add learning style-specific guidance
+  let learningStyleContext = '';
+  if (learningStyle) {
+    switch (learningStyle) {
+      case 'visual':
+        learningStyleContext = "\nThis student is a VISUAL LEARNER who benefits from diagrams, charts, videos and visual organization of information. Include plenty of visual learning activities.";
+        break;
+      case 'auditory':
+        learningStyleContext = "\nThis student is an AUDITORY LEARNER who benefits from discussions, recordings, verbal explanations, and listening activities. Prioritize audio-based learning methods.";
+        break;
+      case 'reading':
+        learningStyleContext = "\nThis student is a READING/WRITING LEARNER who benefits from text-based materials, note-taking, and written summaries. Include plenty of reading and writing activities.";
+        break;
+      case 'kinesthetic':
+        learningStyleContext = "\nThis student is a KINESTHETIC LEARNER who benefits from hands-on activities, practical applications, and physical engagement with material. Include interactive and tactile learning methods.";
+        break;
+    }
+  }
+  
+  return `REFINEMENT REQUEST: Please make SUBSTANTIAL changes to this study plan based on the student's feedback.
+
+COURSE: ${courseName}
+EXAM DATE: ${examDate} (${daysUntilExam} days remaining)
+WEEKLY STUDY TIME: ${weeklyStudyTime} hours
+LEARNING STYLE: ${learningStyle || 'Not specified'}${learningStyleContext}
+
+STUDENT FEEDBACK (CRITICAL - IMPLEMENT THESE CHANGES):
+${feedbackContext}
+
+ALL COURSE TOPICS WITH CURRENT PROGRESS:
+${topicsWithProgressInfo.map((t: string) => `- ${t}`).join('\n')}
+
+AVAILABLE RESOURCES:
+${resources.map((r: string) => `- ${r}`).join('\n')}
+
+ORIGINAL PLAN STRUCTURE:
+${originalWeeklyPlanJson}
+
+INSTRUCTIONS (FOLLOW THESE EXACTLY):
+1. Create a COMPLETELY REVISED PLAN that directly addresses the student's feedback
+2. Make SUBSTANTIAL, OBVIOUS changes - not minor tweaks
+3. If student prefers specific techniques (like flashcards), EXPLICITLY mention these in multiple activities throughout the plan
+4. If asked to focus more on certain topics, dramatically increase their presence (3-4x more time)
+5. If asked to change intensity or structure, make those changes very apparent
+6. IMPORTANT: Account for topic progress - SKIP or minimize tasks for topics marked as 100% complete
+7. For topics with high progress (>70%), include only brief review sessions rather than full study sessions
+8. Return the entire plan as a JSON object according to the specified format
+9. Output ONLY the JSON object with no additional text`;
+}
+
+// System prompt for the study assistant chat
+export function createChatSystemPrompt(context: ChatContext) {
+  // The recommendations panel sends topic objects, the chat dialog plain names
+  const topics = context.topics?.map(t => typeof t === 'string' ? t : t.title);
+
+  // Format topics with their progress information if available
+  let topicsWithProgress = '';
+  if (topics && context.topicsProgress) {
+    topicsWithProgress = topics
+      .map(topic => {
+        const progress = context.topicsProgress?.[topic] || 0;
+        return `${topic} (Progress: ${progress}%)`;
+      })
+      .join(', ');
+  } else if (topics) {
+    topicsWithProgress = topics.join(', ');
+  } else {
+    topicsWithProgress = 'various topics';
+  }
+
+  const examDate = context.examDate || 'upcoming exam';
+  const learningStyle = context.learningStyle || 'not specified';
+  const daysUntilExam = context.examDate ? 
+    Math.ceil((new Date(context.examDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) :
+    'unknown number of';
+  const recommendationsContext = context.currentRecommendations?.length
+    ? `\n  - Current recommendations: ${JSON.stringify(context.currentRecommendations)}`
+    : '';
+  const tasksContext = context.tasks?.length
+    ? `\n\n  UPCOMING TASKS (id: date time - title, minutes):\n${context.tasks
+        .slice(0, MAX_CONTEXT_TASKS)
+        .map(task => `  - ${task.id}: ${task.date}${task.startTime ? ` ${task.startTime}` : ''} - ${task.title}, ${task.duration}`)
+        .join('\n')}`
+    : '';
+
+  return `You are a highly knowledgeable study assistant helping a student prepare for their ${context.courseName} exam on ${examDate} (in ${daysUntilExam} days).
+
+  STUDENT CONTEXT:
+  - Learning style: ${learningStyle}
+  - Course topics: ${topicsWithProgress}
+  - Weekly study time: ${context.weeklyStudyTime || 'unspecified'} hours
+  - Study session preference: ${context.studyPreference || 'unspecified'}${recommendationsContext}
+  - Today's date: ${toDateKey(new Date())}${tasksContext}
+
+  As their study assistant, you:
+  1. Provide specific, actionable advice tailored to their needs and learning style
+  2. Answer questions about study techniques, content organization, and test preparation strategies
+  3. Keep responses concise, practical, and directly relevant to their question
+  4. Reference their specific topics and their current progress when appropriate
+  5. If they ask about a topic they've completed, acknowledge their progress and provide advice on retention
+  6. For topics with low progress, provide more foundational guidance
+
+  When the student asks you to change their plan (add or move a task, record progress on a topic, lighten or redo a week), call the matching tool instead of describing the change. Tool calls are shown to the student as proposals to confirm, so also say briefly what you are proposing and why.
+
+  Your responses should be helpful, encouraging, and focused on improving their study effectiveness for their specific situation.`;
+}
+
+// Sent to /api/ai/clarify
+export interface ClarificationRequest {
+  courseName: string;
+  topics: string[];
+  examDate: string;
+  weeklyStudyTime: number;
+  learningStyle?: string;
+}
+
+export function createClarificationPrompt(planData: ClarificationRequest) {
+  return `As a study planning assistant, I need to ask the student a few clarifying questions about their study plan for ${planData.courseName}. 
+    Based on their information:
+    - Topics: ${planData.topics.join(', ')}
+    - Exam date: ${planData.examDate}
+    - Weekly study time: ${planData.weeklyStudyTime} hours
+    - Learning style: ${planData.learningStyle || 'Not specified'}
+    
+    Generate 2 specific, helpful clarification questions that would improve their study plan. Each question must be relevant to their specific situation.
+    
+    Format your response as a list like:
+    1. [Question text] | [question type: text, long-text, or choice] | [Optional: choice1,choice2,choice3] | [Optional context explaining why this question helps]
+    2. [Question text] | [question type: text, long-text, or choice] | [Optional: choice1,choice2,choice3] | [Optional context explaining why this question helps]`;
+}
+
+// System and user messages asking for recommendation cards
+export function createRecommendationMessages(request: RecommendationRequest) {
+  // Calculate days until exam
+  const daysUntilExam = Math.round(
+    (new Date(request.examDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
+  );
+
+  // Format the topic data with more detail for better recommendations
+  const topicsWithProgress = request.topics.map(t => {
+    const progressLevel = t.progress || 0;
+    let confidenceLevel = "not started";
+    if (progressLevel > 0 && progressLevel < 30) confidenceLevel = "just started";
+    else if (progressLevel >= 30 && progressLevel < 60) confidenceLevel = "making progress";
+    else if (progressLevel >= 60 && progressLevel < 85) confidenceLevel = "fairly confident";
+    else if (progressLevel >= 85) confidenceLevel = "very confident";
+
+    return `${t.title} (Progress: ${progressLevel}%, Confidence level: ${confidenceLevel})`;
+  }).join("\n- ");
+
+  // Format study materials with more context
+  const getMaterialContext = (material: string) => {
+    switch(material) {
+      case 'flashcards': return 'actively testing recall';
+      case 'videos': return 'visual and auditory learning';
+      case 'practice_tests': return 'testing knowledge under exam conditions';
+      case 'notes': return 'summarizing and reflecting on material';
+      case 'textbooks': return 'in-depth reading and analysis';
+      default: return material.replace('_', ' ');
+    }
+  };
+
+  const materials = request.studyMaterials
+    ? request.studyMaterials.map(m => `${m.replace('_', ' ')} (${getMaterialContext(m)})`).join(", ")
+    : "No specific materials selected";
+
+  const system = `You are an expert educational consultant with years of experience helping students optimize their study plans.
+  You specialize in:
+  1. Adapting study techniques to different learning styles (visual, auditory, reading, kinesthetic)
+  2. Creating personalized recommendations based on a student's current progress
+  3. Optimizing study efficiency with evidence-based learning techniques
+  4. Providing actionable, specific advice that students can implement immediately
+
+  When making recommendations, consider:
+  - The student's specific learning style and preferences
+  - Time constraints and upcoming exam deadlines
+  - Current progress on different topics
+  - Available study materials and resources
+
+  Format each recommendation as a JSON object with these fields:
+  - title: A concise, action-oriented title (5 words or less)
+  - description: A clear, specific explanation (20 words or less)
+  - priority: Either "high", "medium", or "low"
+  - category: Either "technique" (study methods), "resource" (materials to use), or "schedule" (time management)`;
+
+  const learningStyleContext = getLearningStyleContext(request.learningStyle);
+  const timeContext = getTimeContextBasedOnExamDate(daysUntilExam);
+
+  const user = `I need personalized recommendations for studying these topics for an exam in ${daysUntilExam} days:
+
+  Topics and My Current Progress:
+  - ${topicsWithProgress}
+
+  My learning style: ${request.learningStyle || "Not specified"}
+  ${learningStyleContext}
+
+  Study materials I'm using: ${materials}
+
+  Time context: ${timeContext}
+
+  Please provide 5-6 specific, actionable recommendations to help me study effectively. Make them personalized to my situation and learning style.
+
+  Format your response ONLY as a JSON array with objects containing these fields: title, description, priority, category.`;
+
+  return { system, user };
+}
+
+// Helper function to provide context based on learning style
+function getLearningStyleContext(learningStyle?: string): string {
+  if (!learningStyle) return "";
+  
+  switch (learningStyle) {
+    case 'visual':
+      return "As a visual learner, I learn best through diagrams, charts, and visualizing information. I prefer seeing information rather than just hearing it.";
+    case 'auditory':
+      return "As an auditory learner, I learn best through listening, discussions and talking through concepts. I prefer hearing explanations rather than reading them.";
+    case 'reading':
+      return "As a reading/writing learner, I learn best through written words, taking notes, and reading materials. I prefer text-based information.";
+    case 'kinesthetic':
+      return "As a kinesthetic learner, I learn best through hands-on activities and practical applications. I prefer engaging with the material physically.";
+    default:
+      return "";
+  }
+}
+
+// Helper function to provide time context based on exam date
+function getTimeContextBasedOnExamDate(daysUntilExam: number): string {
+  if (daysUntilExam <= 7) {
+    return "This is last-minute cramming as my exam is only a week or less away. I need urgent, high-impact strategies.";
+  } else if (daysUntilExam <= 14) {
+    return "I'm in the final stretch with only two weeks until my exam. I need focused review strategies.";
+  } else if (daysUntilExam <= 30) {
+    return "I have about a month to prepare, so I need a balanced approach between learning and reviewing.";
+  } else if (daysUntilExam <= 60) {
+    return "I have a good amount of time (1-2 months) to prepare thoroughly for this exam.";
+  } else {
+    return "I'm planning well in advance with more than two months until my exam.";
+  }
+}
@@ -0,0 +1,281 @@
+import OpenAI from 'openai';
+import type { TokenUsage } from './usage.js';
+
+// Language model backends behind the AI gateway. Each provider speaks the same
+// small interface, so the gateway can walk a fallback chain without caring
+// which service answers.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What the gateway is asking for: the feature usage is booked to, and the stub provider's cue
+export type AIPurpose = 'generate' | 'refine' | 'schedule' | 'chat' | 'clarify' | 'recommendations' | 'summary';
+
+// A function the model may call instead of, or as well as, answering in text
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema of the arguments
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: string; // JSON text as written by the model
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // ask for a single JSON object
+  tools?: ToolDefinition[];
+  purpose?: AIPurpose;
+}
+
+export interface Completion {
+  content: string;
+  toolCalls: ToolCall[];
+  usage?: TokenUsage; // as reported by the service, when it does
+}
+
+// Streams yield text as it arrives, then any tool calls once they are complete
+export type StreamChunk = string | ToolCall;
+
+export interface LLMProvider {
+  name: string;
+  models: string[]; // tried in order
+  complete(request: CompletionRequest): Promise<Completion>;
+  stream(request: CompletionRequest): AsyncIterable<StreamChunk>;
+}
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseURL: string;
+  apiKey: string;
+  models: string[];
+  headers?: Record<string, string>;
+}
+
+// Any service with an OpenAI-style /chat/completions endpoint: OpenRouter,
+// Ollama, LM Studio, vLLM, llama.cpp server...
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    defaultHeaders: options.headers,
+  });
+
+  function params(request: CompletionRequest) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens ?? 1024,
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(request.tools?.length
+        ? { tools: request.tools.map(tool => ({ type: 'function' as const, function: tool })) }
+        : {}),
+    };
+  }
+
+  return {
+    name: options.name,
+    models: options.models,
+
+    async complete(request) {
+      const completion = await client.chat.completions.create(params(request));
+      const message = completion.choices[0]?.message;
+      const toolCalls = (message?.tool_calls ?? []).map(call => ({
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }));
+
+      if (!message?.content && toolCalls.length === 0) {
+        throw new Error(`Empty response from ${options.name} model ${request.model}`);
+      }
+      return {
+        content: message?.content ?? '',
+        toolCalls,
+        usage: completion.usage && {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+        },
+      };
+    },
+
+    async *stream(request) {
+      const stream = await client.chat.completions.create({ ...params(request), stream: true });
+      // Tool calls arrive in fragments, keyed by their index
+      const toolCalls: ToolCall[] = [];
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) {
+          yield delta.content;
+        }
+        for (const fragment of delta?.tool_calls ?? []) {
+          const call = toolCalls[fragment.index] ??= { name: '', arguments: '' };
+          call.name += fragment.function?.name ?? '';
+          call.arguments += fragment.function?.arguments ?? '';
+        }
+      }
+
+      yield* toolCalls.filter(call => call.name);
+    },
+  };
+}
+
+const STUB_TIPS = [
+  'Review each topic again a few days after first studying it',
+  'Test yourself before rereading your notes',
+  'Finish each week with a short practice session',
+];
+
+// Topic names from our own prompts, e.g. "Topics to Cover: Limits (Progress: 40%), Derivatives (Progress: 0%)"
+// or a "- Limits" list under the same heading
+function topicsFromPrompt(messages: ChatMessage[]) {
+  const prompt = messages.map(message => message.content).join('\n');
+  const inline = prompt.match(/Topics to Cover: (.*)/);
+  const listed = prompt.match(/(?:ALL COURSE TOPICS WITH CURRENT PROGRESS|Topics to Cover):\n((?:- .*\n?)+)/);
+  const names = inline
+    ? inline[1].split(', ')
+    : listed
+      ? listed[1].trim().split('\n').map(line => line.slice(2))
+      : [];
+  const topics = names.map(name => name.replace(/\s*\(Progress:.*$/, '').trim()).filter(Boolean);
+
+  return topics.length > 0 ? topics : ['Course review'];
+}
+
+function stubPlan(messages: ChatMessage[]) {
+  const topics = topicsFromPrompt(messages);
+  const days = ['Monday', 'Wednesday', 'Friday'];
+
+  return JSON.stringify({
+    summary: `Offline plan covering ${topics.join(', ')}.`,
+    weeklyPlan: [{
+      week: 1,
+      dateRange: 'Week 1',
+      focus: topics.join(', '),
+      days: days.map((day, i) => ({
+        day,
+        tasks: [{
+          topic: topics[i % topics.length],
+          activity: i === days.length - 1 ? 'Practice questions' : 'Study and summarise key ideas',
+          resource: 'Course notes',
+          duration: 45,
+          type: i === days.length - 1 ? 'practice' : 'study',
+        }],
+      })),
+    }],
+    finalWeekStrategy: 'Review every topic once and take a timed practice exam.',
+    studyTips: STUB_TIPS,
+  });
+}
+
+// Dated tasks over the next few days, in the /api/refine format
+function stubSchedule(messages: ChatMessage[]) {
+  const topics = topicsFromPrompt(messages);
+  const examDate = messages.map(message => message.content).join('\n').match(/Exam Date: (\d{4}-\d{2}-\d{2})/)?.[1];
+  const dateAfter = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return examDate && key > examDate ? examDate : key;
+  };
+
+  return JSON.stringify({
+    weekly_schedule: [{
+      week: 1,
+      focus_areas: topics,
+      tasks: topics.map((topic, i) => ({
+        title: `Study ${topic}`,
+        description: `Work through the key ideas of ${topic}`,
+        date: dateAfter(i + 1),
+        duration: 45,
+        resource: 'Course notes',
+        taskType: 'study',
+      })),
+    }],
+    recommended_resources: ['Course notes'],
+    learning_strategies: STUB_TIPS,
+  });
+}
+
+function stubRecommendations() {
+  return JSON.stringify(STUB_TIPS.map((tip, i) => ({
+    title: tip.split(' ').slice(0, 3).join(' '),
+    description: tip,
+    priority: i === 0 ? 'high' : 'medium',
+    category: 'technique',
+  })));
+}
+
+// Lists the student's questions from a "Student: ..." transcript
+function stubSummary(messages: ChatMessage[]) {
+  const prompt = messages.map(message => message.content).join('\n');
+  const questions = [...prompt.matchAll(/^Student: (.*)$/gm)].map(match => `"${match[1].trim()}"`);
+
+  return `Earlier the student asked: ${questions.join('; ') || 'nothing yet'}.`;
+}
+
+// Offers the add_task tool for requests like: add a task "Flashcards"
+function stubToolCalls(request: CompletionRequest): ToolCall[] {
+  const question = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+  const title = question.match(/add (?:a )?(?:new )?task:?\s*"([^"]+)"/i)?.[1];
+
+  if (!title || !request.tools?.some(tool => tool.name === 'add_task')) {
+    return [];
+  }
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const date = `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, '0')}-${String(tomorrow.getDate()).padStart(2, '0')}`;
+
+  return [{ name: 'add_task', arguments: JSON.stringify({ title, date, duration: 45, taskType: 'study' }) }];
+}
+
+function stubReply(request: CompletionRequest) {
+  switch (request.purpose) {
+    case 'generate':
+    case 'refine':
+      return stubPlan(request.messages);
+    case 'schedule':
+      return stubSchedule(request.messages);
+    case 'recommendations':
+      return stubRecommendations();
+    case 'summary':
+      return stubSummary(request.messages);
+    case 'clarify':
+      return [
+        '1. Which topics do you find hardest so far? | long-text | | Harder topics get more time',
+        '2. How do you prefer to review? | choice | Flashcards,Practice questions,Rereading notes | Review tasks will use this method',
+      ].join('\n');
+    default: {
+      const question = [...request.messages].reverse().find(message => message.role === 'user')?.content ?? '';
+      return `This is an offline reply to "${question}". Connect a model provider for real answers.`;
+    }
+  }
+}
+
+// Deterministic offline provider: same request, same reply, no network
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+    models: ['stub'],
+
+    async complete(request) {
+      return { content: stubReply(request), toolCalls: stubToolCalls(request) };
+    },
+
+    async *stream(request) {
+      for (const word of stubReply(request).split(/(?<=\s)/)) {
+        yield word;
+      }
+      yield* stubToolCalls(request);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseChatActions, suggestedTaskFrom } from './responses.js';
+
+function addTaskCall(args: Record<string, unknown>) {
+  return { name: 'add_task', arguments: JSON.stringify({ title: 'Limits quiz', date: '2026-03-04', duration: 30, ...args }) };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('suggestedTaskFrom', () => {
+  it('keeps the task type the model asked for', () => {
+    const actions = parseChatActions([addTaskCall({ taskType: 'practice' })]);
+
+    expect(suggestedTaskFrom(actions)).toEqual({ title: 'Limits quiz', description: '', duration: 30, type: 'practice' });
+  });
+
+  it('falls back to a study task when the type is missing', () => {
+    expect(suggestedTaskFrom(parseChatActions([addTaskCall({})]))?.type).toBe('study');
+  });
+
+  it('drops an add_task call with an unknown type', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const actions = parseChatActions([addTaskCall({ taskType: 'nap' })]);
+
+    expect(actions).toEqual([]);
+    expect(suggestedTaskFrom(actions)).toBeNull();
+  });
+});
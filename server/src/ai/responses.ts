@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import {
+  AIClarificationQuestion,
+  AIStudyPlanResponse,
+  AIStudyRecommendation,
+  AISuggestedTask,
+  ChatAction,
+  PlanCheckContext,
+  RefineSchedule,
+  aiPlanReplySchema,
+  aiRecommendationSchema,
+  checkRefineSchedule,
+  chatActionSchema,
+  checkWeeklyPlan,
+  formatIssues,
+  refineScheduleSchema,
+} from '../../../shared/aiPlan.js';
+import type { ToolCall } from './providers.js';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+// The outermost JSON value in a reply; models like to wrap it in prose or code fences
+function extractJson(content: string, open: '{' | '['): ValidationResult<unknown> {
+  const start = content.indexOf(open);
+  const end = content.lastIndexOf(open === '{' ? '}' : ']');
+
+  if (start === -1 || end <= start) {
+    return { ok: false, errors: [`No JSON ${open === '{' ? 'object' : 'array'} found in the reply`] };
+  }
+
+  try {
+    return { ok: true, value: JSON.parse(content.slice(start, end + 1)) };
+  } catch (error) {
+    return { ok: false, errors: [`The reply is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+}
+
+// Parse, check against the schema, then run the checks that need the plan
+function validateJson<T>(
+  content: string,
+  open: '{' | '[',
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  check: (value: T) => string[] = () => []
+): ValidationResult<T> {
+  const json = extractJson(content, open);
+  if (!json.ok) {
+    return json;
+  }
+
+  const parsed = schema.safeParse(json.value);
+  if (!parsed.success) {
+    return { ok: false, errors: formatIssues(parsed.error) };
+  }
+
+  const errors = check(parsed.data);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: parsed.data };
+}
+
+// A generated or refined plan, as the response the client renders
+export function validatePlanReply(content: string, context: PlanCheckContext): ValidationResult<AIStudyPlanResponse> {
+  const result = validateJson(content, '{', aiPlanReplySchema, reply => checkWeeklyPlan(reply.weeklyPlan, context));
+  if (!result.ok) {
+    return result;
+  }
+
+  return {
+    ok: true,
+    value: {
+      success: true,
+      aiRecommendations: result.value.studyTips,
+      weeklyPlan: result.value.weeklyPlan,
+      summary: result.value.summary,
+      finalWeekStrategy: result.value.finalWeekStrategy,
+      rawResponse: content,
+    },
+  };
+}
+
+// Recommendation cards
+export function validateRecommendationsReply(content: string): ValidationResult<AIStudyRecommendation[]> {
+  return validateJson(content, '[', z.array(aiRecommendationSchema).min(1));
+}
+
+// The dated schedule returned to /api/refine
+export function validateRefineScheduleReply(content: string, context: PlanCheckContext): ValidationResult<RefineSchedule> {
+  return validateJson(content, '{', refineScheduleSchema, schedule => checkRefineSchedule(schedule, context));
+}
+
+// The plan changes the chat assistant proposed through tool calls. Calls with
+// unknown tools or unusable arguments are dropped rather than shown.
+export function parseChatActions(toolCalls: ToolCall[]): ChatAction[] {
+  return toolCalls.flatMap(call => {
+    try {
+      const result = chatActionSchema.safeParse({ ...JSON.parse(call.arguments || '{}'), type: call.name });
+      if (result.success) {
+        return [result.data];
+      }
+      console.warn(`Dropped ${call.name} tool call:`, formatIssues(result.error));
+    } catch {
+      console.warn(`Dropped ${call.name} tool call with invalid JSON arguments`);
+    }
+    return [];
+  });
+}
+
+// The first proposed task, in the shape older callers of the chat expect
+export function suggestedTaskFrom(actions: ChatAction[]): AISuggestedTask | null {
+  const action = actions.find((action): action is Extract<ChatAction, { type: 'add_task' }> => action.type === 'add_task');
+  if (!action) {
+    return null;
+  }
+
+  return {
+    title: action.title,
+    description: action.description,
+    duration: action.duration,
+    type: action.taskType,
+  };
+}
+
+// Numbered "question | type | choices | context" lines from the clarify prompt
+export function parseClarificationQuestions(content: string): AIClarificationQuestion[] {
+  return content.split(/\d+\./)
+    .map(item => item.trim().split('|').map(part => part.trim()))
+    .filter(parts => parts.length >= 2 && parts[0])
+    .map((parts): AIClarificationQuestion => {
+      const kind = parts[1].toLowerCase();
+      const type: AIClarificationQuestion['type'] = kind.includes('text') ? (kind.includes('long') ? 'long-text' : 'text') : 'choice';
+      const choices = type === 'choice' && parts[2] ? parts[2].split(',').map(choice => choice.trim()) : undefined;
+      // The context comes last, after the choices when there are any
+      const context = parts.length >= 4 ? parts[3] : parts.length === 3 && type !== 'choice' ? parts[2] : undefined;
+
+      return {
+        question: parts[0],
+        type,
+        choices,
+        context: context || undefined,
+      };
+    });
+}
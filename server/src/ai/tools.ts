@@ -0,0 +1,75 @@
+import type { ToolDefinition } from './providers.js';
+
+// Tools offered to the chat assistant. Each matches a case of chatActionSchema
+// in shared/aiPlan.ts; calls come back to the student as proposals.
+
+const DATE = { type: 'string', description: 'Date as yyyy-MM-dd' };
+const TIME = { type: 'string', description: 'Start time as HH:mm (24-hour), optional' };
+const WEEK_START = { type: 'string', description: 'First day of the week as yyyy-MM-dd' };
+
+export const CHAT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'add_task',
+    description: 'Add a study task to the plan.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short task title, starting with the topic' },
+        description: { type: 'string' },
+        date: DATE,
+        startTime: TIME,
+        duration: { type: 'integer', description: 'Length in minutes (5-240)' },
+        taskType: { type: 'string', enum: ['study', 'review', 'practice'] },
+      },
+      required: ['title', 'date', 'duration'],
+    },
+  },
+  {
+    name: 'move_task',
+    description: 'Move an existing task to another day and optionally another time.',
+    parameters: {
+      type: 'object',
+      properties: {
+        taskId: { type: 'integer', description: 'id of a task from the upcoming tasks list' },
+        date: DATE,
+        startTime: TIME,
+      },
+      required: ['taskId', 'date'],
+    },
+  },
+  {
+    name: 'set_topic_progress',
+    description: 'Record how well the student already knew a topic before studying it on the plan; progress from completed tasks, study time and scores is added on top.',
+    parameters: {
+      type: 'object',
+      properties: {
+        topic: { type: 'string', description: 'One of the course topics, spelled as listed' },
+        progress: { type: 'integer', description: 'Starting level as a percentage (0-100)' },
+      },
+      required: ['topic', 'progress'],
+    },
+  },
+  {
+    name: 'shorten_week',
+    description: 'Cut the length of every open task in a week, e.g. for a busy week.',
+    parameters: {
+      type: 'object',
+      properties: {
+        weekStart: WEEK_START,
+        reduceByPercent: { type: 'integer', description: 'How much shorter each task gets (10-90)' },
+      },
+      required: ['weekStart', 'reduceByPercent'],
+    },
+  },
+  {
+    name: 'regenerate_week',
+    description: "Replace a week's open tasks with a freshly scheduled set based on current progress.",
+    parameters: {
+      type: 'object',
+      properties: {
+        weekStart: WEEK_START,
+      },
+      required: ['weekStart'],
+    },
+  },
+];
@@ -0,0 +1,91 @@
+import { db, aiUsage } from '../db/index.js';
+import { and, eq, gte, sql } from 'drizzle-orm';
+
+// Token and cost accounting for model calls. Prices come from AI_MODEL_PRICES,
+// a JSON object of model -> USD per million tokens, e.g.
+//   {"openai/gpt-4o-mini": {"prompt": 0.15, "completion": 0.6}}
+// Models without a price (free, local and stub models) cost nothing.
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageEntry extends TokenUsage {
+  userId: number;
+  feature: string;
+  provider: string;
+  model: string;
+  cached?: boolean;
+}
+
+type ModelPrices = Record<string, { prompt?: number; completion?: number }>;
+
+let modelPrices: ModelPrices | undefined;
+
+// Rough token count, about four characters per token for English text
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function prices(): ModelPrices {
+  if (!modelPrices) {
+    try {
+      modelPrices = JSON.parse(process.env.AI_MODEL_PRICES || '{}');
+    } catch {
+      console.warn('AI_MODEL_PRICES is not valid JSON; costs are recorded as 0');
+      modelPrices = {};
+    }
+  }
+  return modelPrices!;
+}
+
+export function estimateCost(model: string, usage: TokenUsage) {
+  const price = prices()[model];
+  if (!price) {
+    return 0;
+  }
+  return (usage.promptTokens * (price.prompt ?? 0) + usage.completionTokens * (price.completion ?? 0)) / 1_000_000;
+}
+
+// Add a model call to the ledger. Accounting never fails the request it belongs to.
+export async function recordUsage(entry: UsageEntry) {
+  try {
+    await db.insert(aiUsage)
+      .values({
+        ...entry,
+        cached: entry.cached ?? false,
+        costUsd: entry.cached ? 0 : estimateCost(entry.model, entry),
+      })
+      .execute();
+  } catch (error) {
+    console.warn('Failed to record AI usage:', error);
+  }
+}
+
+/**
+ * A user's AI usage since the given time, in total and per feature and model
+ */
+export async function usageSummary(userId: number, since: Date) {
+  const from = since.toISOString().replace('T', ' ').slice(0, 19); // CURRENT_TIMESTAMP format
+  const where = and(eq(aiUsage.userId, userId), gte(aiUsage.createdAt, from));
+  const totals = {
+    requests: sql<number>`count(*)`,
+    cachedRequests: sql<number>`coalesce(sum(${aiUsage.cached}), 0)`,
+    promptTokens: sql<number>`coalesce(sum(${aiUsage.promptTokens}), 0)`,
+    completionTokens: sql<number>`coalesce(sum(${aiUsage.completionTokens}), 0)`,
+    costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`,
+  };
+
+  const [[total], byFeature, byModel] = await Promise.all([
+    db.select(totals).from(aiUsage).where(where).execute(),
+    db.select({ feature: aiUsage.feature, ...totals }).from(aiUsage).where(where).groupBy(aiUsage.feature).execute(),
+    db.select({ provider: aiUsage.provider, model: aiUsage.model, ...totals })
+      .from(aiUsage)
+      .where(where)
+      .groupBy(aiUsage.provider, aiUsage.model)
+      .execute(),
+  ]);
+
+  return { since: since.toISOString(), total, byFeature, byModel };
+}
@@ -0,0 +1,68 @@
+import express from 'express';
+import cors from 'cors';
+import { config } from 'dotenv';
+import { planRoutes } from './routes/plans.js';
+import { refineRoutes } from './routes/refine.js';
+import { authRoutes } from './routes/auth.js';
+import { calendarRoutes } from './routes/calendar.js';
+import { taskRoutes } from './routes/tasks.js';
+import { aiRoutes } from './routes/ai.js';
+import { chatThreadRoutes } from './routes/chatThreads.js';
+import { studySessionRoutes } from './routes/studySessions.js';
+import { googleRoutes } from './routes/google.js';
+import { compatRoutes } from './routes/compat.js';
+
+// Load environment variables
+config();
+
+// The API without a listening server, so tests can start it on any port
+export const app = express();
+
+// Parse JSON request bodies; a calendar import sends every busy block of a timetable at once
+app.use('/api/calendar-events', express.json({ limit: '5mb' }));
+app.use(express.json());
+
+// Configure CORS
+const allowedOrigins = process.env.CORS_ORIGINS?.split(',') || ['http://localhost:5173'];
+app.use(cors({
+  origin: (origin, callback) => {
+    // Allow requests with no origin (like mobile apps or curl requests)
+    if (!origin) return callback(null, true);
+    
+    if (allowedOrigins.indexOf(origin) === -1) {
+      const msg = `The CORS policy for this site does not allow access from the specified origin: ${origin}`;
+      return callback(new Error(msg), false);
+    }
+    return callback(null, true);
+  },
+  credentials: true,
+  exposedHeaders: ['Content-Disposition'], // report downloads are named by the server
+}));
+
+// API routes
+app.use('/api/plans', planRoutes);
+app.use('/api/refine', refineRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/calendar-events', calendarRoutes);
+app.use('/api/tasks', taskRoutes);
+app.use('/api/ai', aiRoutes);
+app.use('/api/chat-threads', chatThreadRoutes);
+app.use('/api/study-sessions', studySessionRoutes);
+app.use('/api', googleRoutes);
+
+// Old paths, kept working during the migration to the routes above
+app.use('/api', compatRoutes);
+
+// Health check endpoint
+app.get('/api/health', (req, res) => {
+  res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
+});
+
+// Error handling middleware
+app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  console.error(err.stack);
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong',
+  });
+});
@@ -0,0 +1,134 @@
+import { db, studyPlans, chatThreads, chatMessages, type ChatThread } from './db/index.js';
+import { eq, and, asc, inArray, sql } from 'drizzle-orm';
+import type { ChatMessage } from './ai/gateway.js';
+import { historyTokenBudget, splitHistory, summarizeConversation } from './ai/history.js';
+
+const TITLE_LENGTH = 60;
+
+// Find a chat thread whose plan belongs to the user
+export async function findOwnedThread(threadId: number, userId: number) {
+  const [row] = await db.select({ thread: chatThreads })
+    .from(chatThreads)
+    .innerJoin(studyPlans, eq(chatThreads.studyPlanId, studyPlans.id))
+    .where(and(
+      eq(chatThreads.id, threadId),
+      eq(studyPlans.userId, userId)
+    ))
+    .execute();
+
+  return row?.thread;
+}
+
+/**
+ * The thread a chat message goes to: the given thread, or a new one on the
+ * given plan titled after the message. Returns undefined when the thread or
+ * plan doesn't belong to the user.
+ */
+export async function openChatThread(
+  userId: number,
+  { threadId, studyPlanId }: { threadId?: number; studyPlanId?: number },
+  firstMessage: string
+): Promise<ChatThread | undefined> {
+  if (threadId) {
+    return findOwnedThread(threadId, userId);
+  }
+
+  const [plan] = await db.select()
+    .from(studyPlans)
+    .where(and(
+      eq(studyPlans.id, studyPlanId!),
+      eq(studyPlans.userId, userId)
+    ))
+    .execute();
+
+  if (!plan) {
+    return undefined;
+  }
+
+  const title = firstMessage.length > TITLE_LENGTH
+    ? `${firstMessage.slice(0, TITLE_LENGTH - 1).trimEnd()}…`
+    : firstMessage;
+
+  const [thread] = await db.insert(chatThreads)
+    .values({ studyPlanId: plan.id, title })
+    .returning()
+    .execute();
+
+  return thread;
+}
+
+export async function threadMessages(threadId: number) {
+  return db.select()
+    .from(chatMessages)
+    .where(eq(chatMessages.threadId, threadId))
+    .orderBy(asc(chatMessages.id))
+    .execute();
+}
+
+/**
+ * The conversation so far, ready for the prompt: a summary of older messages
+ * and the newest ones verbatim within CHAT_HISTORY_TOKEN_BUDGET. Messages
+ * that fall out of the budget are summarized once and remembered on the thread.
+ */
+export async function threadHistory(thread: ChatThread, userId: number): Promise<{ summary: string | null; messages: ChatMessage[] }> {
+  const unsummarized = (await threadMessages(thread.id))
+    .filter(message => message.id > (thread.summarizedThrough ?? 0));
+  const { older, recent } = splitHistory(unsummarized, historyTokenBudget());
+
+  let summary = thread.summary;
+  if (older.length > 0) {
+    try {
+      summary = await summarizeConversation(summary, older, userId);
+      await db.update(chatThreads)
+        .set({ summary, summarizedThrough: older[older.length - 1].id })
+        .where(eq(chatThreads.id, thread.id))
+        .execute();
+    } catch (error) {
+      // Without a fresh summary the older messages are simply left out this time
+      console.warn('Chat summary failed:', error);
+    }
+  }
+
+  return {
+    summary,
+    messages: recent.map(({ role, content }) => ({ role, content })),
+  };
+}
+
+// Add messages to a thread and mark it as recently used
+export async function appendThreadMessages(threadId: number, messages: ChatMessage[]) {
+  await db.insert(chatMessages)
+    .values(messages.map(({ role, content }) => ({
+      threadId,
+      role: role === 'user' ? 'user' as const : 'assistant' as const,
+      content,
+    })))
+    .execute();
+
+  await db.update(chatThreads)
+    .set({ updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(eq(chatThreads.id, threadId))
+    .execute();
+}
+
+export async function deleteChatThread(threadId: number) {
+  await db.delete(chatMessages).where(eq(chatMessages.threadId, threadId)).execute();
+  await db.delete(chatThreads).where(eq(chatThreads.id, threadId)).execute();
+}
+
+// Remove every chat of a plan, e.g. before deleting the plan
+export async function deleteChatThreads(studyPlanId: number) {
+  const threads = await db.select({ id: chatThreads.id })
+    .from(chatThreads)
+    .where(eq(chatThreads.studyPlanId, studyPlanId))
+    .execute();
+
+  if (threads.length === 0) {
+    return;
+  }
+
+  await db.delete(chatMessages)
+    .where(inArray(chatMessages.threadId, threads.map(thread => thread.id)))
+    .execute();
+  await db.delete(chatThreads).where(eq(chatThreads.studyPlanId, studyPlanId)).execute();
+}
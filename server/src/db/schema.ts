@@ -1,5 +1,8 @@
-import { sqliteTable, text, integer, blob } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
+import { createInsertSchema } from 'drizzle-zod';
+import { z } from 'zod';
+import type { PlanSnapshot, PlanVersionSource, TaskSnapshot } from '../../../shared/planVersions.js';
 
 // User Schema
 export const users = sqliteTable('users', {
@@ -20,9 +23,11 @@ export const studyPlans = sqliteTable('study_plans', {
   learningStyle: text('learning_style'), // 'visual', 'auditory', 'reading', 'kinesthetic'
   studyMaterials: text('study_materials', { mode: 'json' }).$type<string[]>(), // Array of materials
   topics: text('topics', { mode: 'json' }).notNull().$type<string[]>(),
-  topicsProgress: text('topics_progress', { mode: 'json' }).$type<Record<string, number>>(), // topic name -> progress percentage (0-100)
+  topicsProgress: text('topics_progress', { mode: 'json' }).$type<Record<string, number>>(), // topic name -> mastery percentage (0-100), derived from the plan's work
+  topicsBaseline: text('topics_baseline', { mode: 'json' }).$type<Record<string, number>>(), // topic name -> self-assessed starting level (0-100)
   resources: text('resources', { mode: 'json' }).notNull().$type<string[]>(),
   selectedSchedule: integer('selected_schedule').default(1), // Which schedule variant the user selected
+  restDays: text('rest_days', { mode: 'json' }).$type<number[]>(), // days of the week without a study goal, 0 = Sunday
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -33,10 +38,112 @@ export const studyTasks = sqliteTable('study_tasks', {
   title: text('title').notNull(),
   description: text('description'),
   date: text('date').notNull(), // Store as ISO string
+  startTime: text('start_time'), // HH:mm local time
   duration: integer('duration').notNull(), // in minutes
   resource: text('resource'),
   isCompleted: integer('is_completed', { mode: 'boolean' }).default(false),
   taskType: text('task_type').notNull(), // 'study', 'review', 'practice'
+  topic: text('topic'), // the plan topic the task covers
+  source: text('source'), // 'scheduler' for sessions a reschedule may replace, null otherwise
+  score: integer('score'), // 0-100, from a practice quiz or test
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Study Week Schema - weekly calendar snapshots kept for older clients
+export const studyWeeks = sqliteTable('study_weeks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  studyPlanId: integer('study_plan_id').references(() => studyPlans.id),
+  weekStart: text('week_start').notNull(), // Store as ISO string
+  weekEnd: text('week_end').notNull(), // Store as ISO string
+  mondayTask: text('monday_task', { mode: 'json' }).$type<StudyTask | null>(),
+  wednesdayTask: text('wednesday_task', { mode: 'json' }).$type<StudyTask | null>(),
+  fridayTask: text('friday_task', { mode: 'json' }).$type<StudyTask | null>(),
+  weekendTask: text('weekend_task', { mode: 'json' }).$type<StudyTask | null>(),
+});
+
+// Topic Review Schema - spaced repetition state per topic
+export const topicReviews = sqliteTable('topic_reviews', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  studyPlanId: integer('study_plan_id').references(() => studyPlans.id).notNull(),
+  topic: text('topic').notNull(),
+  easeFactor: real('ease_factor').notNull().default(2.5),
+  interval: integer('interval').notNull().default(1), // in days
+  repetitions: integer('repetitions').notNull().default(0),
+  dueDate: text('due_date').notNull(), // yyyy-MM-dd
+  lastReviewedAt: text('last_reviewed_at'), // yyyy-MM-dd
+});
+
+// Plan Versions Schema - immutable snapshots of a plan and its tasks
+export const planVersions = sqliteTable('plan_versions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  studyPlanId: integer('study_plan_id').references(() => studyPlans.id).notNull(),
+  version: integer('version').notNull(), // 1, 2, 3... per plan
+  source: text('source').notNull().$type<PlanVersionSource>(),
+  note: text('note'), // e.g. the goals a refinement was asked for
+  plan: text('plan', { mode: 'json' }).notNull().$type<PlanSnapshot>(),
+  tasks: text('tasks', { mode: 'json' }).notNull().$type<TaskSnapshot[]>(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Study Sessions Schema - time actually spent studying, timed live or logged afterwards
+export const studySessions = sqliteTable('study_sessions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  studyPlanId: integer('study_plan_id').references(() => studyPlans.id).notNull(),
+  taskId: integer('task_id'), // not a foreign key: logged time outlives rescheduled tasks
+  topic: text('topic'),
+  startedAt: text('started_at').notNull(), // ISO string date-time
+  endedAt: text('ended_at'), // null while the session is running
+  minutes: integer('minutes'), // actual minutes studied, set when the session ends
+  interruptions: integer('interruptions').notNull().default(0),
+  focusRating: integer('focus_rating'), // 1-5, optional
+  note: text('note'),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Calendar Events Schema - a user's busy blocks that study tasks must avoid
+export const calendarEvents = sqliteTable('calendar_events', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  title: text('title').notNull(),
+  start: text('start').notNull(), // ISO string date-time
+  end: text('end').notNull(), // ISO string date-time
+  allDay: integer('all_day', { mode: 'boolean' }).default(false),
+  source: text('source'), // 'ics', 'csv' or 'manual'
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Chat Threads - AI assistant conversations about a study plan
+export const chatThreads = sqliteTable('chat_threads', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  studyPlanId: integer('study_plan_id').references(() => studyPlans.id).notNull(),
+  title: text('title').notNull(),
+  summary: text('summary'), // condensed earlier conversation that no longer fits in the prompt
+  summarizedThrough: integer('summarized_through'), // id of the last message folded into the summary
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Chat Messages Schema
+export const chatMessages = sqliteTable('chat_messages', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  threadId: integer('thread_id').references(() => chatThreads.id).notNull(),
+  role: text('role').notNull().$type<'user' | 'assistant'>(),
+  content: text('content').notNull(),
+  createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
+});
+
+// AI Usage Schema - one row per model call, for token and cost accounting
+export const aiUsage = sqliteTable('ai_usage', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').references(() => users.id).notNull(),
+  feature: text('feature').notNull(), // 'generate', 'refine', 'chat', 'clarify', ...
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  promptTokens: integer('prompt_tokens').notNull().default(0),
+  completionTokens: integer('completion_tokens').notNull().default(0),
+  costUsd: real('cost_usd').notNull().default(0), // estimated from AI_MODEL_PRICES
+  cached: integer('cached', { mode: 'boolean' }).default(false), // answered from the response cache
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -47,4 +154,59 @@ export const authTokens = sqliteTable('auth_tokens', {
   token: text('token').notNull().unique(),
   expiresAt: text('expires_at').notNull(), // ISO string date
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
-}); 
\ No newline at end of file
+});
+
+// Row types
+export type User = typeof users.$inferSelect;
+export type StudyPlan = typeof studyPlans.$inferSelect;
+export type StudyTask = typeof studyTasks.$inferSelect;
+export type StudyWeek = typeof studyWeeks.$inferSelect;
+export type TopicReview = typeof topicReviews.$inferSelect;
+export type PlanVersion = typeof planVersions.$inferSelect;
+export type StudySession = typeof studySessions.$inferSelect;
+export type CalendarEvent = typeof calendarEvents.$inferSelect;
+export type ChatThread = typeof chatThreads.$inferSelect;
+export type ChatThreadMessage = typeof chatMessages.$inferSelect;
+export type AIUsage = typeof aiUsage.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+
+// Insert schemas, for validating new and changed records
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export const insertStudyPlanSchema = createInsertSchema(studyPlans, {
+  studyMaterials: z.array(z.string()).nullable(),
+  topics: z.array(z.string()),
+  topicsProgress: z.record(z.number()).nullable(),
+  topicsBaseline: z.record(z.number()).nullable(),
+  resources: z.array(z.string()),
+  restDays: z.array(z.number().int().min(0).max(6)).nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertStudyPlan = z.infer<typeof insertStudyPlanSchema>;
+
+export const insertStudyTaskSchema = createInsertSchema(studyTasks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertStudyTask = z.infer<typeof insertStudyTaskSchema>;
+
+export const insertTopicReviewSchema = createInsertSchema(topicReviews).omit({
+  id: true,
+});
+
+export type InsertTopicReview = z.infer<typeof insertTopicReviewSchema>;
+
+export const insertStudyWeekSchema = createInsertSchema(studyWeeks).omit({
+  id: true,
+});
+
+export type InsertStudyWeek = z.infer<typeof insertStudyWeekSchema>;
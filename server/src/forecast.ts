@@ -0,0 +1,28 @@
+import { db, studyTasks, studySessions, type StudyPlan } from './db/index.js';
+import { eq } from 'drizzle-orm';
+import { zonedDateKey } from '../../shared/calendar.js';
+import { forecastExamReadiness } from '../../shared/forecast.js';
+import { planStartDate } from './goals.js';
+
+/**
+ * Whether a plan will be finished by its exam at the recent pace, and each
+ * topic's projected readiness with a suggested action for those at risk
+ */
+export async function planForecast(plan: StudyPlan, timeZone?: string) {
+  const [tasks, sessions] = await Promise.all([
+    db.select().from(studyTasks).where(eq(studyTasks.studyPlanId, plan.id)).execute(),
+    db.select().from(studySessions).where(eq(studySessions.studyPlanId, plan.id)).execute(),
+  ]);
+
+  return forecastExamReadiness({
+    topics: plan.topics,
+    tasks,
+    sessions,
+    baseline: plan.topicsBaseline,
+    weeklyStudyTime: plan.weeklyStudyTime,
+    startDate: planStartDate(plan, tasks),
+    examDate: plan.examDate.slice(0, 10),
+    today: zonedDateKey(new Date(), timeZone),
+    timeZone,
+  });
+}
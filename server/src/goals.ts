@@ -0,0 +1,33 @@
+import { db, studyTasks, studySessions, type StudyPlan } from './db/index.js';
+import { eq } from 'drizzle-orm';
+import { toDateKey, zonedDateKey } from '../../shared/calendar.js';
+import { summarizeGoals } from '../../shared/goals.js';
+
+/**
+ * First day of a plan: the day it was created, or its first task if that is earlier
+ */
+export function planStartDate(plan: StudyPlan, tasks: { date: string }[]): string {
+  return [plan.createdAt?.slice(0, 10) ?? toDateKey(new Date()), ...tasks.map(task => task.date)].sort()[0];
+}
+
+/**
+ * Daily and weekly study targets of a plan, its streak and each week's
+ * attainment from its first day to the exam, with days in the student's time zone
+ */
+export async function planGoals(plan: StudyPlan, timeZone?: string) {
+  const [tasks, sessions] = await Promise.all([
+    db.select().from(studyTasks).where(eq(studyTasks.studyPlanId, plan.id)).execute(),
+    db.select().from(studySessions).where(eq(studySessions.studyPlanId, plan.id)).execute(),
+  ]);
+
+  return summarizeGoals({
+    weeklyStudyTime: plan.weeklyStudyTime,
+    restDays: plan.restDays ?? [],
+    startDate: planStartDate(plan, tasks),
+    examDate: plan.examDate.slice(0, 10),
+    today: zonedDateKey(new Date(), timeZone),
+    sessions,
+    tasks,
+    timeZone,
+  });
+}
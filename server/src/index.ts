@@ -1,55 +1,13 @@
-import express from 'express';
-import cors from 'cors';
-import { config } from 'dotenv';
-import { planRoutes } from './routes/plans.js';
-import { refineRoutes } from './routes/refine.js';
-import { authRoutes } from './routes/auth.js';
+import { app } from './app.js';
+import { isDevBypassEnabled } from './middleware/auth.js';
 
-// Load environment variables
-config();
+if (isDevBypassEnabled()) {
+  console.warn('AUTH_DEV_BYPASS is enabled: every request is treated as the development user');
+}
 
-const app = express();
 const port = process.env.PORT || 3000;
 
-// Parse JSON request bodies
-app.use(express.json());
-
-// Configure CORS
-const allowedOrigins = process.env.CORS_ORIGINS?.split(',') || ['http://localhost:5173'];
-app.use(cors({
-  origin: (origin, callback) => {
-    // Allow requests with no origin (like mobile apps or curl requests)
-    if (!origin) return callback(null, true);
-    
-    if (allowedOrigins.indexOf(origin) === -1) {
-      const msg = `The CORS policy for this site does not allow access from the specified origin: ${origin}`;
-      return callback(new Error(msg), false);
-    }
-    return callback(null, true);
-  },
-  credentials: true,
-}));
-
-// API routes
-app.use('/api/plans', planRoutes);
-app.use('/api/refine', refineRoutes);
-app.use('/api/auth', authRoutes);
-
-// Health check endpoint
-app.get('/api/health', (req, res) => {
-  res.status(200).json({ status: 'ok', timestamp: new Date().toISOString() });
-});
-
-// Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error(err.stack);
-  res.status(500).json({
-    error: 'Internal Server Error',
-    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong',
-  });
-});
-
 // Start the server
 app.listen(port, () => {
   console.log(`Server running on port ${port}`);
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,33 @@
+import { db, studyPlans, studyTasks, studySessions, type StudyPlan } from './db/index.js';
+import { eq } from 'drizzle-orm';
+import { computeTopicMastery } from '../../shared/mastery.js';
+
+/**
+ * Recalculate the mastery of every topic of a plan from its tasks, study
+ * sessions and scores, and save it as the plan's topic progress. Call after
+ * anything that changes those. Returns the updated plan.
+ */
+export async function refreshTopicMastery(studyPlanId: number): Promise<StudyPlan | undefined> {
+  const [plan] = await db.select().from(studyPlans).where(eq(studyPlans.id, studyPlanId)).execute();
+  if (!plan) return undefined;
+
+  const [tasks, sessions] = await Promise.all([
+    db.select().from(studyTasks).where(eq(studyTasks.studyPlanId, plan.id)).execute(),
+    db.select().from(studySessions).where(eq(studySessions.studyPlanId, plan.id)).execute(),
+  ]);
+
+  const [updatedPlan] = await db.update(studyPlans)
+    .set({
+      topicsProgress: computeTopicMastery({
+        topics: plan.topics,
+        tasks,
+        sessions,
+        baseline: plan.topicsBaseline,
+      }),
+    })
+    .where(eq(studyPlans.id, plan.id))
+    .returning()
+    .execute();
+
+  return updatedPlan;
+}
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+
+const DEFAULT_DAILY_LIMIT = 50;
+
+// AI requests per user for the current UTC day. Kept in memory, so counts
+// start over when the server restarts.
+const usage = new Map<number, { day: string; count: number }>();
+
+function dailyLimit() {
+  const limit = parseInt(process.env.AI_DAILY_REQUEST_LIMIT || '');
+  return Number.isNaN(limit) ? DEFAULT_DAILY_LIMIT : limit;
+}
+
+function nextResetAt(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+}
+
+// How much of today's allowance the user has left
+export function getAIQuota(userId: number, now = new Date()) {
+  const day = now.toISOString().slice(0, 10);
+  const entry = usage.get(userId);
+  const used = entry && entry.day === day ? entry.count : 0;
+  const limit = dailyLimit();
+
+  return {
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetAt: nextResetAt(now),
+  };
+}
+
+// Count the request against the user's daily AI allowance; must run after auth
+export function aiQuota(req: Request, res: Response, next: NextFunction) {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const now = new Date();
+  const quota = getAIQuota(userId, now);
+
+  res.setHeader('X-RateLimit-Limit', quota.limit);
+  res.setHeader('X-RateLimit-Reset', quota.resetAt);
+
+  if (quota.remaining === 0) {
+    res.setHeader('X-RateLimit-Remaining', 0);
+    return res.status(429).json({
+      error: 'Daily AI request limit reached',
+      resetAt: quota.resetAt,
+    });
+  }
+
+  usage.set(userId, { day: now.toISOString().slice(0, 10), count: quota.used + 1 });
+  res.setHeader('X-RateLimit-Remaining', quota.remaining - 1);
+  next();
+}
+
+// Give back a request that didn't reach a model, e.g. one answered from the cache
+export function refundAIQuota(userId: number, res: Response, now = new Date()) {
+  const entry = usage.get(userId);
+
+  if (!entry || entry.day !== now.toISOString().slice(0, 10) || entry.count === 0) {
+    return;
+  }
+
+  entry.count--;
+  res.setHeader('X-RateLimit-Remaining', getAIQuota(userId, now).remaining);
+}
@@ -14,11 +14,15 @@ declare global {
   }
 }
 
+// The bypass is never honoured in production, whatever the environment says
+export function isDevBypassEnabled() {
+  return process.env.AUTH_DEV_BYPASS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
 export async function auth(req: Request, res: Response, next: NextFunction) {
   try {
-    // DEV MODE: Skip authentication for development
-    if (process.env.NODE_ENV === 'development' || true) {
-      // Assign a default user ID for development
+    // Local development only: AUTH_DEV_BYPASS=true treats every request as user 1
+    if (isDevBypassEnabled()) {
       req.user = {
         id: 1,
         username: 'devuser'
@@ -0,0 +1,170 @@
+import { db, studyPlans, studyTasks, planVersions, type StudyPlan, type StudyTask, type PlanVersion } from './db/index.js';
+import { eq, and, asc, desc, inArray } from 'drizzle-orm';
+import type { PlanSnapshot, PlanVersionSource, TaskSnapshot } from '../../shared/planVersions.js';
+import { refreshTopicMastery } from './mastery.js';
+
+function planSnapshot(plan: StudyPlan): PlanSnapshot {
+  return {
+    courseName: plan.courseName,
+    examDate: plan.examDate,
+    weeklyStudyTime: plan.weeklyStudyTime,
+    studyPreference: plan.studyPreference,
+    learningStyle: plan.learningStyle,
+    studyMaterials: plan.studyMaterials,
+    topics: plan.topics,
+    topicsProgress: plan.topicsProgress,
+    resources: plan.resources,
+  };
+}
+
+function taskSnapshot(task: StudyTask): TaskSnapshot {
+  return {
+    id: task.id,
+    title: task.title,
+    description: task.description,
+    date: task.date,
+    startTime: task.startTime,
+    duration: task.duration,
+    resource: task.resource,
+    isCompleted: task.isCompleted ?? false,
+    taskType: task.taskType,
+    topic: task.topic,
+    source: task.source,
+  };
+}
+
+// The plan's fields and tasks as they are now
+async function currentSnapshot(planId: number) {
+  const [plan] = await db.select().from(studyPlans).where(eq(studyPlans.id, planId)).execute();
+  const tasks = await db.select()
+    .from(studyTasks)
+    .where(eq(studyTasks.studyPlanId, planId))
+    .orderBy(asc(studyTasks.date), asc(studyTasks.startTime), asc(studyTasks.id))
+    .execute();
+
+  return plan ? { plan: planSnapshot(plan), tasks: tasks.map(taskSnapshot) } : undefined;
+}
+
+export async function latestPlanVersion(planId: number): Promise<PlanVersion | undefined> {
+  const [latest] = await db.select()
+    .from(planVersions)
+    .where(eq(planVersions.studyPlanId, planId))
+    .orderBy(desc(planVersions.version))
+    .limit(1)
+    .execute();
+
+  return latest;
+}
+
+export async function findPlanVersion(planId: number, version: number): Promise<PlanVersion | undefined> {
+  const [row] = await db.select()
+    .from(planVersions)
+    .where(and(
+      eq(planVersions.studyPlanId, planId),
+      eq(planVersions.version, version)
+    ))
+    .execute();
+
+  return row;
+}
+
+/**
+ * Snapshot the plan and its tasks as the next version. Versions are never
+ * changed afterwards; a rollback adds a new version instead.
+ */
+export async function recordPlanVersion(planId: number, source: PlanVersionSource, note?: string | null): Promise<PlanVersion | undefined> {
+  const snapshot = await currentSnapshot(planId);
+
+  if (!snapshot) {
+    return undefined;
+  }
+
+  const latest = await latestPlanVersion(planId);
+  const [version] = await db.insert(planVersions)
+    .values({
+      studyPlanId: planId,
+      version: (latest?.version ?? 0) + 1,
+      source,
+      note: note ?? null,
+      plan: snapshot.plan,
+      tasks: snapshot.tasks,
+    })
+    .returning()
+    .execute();
+
+  return version;
+}
+
+/**
+ * Keep the user's own edits since the last version before something replaces
+ * them: records an 'edited' version when the plan no longer matches the
+ * latest one (or has none yet).
+ */
+export async function checkpointPlan(planId: number): Promise<void> {
+  const [snapshot, latest] = await Promise.all([currentSnapshot(planId), latestPlanVersion(planId)]);
+
+  if (!snapshot) {
+    return;
+  }
+
+  const unchanged = latest
+    && JSON.stringify(latest.plan) === JSON.stringify(snapshot.plan)
+    && JSON.stringify(latest.tasks) === JSON.stringify(snapshot.tasks);
+
+  if (!unchanged) {
+    await recordPlanVersion(planId, latest ? 'edited' : 'created');
+  }
+}
+
+/**
+ * Put the plan's fields and tasks back the way they were in a version.
+ * Tasks still on the plan are updated in place, missing ones are recreated
+ * and open tasks the version didn't have are removed. Completed work is never
+ * undone: completed tasks stay, and keep their completion.
+ */
+export async function restorePlanVersion(version: PlanVersion): Promise<void> {
+  const planId = version.studyPlanId;
+
+  await db.update(studyPlans)
+    .set(version.plan)
+    .where(eq(studyPlans.id, planId))
+    .execute();
+
+  const current = await db.select()
+    .from(studyTasks)
+    .where(eq(studyTasks.studyPlanId, planId))
+    .execute();
+  const currentById = new Map(current.map(task => [task.id, task]));
+  const keptIds = new Set<number>();
+
+  for (const { id, ...task } of version.tasks) {
+    const existing = currentById.get(id);
+
+    if (existing) {
+      keptIds.add(id);
+      await db.update(studyTasks)
+        .set({ ...task, isCompleted: existing.isCompleted || task.isCompleted })
+        .where(eq(studyTasks.id, id))
+        .execute();
+    } else {
+      await db.insert(studyTasks)
+        .values({ ...task, studyPlanId: planId })
+        .execute();
+    }
+  }
+
+  const extra = current.filter(task => !keptIds.has(task.id) && !task.isCompleted);
+  if (extra.length > 0) {
+    await db.delete(studyTasks)
+      .where(inArray(studyTasks.id, extra.map(task => task.id)))
+      .execute();
+  }
+
+  // The snapshot's progress is out of date once completed tasks are kept
+  await refreshTopicMastery(planId);
+}
+
+// Remove every version of a plan, e.g. before deleting the plan
+export async function deletePlanVersions(studyPlanId: number) {
+  await db.delete(planVersions).where(eq(planVersions.studyPlanId, studyPlanId)).execute();
+}
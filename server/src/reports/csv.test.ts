@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { renderCsv } from './csv.js';
+import type { ProgressReport, ReportTaskRow } from './report.js';
+
+const row: ReportTaskRow = {
+  id: 1,
+  date: '2099-05-01',
+  startTime: '09:00',
+  title: 'Read chapter 1',
+  topic: 'Vectors',
+  taskType: 'study',
+  duration: 30,
+  isCompleted: false,
+  score: null,
+  minutesStudied: 0,
+};
+
+// Only the tasks end up in the CSV
+function csvRows(...tasks: Partial<ReportTaskRow>[]) {
+  const report = { tasks: tasks.map(task => ({ ...row, ...task })) } as ProgressReport;
+  return renderCsv(report).trimEnd().split('\r\n').slice(1);
+}
+
+describe('renderCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(csvRows({ title: 'Read "Intro", part 1' })).toEqual([
+      '2099-05-01,09:00,"Read ""Intro"", part 1",Vectors,study,30,0,no,',
+    ]);
+  });
+
+  it('keeps spreadsheets from running text as a formula', () => {
+    expect(csvRows(
+      { title: '=HYPERLINK("http://example.com")' },
+      { title: '+1', topic: '-2' },
+      { title: '@SUM(A1)' },
+    )).toEqual([
+      `2099-05-01,09:00,"'=HYPERLINK(""http://example.com"")",Vectors,study,30,0,no,`,
+      "2099-05-01,09:00,'+1,'-2,study,30,0,no,",
+      "2099-05-01,09:00,'@SUM(A1),Vectors,study,30,0,no,",
+    ]);
+  });
+
+  it('leaves negative numbers alone', () => {
+    expect(csvRows({ score: -1 })).toEqual(['2099-05-01,09:00,Read chapter 1,Vectors,study,30,0,no,-1']);
+  });
+});
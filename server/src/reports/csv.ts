@@ -0,0 +1,35 @@
+import type { ProgressReport, ReportTaskRow } from './report.js';
+
+const COLUMNS: { header: string; value: (task: ReportTaskRow) => string | number | null }[] = [
+  { header: 'Date', value: task => task.date },
+  { header: 'Start Time', value: task => task.startTime },
+  { header: 'Title', value: task => task.title },
+  { header: 'Topic', value: task => task.topic },
+  { header: 'Type', value: task => task.taskType },
+  { header: 'Planned Minutes', value: task => task.duration },
+  { header: 'Minutes Studied', value: task => task.minutesStudied },
+  { header: 'Completed', value: task => task.isCompleted ? 'yes' : 'no' },
+  { header: 'Score', value: task => task.score },
+];
+
+// Spreadsheets run text starting with one of these as a formula, so task
+// titles and topics get a leading ' to be shown as plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The report's tasks as CSV, one row per task
+ */
+export function renderCsv(report: ProgressReport): string {
+  const rows = [
+    COLUMNS.map(column => column.header),
+    ...report.tasks.map(task => COLUMNS.map(column => csvField(column.value(task)))),
+  ];
+
+  return rows.map(row => row.join(',')).join('\r\n') + '\r\n';
+}
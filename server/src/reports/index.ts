@@ -0,0 +1,63 @@
+import { db, studyTasks, studySessions, type StudyPlan } from '../db/index.js';
+import { eq } from 'drizzle-orm';
+import { READINESS_TARGET } from '../../../shared/forecast.js';
+import { planGoals, planStartDate } from '../goals.js';
+import { planForecast } from '../forecast.js';
+import { buildProgressReport, type ProgressReport, type ReportRange } from './report.js';
+import { renderMarkdown } from './markdown.js';
+import { renderCsv } from './csv.js';
+import { renderPdf } from './pdf.js';
+
+export type { ProgressReport, ReportRange } from './report.js';
+
+export const REPORT_FORMATS = ['markdown', 'csv', 'json', 'pdf'] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface RenderedReport {
+  body: string | Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/**
+ * A plan's progress report over a date range, defaulting to the plan's
+ * first day through its exam, with days in the student's time zone
+ */
+export async function planProgressReport(plan: StudyPlan, range: Partial<ReportRange> = {}, timeZone?: string): Promise<ProgressReport> {
+  const [tasks, sessions, goals, forecast] = await Promise.all([
+    db.select().from(studyTasks).where(eq(studyTasks.studyPlanId, plan.id)).execute(),
+    db.select().from(studySessions).where(eq(studySessions.studyPlanId, plan.id)).execute(),
+    planGoals(plan, timeZone),
+    planForecast(plan, timeZone),
+  ]);
+
+  return buildProgressReport({
+    plan,
+    tasks,
+    sessions,
+    goals,
+    forecast,
+    range: {
+      from: range.from ?? planStartDate(plan, tasks),
+      to: range.to ?? plan.examDate.slice(0, 10),
+    },
+    now: new Date(),
+    timeZone,
+  });
+}
+
+/**
+ * The report in one of the export formats
+ */
+export function renderReport(report: ProgressReport, format: ReportFormat): RenderedReport {
+  switch (format) {
+    case 'markdown':
+      return { body: renderMarkdown(report), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'csv':
+      return { body: renderCsv(report), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'json':
+      return { body: JSON.stringify(report, null, 2), contentType: 'application/json; charset=utf-8', extension: 'json' };
+    case 'pdf':
+      return { body: renderPdf(report, { readinessTarget: READINESS_TARGET }), contentType: 'application/pdf', extension: 'pdf' };
+  }
+}
@@ -0,0 +1,73 @@
+import { formatDay, formatMinutes, type ProgressReport } from './report.js';
+
+/**
+ * The report as a Markdown document
+ */
+export function renderMarkdown(report: ProgressReport): string {
+  const { plan, range, overview, goals, forecast } = report;
+  const lines: string[] = [];
+
+  lines.push(`# Progress Report for ${plan.courseName}`);
+  lines.push(`Date: ${formatDay(report.generatedAt.slice(0, 10))}`);
+  lines.push(`Period: ${formatDay(range.from)} - ${formatDay(range.to)}`);
+  lines.push('');
+
+  lines.push('## Overview');
+  lines.push(`- Overall Progress: ${overview.percentComplete}% (${overview.completedTasks}/${overview.totalTasks} tasks completed)`);
+  lines.push(`- Days Until Exam: ${plan.daysUntilExam} (${formatDay(plan.examDate)})`);
+  lines.push(`- Weekly Study Time: ${plan.weeklyStudyTime} hours`);
+  lines.push(`- Time Studied: ${formatMinutes(overview.minutesStudied)} over ${overview.sessionCount} sessions (completed tasks were planned at ${formatMinutes(overview.plannedMinutes)})`);
+  lines.push(`- Daily Goal: ${formatMinutes(goals.dailyTargetMinutes)} • Current Streak: ${goals.currentStreak} days (longest ${goals.longestStreak})`);
+  const reviewedWeeks = goals.weeks.filter(week => week.status !== 'upcoming');
+  lines.push(`- Weeks on Target: ${reviewedWeeks.filter(week => week.met).length} of ${reviewedWeeks.length}`);
+  lines.push('');
+
+  lines.push('## Exam Readiness');
+  lines.push(`- ${forecast.onTrack ? 'On track' : 'Behind'}: ${formatMinutes(forecast.remainingMinutes)} of tasks left at ${formatMinutes(forecast.minutesPerDay)} a day`);
+  if (forecast.projectedFinishDate) {
+    lines.push(`- Projected Finish: ${formatDay(forecast.projectedFinishDate)}`);
+  }
+  lines.push(`- Projected Readiness: ${forecast.readiness}%`);
+  forecast.atRisk.forEach(topic => {
+    lines.push(`- At risk: ${topic.topic} (${topic.readiness}% by exam day). ${topic.action?.description ?? ''}`.trimEnd());
+  });
+  lines.push('');
+
+  lines.push('## Progress by Topic');
+  report.topics.forEach(topic => {
+    lines.push(`- ${topic.topic}: ${topic.mastery}%, ${topic.readiness}% by exam day (${topic.completedTasks}/${topic.totalTasks} tasks completed), ${formatMinutes(topic.minutesStudied)} studied`);
+  });
+  lines.push('');
+
+  lines.push('## Progress by Task Type');
+  report.taskTypes.forEach(type => {
+    lines.push(`- ${type.taskType.charAt(0).toUpperCase()}${type.taskType.slice(1)}: ${type.completedTasks}/${type.totalTasks} tasks completed`);
+  });
+  lines.push('');
+
+  if (goals.weeks.length > 0) {
+    lines.push('## Weekly Goals');
+    lines.push('| Week | Dates | Studied | Target | Attainment |');
+    lines.push('| --- | --- | --- | --- | --- |');
+    goals.weeks.forEach(week => {
+      lines.push(`| ${week.week} | ${formatDay(week.weekStart, false)} - ${formatDay(week.weekEnd, false)} | ${formatMinutes(week.actualMinutes)} | ${formatMinutes(week.targetMinutes)} | ${week.status === 'upcoming' ? '-' : `${week.attainment}%`} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Tasks');
+  if (report.tasks.length === 0) {
+    lines.push('No tasks in this period.');
+  }
+  report.tasks.forEach(task => {
+    const details = [
+      `${task.duration} min`,
+      task.topic,
+      task.minutesStudied > 0 ? `${formatMinutes(task.minutesStudied)} studied` : null,
+      task.score !== null ? `score ${task.score}%` : null,
+    ].filter(Boolean).join(', ');
+    lines.push(`- [${task.isCompleted ? 'x' : ' '}] ${task.title} - ${formatDay(task.date, false)}${task.startTime ? ` ${task.startTime}` : ''} (${details})`);
+  });
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,373 @@
+import { formatDay, formatMinutes, type ProgressReport } from './report.js';
+
+// A minimal PDF 1.4 writer: Letter pages, the standard Helvetica fonts and
+// vector bar charts, so printable reports need no PDF library.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+type Font = 'regular' | 'bold';
+type Color = [number, number, number];
+
+const FONT_NAMES: Record<Font, string> = { regular: 'F1', bold: 'F2' };
+
+const COLORS: Record<string, Color> = {
+  text: [0.12, 0.16, 0.22],
+  muted: [0.42, 0.45, 0.5],
+  track: [0.89, 0.91, 0.94],
+  primary: [0.23, 0.51, 0.96],
+  light: [0.58, 0.77, 0.99],
+  good: [0.29, 0.87, 0.5],
+  warning: [0.98, 0.75, 0.14],
+  rule: [0.58, 0.64, 0.72],
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI: Record<string, number> = { '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '…': 0x85 };
+
+/**
+ * Text as a PDF string literal in WinAnsiEncoding; anything the standard
+ * fonts can't show becomes "?"
+ */
+function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = WIN_ANSI[char] ?? char.codePointAt(0)!;
+    const byte = code >= 0x20 && code <= 0xff && code !== 0x7f ? code : 0x3f;
+    const escaped = String.fromCharCode(byte);
+    encoded += escaped === '(' || escaped === ')' || escaped === '\\' ? `\\${escaped}` : escaped;
+  }
+  return `(${encoded})`;
+}
+
+/**
+ * Approximate width of text in Helvetica, close enough to wrap and truncate by
+ */
+function textWidth(text: string, size: number, font: Font = 'regular'): number {
+  let units = 0;
+  for (const char of text) {
+    if (/[ijlI.,:;'|!]/.test(char)) units += 0.26;
+    else if (/[ frt()\-\[\]]/.test(char)) units += 0.33;
+    else if (/[mwMW@%]/.test(char)) units += 0.85;
+    else if (/[A-Z0-9#&]/.test(char)) units += 0.66;
+    else units += 0.54;
+  }
+  return units * size * (font === 'bold' ? 1.06 : 1);
+}
+
+function truncate(text: string, width: number, size: number, font: Font = 'regular'): string {
+  if (textWidth(text, size, font) <= width) return text;
+  let cut = text;
+  while (cut.length > 0 && textWidth(`${cut}…`, size, font) > width) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}…`;
+}
+
+function wrap(text: string, width: number, size: number, font: Font = 'regular'): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, font) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines.map(l => truncate(l, width, size, font)) : [''];
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+/**
+ * Pages of drawing operators, laid out top to bottom from a cursor
+ */
+function createLayout() {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  newPage();
+
+  const layout = {
+    pages,
+    get y() { return y; },
+    moveDown(height: number) { y -= height; },
+    // Starts a new page unless `height` still fits on this one
+    ensure(height: number) {
+      if (y - height < MARGIN) newPage();
+    },
+    text(x: number, baseline: number, text: string, { size = 10, font = 'regular' as Font, color = COLORS.text as Color } = {}) {
+      ops.push(`${color.map(num).join(' ')} rg BT /${FONT_NAMES[font]} ${size} Tf ${num(x)} ${num(baseline)} Td ${pdfString(text)} Tj ET`);
+    },
+    rect(x: number, bottom: number, width: number, height: number, color: Color) {
+      if (width <= 0 || height <= 0) return;
+      ops.push(`${color.map(num).join(' ')} rg ${num(x)} ${num(bottom)} ${num(width)} ${num(height)} re f`);
+    },
+    line(x1: number, y1: number, x2: number, y2: number, color: Color, { dashed = false, width = 0.75 } = {}) {
+      ops.push(`q ${color.map(num).join(' ')} RG ${num(width)} w ${dashed ? '[3 3] 0 d ' : ''}${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S Q`);
+    },
+    // Wrapped text at the cursor
+    paragraph(text: string, { size = 10, font = 'regular' as Font, color = COLORS.text as Color, indent = 0 } = {}) {
+      const lineHeight = size * 1.4;
+      for (const line of wrap(text, CONTENT_WIDTH - indent, size, font)) {
+        layout.ensure(lineHeight);
+        y -= lineHeight;
+        layout.text(MARGIN + indent, y + size * 0.3, line, { size, font, color });
+      }
+    },
+    heading(text: string) {
+      layout.ensure(60); // keep a heading with what follows it
+      y -= 14;
+      layout.paragraph(text, { size: 14, font: 'bold' });
+      y -= 4;
+    },
+  };
+
+  return layout;
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+/**
+ * Horizontal bars for each topic: mastery now, projected readiness behind it
+ * and the readiness target as a dashed line
+ */
+function drawTopicChart(layout: Layout, report: ProgressReport, target: number) {
+  const labelWidth = 150;
+  const barWidth = CONTENT_WIDTH - labelWidth - 70;
+  const rowHeight = 18;
+
+  for (const topic of report.topics) {
+    layout.ensure(rowHeight);
+    layout.moveDown(rowHeight);
+    const bottom = layout.y + 4;
+    const x = MARGIN + labelWidth;
+    layout.text(MARGIN, bottom + 2, truncate(topic.topic, labelWidth - 8, 9), { size: 9 });
+    layout.rect(x, bottom, barWidth, 10, COLORS.track);
+    layout.rect(x, bottom, (barWidth * topic.readiness) / 100, 10, topic.atRisk ? COLORS.warning : COLORS.light);
+    layout.rect(x, bottom, (barWidth * topic.mastery) / 100, 10, COLORS.primary);
+    layout.line(x + (barWidth * target) / 100, bottom - 2, x + (barWidth * target) / 100, bottom + 12, COLORS.rule, { dashed: true });
+    layout.text(x + barWidth + 8, bottom + 2, `${topic.mastery}% / ${topic.readiness}%`, { size: 9, color: COLORS.muted });
+  }
+}
+
+/**
+ * Vertical bars with labels underneath and an optional dashed reference value
+ */
+function drawColumnChart(
+  layout: Layout,
+  bars: { label: string; value: number; color: Color }[],
+  { reference, unit }: { reference?: number; unit: string }
+) {
+  const chartHeight = 120;
+  const max = Math.max(reference ?? 0, ...bars.map(bar => bar.value), 1);
+  const step = CONTENT_WIDTH / Math.max(bars.length, 1);
+  const barWidth = Math.min(28, step * 0.7);
+  const labelEvery = Math.ceil(bars.length / 16);
+
+  layout.ensure(chartHeight + 30);
+  layout.moveDown(chartHeight + 10);
+  const bottom = layout.y;
+
+  layout.line(MARGIN, bottom, MARGIN + CONTENT_WIDTH, bottom, COLORS.rule);
+  layout.text(MARGIN, bottom + chartHeight + 2, `${Math.round(max)}${unit}`, { size: 7, color: COLORS.muted });
+  bars.forEach((bar, index) => {
+    const x = MARGIN + step * index + (step - barWidth) / 2;
+    layout.rect(x, bottom, barWidth, (chartHeight * bar.value) / max, bar.color);
+    if (index % labelEvery === 0) {
+      layout.text(x, bottom - 10, bar.label, { size: 7, color: COLORS.muted });
+    }
+  });
+  if (reference !== undefined && reference > 0) {
+    const referenceY = bottom + (chartHeight * reference) / max;
+    layout.line(MARGIN, referenceY, MARGIN + CONTENT_WIDTH, referenceY, COLORS.rule, { dashed: true });
+  }
+
+  layout.moveDown(18);
+}
+
+/**
+ * The report's tasks as a table, repeating the header on each page
+ */
+function drawTaskTable(layout: Layout, report: ProgressReport) {
+  const columns = [
+    { header: 'Date', width: 58 },
+    { header: 'Time', width: 32 },
+    { header: 'Task', width: 142 },
+    { header: 'Topic', width: 90 },
+    { header: 'Type', width: 48 },
+    { header: 'Planned', width: 40 },
+    { header: 'Studied', width: 40 },
+    { header: 'Done', width: 28 },
+    { header: 'Score', width: 30 },
+  ];
+  const rowHeight = 13;
+  let onPage = -1;
+
+  const drawRow = (cells: string[], font: Font) => {
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      layout.text(x, layout.y + 3, truncate(cell, columns[index].width - 4, 8, font), { size: 8, font });
+      x += columns[index].width;
+    });
+  };
+
+  for (const task of report.tasks) {
+    layout.ensure(rowHeight * 2);
+    if (onPage !== layout.pages.length) {
+      onPage = layout.pages.length;
+      layout.moveDown(rowHeight);
+      drawRow(columns.map(column => column.header), 'bold');
+      layout.line(MARGIN, layout.y, MARGIN + CONTENT_WIDTH, layout.y, COLORS.rule);
+    }
+    layout.moveDown(rowHeight);
+    drawRow([
+      task.date,
+      task.startTime ?? '',
+      task.title,
+      task.topic ?? '',
+      task.taskType,
+      `${task.duration}m`,
+      task.minutesStudied > 0 ? `${task.minutesStudied}m` : '',
+      task.isCompleted ? 'Yes' : '',
+      task.score !== null ? `${task.score}%` : '',
+    ], 'regular');
+  }
+}
+
+/**
+ * Daily minutes studied, grouped by week when the range is too long to show
+ * each day
+ */
+function studyTimeBars(report: ProgressReport): { label: string; value: number; color: Color }[] {
+  if (report.daily.length <= 62) {
+    return report.daily.map(day => ({
+      label: day.date.slice(5),
+      value: day.minutes,
+      color: day.minutes >= report.goals.dailyTargetMinutes ? COLORS.good : COLORS.primary,
+    }));
+  }
+
+  const weeks: { label: string; value: number; color: Color }[] = [];
+  report.daily.forEach((day, index) => {
+    if (index % 7 === 0) weeks.push({ label: day.date.slice(5), value: 0, color: COLORS.primary });
+    weeks[weeks.length - 1].value += day.minutes;
+  });
+  return weeks;
+}
+
+function serialize(pages: string[][], title: string): Buffer {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  pages.forEach((ops, index) => {
+    const content = ops.join('\n');
+    add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`);
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+  add(`<< /Title ${pdfString(title)} /Producer (FocusGrid) >>`);
+
+  let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  // Every character is a single byte: content is WinAnsi-encoded by pdfString
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * The report as a printable PDF with charts of topic mastery, weekly goal
+ * attainment and study time
+ */
+export function renderPdf(report: ProgressReport, { readinessTarget }: { readinessTarget: number }): Buffer {
+  const { plan, range, overview, goals, forecast } = report;
+  const layout = createLayout();
+
+  layout.paragraph(`Progress Report for ${plan.courseName}`, { size: 20, font: 'bold' });
+  layout.paragraph(`${formatDay(range.from)} - ${formatDay(range.to)} • generated ${formatDay(report.generatedAt.slice(0, 10))}`, { color: COLORS.muted });
+
+  layout.heading('Overview');
+  const reviewedWeeks = goals.weeks.filter(week => week.status !== 'upcoming');
+  [
+    `Overall progress: ${overview.percentComplete}% (${overview.completedTasks}/${overview.totalTasks} tasks completed)`,
+    `Days until exam: ${plan.daysUntilExam} (${formatDay(plan.examDate)})`,
+    `Weekly study time: ${plan.weeklyStudyTime} hours`,
+    `Time studied: ${formatMinutes(overview.minutesStudied)} over ${overview.sessionCount} sessions (completed tasks were planned at ${formatMinutes(overview.plannedMinutes)})`,
+    `Daily goal: ${formatMinutes(goals.dailyTargetMinutes)} • current streak ${goals.currentStreak} days (longest ${goals.longestStreak})`,
+    `Weeks on target: ${reviewedWeeks.filter(week => week.met).length} of ${reviewedWeeks.length}`,
+  ].forEach(line => layout.paragraph(`• ${line}`));
+
+  layout.heading('Exam Readiness');
+  layout.paragraph(`${forecast.onTrack ? 'On track' : 'Behind'}: ${formatMinutes(forecast.remainingMinutes)} of tasks left at ${formatMinutes(forecast.minutesPerDay)} a day${forecast.projectedFinishDate ? `, done by ${formatDay(forecast.projectedFinishDate)}` : ''}. Projected readiness ${forecast.readiness}%.`);
+  forecast.atRisk.forEach(topic => {
+    layout.paragraph(`• At risk: ${topic.topic} (${topic.readiness}% by exam day). ${topic.action?.description ?? ''}`);
+  });
+
+  if (report.topics.length > 0) {
+    layout.heading('Topic Mastery');
+    layout.paragraph(`Mastery now (dark) and projected by exam day (light, amber when at risk). The dashed line is the ${readinessTarget}% target.`, { size: 8, color: COLORS.muted });
+    drawTopicChart(layout, report, readinessTarget);
+    layout.moveDown(6);
+    report.topics.forEach(topic => {
+      layout.paragraph(`• ${topic.topic}: ${topic.completedTasks}/${topic.totalTasks} tasks completed, ${formatMinutes(topic.minutesStudied)} studied`, { size: 9 });
+    });
+  }
+
+  layout.heading('Progress by Task Type');
+  report.taskTypes.forEach(type => {
+    layout.paragraph(`• ${type.taskType.charAt(0).toUpperCase()}${type.taskType.slice(1)}: ${type.completedTasks}/${type.totalTasks} tasks completed`);
+  });
+
+  if (goals.weeks.length > 0) {
+    layout.heading('Weekly Goals');
+    layout.paragraph('Share of each week\'s target studied. The dashed line is 100%.', { size: 8, color: COLORS.muted });
+    drawColumnChart(layout, goals.weeks.map(week => ({
+      label: `W${week.week}`,
+      value: week.status === 'upcoming' ? 0 : week.attainment,
+      color: week.met ? COLORS.good : week.status === 'current' ? COLORS.light : COLORS.warning,
+    })), { reference: 100, unit: '%' });
+  }
+
+  layout.heading('Study Time');
+  const bars = studyTimeBars(report);
+  layout.paragraph(bars.length === report.daily.length
+    ? `Minutes studied each day. The dashed line is the ${formatMinutes(goals.dailyTargetMinutes)} daily goal.`
+    : 'Minutes studied each week, starting on the dates shown.', { size: 8, color: COLORS.muted });
+  drawColumnChart(layout, bars, {
+    reference: bars.length === report.daily.length ? goals.dailyTargetMinutes : undefined,
+    unit: ' min',
+  });
+
+  layout.heading('Tasks');
+  if (report.tasks.length === 0) {
+    layout.paragraph('No tasks in this period.', { color: COLORS.muted });
+  }
+  drawTaskTable(layout, report);
+
+  layout.pages.forEach((ops, index) => {
+    const footer = `${plan.courseName} • page ${index + 1} of ${layout.pages.length}`;
+    ops.push(`${COLORS.muted.map(num).join(' ')} rg BT /F1 8 Tf ${num(MARGIN)} ${MARGIN / 2} Td ${pdfString(footer)} Tj ET`);
+  });
+
+  return serialize(layout.pages, `Progress Report for ${plan.courseName}`);
+}
@@ -0,0 +1,226 @@
+import type { StudyPlan, StudySession, StudyTask } from '../db/index.js';
+import { parseDateKey, toDateKey, zonedDateKey } from '../../../shared/calendar.js';
+import { minutesByDay, type GoalSummary, type WeekGoal } from '../../../shared/goals.js';
+import type { ExamForecast, TopicForecast } from '../../../shared/forecast.js';
+import { taskTopic } from '../../../shared/studySessions.js';
+
+export interface ReportRange {
+  from: string; // yyyy-MM-dd, inclusive
+  to: string; // yyyy-MM-dd, inclusive
+}
+
+export interface ReportTaskRow {
+  id: number;
+  date: string;
+  startTime: string | null;
+  title: string;
+  topic: string | null;
+  taskType: string;
+  duration: number; // planned, in minutes
+  isCompleted: boolean;
+  score: number | null;
+  minutesStudied: number; // logged in sessions against the task within the range
+}
+
+export interface ReportTopicRow {
+  topic: string;
+  mastery: number; // 0-100 now
+  readiness: number; // 0-100 projected at the exam
+  atRisk: boolean;
+  completedTasks: number;
+  totalTasks: number;
+  minutesStudied: number;
+}
+
+export interface ReportTaskTypeRow {
+  taskType: string;
+  completedTasks: number;
+  totalTasks: number;
+}
+
+export interface ProgressReport {
+  generatedAt: string; // ISO date-time
+  range: ReportRange;
+  plan: {
+    id: number;
+    courseName: string;
+    examDate: string;
+    weeklyStudyTime: number; // in hours
+    daysUntilExam: number;
+  };
+  // Tasks dated and sessions started within the range
+  overview: {
+    totalTasks: number;
+    completedTasks: number;
+    percentComplete: number;
+    plannedMinutes: number; // of the completed tasks
+    minutesStudied: number; // logged in sessions
+    sessionCount: number;
+  };
+  goals: {
+    dailyTargetMinutes: number;
+    weeklyTargetMinutes: number;
+    currentStreak: number;
+    longestStreak: number;
+    weeks: WeekGoal[]; // overlapping the range
+  };
+  forecast: {
+    onTrack: boolean;
+    minutesPerDay: number;
+    remainingMinutes: number;
+    projectedFinishDate: string | null;
+    readiness: number;
+    atRisk: TopicForecast[];
+  };
+  topics: ReportTopicRow[];
+  taskTypes: ReportTaskTypeRow[];
+  daily: { date: string; tasksCompleted: number; minutes: number }[];
+  tasks: ReportTaskRow[];
+}
+
+export interface ReportInput {
+  plan: StudyPlan;
+  tasks: StudyTask[];
+  sessions: StudySession[];
+  goals: GoalSummary;
+  forecast: ExamForecast;
+  range: ReportRange;
+  now: Date;
+  timeZone?: string; // the student's, which decides the day of each session
+}
+
+const TASK_TYPES = ['study', 'review', 'practice'];
+
+function addDays(date: string, days: number): string {
+  const day = parseDateKey(date);
+  day.setDate(day.getDate() + days);
+  return toDateKey(day);
+}
+
+/**
+ * Minutes as "45 min", "2h" or "1h 30m"
+ */
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+}
+
+/**
+ * A yyyy-MM-dd date as "March 4, 2025", or "March 4" without the year
+ */
+export function formatDay(date: string, withYear = true): string {
+  return parseDateKey(date).toLocaleDateString('en-US', withYear
+    ? { month: 'long', day: 'numeric', year: 'numeric' }
+    : { month: 'long', day: 'numeric' });
+}
+
+/**
+ * Everything a progress report shows, for tasks dated and sessions started
+ * within the range. Goals and the forecast are as of today.
+ */
+export function buildProgressReport(input: ReportInput): ProgressReport {
+  const { plan, range } = input;
+  const today = zonedDateKey(input.now, input.timeZone);
+  const inRange = (date: string) => date >= range.from && date <= range.to;
+
+  const tasks = input.tasks
+    .filter(task => inRange(task.date))
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime ?? '').localeCompare(b.startTime ?? '') || a.id - b.id);
+  const sessions = input.sessions
+    .filter(session => session.minutes !== null && inRange(zonedDateKey(new Date(session.startedAt), input.timeZone)));
+  const completed = tasks.filter(task => task.isCompleted);
+
+  const studiedByTask = new Map<number, number>();
+  for (const session of sessions) {
+    if (session.taskId !== null) {
+      studiedByTask.set(session.taskId, (studiedByTask.get(session.taskId) ?? 0) + session.minutes!);
+    }
+  }
+
+  const tasksById = new Map(input.tasks.map(task => [task.id, task]));
+  const sessionTopic = (session: StudySession) => {
+    const task = session.taskId !== null ? tasksById.get(session.taskId) : undefined;
+    return session.topic ?? (task ? taskTopic(task, plan.topics) : null);
+  };
+
+  const forecastByTopic = new Map(input.forecast.topics.map(topic => [topic.topic, topic]));
+
+  const dayMinutes = minutesByDay(sessions, completed, input.timeZone);
+  const dayCompleted = new Map<string, number>();
+  for (const task of completed) {
+    dayCompleted.set(task.date, (dayCompleted.get(task.date) ?? 0) + 1);
+  }
+  const daily: ProgressReport['daily'] = [];
+  for (let date = range.from; date <= range.to; date = addDays(date, 1)) {
+    daily.push({ date, tasksCompleted: dayCompleted.get(date) ?? 0, minutes: dayMinutes.get(date) ?? 0 });
+  }
+
+  return {
+    generatedAt: input.now.toISOString(),
+    range,
+    plan: {
+      id: plan.id,
+      courseName: plan.courseName,
+      examDate: plan.examDate.slice(0, 10),
+      weeklyStudyTime: plan.weeklyStudyTime,
+      daysUntilExam: Math.max(0, Math.round((parseDateKey(plan.examDate.slice(0, 10)).getTime() - parseDateKey(today).getTime()) / 86400000)),
+    },
+    overview: {
+      totalTasks: tasks.length,
+      completedTasks: completed.length,
+      percentComplete: tasks.length > 0 ? Math.round((completed.length / tasks.length) * 100) : 0,
+      plannedMinutes: completed.reduce((sum, task) => sum + task.duration, 0),
+      minutesStudied: sessions.reduce((sum, session) => sum + session.minutes!, 0),
+      sessionCount: sessions.length,
+    },
+    goals: {
+      dailyTargetMinutes: input.goals.dailyTargetMinutes,
+      weeklyTargetMinutes: input.goals.weeklyTargetMinutes,
+      currentStreak: input.goals.streak.current,
+      longestStreak: input.goals.streak.longest,
+      weeks: input.goals.weeks.filter(week => week.weekEnd >= range.from && week.weekStart <= range.to),
+    },
+    forecast: {
+      onTrack: input.forecast.onTrack,
+      minutesPerDay: input.forecast.minutesPerDay,
+      remainingMinutes: input.forecast.remainingMinutes,
+      projectedFinishDate: input.forecast.projectedFinishDate,
+      readiness: input.forecast.readiness,
+      atRisk: input.forecast.topics.filter(topic => topic.atRisk),
+    },
+    topics: plan.topics.map(topic => {
+      const topicTasks = tasks.filter(task => taskTopic(task, plan.topics) === topic);
+      return {
+        topic,
+        mastery: plan.topicsProgress?.[topic] ?? 0,
+        readiness: forecastByTopic.get(topic)?.readiness ?? 0,
+        atRisk: forecastByTopic.get(topic)?.atRisk ?? false,
+        completedTasks: topicTasks.filter(task => task.isCompleted).length,
+        totalTasks: topicTasks.length,
+        minutesStudied: sessions
+          .filter(session => sessionTopic(session) === topic)
+          .reduce((sum, session) => sum + session.minutes!, 0),
+      };
+    }),
+    taskTypes: TASK_TYPES.map(taskType => ({
+      taskType,
+      completedTasks: completed.filter(task => task.taskType === taskType).length,
+      totalTasks: tasks.filter(task => task.taskType === taskType).length,
+    })),
+    daily,
+    tasks: tasks.map(task => ({
+      id: task.id,
+      date: task.date,
+      startTime: task.startTime,
+      title: task.title,
+      topic: taskTopic(task, plan.topics),
+      taskType: task.taskType,
+      duration: task.duration,
+      isCompleted: !!task.isCompleted,
+      score: task.score,
+      minutesStudied: studiedByTask.get(task.id) ?? 0,
+    })),
+  };
+}
@@ -0,0 +1,118 @@
+import { db, studyPlans, studyTasks, topicReviews, type StudyPlan, type StudyTask, type TopicReview } from './db/index.js';
+import { eq, and } from 'drizzle-orm';
+import { parseDateKey, toDateKey } from '../../shared/calendar.js';
+import {
+  applyRecall,
+  createReviewState,
+  dueReviewTasks,
+  DEFAULT_RECALL_RATING,
+  type RecallRating,
+  type ReviewState,
+} from '../../shared/spacedRepetition.js';
+import { taskTopic } from '../../shared/studySessions.js';
+import { refreshTopicMastery } from './mastery.js';
+
+const REVIEW_DURATION = 30; // in minutes
+
+// Topics that already have an open review task on the plan
+function openReviewTopics(plan: StudyPlan, tasks: StudyTask[]): string[] {
+  return tasks
+    .filter(task => task.taskType === 'review' && !task.isCompleted)
+    .map(task => taskTopic(task, plan.topics))
+    .filter((topic): topic is string => topic !== null);
+}
+
+/**
+ * Create review tasks for every topic of the plan that has come due and
+ * doesn't already have one scheduled. Returns the tasks that were created.
+ */
+export async function scheduleDueReviews(plan: StudyPlan): Promise<StudyTask[]> {
+  const [reviews, tasks] = await Promise.all([
+    db.select().from(topicReviews).where(eq(topicReviews.studyPlanId, plan.id)).execute(),
+    db.select().from(studyTasks).where(eq(studyTasks.studyPlanId, plan.id)).execute(),
+  ]);
+
+  const due = dueReviewTasks(
+    reviews,
+    openReviewTopics(plan, tasks),
+    toDateKey(new Date()),
+    toDateKey(parseDateKey(plan.examDate))
+  );
+
+  if (due.length === 0) {
+    return [];
+  }
+
+  const created = await db.insert(studyTasks)
+    .values(due.map(({ topic, date }) => ({
+      studyPlanId: plan.id,
+      title: `Review ${topic}`,
+      description: `Spaced repetition review of ${topic}`,
+      date,
+      duration: REVIEW_DURATION,
+      isCompleted: false,
+      taskType: 'review',
+      topic,
+    })))
+    .returning()
+    .execute();
+
+  // A review coming due leaves the topic less mastered until it's done
+  await refreshTopicMastery(plan.id);
+  return created;
+}
+
+/**
+ * Update the spaced repetition state of the topic a completed task covers.
+ * Studying a topic starts tracking it; completing a review or practice task
+ * applies the recall rating. Returns the topic's new review state, or
+ * undefined when the task doesn't map to a plan topic.
+ */
+export async function recordTaskCompletion(
+  task: StudyTask,
+  recallRating: RecallRating = DEFAULT_RECALL_RATING
+): Promise<TopicReview | undefined> {
+  if (task.studyPlanId === null) return undefined;
+
+  const [plan] = await db.select().from(studyPlans).where(eq(studyPlans.id, task.studyPlanId)).execute();
+  if (!plan) return undefined;
+
+  const topic = taskTopic(task, plan.topics);
+  if (!topic) return undefined;
+
+  const [existing] = await db.select()
+    .from(topicReviews)
+    .where(and(
+      eq(topicReviews.studyPlanId, plan.id),
+      eq(topicReviews.topic, topic)
+    ))
+    .execute();
+  const completedOn = toDateKey(new Date());
+
+  let state: ReviewState;
+  if (!existing) {
+    state = createReviewState(topic, completedOn);
+  } else if (task.taskType === 'study') {
+    // Studying a topic that's already tracked doesn't count as a review
+    return existing;
+  } else {
+    state = applyRecall(existing, recallRating, completedOn);
+  }
+
+  const values = {
+    studyPlanId: plan.id,
+    topic,
+    easeFactor: state.easeFactor,
+    interval: state.interval,
+    repetitions: state.repetitions,
+    dueDate: state.dueDate,
+    lastReviewedAt: state.lastReviewedAt ?? null,
+  };
+
+  const [review] = existing
+    ? await db.update(topicReviews).set(values).where(eq(topicReviews.id, existing.id)).returning().execute()
+    : await db.insert(topicReviews).values(values).returning().execute();
+
+  await scheduleDueReviews(plan);
+  return review;
+}
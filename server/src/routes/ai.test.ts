@@ -0,0 +1,101 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { resetProviderChain } from '../ai/config.js';
+import { db, chatThreads } from '../db/index.js';
+import { signUp, startTestServer, type ApiClient } from '../test/api.js';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let api: ApiClient;
+let planId: number;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  api = await signUp(server.baseUrl, 'student');
+
+  const plan = await api('POST', '/plans', {
+    courseName: 'Chemistry',
+    examDate: '2099-06-01',
+    weeklyStudyTime: 4,
+    studyPreference: 'short',
+    topics: ['Bonds'],
+    resources: [],
+  });
+  planId = plan.body.id;
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  resetProviderChain();
+});
+
+describe('without an AI provider', () => {
+  it.each([
+    ['/ai/generate'],
+    ['/ai/chat'],
+    ['/ai/clarify'],
+    ['/ai/recommendations'],
+    ['/refine'],
+  ])('POST %s answers 503', async path => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('AI_PROVIDERS', '');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    resetProviderChain();
+
+    const response = await api('POST', path, {});
+
+    expect(response.status).toBe(503);
+    expect(response.body.error).toBe('No AI provider is configured on this server');
+  });
+});
+
+describe('when the model call fails', () => {
+  // Nothing listens on port 9, so every request to the provider is refused
+  const failingProvider = () => {
+    vi.stubEnv('AI_PROVIDERS', 'local');
+    vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://127.0.0.1:9/v1');
+    resetProviderChain();
+  };
+
+  it.each([
+    ['/ai/chat'],
+    ['/ai/chat/stream'],
+  ])('POST %s leaves no empty thread behind', async path => {
+    failingProvider();
+
+    await api('POST', path, { message: 'What are covalent bonds?', studyPlanId: planId });
+
+    expect((await api('GET', `/chat-threads?planId=${planId}`)).body).toEqual([]);
+  }, 30_000);
+
+  it('keeps a thread the student already had', async () => {
+    const [thread] = await db.insert(chatThreads)
+      .values({ studyPlanId: planId, title: 'Earlier chat' })
+      .returning()
+      .execute();
+    failingProvider();
+
+    const response = await api('POST', '/ai/chat', { message: 'And ionic bonds?', threadId: thread.id });
+
+    expect(response.status).toBe(502);
+    expect((await api('GET', `/chat-threads/${thread.id}`)).status).toBe(200);
+  }, 30_000);
+});
+
+describe('answers from the cache', () => {
+  it.each([
+    ['/ai/clarify', { planData: { courseName: 'Chemistry', topics: ['Bonds'], examDate: '2099-06-01', weeklyStudyTime: 4 } }],
+    ['/ai/recommendations', { topics: ['Bonds'], examDate: '2099-06-01', learningStyle: 'visual' }],
+  ])('POST %s only counts against the quota once', async (path, body) => {
+    const used = async () => (await api('GET', '/ai/quota')).body.used;
+    const before = await used();
+
+    expect((await api('POST', path, body)).status).toBe(200);
+    expect(await used()).toBe(before + 1);
+
+    expect((await api('POST', path, body)).status).toBe(200);
+    expect(await used()).toBe(before + 1);
+  });
+});
@@ -0,0 +1,391 @@
+import express from 'express';
+import { auth } from '../middleware/auth.js';
+import { aiQuota, getAIQuota, refundAIQuota } from '../middleware/aiQuota.js';
+import {
+  AIValidationError,
+  ChatMessage,
+  CompletionOptions,
+  ToolCall,
+  completeWithRepair,
+  completeWithFallback,
+  hasCachedCompletion,
+  isAIConfigured,
+  streamWithFallback,
+} from '../ai/gateway.js';
+import { CHAT_TOOLS } from '../ai/tools.js';
+import { usageSummary } from '../ai/usage.js';
+import {
+  ChatContext,
+  createChatSystemPrompt,
+  createClarificationPrompt,
+  createRecommendationMessages,
+  createRefinementPrompt,
+  createStudyPlanPrompt,
+  getRefinementSystemPrompt,
+  getStudyPlanSystemPrompt,
+} from '../ai/prompts.js';
+import {
+  parseChatActions,
+  parseClarificationQuestions,
+  suggestedTaskFrom,
+  validatePlanReply,
+  validateRecommendationsReply,
+} from '../ai/responses.js';
+import { generateStudyRules } from '../../../shared/ruleEngine.js';
+import { isValidTimeZone } from '../../../shared/calendar.js';
+import { appendThreadMessages, deleteChatThread, openChatThread, threadHistory } from '../chatThreads.js';
+import type { ChatThread } from '../db/index.js';
+
+const router = express.Router();
+
+const DEFAULT_USAGE_DAYS = 30;
+
+// Middleware to check authentication
+router.use(auth);
+
+// Refuse AI routes early when no provider in the chain is usable
+function requireAI(req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!isAIConfigured()) {
+    return res.status(503).json({ error: 'No AI provider is configured on this server' });
+  }
+  next();
+}
+
+// The user's AI allowance for today
+router.get('/quota', (req, res) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  return res.status(200).json(getAIQuota(userId));
+});
+
+// The user's AI token use and estimated cost over the last `days` days (default 30)
+router.get('/usage', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const days = parseInt(req.query.days as string) || DEFAULT_USAGE_DAYS;
+    const since = new Date(Date.now() - Math.max(1, days) * 24 * 60 * 60 * 1000);
+
+    return res.status(200).json(await usageSummary(userId, since));
+  } catch (error) {
+    console.error('AI usage error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Generate a weekly study plan from the plan form data
+router.post('/generate', requireAI, aiQuota, async (req, res) => {
+  try {
+    const { planData, timeZone } = req.body;
+
+    if (!planData || !planData.courseName || !planData.examDate || !planData.weeklyStudyTime) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: 'Unknown time zone' });
+    }
+
+    const topics = (planData.topics || []).map((t: string | { title: string }) => typeof t === 'object' ? t.title : t);
+    const studyRules = generateStudyRules({ ...planData, topics });
+
+    const plan = await completeWithRepair([
+      { role: 'system', content: getStudyPlanSystemPrompt() },
+      { role: 'user', content: createStudyPlanPrompt(planData, studyRules) },
+    ], { temperature: 0.6, maxTokens: 3000, json: true, purpose: 'generate', userId: req.user!.id },
+    content => validatePlanReply(content, { topics, examDate: planData.examDate, timeZone }));
+
+    return res.status(200).json(plan);
+  } catch (error) {
+    if (error instanceof AIValidationError) {
+      return res.status(502).json({ error: 'AI returned an invalid plan', details: error.errors });
+    }
+    console.error('AI generate error:', error);
+    return res.status(502).json({ error: 'AI request failed' });
+  }
+});
+
+// Rework an existing plan around the student's feedback
+router.post('/refine', requireAI, aiQuota, async (req, res) => {
+  try {
+    const { planData, existingPlan, timeZone } = req.body;
+
+    if (!planData || !existingPlan?.studyPlan?.examDate) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: 'Unknown time zone' });
+    }
+
+    const { topics, examDate } = existingPlan.studyPlan;
+    const plan = await completeWithRepair([
+      { role: 'system', content: getRefinementSystemPrompt() },
+      { role: 'user', content: createRefinementPrompt(planData, existingPlan) },
+    ], { temperature: 0.7, maxTokens: 4000, json: true, purpose: 'refine', userId: req.user!.id },
+    content => validatePlanReply(content, { topics: topics || [], examDate, timeZone }));
+
+    return res.status(200).json(plan);
+  } catch (error) {
+    if (error instanceof AIValidationError) {
+      return res.status(502).json({ error: 'AI returned an invalid plan', details: error.errors });
+    }
+    console.error('AI refine error:', error);
+    return res.status(502).json({ error: 'AI request failed' });
+  }
+});
+
+const CHAT_OPTIONS = { temperature: 0.7, maxTokens: 800, tools: CHAT_TOOLS, purpose: 'chat' as const };
+const ACTIONS_ONLY_REPLY = 'Here are the changes I suggest. Apply the ones you want.';
+
+// The prompt for a chat message, with the thread's earlier conversation if there is one
+async function chatMessages(message: string, context: ChatContext, userId: number, thread?: ChatThread): Promise<ChatMessage[]> {
+  const history = thread ? await threadHistory(thread, userId) : { summary: null, messages: [] };
+  const summary = history.summary ? `\n\nSummary of the earlier conversation:\n${history.summary}` : '';
+
+  return [
+    { role: 'system', content: createChatSystemPrompt(context) + summary },
+    ...history.messages,
+    { role: 'user', content: message },
+  ];
+}
+
+// The saved thread named by threadId, or a new one when only studyPlanId is
+// given. Undefined when neither is given; null when it isn't the user's.
+async function requestedThread(req: express.Request, message: string) {
+  const threadId = parseInt(req.body.threadId);
+  const studyPlanId = parseInt(req.body.studyPlanId);
+
+  if (Number.isNaN(threadId) && Number.isNaN(studyPlanId)) {
+    return undefined;
+  }
+
+  const thread = await openChatThread(req.user!.id, {
+    threadId: Number.isNaN(threadId) ? undefined : threadId,
+    studyPlanId: Number.isNaN(studyPlanId) ? undefined : studyPlanId,
+  }, message);
+
+  return thread ?? null;
+}
+
+// Remove a thread opened for this message when the model never answered, so a
+// failed request doesn't leave an empty chat behind
+async function discardNewThread(req: express.Request, thread: ChatThread | null | undefined) {
+  if (!thread || !Number.isNaN(parseInt(req.body.threadId))) {
+    return;
+  }
+  try {
+    await deleteChatThread(thread.id);
+  } catch (error) {
+    console.warn('Could not remove unanswered chat thread:', error);
+  }
+}
+
+// Write one server-sent event
+function sendEvent(res: express.Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Answer a question about the user's study plan. With threadId or studyPlanId
+// the conversation is saved and earlier messages are sent along.
+router.post('/chat', requireAI, aiQuota, async (req, res) => {
+  let thread: ChatThread | null | undefined;
+  try {
+    const { message, context = {} } = req.body;
+
+    if (!message) {
+      return res.status(400).json({ error: 'Message is required' });
+    }
+
+    thread = await requestedThread(req, message);
+
+    if (thread === null) {
+      return res.status(404).json({ error: 'Chat thread not found' });
+    }
+
+    const userId = req.user!.id;
+    const { content: text, toolCalls } = await completeWithFallback(
+      await chatMessages(message, context, userId, thread),
+      { ...CHAT_OPTIONS, userId }
+    );
+    const actions = parseChatActions(toolCalls);
+    const content = text || (actions.length > 0 ? ACTIONS_ONLY_REPLY : '');
+
+    if (thread) {
+      await appendThreadMessages(thread.id, [
+        { role: 'user', content: message },
+        { role: 'assistant', content },
+      ]);
+    }
+
+    return res.status(200).json({
+      message: content,
+      suggestedTask: suggestedTaskFrom(actions),
+      actions,
+      threadId: thread?.id,
+    });
+  } catch (error) {
+    console.error('AI chat error:', error);
+    await discardNewThread(req, thread);
+    return res.status(502).json({ error: 'AI request failed' });
+  }
+});
+
+// Same answer as /chat, streamed as server-sent events: "thread" names the
+// saved thread, "delta" events carry text as it arrives, then "done" carries
+// the full message and proposed actions, or "error" reports a failure.
+// Closing the connection stops the model; a partial reply is still saved.
+router.post('/chat/stream', requireAI, aiQuota, async (req, res) => {
+  const { message, context = {} } = req.body;
+
+  if (!message) {
+    return res.status(400).json({ error: 'Message is required' });
+  }
+
+  let thread: ChatThread | null | undefined;
+  let messages: ChatMessage[];
+  try {
+    thread = await requestedThread(req, message);
+
+    if (thread === null) {
+      return res.status(404).json({ error: 'Chat thread not found' });
+    }
+
+    messages = await chatMessages(message, context, req.user!.id, thread);
+  } catch (error) {
+    console.error('AI chat stream error:', error);
+    await discardNewThread(req, thread);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+
+  let cancelled = false;
+  res.on('close', () => {
+    cancelled = !res.writableEnded;
+  });
+
+  if (thread) {
+    sendEvent(res, 'thread', { threadId: thread.id });
+  }
+
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+  try {
+    for await (const chunk of streamWithFallback(messages, { ...CHAT_OPTIONS, userId: req.user!.id })) {
+      if (cancelled) {
+        break;
+      }
+      if (typeof chunk === 'string') {
+        content += chunk;
+        sendEvent(res, 'delta', { text: chunk });
+      } else {
+        toolCalls.push(chunk);
+      }
+    }
+
+    const actions = cancelled ? [] : parseChatActions(toolCalls);
+    if (!content && actions.length > 0) {
+      content = ACTIONS_ONLY_REPLY;
+      sendEvent(res, 'delta', { text: content });
+    }
+
+    if (thread && content) {
+      await appendThreadMessages(thread.id, [
+        { role: 'user', content: message },
+        { role: 'assistant', content },
+      ]);
+    }
+
+    if (!cancelled) {
+      sendEvent(res, 'done', {
+        message: content,
+        suggestedTask: suggestedTaskFrom(actions),
+        actions,
+        threadId: thread?.id,
+      });
+    }
+  } catch (error) {
+    console.error('AI chat stream error:', error);
+    await discardNewThread(req, thread);
+    sendEvent(res, 'error', { error: 'AI request failed' });
+  }
+
+  res.end();
+});
+
+// Questions to ask before generating a plan; identical plan data is answered from the cache
+router.post('/clarify', requireAI, aiQuota, async (req, res) => {
+  try {
+    const { planData } = req.body;
+
+    if (!planData || !planData.courseName || !Array.isArray(planData.topics) || !planData.examDate) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'user', content: createClarificationPrompt(planData) },
+    ];
+    const options: CompletionOptions = { temperature: 0.7, maxTokens: 600, purpose: 'clarify', userId: req.user!.id, cache: true };
+    const cached = hasCachedCompletion(messages, options);
+
+    const { content } = await completeWithFallback(messages, options);
+
+    // Answers from the cache don't count against the daily allowance
+    if (cached) {
+      refundAIQuota(req.user!.id, res);
+    }
+
+    return res.status(200).json({ questions: parseClarificationQuestions(content) });
+  } catch (error) {
+    console.error('AI clarify error:', error);
+    return res.status(502).json({ error: 'AI request failed' });
+  }
+});
+
+// Suggest study techniques, resources and scheduling tips
+router.post('/recommendations', requireAI, aiQuota, async (req, res) => {
+  try {
+    const { learningStyle, topics, examDate, studyMaterials } = req.body;
+
+    if (!Array.isArray(topics) || !examDate) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const { system, user } = createRecommendationMessages({ learningStyle, topics, examDate, studyMaterials });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: system },
+      { role: 'user', content: user },
+    ];
+    const options: CompletionOptions = { temperature: 0.7, maxTokens: 1024, purpose: 'recommendations', userId: req.user!.id, cache: true };
+    const cached = hasCachedCompletion(messages, options);
+
+    const recommendations = await completeWithRepair(messages, options, validateRecommendationsReply);
+
+    if (cached) {
+      refundAIQuota(req.user!.id, res);
+    }
+
+    return res.status(200).json({ recommendations });
+  } catch (error) {
+    if (error instanceof AIValidationError) {
+      return res.status(502).json({ error: 'AI returned no usable recommendations', details: error.errors });
+    }
+    console.error('AI recommendations error:', error);
+    return res.status(502).json({ error: 'AI request failed' });
+  }
+});
+
+export { router as aiRoutes };
@@ -3,6 +3,7 @@ import { db, users, authTokens } from '../db/index.js';
 import { eq } from 'drizzle-orm';
 import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
 import { promisify } from 'util';
+import { auth } from '../middleware/auth.js';
 
 const router = express.Router();
 const scryptAsync = promisify(scrypt);
@@ -25,6 +26,23 @@ function generateToken() {
   return randomBytes(32).toString('hex');
 }
 
+// Store a new token for the user, valid for 7 days
+async function issueToken(userId: number) {
+  const token = generateToken();
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + 7);
+  
+  await db.insert(authTokens)
+    .values({
+      userId,
+      token,
+      expiresAt: expiresAt.toISOString(),
+    })
+    .execute();
+  
+  return { token, expiresAt: expiresAt.toISOString() };
+}
+
 // Register a new user
 router.post('/register', async (req, res) => {
   try {
@@ -53,17 +71,7 @@ router.post('/register', async (req, res) => {
       .execute();
     
     // Generate auth token
-    const token = generateToken();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // Token valid for 7 days
-    
-    await db.insert(authTokens)
-      .values({
-        userId: newUser.id,
-        token,
-        expiresAt: expiresAt.toISOString(),
-      })
-      .execute();
+    const { token, expiresAt } = await issueToken(newUser.id);
     
     return res.status(201).json({
       user: {
@@ -71,7 +79,7 @@ router.post('/register', async (req, res) => {
         username: newUser.username,
       },
       token,
-      expiresAt: expiresAt.toISOString(),
+      expiresAt,
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -102,22 +110,11 @@ router.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
     
-    // Generate new token
-    const token = generateToken();
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // Token valid for 7 days
-    
     // Remove old tokens
     await db.delete(authTokens).where(eq(authTokens.userId, user.id)).execute();
     
     // Create new token
-    await db.insert(authTokens)
-      .values({
-        userId: user.id,
-        token,
-        expiresAt: expiresAt.toISOString(),
-      })
-      .execute();
+    const { token, expiresAt } = await issueToken(user.id);
     
     return res.status(200).json({
       user: {
@@ -125,7 +122,7 @@ router.post('/login', async (req, res) => {
         username: user.username,
       },
       token,
-      expiresAt: expiresAt.toISOString(),
+      expiresAt,
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -133,6 +130,34 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Exchange a valid token for a new one before it expires
+router.post('/refresh', auth, async (req, res) => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Retire the token being refreshed
+    const authHeader = req.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      await db.delete(authTokens).where(eq(authTokens.token, authHeader.split(' ')[1])).execute();
+    }
+    
+    const { token, expiresAt } = await issueToken(user.id);
+    
+    return res.status(200).json({
+      user,
+      token,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Logout
 router.post('/logout', async (req, res) => {
   try {
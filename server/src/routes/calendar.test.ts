@@ -0,0 +1,34 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { signUp, startTestServer, type ApiClient } from '../test/api.js';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let api: ApiClient;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  api = await signUp(server.baseUrl, 'commuter');
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('POST /calendar-events', () => {
+  it('imports a whole timetable in one request', async () => {
+    // A weekday lecture timetable for a year, well over the default 100kb body limit
+    const events = Array.from({ length: 2000 }, (_, i) => {
+      const start = new Date(Date.UTC(2026, 0, 1, 9) + i * 4 * 3600 * 1000);
+      return {
+        title: `Lecture ${i + 1}: Organic Chemistry, main hall`,
+        start: start.toISOString(),
+        end: new Date(start.getTime() + 3600 * 1000).toISOString(),
+      };
+    });
+
+    const response = await api('POST', '/calendar-events', { events, source: 'ics', replace: true });
+
+    expect(JSON.stringify({ events }).length).toBeGreaterThan(100 * 1024);
+    expect(response.status).toBe(201);
+    expect(response.body).toHaveLength(2000);
+  });
+});
@@ -0,0 +1,174 @@
+import express from 'express';
+import { db, calendarEvents } from '../db/index.js';
+import { eq, and, gt, lt, asc } from 'drizzle-orm';
+import { auth } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Middleware to check authentication
+router.use(auth);
+
+interface CalendarEventInput {
+  title?: string;
+  start?: string;
+  end?: string;
+  allDay?: boolean;
+}
+
+// Returns an error message for an invalid event, or null if it can be stored
+function validateEvent(event: CalendarEventInput): string | null {
+  if (!event || !event.start || !event.end) {
+    return 'Missing required fields';
+  }
+
+  const start = new Date(event.start).getTime();
+  const end = new Date(event.end).getTime();
+
+  if (isNaN(start) || isNaN(end)) {
+    return 'Invalid start or end date';
+  }
+  if (end <= start) {
+    return 'End must be after start';
+  }
+
+  return null;
+}
+
+// Get the authenticated user's busy blocks, optionally limited to ?from=&to=
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { from, to } = req.query;
+    const conditions = [eq(calendarEvents.userId, userId)];
+
+    if (typeof from === 'string' && !isNaN(Date.parse(from))) {
+      conditions.push(gt(calendarEvents.end, new Date(from).toISOString()));
+    }
+    if (typeof to === 'string' && !isNaN(Date.parse(to))) {
+      conditions.push(lt(calendarEvents.start, new Date(to).toISOString()));
+    }
+
+    const events = await db.select()
+      .from(calendarEvents)
+      .where(and(...conditions))
+      .orderBy(asc(calendarEvents.start))
+      .execute();
+
+    return res.status(200).json(events);
+  } catch (error) {
+    console.error('Get calendar events error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Store busy blocks; accepts a single event or { events: [...], source, replace }
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const events: CalendarEventInput[] = Array.isArray(req.body.events) ? req.body.events : [req.body];
+    const source: string = req.body.source || 'manual';
+
+    for (const event of events) {
+      const message = validateEvent(event);
+      if (message) {
+        return res.status(400).json({ error: message });
+      }
+    }
+
+    // Re-importing a calendar replaces the events that came from the same source
+    if (req.body.replace) {
+      await db.delete(calendarEvents)
+        .where(and(
+          eq(calendarEvents.userId, userId),
+          eq(calendarEvents.source, source)
+        ))
+        .execute();
+    }
+
+    if (events.length === 0) {
+      return res.status(201).json([]);
+    }
+
+    const created = await db.insert(calendarEvents)
+      .values(events.map(event => ({
+        userId,
+        title: event.title || 'Busy',
+        start: new Date(event.start!).toISOString(),
+        end: new Date(event.end!).toISOString(),
+        allDay: !!event.allDay,
+        source,
+      })))
+      .returning()
+      .execute();
+
+    return res.status(201).json(created);
+  } catch (error) {
+    console.error('Create calendar events error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a single busy block
+router.delete('/:id', async (req, res) => {
+  try {
+    const eventId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const [existingEvent] = await db.select()
+      .from(calendarEvents)
+      .where(and(
+        eq(calendarEvents.id, eventId),
+        eq(calendarEvents.userId, userId)
+      ))
+      .execute();
+
+    if (!existingEvent) {
+      return res.status(404).json({ error: 'Calendar event not found' });
+    }
+
+    await db.delete(calendarEvents)
+      .where(eq(calendarEvents.id, eventId))
+      .execute();
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Delete calendar event error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Clear all of the user's busy blocks
+router.delete('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    await db.delete(calendarEvents)
+      .where(eq(calendarEvents.userId, userId))
+      .execute();
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Clear calendar events error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as calendarRoutes };
@@ -0,0 +1,102 @@
+import express from 'express';
+import { db, studyPlans, chatThreads } from '../db/index.js';
+import { eq, and, desc } from 'drizzle-orm';
+import { auth } from '../middleware/auth.js';
+import { deleteChatThread, findOwnedThread, threadMessages } from '../chatThreads.js';
+
+// Saved AI chat conversations. New messages are sent through /api/ai/chat
+// with a threadId (or a studyPlanId to start a thread).
+const router = express.Router();
+
+// Middleware to check authentication
+router.use(auth);
+
+// List a plan's threads, most recently used first
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const planId = parseInt(req.query.planId as string);
+
+    if (Number.isNaN(planId)) {
+      return res.status(400).json({ error: 'planId is required' });
+    }
+
+    const [plan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+
+    const threads = await db.select()
+      .from(chatThreads)
+      .where(eq(chatThreads.studyPlanId, planId))
+      .orderBy(desc(chatThreads.updatedAt), desc(chatThreads.id))
+      .execute();
+
+    return res.status(200).json(threads);
+  } catch (error) {
+    console.error('List chat threads error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a thread with its messages
+router.get('/:id', async (req, res) => {
+  try {
+    const threadId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const thread = await findOwnedThread(threadId, userId);
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Chat thread not found' });
+    }
+
+    return res.status(200).json({ thread, messages: await threadMessages(threadId) });
+  } catch (error) {
+    console.error('Get chat thread error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a thread and its messages
+router.delete('/:id', async (req, res) => {
+  try {
+    const threadId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const thread = await findOwnedThread(threadId, userId);
+
+    if (!thread) {
+      return res.status(404).json({ error: 'Chat thread not found' });
+    }
+
+    await deleteChatThread(threadId);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Delete chat thread error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as chatThreadRoutes };
@@ -0,0 +1,76 @@
+import express from 'express';
+import { db, studyPlans } from '../db/index.js';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '../middleware/auth.js';
+import { planRoutes } from './plans.js';
+import { taskRoutes } from './tasks.js';
+import { authRoutes } from './auth.js';
+import { aiRoutes } from './ai.js';
+
+// Paths of the retired session-based server, mapped onto the current API so
+// older clients keep working while they migrate. New code should use
+// /api/plans, /api/tasks, /api/auth and /api/ai directly.
+const router = express.Router();
+
+// Hand the request to another router under a different path
+function forwardTo(target: express.Router, path: (req: express.Request) => string): express.RequestHandler {
+  return (req, res, next) => {
+    req.url = path(req);
+    target(req, res, next);
+  };
+}
+
+// The old endpoint returned the bare plan rather than { plan, tasks }
+router.get('/study-plans/:id', auth, async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const [plan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+
+    return res.status(200).json(plan);
+  } catch (error) {
+    console.error('Get plan error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The old endpoint took the changes wrapped as { plan }
+router.put('/study-plans/:id', (req, _res, next) => {
+  if (req.body && req.body.plan) {
+    req.body = req.body.plan;
+  }
+  next();
+});
+
+router.use('/study-plans', planRoutes);
+router.use('/study-tasks', taskRoutes);
+router.post('/study-weeks', forwardTo(planRoutes, req => `/${parseInt(req.body.studyPlanId)}/weeks`));
+
+router.post('/login', forwardTo(authRoutes, () => '/login'));
+router.post('/register', forwardTo(authRoutes, () => '/register'));
+router.post('/logout', forwardTo(authRoutes, () => '/logout'));
+
+// The old endpoint returned the bare user rather than { user }
+router.get('/user', auth, (req, res) => {
+  return res.status(200).json(req.user);
+});
+
+router.post('/chat', forwardTo(aiRoutes, () => '/chat'));
+router.post('/chat/stream', forwardTo(aiRoutes, () => '/chat/stream'));
+
+export { router as compatRoutes };
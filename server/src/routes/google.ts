@@ -0,0 +1,275 @@
+import express from 'express';
+import { randomBytes } from 'crypto';
+import { auth } from '../middleware/auth.js';
+
+const router = express.Router();
+
+interface GoogleTokens {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+interface ExportEvent {
+  title: string;
+  description?: string;
+  start: string;
+  end: string;
+  location?: string;
+  colorId?: string;
+}
+
+const CALENDAR_API = 'https://www.googleapis.com/calendar/v3';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+// Google tokens per user, and OAuth states waiting for their callback.
+// Kept in memory like the session store they replace, so a restart means reconnecting.
+const googleTokens = new Map<number, GoogleTokens>();
+const pendingStates = new Map<string, { userId: number; expiresAt: number }>();
+
+// The OAuth state ties the callback, which carries no bearer token, back to the user
+function generateGoogleAuthUrl(userId: number) {
+  const state = randomBytes(16).toString('hex');
+  pendingStates.set(state, { userId, expiresAt: Date.now() + STATE_TTL_MS });
+
+  const params = new URLSearchParams({
+    client_id: process.env.GOOGLE_CLIENT_ID!,
+    redirect_uri: `${process.env.APP_URL}/api/auth/google/callback`,
+    response_type: 'code',
+    scope: 'https://www.googleapis.com/auth/calendar',
+    access_type: 'offline',
+    prompt: 'consent',
+    state,
+  });
+
+  return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+}
+
+async function createOrGetCalendar(tokens: GoogleTokens, name: string) {
+  // Try to find existing calendar
+  const response = await fetch(`${CALENDAR_API}/users/me/calendarList`, {
+    headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+  });
+
+  const data = await response.json();
+  const existingCalendar = data.items?.find((calendar: { summary: string }) => calendar.summary === name);
+
+  if (existingCalendar) {
+    return existingCalendar;
+  }
+
+  // Create new calendar
+  const createResponse = await fetch(`${CALENDAR_API}/calendars`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${tokens.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      summary: name,
+      timeZone: 'America/New_York',
+    }),
+  });
+
+  return createResponse.json();
+}
+
+async function deleteExistingEvents(tokens: GoogleTokens, calendarId: string) {
+  const response = await fetch(`${CALENDAR_API}/calendars/${calendarId}/events`, {
+    headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+  });
+
+  const data = await response.json();
+
+  await Promise.all(
+    (data.items || []).map((event: { id: string }) =>
+      fetch(`${CALENDAR_API}/calendars/${calendarId}/events/${event.id}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${tokens.access_token}` },
+      })
+    )
+  );
+}
+
+// Get the URL that starts the Google OAuth flow
+router.get('/auth/google/url', auth, (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    return res.status(200).json({ url: generateGoogleAuthUrl(userId) });
+  } catch (error) {
+    console.error('Google auth URL error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// OAuth redirect target: exchange the code for tokens
+router.get('/auth/google/callback', async (req, res) => {
+  try {
+    const { code, state } = req.query;
+
+    if (!code || typeof code !== 'string') {
+      return res.status(400).send('Missing authorization code');
+    }
+
+    const pending = typeof state === 'string' ? pendingStates.get(state) : undefined;
+    if (typeof state === 'string') {
+      pendingStates.delete(state);
+    }
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      return res.status(400).send('Authorization request expired, please try again');
+    }
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        code,
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        redirect_uri: `${process.env.APP_URL}/api/auth/google/callback`,
+        grant_type: 'authorization_code',
+      }),
+    });
+
+    if (!response.ok) {
+      console.error('Google token exchange error:', await response.text());
+      return res.status(400).send('Failed to authenticate with Google');
+    }
+
+    googleTokens.set(pending.userId, await response.json());
+
+    // Redirect to the success page, which closes the popup
+    return res.redirect(`${process.env.APP_URL}/auth/google/success`);
+  } catch (error) {
+    console.error('Google auth callback error:', error);
+    return res.status(500).send('Authentication failed');
+  }
+});
+
+// Whether the user has connected Google Calendar
+router.get('/auth/google/status', auth, (req, res) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  return res.status(200).json({ authenticated: googleTokens.has(userId) });
+});
+
+// Forget the user's Google tokens
+router.get('/auth/google/logout', auth, (req, res) => {
+  const userId = req.user?.id;
+
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  googleTokens.delete(userId);
+  return res.status(200).json({ success: true });
+});
+
+// Export study sessions to a Google calendar
+router.post('/calendar/google/export', auth, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { events, calendarName, syncMode } = req.body;
+
+    if (!Array.isArray(events) || !calendarName) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const tokens = googleTokens.get(userId);
+    if (!tokens) {
+      return res.status(401).json({
+        error: 'Google Calendar authentication required',
+        authUrl: generateGoogleAuthUrl(userId),
+      });
+    }
+
+    const calendar = await createOrGetCalendar(tokens, calendarName);
+
+    if (syncMode === 'full') {
+      // Delete existing events before adding new ones
+      await deleteExistingEvents(tokens, calendar.id);
+    }
+
+    const createdEvents = await Promise.all(
+      events.map(async (event: ExportEvent) => {
+        const response = await fetch(`${CALENDAR_API}/calendars/${calendar.id}/events`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${tokens.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            summary: event.title,
+            description: event.description,
+            start: { dateTime: event.start },
+            end: { dateTime: event.end },
+            location: event.location,
+            colorId: event.colorId,
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to create event: ${response.statusText}`);
+        }
+
+        return response.json();
+      })
+    );
+
+    return res.status(200).json({
+      success: true,
+      events: createdEvents,
+    });
+  } catch (error) {
+    console.error('Google Calendar export error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revoke Google Calendar access
+router.post('/calendar/google/disable-sync', auth, async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const tokens = googleTokens.get(userId);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated with Google Calendar' });
+    }
+
+    await fetch('https://oauth2.googleapis.com/revoke', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        token: tokens.access_token,
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+      }),
+    });
+
+    googleTokens.delete(userId);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Google Calendar disable sync error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as googleRoutes };
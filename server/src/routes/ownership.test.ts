@@ -0,0 +1,130 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { db, chatThreads } from '../db/index.js';
+import { signUp, startTestServer, type ApiClient } from '../test/api.js';
+
+// One user must never see or change another user's data: every route answers
+// 404 for records that belong to someone else, exactly as for missing ones.
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let alice: ApiClient;
+let bob: ApiClient;
+let planId: number;
+let taskId: number;
+let sessionId: number;
+let threadId: number;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  alice = await signUp(server.baseUrl, 'alice');
+  bob = await signUp(server.baseUrl, 'bob');
+
+  const plan = await alice('POST', '/plans', {
+    courseName: 'Linear Algebra',
+    examDate: '2099-06-01',
+    weeklyStudyTime: 5,
+    studyPreference: 'short',
+    topics: ['Vectors', 'Matrices'],
+    resources: ['Textbook'],
+  });
+  planId = plan.body.id;
+
+  const task = await alice('POST', `/plans/${planId}/tasks`, {
+    title: 'Study Vectors',
+    date: '2099-05-01',
+    duration: 30,
+    taskType: 'study',
+    topic: 'Vectors',
+  });
+  taskId = task.body.id;
+
+  await alice('POST', `/plans/${planId}/weeks`, { weekStart: '2099-04-27', weekEnd: '2099-05-03' });
+
+  const session = await alice('POST', '/study-sessions/start', { taskId });
+  await alice('POST', `/study-sessions/${session.body.id}/stop`, { minutes: 25 });
+  sessionId = session.body.id;
+
+  const [thread] = await db.insert(chatThreads)
+    .values({ studyPlanId: planId, title: 'Exam questions' })
+    .returning()
+    .execute();
+  threadId = thread.id;
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe("another user's data", () => {
+  // :plan, :task, :session and :thread stand for the ids of the first user's records
+  const requests: [string, string, unknown?][] = [
+    // Plans
+    ['GET', '/plans/:plan'],
+    ['PUT', '/plans/:plan', { courseName: 'Taken over' }],
+    ['DELETE', '/plans/:plan'],
+    ['PATCH', '/plans/:plan/progress', { topicsProgress: { Vectors: 100 } }],
+    ['GET', '/plans/:plan/goals'],
+    ['GET', '/plans/:plan/forecast'],
+    ['GET', '/plans/:plan/report'],
+    ['POST', '/plans/:plan/schedule', {}],
+    ['GET', '/plans/:plan/catch-up'],
+    ['POST', '/plans/:plan/catch-up', { moved: [], dropped: [] }],
+    ['GET', '/study-plans/:plan'],
+    // Tasks
+    ['GET', '/plans/:plan/tasks'],
+    ['POST', '/plans/:plan/tasks', { title: 'Sneaky', date: '2099-05-02', duration: 30, taskType: 'study' }],
+    ['POST', '/tasks', () => ({ studyPlanId: planId, title: 'Sneaky', date: '2099-05-02', duration: 30, taskType: 'study' })],
+    ['PUT', '/tasks/:task', { title: 'Renamed' }],
+    ['PATCH', '/tasks/:task/complete', { isCompleted: true }],
+    ['DELETE', '/tasks/:task'],
+    // Weeks
+    ['GET', '/plans/:plan/weeks'],
+    ['POST', '/plans/:plan/weeks', { weekStart: '2099-05-04', weekEnd: '2099-05-10' }],
+    ['POST', '/study-weeks', () => ({ studyPlanId: planId, weekStart: '2099-05-04', weekEnd: '2099-05-10' })],
+    // Versions
+    ['GET', '/plans/:plan/versions'],
+    ['POST', '/plans/:plan/versions', {}],
+    ['GET', '/plans/:plan/versions/1'],
+    ['GET', '/plans/:plan/versions/1/diff'],
+    ['POST', '/plans/:plan/versions/1/rollback'],
+    // Study sessions
+    ['GET', '/study-sessions/summary?planId=:plan'],
+    ['POST', '/study-sessions/start', () => ({ studyPlanId: planId })],
+    ['POST', '/study-sessions/:session/stop', { minutes: 90 }],
+    ['DELETE', '/study-sessions/:session'],
+    // Chat threads
+    ['GET', '/chat-threads?planId=:plan'],
+    ['GET', '/chat-threads/:thread'],
+    ['DELETE', '/chat-threads/:thread'],
+  ];
+
+  const ids = () => ({ plan: planId, task: taskId, session: sessionId, thread: threadId });
+
+  it.each(requests)('%s %s is not found', async (method, path, body) => {
+    const url = path.replace(/:(plan|task|session|thread)\b/g, (_, name: keyof ReturnType<typeof ids>) => String(ids()[name]));
+    const response = await bob(method, url, typeof body === 'function' ? body() : body);
+
+    // A JSON error from the route itself, not Express's own 404 for an unknown path
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({ error: expect.stringMatching(/not found/i) });
+  });
+
+  it('are left out of lists', async () => {
+    expect((await bob('GET', '/plans')).body).toEqual([]);
+    expect((await bob('GET', `/study-sessions?planId=${planId}`)).body).toEqual([]);
+  });
+
+  it('are unchanged for their owner', async () => {
+    const plan = await alice('GET', `/plans/${planId}`);
+    const tasks = await alice('GET', `/plans/${planId}/tasks`);
+    const weeks = await alice('GET', `/plans/${planId}/weeks`);
+    const sessions = await alice('GET', `/study-sessions?planId=${planId}`);
+    const thread = await alice('GET', `/chat-threads/${threadId}`);
+
+    expect(plan.status).toBe(200);
+    expect((plan.body.plan ?? plan.body).courseName).toBe('Linear Algebra');
+    expect(tasks.body).toEqual([expect.objectContaining({ id: taskId, title: 'Study Vectors', isCompleted: false })]);
+    expect(weeks.body).toHaveLength(1);
+    expect(sessions.body).toEqual([expect.objectContaining({ id: sessionId, minutes: 25 })]);
+    expect(thread.status).toBe(200);
+  });
+});
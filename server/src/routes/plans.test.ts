@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { signUp, startTestServer, type ApiClient } from '../test/api.js';
+
+let server: Awaited<ReturnType<typeof startTestServer>>;
+let api: ApiClient;
+let planId: number;
+
+beforeAll(async () => {
+  server = await startTestServer();
+  api = await signUp(server.baseUrl, 'student');
+
+  const plan = await api('POST', '/plans', {
+    courseName: 'Organic Chemistry',
+    examDate: '2099-06-01',
+    weeklyStudyTime: 4,
+    studyPreference: 'long',
+    topics: ['Alkanes', 'Alkenes'],
+    resources: ['Lecture notes'],
+  });
+  planId = plan.body.id;
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+describe('PUT /plans/:id', () => {
+  it('updates the given fields', async () => {
+    const response = await api('PUT', `/plans/${planId}`, { weeklyStudyTime: 6, restDays: [0] });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: planId, weeklyStudyTime: 6, restDays: [0], courseName: 'Organic Chemistry' });
+  });
+
+  it('ignores the id, owner and topic progress', async () => {
+    const response = await api('PUT', `/plans/${planId}`, {
+      id: 999,
+      userId: 999,
+      topicsProgress: { Alkanes: 100 },
+      courseName: 'Chemistry II',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ id: planId, courseName: 'Chemistry II', topicsProgress: { Alkanes: 0 } });
+  });
+
+  it.each([
+    ['an empty body', {}],
+    ['only unknown keys', { colour: 'blue' }],
+    ['only fields that cannot be changed', { userId: 2 }],
+  ])('rejects %s', async (_, body) => {
+    const response = await api('PUT', `/plans/${planId}`, body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('No plan fields to update');
+  });
+
+  it('rejects fields of the wrong type', async () => {
+    const response = await api('PUT', `/plans/${planId}`, { weeklyStudyTime: 'lots', topics: 'Alkanes' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.details.map((issue: { path: string[] }) => issue.path[0]).sort()).toEqual(['topics', 'weeklyStudyTime']);
+  });
+});
+
+describe('/plans/:id/catch-up', () => {
+  it('previews in the given time zone', async () => {
+    const response = await api('GET', `/plans/${planId}/catch-up?timeZone=Asia%2FTokyo`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ moved: [], dropped: [] });
+  });
+
+  it.each([
+    ['GET', `?timeZone=Mars%2FOlympus_Mons`, undefined],
+    ['POST', '', { moved: [], dropped: [], timeZone: 'Mars/Olympus_Mons' }],
+  ])('%s rejects an unknown time zone', async (method, query, body) => {
+    const response = await api(method, `/plans/${planId}/catch-up${query}`, body);
+
+    expect(response.status).toBe(400);
+    expect(response.body.details[0].message).toBe('Unknown time zone');
+  });
+});
+
+describe('routes that work out today', () => {
+  it.each([
+    ['GET', '/plans/:plan/goals'],
+    ['GET', '/plans/:plan/forecast'],
+    ['GET', '/plans/:plan/report'],
+    ['GET', '/study-sessions/summary?planId=:plan'],
+  ])('%s %s accepts the time zone and rejects an unknown one', async (method, path) => {
+    const url = path.replace(':plan', String(planId));
+    const separator = url.includes('?') ? '&' : '?';
+
+    expect((await api(method, `${url}${separator}timeZone=Asia%2FTokyo`)).status).toBe(200);
+
+    const response = await api(method, `${url}${separator}timeZone=Mars%2FOlympus_Mons`);
+    expect(response.status).toBe(400);
+    expect(JSON.stringify(response.body)).toMatch(/Unknown time zone/);
+  });
+});
@@ -1,10 +1,63 @@
 import express from 'express';
-import { db, studyPlans, studyTasks } from '../db/index.js';
-import { eq, and, desc } from 'drizzle-orm';
+import { z } from 'zod';
+import { db, studyPlans, studyTasks, studyWeeks, topicReviews, calendarEvents, planVersions, insertStudyPlanSchema } from '../db/index.js';
+import { eq, and, desc, gte, inArray, lt } from 'drizzle-orm';
 import { auth } from '../middleware/auth.js';
+import { scheduleStudySessions } from '../../../shared/scheduler.js';
+import { isValidTimeZone, zonedDateKey } from '../../../shared/calendar.js';
+import { planCatchUp } from '../../../shared/catchUp.js';
+import { clampProgress } from '../../../shared/mastery.js';
+import { normalizeRestDays } from '../../../shared/goals.js';
+import { taskTopic } from '../../../shared/studySessions.js';
+import { scheduleDueReviews } from '../reviews.js';
+import { deleteChatThreads } from '../chatThreads.js';
+import { deleteStudySessions } from '../studySessions.js';
+import { refreshTopicMastery } from '../mastery.js';
+import { planGoals } from '../goals.js';
+import { planForecast } from '../forecast.js';
+import { planProgressReport, renderReport, REPORT_FORMATS, type ReportFormat } from '../reports/index.js';
+import {
+  checkpointPlan,
+  deletePlanVersions,
+  findPlanVersion,
+  recordPlanVersion,
+  restorePlanVersion,
+} from '../planVersions.js';
+import { diffPlanVersions, type PlanVersionSource } from '../../../shared/planVersions.js';
 
 const router = express.Router();
 
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+// The student's IANA time zone or UTC offset, which decides what "today" is
+const timeZoneSchema = z.string().refine(isValidTimeZone, 'Unknown time zone');
+
+// ?timeZone= on routes that work out what "today" is; local server time otherwise
+const timeZoneQuerySchema = z.object({
+  timeZone: timeZoneSchema.optional(),
+});
+
+// Ownership can't be changed through an update, and topic progress is always
+// derived from the plan's work; unknown keys are dropped
+const planUpdateSchema = insertStudyPlanSchema
+  .omit({ userId: true, topicsProgress: true })
+  .partial();
+
+const scheduleRequestSchema = z.object({
+  availableDays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  windows: z.array(
+    z.object({
+      startHour: z.number().min(0).max(24),
+      endHour: z.number().min(0).max(24),
+    }).refine(window => window.startHour < window.endHour, 'startHour must be before endHour')
+  ).min(1).optional(),
+  topicWeights: z.record(z.number().positive()).default({}),
+  startDate: z.string().regex(DATE_KEY).optional(),
+  endDate: z.string().regex(DATE_KEY).optional(),
+  replace: z.boolean().default(true),
+  timeZone: timeZoneSchema.optional(),
+});
+
 // Middleware to check authentication
 router.use(auth);
 
@@ -113,6 +166,8 @@ router.post('/', async (req, res) => {
       .returning()
       .execute();
     
+    await recordPlanVersion(newPlan.id, 'created');
+    
     return res.status(201).json(newPlan);
   } catch (error) {
     console.error('Create plan error:', error);
@@ -143,13 +198,26 @@ router.put('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Study plan not found' });
     }
     
+    const parsed = planUpdateSchema.safeParse(req.body ?? {});
+    
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid plan update', details: parsed.error.errors });
+    }
+    
+    const changes = Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined));
+    
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No plan fields to update' });
+    }
+    
     // Update the plan
-    const [updatedPlan] = await db.update(studyPlans)
-      .set(req.body)
+    await db.update(studyPlans)
+      .set(changes)
       .where(eq(studyPlans.id, planId))
-      .returning()
       .execute();
     
+    const updatedPlan = await refreshTopicMastery(planId);
+    
     return res.status(200).json(updatedPlan);
   } catch (error) {
     console.error('Update plan error:', error);
@@ -180,11 +248,23 @@ router.delete('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Study plan not found' });
     }
     
-    // Delete associated tasks first
+    // Delete associated tasks, weeks, review state, chats, versions and study sessions first
     await db.delete(studyTasks)
       .where(eq(studyTasks.studyPlanId, planId))
       .execute();
     
+    await db.delete(studyWeeks)
+      .where(eq(studyWeeks.studyPlanId, planId))
+      .execute();
+    
+    await db.delete(topicReviews)
+      .where(eq(topicReviews.studyPlanId, planId))
+      .execute();
+    
+    await deleteChatThreads(planId);
+    await deletePlanVersions(planId);
+    await deleteStudySessions(planId);
+    
     // Delete the plan
     await db.delete(studyPlans)
       .where(eq(studyPlans.id, planId))
@@ -197,6 +277,216 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// Record how well the student already knew topics (0-100) before studying them
+// on the plan. Topic progress is recalculated on top of it and returned with the plan.
+router.patch('/:id/progress', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { topicsProgress } = req.body;
+    
+    if (!topicsProgress || typeof topicsProgress !== 'object') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const unknown = Object.keys(topicsProgress).filter(topic => !existingPlan.topics.includes(topic));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown topics: ${unknown.join(', ')}` });
+    }
+    
+    const baseline = Object.fromEntries(
+      Object.entries(topicsProgress).map(([topic, progress]) => [topic, clampProgress(Number(progress))])
+    );
+    
+    await db.update(studyPlans)
+      .set({ topicsBaseline: { ...existingPlan.topicsBaseline, ...baseline } })
+      .where(eq(studyPlans.id, planId))
+      .execute();
+    
+    const updatedPlan = await refreshTopicMastery(planId);
+    
+    return res.status(200).json(updatedPlan);
+  } catch (error) {
+    console.error('Update progress error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the tasks of a study plan, adding review tasks for topics that have come due
+router.get('/:id/tasks', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    await scheduleDueReviews(existingPlan);
+    
+    const tasks = await db.select()
+      .from(studyTasks)
+      .where(eq(studyTasks.studyPlanId, planId))
+      .execute();
+    
+    return res.status(200).json(tasks);
+  } catch (error) {
+    console.error('Get tasks error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the spaced repetition state of each topic in a study plan
+router.get('/:id/reviews', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const reviews = await db.select()
+      .from(topicReviews)
+      .where(eq(topicReviews.studyPlanId, planId))
+      .execute();
+    
+    return res.status(200).json(reviews);
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the stored calendar weeks of a study plan
+router.get('/:id/weeks', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const weeks = await db.select()
+      .from(studyWeeks)
+      .where(eq(studyWeeks.studyPlanId, planId))
+      .execute();
+    
+    return res.status(200).json(weeks);
+  } catch (error) {
+    console.error('Get weeks error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Store a calendar week for a study plan
+router.post('/:id/weeks', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const { weekStart, weekEnd, mondayTask, wednesdayTask, fridayTask, weekendTask } = req.body;
+    
+    // Validate required fields
+    if (!weekStart || !weekEnd) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    
+    const [newWeek] = await db.insert(studyWeeks)
+      .values({
+        studyPlanId: planId,
+        weekStart,
+        weekEnd,
+        mondayTask,
+        wednesdayTask,
+        fridayTask,
+        weekendTask,
+      })
+      .returning()
+      .execute();
+    
+    return res.status(201).json(newWeek);
+  } catch (error) {
+    console.error('Create week error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Create a task for a study plan
 router.post('/:id/tasks', async (req, res) => {
   try {
@@ -220,13 +510,17 @@ router.post('/:id/tasks', async (req, res) => {
       return res.status(404).json({ error: 'Study plan not found' });
     }
     
-    const { title, description, date, duration, resource, taskType } = req.body;
+    const { title, description, date, startTime, duration, resource, taskType, topic } = req.body;
     
     // Validate required fields
     if (!title || !date || !duration || !taskType) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
+    if (topic !== undefined && topic !== null && !existingPlan.topics.includes(topic)) {
+      return res.status(400).json({ error: `topic must be one of the plan's topics (${existingPlan.topics.join(', ')})` });
+    }
+    
     // Create the task
     const [newTask] = await db.insert(studyTasks)
       .values({
@@ -234,13 +528,17 @@ router.post('/:id/tasks', async (req, res) => {
         title,
         description,
         date,
+        startTime,
         duration,
         resource,
         taskType,
+        topic: taskTopic({ title, topic }, existingPlan.topics),
       })
       .returning()
       .execute();
     
+    await refreshTopicMastery(planId);
+    
     return res.status(201).json(newTask);
   } catch (error) {
     console.error('Create task error:', error);
@@ -248,4 +546,627 @@ router.post('/:id/tasks', async (req, res) => {
   }
 });
 
+// Generate a dated, timed schedule of tasks for a study plan. With endDate only
+// the days from startDate up to (not including) endDate are rescheduled.
+router.post('/:id/schedule', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const parsed = scheduleRequestSchema.safeParse(req.body ?? {});
+    
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid schedule request', details: parsed.error.errors });
+    }
+    
+    const { availableDays, windows, topicWeights, startDate, endDate, replace, timeZone } = parsed.data;
+    const firstDate = startDate || zonedDateKey(new Date(), timeZone);
+    
+    const busyEvents = await db.select()
+      .from(calendarEvents)
+      .where(eq(calendarEvents.userId, userId))
+      .execute();
+    
+    await checkpointPlan(planId);
+    
+    const sessions = scheduleStudySessions({
+      startDate: firstDate,
+      examDate: existingPlan.examDate,
+      weeklyStudyTime: existingPlan.weeklyStudyTime,
+      sessionLength: existingPlan.studyPreference === 'long' ? 'long' : 'short',
+      topics: existingPlan.topics.map(topic => ({
+        title: topic,
+        weight: topicWeights[topic],
+        progress: existingPlan.topicsProgress?.[topic],
+      })),
+      availableDays,
+      windows,
+      busyEvents,
+      timeZone,
+    }).filter(session => !endDate || session.date < endDate);
+    
+    // Replace the open sessions an earlier run laid out, keeping completed
+    // work, reviews and anything the user added themselves
+    if (replace) {
+      await db.delete(studyTasks)
+        .where(and(
+          eq(studyTasks.studyPlanId, planId),
+          eq(studyTasks.isCompleted, false),
+          eq(studyTasks.source, 'scheduler'),
+          ...(endDate ? [gte(studyTasks.date, firstDate), lt(studyTasks.date, endDate)] : [])
+        ))
+        .execute();
+    }
+    
+    const tasks = sessions.length > 0
+      ? await db.insert(studyTasks)
+          .values(sessions.map(session => ({
+            studyPlanId: planId,
+            title: session.title,
+            description: `${session.taskType === 'study' ? 'Study session' : session.taskType === 'review' ? 'Review session' : 'Practice session'} for ${session.topic}`,
+            date: session.date,
+            startTime: session.startTime,
+            duration: session.duration,
+            taskType: session.taskType,
+            topic: session.topic,
+            source: 'scheduler',
+          })))
+          .returning()
+          .execute()
+      : [];
+    
+    await refreshTopicMastery(planId);
+    await recordPlanVersion(planId, 'generated', endDate ? `${firstDate} to ${endDate}` : null);
+    
+    return res.status(201).json(tasks);
+  } catch (error) {
+    console.error('Schedule plan error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Work out how to fit a plan's overdue tasks into the time left before the exam
+async function planOverdueCatchUp(planId: number, userId: number, timeZone?: string) {
+  const [existingPlan] = await db.select()
+    .from(studyPlans)
+    .where(and(
+      eq(studyPlans.id, planId),
+      eq(studyPlans.userId, userId)
+    ))
+    .execute();
+  
+  if (!existingPlan) {
+    return null;
+  }
+  
+  const [tasks, busyEvents] = await Promise.all([
+    db.select()
+      .from(studyTasks)
+      .where(eq(studyTasks.studyPlanId, planId))
+      .execute(),
+    db.select()
+      .from(calendarEvents)
+      .where(eq(calendarEvents.userId, userId))
+      .execute(),
+  ]);
+  
+  return planCatchUp({
+    tasks,
+    examDate: existingPlan.examDate,
+    weeklyStudyTime: existingPlan.weeklyStudyTime,
+    today: zonedDateKey(new Date(), timeZone),
+    busyEvents,
+    timeZone,
+  });
+}
+
+// Preview where a plan's overdue tasks would be moved, without changing anything
+// (?timeZone= gives the student's time zone, local server time otherwise)
+router.get('/:id/catch-up', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const query = timeZoneQuerySchema.safeParse(req.query);
+    
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid catch-up request', details: query.error.errors });
+    }
+    
+    const catchUp = await planOverdueCatchUp(planId, userId, query.data.timeZone);
+    
+    if (!catchUp) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    return res.status(200).json(catchUp);
+  } catch (error) {
+    console.error('Preview catch-up error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The preview the user accepted: where each task goes and which ones are removed
+const catchUpApplySchema = z.object({
+  moved: z.array(z.object({
+    id: z.number().int(),
+    toDate: z.string(),
+    startTime: z.string(),
+  })),
+  dropped: z.array(z.object({ id: z.number().int() })),
+  timeZone: timeZoneSchema.optional(), // the one the preview was made in
+});
+
+// Moves and removals in a stable order, so two catch-up plans can be compared
+function catchUpChanges(catchUp: Pick<z.infer<typeof catchUpApplySchema>, 'moved' | 'dropped'>): string {
+  return JSON.stringify({
+    moved: catchUp.moved
+      .map(task => [task.id, task.toDate, task.startTime])
+      .sort((a, b) => Number(a[0]) - Number(b[0])),
+    dropped: catchUp.dropped.map(task => task.id).sort((a, b) => a - b),
+  });
+}
+
+// Apply a previewed catch-up: move the overdue tasks into the remaining free
+// time and remove the ones that no longer fit. Refused with 409 when the plan
+// has changed since the preview, so nothing the user didn't see is applied.
+router.post('/:id/catch-up', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const previewed = catchUpApplySchema.safeParse(req.body ?? {});
+    
+    if (!previewed.success) {
+      return res.status(400).json({ error: 'Invalid catch-up request', details: previewed.error.errors });
+    }
+    
+    const catchUp = await planOverdueCatchUp(planId, userId, previewed.data.timeZone);
+    
+    if (!catchUp) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    if (catchUpChanges(previewed.data) !== catchUpChanges(catchUp)) {
+      return res.status(409).json({ error: 'The catch-up plan has changed since it was previewed', catchUp });
+    }
+    
+    await checkpointPlan(planId);
+    
+    for (const task of catchUp.moved) {
+      await db.update(studyTasks)
+        .set({ date: task.toDate, startTime: task.startTime })
+        .where(eq(studyTasks.id, task.id))
+        .execute();
+    }
+    
+    if (catchUp.dropped.length > 0) {
+      await db.delete(studyTasks)
+        .where(inArray(studyTasks.id, catchUp.dropped.map(task => task.id)))
+        .execute();
+    }
+    
+    await refreshTopicMastery(planId);
+    await recordPlanVersion(planId, 'generated', 'catch-up');
+    
+    return res.status(200).json(catchUp);
+  } catch (error) {
+    console.error('Apply catch-up error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Daily and weekly study targets, the streak and each week's attainment over the whole plan (?timeZone=)
+router.get('/:id/goals', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const query = timeZoneQuerySchema.safeParse(req.query);
+    
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid goals request', details: query.error.errors });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    return res.status(200).json(await planGoals(existingPlan, query.data.timeZone));
+  } catch (error) {
+    console.error('Get plan goals error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Set the days of the week without a study goal ({ restDays: [0, 6] }, 0 = Sunday)
+router.put('/:id/goals', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { restDays } = req.body;
+    
+    if (!Array.isArray(restDays)) {
+      return res.status(400).json({ error: 'restDays must be a list of weekdays (0 = Sunday)' });
+    }
+    if (normalizeRestDays(restDays).length !== new Set(restDays).size) {
+      return res.status(400).json({ error: 'restDays must be weekdays from 0 to 6, leaving at least one study day' });
+    }
+    
+    const query = timeZoneQuerySchema.safeParse(req.query);
+    
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid goals request', details: query.error.errors });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const [updatedPlan] = await db.update(studyPlans)
+      .set({ restDays: normalizeRestDays(restDays) })
+      .where(eq(studyPlans.id, planId))
+      .returning()
+      .execute();
+    
+    return res.status(200).json(await planGoals(updatedPlan, query.data.timeZone));
+  } catch (error) {
+    console.error('Update plan goals error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Forecast whether the plan will be finished by the exam and how ready each topic will be (?timeZone=)
+router.get('/:id/forecast', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const query = timeZoneQuerySchema.safeParse(req.query);
+    
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid forecast request', details: query.error.errors });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    return res.status(200).json(await planForecast(existingPlan, query.data.timeZone));
+  } catch (error) {
+    console.error('Get plan forecast error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Download a progress report (?format=markdown|csv|json|pdf&from=yyyy-MM-dd&to=yyyy-MM-dd&timeZone=),
+// by default over the whole plan
+router.get('/:id/report', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const format = (req.query.format ?? 'markdown') as ReportFormat;
+    const { from, to } = req.query;
+    
+    if (!REPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of ${REPORT_FORMATS.join(', ')}` });
+    }
+    if ((from !== undefined && (typeof from !== 'string' || !DATE_KEY.test(from) || isNaN(Date.parse(from))))
+      || (to !== undefined && (typeof to !== 'string' || !DATE_KEY.test(to) || isNaN(Date.parse(to))))) {
+      return res.status(400).json({ error: 'from and to must be yyyy-MM-dd dates' });
+    }
+    if (typeof from === 'string' && typeof to === 'string' && from > to) {
+      return res.status(400).json({ error: 'from must not be after to' });
+    }
+    
+    const query = timeZoneQuerySchema.safeParse(req.query);
+    
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid report request', details: query.error.errors });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const report = await planProgressReport(existingPlan, {
+      from: from as string | undefined,
+      to: to as string | undefined,
+    }, query.data.timeZone);
+    if (report.range.from > report.range.to) {
+      return res.status(400).json({ error: 'from must not be after to' });
+    }
+    
+    const { body, contentType, extension } = renderReport(report, format);
+    const slug = existingPlan.courseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'plan';
+    
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="progress-report-${slug}-${report.range.from}-to-${report.range.to}.${extension}"`);
+    return res.status(200).send(body);
+  } catch (error) {
+    console.error('Get progress report error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const VERSION_SOURCES: PlanVersionSource[] = ['created', 'generated', 'refined', 'edited', 'rollback'];
+
+// List a study plan's versions, newest first, without their snapshots
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const versions = await db.select()
+      .from(planVersions)
+      .where(eq(planVersions.studyPlanId, planId))
+      .orderBy(desc(planVersions.version))
+      .execute();
+    
+    return res.status(200).json(versions.map(({ plan: _plan, tasks, ...version }) => ({
+      ...version,
+      taskCount: tasks.length,
+    })));
+  } catch (error) {
+    console.error('Get plan versions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Snapshot the plan as it is now, e.g. after the client changed it ({ source, note })
+router.post('/:id/versions', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    const { source = 'edited', note } = req.body;
+    
+    if (!VERSION_SOURCES.includes(source)) {
+      return res.status(400).json({ error: `source must be one of: ${VERSION_SOURCES.join(', ')}` });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+    
+    const version = await recordPlanVersion(planId, source, typeof note === 'string' ? note : null);
+    
+    return res.status(201).json(version);
+  } catch (error) {
+    console.error('Create plan version error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get one version of a study plan with its snapshot
+router.get('/:id/versions/:version', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    const version = existingPlan && await findPlanVersion(planId, parseInt(req.params.version));
+    
+    if (!version) {
+      return res.status(404).json({ error: 'Plan version not found' });
+    }
+    
+    return res.status(200).json(version);
+  } catch (error) {
+    console.error('Get plan version error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// What changed in a version compared with an earlier one (?against=, default the version before it)
+router.get('/:id/versions/:version/diff', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    const versionNumber = parseInt(req.params.version);
+    const version = existingPlan && await findPlanVersion(planId, versionNumber);
+    
+    if (!version) {
+      return res.status(404).json({ error: 'Plan version not found' });
+    }
+    
+    const againstNumber = req.query.against !== undefined ? parseInt(req.query.against as string) : versionNumber - 1;
+    const against = againstNumber > 0 ? await findPlanVersion(planId, againstNumber) : undefined;
+    
+    if (req.query.against !== undefined && !against) {
+      return res.status(404).json({ error: 'Plan version not found' });
+    }
+    
+    // The first version is compared with an empty plan, so all its tasks count as added
+    const diff = diffPlanVersions(against ?? { plan: version.plan, tasks: [] }, version);
+    
+    return res.status(200).json({ from: against?.version ?? null, to: version.version, ...diff });
+  } catch (error) {
+    console.error('Diff plan versions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Restore a study plan to an earlier version. The state being replaced is
+// saved as a version first, so a rollback can itself be rolled back.
+router.post('/:id/versions/:version/rollback', async (req, res) => {
+  try {
+    const planId = parseInt(req.params.id);
+    const userId = req.user?.id;
+    
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+    
+    const version = existingPlan && await findPlanVersion(planId, parseInt(req.params.version));
+    
+    if (!version) {
+      return res.status(404).json({ error: 'Plan version not found' });
+    }
+    
+    await checkpointPlan(planId);
+    await restorePlanVersion(version);
+    const restored = await recordPlanVersion(planId, 'rollback', `Restored version ${version.version}`);
+    
+    const [plan] = await db.select()
+      .from(studyPlans)
+      .where(eq(studyPlans.id, planId))
+      .execute();
+    
+    const tasks = await db.select()
+      .from(studyTasks)
+      .where(eq(studyTasks.studyPlanId, planId))
+      .execute();
+    
+    return res.status(200).json({ version: restored, plan, tasks });
+  } catch (error) {
+    console.error('Roll back plan error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export { router as planRoutes }; 
\ No newline at end of file
@@ -1,26 +1,28 @@
 import express from 'express';
-import { db, studyPlans, studyTasks } from '../db/index.js';
-import { eq } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { db, studyPlans, studyTasks, calendarEvents } from '../db/index.js';
+import { eq, and, gt, asc } from 'drizzle-orm';
+import { auth } from '../middleware/auth.js';
+import { aiQuota } from '../middleware/aiQuota.js';
+import { AIValidationError, ChatMessage, completeWithFallback, completeWithRepair, isAIConfigured } from '../ai/gateway.js';
+import { validateRefineScheduleReply } from '../ai/responses.js';
+import { fitTasksAroundBusyTime, isValidTimeZone } from '../../../shared/calendar.js';
+import { checkpointPlan, recordPlanVersion } from '../planVersions.js';
+import { refreshTopicMastery } from '../mastery.js';
+import { taskTopic } from '../../../shared/studySessions.js';
 
 const router = express.Router();
 
-// Initialize OpenAI with OpenRouter base URL
-const openai = new OpenAI({
-  apiKey: process.env.OPENROUTER_API_KEY || 'missing_key',
-  baseURL: 'https://openrouter.ai/api/v1',
-  defaultHeaders: {
-    'HTTP-Referer': process.env.NODE_ENV === 'production' 
-      ? 'https://focusgrid.app' 
-      : 'http://localhost:3000',
-  },
-});
-
 // Refine a study plan using AI
-router.post('/', async (req, res) => {
+router.post('/', auth, aiQuota, async (req, res) => {
   try {
-    if (!process.env.OPENROUTER_API_KEY) {
-      return res.status(500).json({ error: 'OpenRouter API key is not configured' });
+    if (!isAIConfigured()) {
+      return res.status(503).json({ error: 'No AI provider is configured on this server' });
+    }
+
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
 
     const {
@@ -32,6 +34,7 @@ router.post('/', async (req, res) => {
       learningStyle,
       studyMaterials,
       topics,
+      timeZone,
     } = req.body;
 
     // Validate required fields
@@ -39,6 +42,25 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: 'Unknown time zone' });
+    }
+
+    // Load the user's upcoming commitments so no task is scheduled over them
+    const busyEvents = await db.select()
+      .from(calendarEvents)
+      .where(and(
+        eq(calendarEvents.userId, userId),
+        gt(calendarEvents.end, new Date().toISOString())
+      ))
+      .orderBy(asc(calendarEvents.start))
+      .execute();
+
+    const busyTimes = busyEvents
+      .filter(event => event.start < new Date(examDate).toISOString())
+      .map(event => `- ${event.title}: ${event.start} to ${event.end}${event.allDay ? ' (all day)' : ''}`)
+      .join('\n');
+
     // Format prompt for the AI
     const prompt = `
 Create a comprehensive, optimized study plan for:
@@ -53,6 +75,9 @@ Study Materials Available: ${studyMaterials?.join(', ') || 'Not specified'}
 Topics to Cover:
 ${topics.map((topic) => `- ${topic}`).join('\n')}
 
+Busy Times (do not schedule any task during these):
+${busyTimes || 'None'}
+
 Please follow these guidelines:
 1. Break down each topic into multiple specific study tasks
 2. Schedule tasks with specific dates from today until the exam date
@@ -61,6 +86,7 @@ Please follow these guidelines:
 5. Balance the workload based on topic complexity and exam proximity
 6. Incorporate spaced repetition for optimal retention
 7. Adjust session length based on the student's preference (${studyPreference === 'short' ? 'shorter' : 'longer'} sessions)
+8. Never place a task on a day that has no free time around the busy times listed above
 
 Format the response as a JSON object with the following structure:
 {
@@ -101,28 +127,27 @@ Format the response as a JSON object with the following structure:
 }
 `;
 
-    // Call OpenRouter API
-    const completion = await openai.chat.completions.create({
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert educational consultant specializing in creating personalized study plans. You excel at breaking down complex subjects into manageable tasks and creating optimal learning schedules. Respond in the JSON format specified by the user.'
-        },
-        { role: 'user', content: prompt }
-      ],
-      model: 'anthropic/claude-3-opus-20240229',
-      response_format: { type: 'json_object' },
-    });
+    const studyPlan = await completeWithRepair([
+      {
+        role: 'system',
+        content: 'You are an expert educational consultant specializing in creating personalized study plans. You excel at breaking down complex subjects into manageable tasks and creating optimal learning schedules. Respond in the JSON format specified by the user.'
+      },
+      { role: 'user', content: prompt }
+    ], { maxTokens: 4000, json: true, purpose: 'schedule', userId },
+    content => validateRefineScheduleReply(content, { topics, examDate, timeZone }));
 
-    // Parse and return the response
-    const responseText = completion.choices[0]?.message?.content || '{}';
-    let studyPlan;
-    
-    try {
-      studyPlan = JSON.parse(responseText);
-    } catch (error) {
-      console.error('Error parsing AI response:', error);
-      return res.status(500).json({ error: 'Failed to parse AI response' });
+    // Move any tasks that collide with the user's busy times
+    if (busyEvents.length > 0) {
+      const scheduledTasks = studyPlan.weekly_schedule.flatMap((week, weekIndex) =>
+        week.tasks.map(task => ({ ...task, weekIndex }))
+      );
+      const fittedTasks = fitTasksAroundBusyTime(scheduledTasks, busyEvents, { lastDate: examDate });
+
+      studyPlan.weekly_schedule.forEach((week, weekIndex) => {
+        week.tasks = fittedTasks
+          .filter(task => task.weekIndex === weekIndex)
+          .map(({ weekIndex: _weekIndex, ...task }) => task);
+      });
     }
 
     // If a plan ID was provided, create tasks for that plan
@@ -131,15 +156,21 @@ Format the response as a JSON object with the following structure:
         // Find the plan
         const [plan] = await db.select()
           .from(studyPlans)
-          .where(eq(studyPlans.id, planId))
+          .where(and(
+            eq(studyPlans.id, planId),
+            eq(studyPlans.userId, userId)
+          ))
           .execute();
         
         if (!plan) {
           return res.status(404).json({ error: 'Study plan not found' });
         }
         
+        // Keep any edits made since the last version, so the refinement can be rolled back
+        await checkpointPlan(planId);
+        
         // Extract all tasks from the weekly schedule
-        const allTasks = studyPlan.weekly_schedule.flatMap(week => week.tasks || []);
+        const allTasks = studyPlan.weekly_schedule.flatMap(week => week.tasks);
         
         // Create each task in the database
         for (const task of allTasks) {
@@ -149,9 +180,11 @@ Format the response as a JSON object with the following structure:
               title: task.title,
               description: task.description,
               date: task.date,
+              startTime: task.startTime,
               duration: task.duration,
               resource: task.resource,
               taskType: task.taskType,
+              topic: taskTopic(task, plan.topics),
               isCompleted: false,
             })
             .execute();
@@ -160,10 +193,13 @@ Format the response as a JSON object with the following structure:
         // Update the plan with the AI recommendations
         await db.update(studyPlans)
           .set({
-            resources: studyPlan.recommended_resources || plan.resources,
+            resources: studyPlan.recommended_resources.length > 0 ? studyPlan.recommended_resources : plan.resources,
           })
           .where(eq(studyPlans.id, planId))
           .execute();
+        
+        await refreshTopicMastery(planId);
+        await recordPlanVersion(planId, 'refined');
       } catch (error) {
         console.error('Error saving AI-generated tasks:', error);
         // Continue to return the AI response even if saving fails
@@ -172,16 +208,25 @@ Format the response as a JSON object with the following structure:
 
     return res.status(200).json(studyPlan);
   } catch (error) {
+    if (error instanceof AIValidationError) {
+      return res.status(502).json({ error: 'AI returned an invalid plan', details: error.errors });
+    }
     console.error('Refine plan error:', error);
     return res.status(500).json({ error: 'Failed to generate study plan' });
   }
 });
 
 // Chat with AI about study plan
-router.post('/chat', async (req, res) => {
+router.post('/chat', auth, aiQuota, async (req, res) => {
   try {
-    if (!process.env.OPENROUTER_API_KEY) {
-      return res.status(500).json({ error: 'OpenRouter API key is not configured' });
+    if (!isAIConfigured()) {
+      return res.status(503).json({ error: 'No AI provider is configured on this server' });
+    }
+
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
 
     const { message, planId, history = [] } = req.body;
@@ -196,7 +241,10 @@ router.post('/chat', async (req, res) => {
       try {
         const [plan] = await db.select()
           .from(studyPlans)
-          .where(eq(studyPlans.id, planId))
+          .where(and(
+            eq(studyPlans.id, planId),
+            eq(studyPlans.userId, userId)
+          ))
           .execute();
         
         if (plan) {
@@ -215,14 +263,14 @@ Study Preference: ${plan.studyPreference === 'short' ? 'Shorter, more frequent s
     }
 
     // Create the messages array with system context and history
-    const messages = [
+    const messages: ChatMessage[] = [
       {
         role: 'system',
         content: `You are an AI study assistant helping a student with their academic planning and learning strategies. ${planContext}
 Your goal is to provide helpful, specific advice on study techniques, time management, and understanding difficult concepts.
 Keep your answers practical, concise, and tailored to the student's needs.`
       },
-      ...history.map((msg: { role: string; content: string }) => ({
+      ...history.map((msg: ChatMessage) => ({
         role: msg.role,
         content: msg.content
       })),
@@ -232,15 +280,7 @@ Keep your answers practical, concise, and tailored to the student's needs.`
       }
     ];
 
-    // Call OpenRouter API
-    const completion = await openai.chat.completions.create({
-      messages,
-      model: 'anthropic/claude-3-haiku-20240307',
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    const response = completion.choices[0]?.message?.content;
+    const { content: response } = await completeWithFallback(messages, { temperature: 0.7, maxTokens: 500, purpose: 'chat', userId });
 
     return res.status(200).json({ 
       response,
@@ -0,0 +1,284 @@
+import express from 'express';
+import { db, studyPlans, studySessions } from '../db/index.js';
+import { eq, and, desc, gte, lt } from 'drizzle-orm';
+import { auth } from '../middleware/auth.js';
+import { findOwnedSession, planStudyTime, runningSession, sessionDetailErrors, sessionTarget } from '../studySessions.js';
+import { refreshTopicMastery } from '../mastery.js';
+import { minutesBetween } from '../../../shared/studySessions.js';
+import { isValidTimeZone } from '../../../shared/calendar.js';
+
+// Time actually spent studying. A session is either timed live (start, then
+// stop) or logged afterwards with its start and end or its minutes.
+const router = express.Router();
+
+// Middleware to check authentication
+router.use(auth);
+
+// List the user's sessions, newest first (?planId=, ?from= and ?to= narrow them down)
+router.get('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const planId = parseInt(req.query.planId as string);
+    const { from, to } = req.query;
+
+    const sessions = await db.select()
+      .from(studySessions)
+      .where(and(
+        eq(studySessions.userId, userId),
+        ...(Number.isNaN(planId) ? [] : [eq(studySessions.studyPlanId, planId)]),
+        ...(typeof from === 'string' ? [gte(studySessions.startedAt, from)] : []),
+        ...(typeof to === 'string' ? [lt(studySessions.startedAt, to)] : [])
+      ))
+      .orderBy(desc(studySessions.startedAt))
+      .execute();
+
+    return res.status(200).json(sessions);
+  } catch (error) {
+    console.error('List study sessions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// The session being timed right now, or null
+router.get('/active', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    return res.status(200).json((await runningSession(userId)) ?? null);
+  } catch (error) {
+    console.error('Get active study session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Time studied on a plan: totals, per topic and per day (?planId=, ?days=30, ?timeZone=)
+router.get('/summary', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const planId = parseInt(req.query.planId as string);
+
+    if (Number.isNaN(planId)) {
+      return res.status(400).json({ error: 'planId is required' });
+    }
+
+    const { timeZone } = req.query;
+
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: 'Unknown time zone' });
+    }
+
+    const [plan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, planId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+
+    const days = parseInt(req.query.days as string);
+    return res.status(200).json(await planStudyTime(plan, Number.isNaN(days) ? undefined : Math.max(1, days), timeZone));
+  } catch (error) {
+    console.error('Study time summary error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start timing a session on a task ({ taskId }) or a plan ({ studyPlanId, topic? })
+router.post('/start', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { taskId, studyPlanId, topic } = req.body;
+
+    if (!taskId && !studyPlanId) {
+      return res.status(400).json({ error: 'taskId or studyPlanId is required' });
+    }
+
+    const running = await runningSession(userId);
+    if (running) {
+      return res.status(409).json({ error: 'A study session is already running', session: running });
+    }
+
+    const target = await sessionTarget(userId, { taskId, studyPlanId, topic });
+
+    if (!target) {
+      return res.status(404).json({ error: taskId ? 'Task not found' : 'Study plan not found' });
+    }
+
+    const [session] = await db.insert(studySessions)
+      .values({ userId, ...target, startedAt: new Date().toISOString() })
+      .returning()
+      .execute();
+
+    return res.status(201).json(session);
+  } catch (error) {
+    console.error('Start study session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stop a running session; the actual minutes are the time since it started
+// unless `minutes` is given (e.g. without a long break)
+router.post('/:id/stop', async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { minutes, interruptions, focusRating, note } = req.body;
+    const errors = sessionDetailErrors({ interruptions, focusRating });
+
+    if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 0)) {
+      errors.push('minutes must be a whole number of 0 or more');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
+    }
+
+    const session = await findOwnedSession(sessionId, userId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Study session not found' });
+    }
+    if (session.endedAt) {
+      return res.status(409).json({ error: 'This study session has already ended' });
+    }
+
+    const endedAt = new Date().toISOString();
+    const [stopped] = await db.update(studySessions)
+      .set({
+        endedAt,
+        minutes: minutes ?? minutesBetween(session.startedAt, endedAt),
+        interruptions: interruptions ?? session.interruptions,
+        focusRating: focusRating ?? null,
+        note: note ?? session.note,
+      })
+      .where(eq(studySessions.id, sessionId))
+      .returning()
+      .execute();
+
+    await refreshTopicMastery(stopped.studyPlanId);
+
+    return res.status(200).json(stopped);
+  } catch (error) {
+    console.error('Stop study session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Log a finished session after the fact: { taskId | studyPlanId, topic?, startedAt,
+// endedAt or minutes, interruptions?, focusRating?, note? }
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { taskId, studyPlanId, topic, startedAt, endedAt, minutes, interruptions, focusRating, note } = req.body;
+
+    if ((!taskId && !studyPlanId) || !startedAt || (!endedAt && minutes === undefined)) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const start = new Date(startedAt);
+    const end = endedAt ? new Date(endedAt) : new Date(start.getTime() + minutes * 60000);
+    const errors = sessionDetailErrors({ interruptions, focusRating });
+
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      errors.push('startedAt and endedAt must be ISO date-times');
+    } else if (end < start) {
+      errors.push('endedAt must not be before startedAt');
+    }
+    if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1)) {
+      errors.push('minutes must be a whole number of 1 or more');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors.join('; ') });
+    }
+
+    const target = await sessionTarget(userId, { taskId, studyPlanId, topic });
+
+    if (!target) {
+      return res.status(404).json({ error: taskId ? 'Task not found' : 'Study plan not found' });
+    }
+
+    const [session] = await db.insert(studySessions)
+      .values({
+        userId,
+        ...target,
+        startedAt: start.toISOString(),
+        endedAt: end.toISOString(),
+        minutes: minutes ?? minutesBetween(start.toISOString(), end.toISOString()),
+        interruptions: interruptions ?? 0,
+        focusRating: focusRating ?? null,
+        note,
+      })
+      .returning()
+      .execute();
+
+    await refreshTopicMastery(session.studyPlanId);
+
+    return res.status(201).json(session);
+  } catch (error) {
+    console.error('Log study session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a session
+router.delete('/:id', async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const session = await findOwnedSession(sessionId, userId);
+
+    if (!session) {
+      return res.status(404).json({ error: 'Study session not found' });
+    }
+
+    await db.delete(studySessions)
+      .where(eq(studySessions.id, sessionId))
+      .execute();
+
+    await refreshTopicMastery(session.studyPlanId);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Delete study session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as studySessionRoutes };
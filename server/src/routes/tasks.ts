@@ -0,0 +1,224 @@
+import express from 'express';
+import { db, studyPlans, studyTasks } from '../db/index.js';
+import { eq, and } from 'drizzle-orm';
+import { auth } from '../middleware/auth.js';
+import { recordTaskCompletion } from '../reviews.js';
+import { refreshTopicMastery } from '../mastery.js';
+import { taskTopic } from '../../../shared/studySessions.js';
+
+const router = express.Router();
+
+// Middleware to check authentication
+router.use(auth);
+
+// Find a task whose plan belongs to the user
+async function findOwnedTask(taskId: number, userId: number) {
+  const [row] = await db.select({ task: studyTasks })
+    .from(studyTasks)
+    .innerJoin(studyPlans, eq(studyTasks.studyPlanId, studyPlans.id))
+    .where(and(
+      eq(studyTasks.id, taskId),
+      eq(studyPlans.userId, userId)
+    ))
+    .execute();
+
+  return row?.task;
+}
+
+// The topic a new or edited task covers; an explicit topic must be one of the plan's
+function topicError(topic: unknown, topics: string[]): string | null {
+  return topic !== undefined && topic !== null && !topics.includes(topic as string)
+    ? `topic must be one of the plan's topics (${topics.join(', ')})`
+    : null;
+}
+
+// Create a task; the plan is given by studyPlanId in the body
+router.post('/', async (req, res) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { studyPlanId, title, description, date, startTime, duration, resource, taskType, topic } = req.body;
+
+    // Validate required fields
+    if (!studyPlanId || !title || !date || !duration || !taskType) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    // Check if plan exists and belongs to user
+    const [existingPlan] = await db.select()
+      .from(studyPlans)
+      .where(and(
+        eq(studyPlans.id, studyPlanId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Study plan not found' });
+    }
+
+    const invalidTopic = topicError(topic, existingPlan.topics);
+    if (invalidTopic) {
+      return res.status(400).json({ error: invalidTopic });
+    }
+
+    const [newTask] = await db.insert(studyTasks)
+      .values({
+        studyPlanId,
+        title,
+        description,
+        date,
+        startTime,
+        duration,
+        resource,
+        taskType,
+        topic: taskTopic({ title, topic }, existingPlan.topics),
+      })
+      .returning()
+      .execute();
+
+    await refreshTopicMastery(studyPlanId);
+
+    return res.status(201).json(newTask);
+  } catch (error) {
+    console.error('Create task error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a task
+router.put('/:id', async (req, res) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const existingTask = await findOwnedTask(taskId, userId);
+
+    if (!existingTask) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const { title, description, date, startTime, duration, resource, isCompleted, taskType, topic } = req.body;
+
+    const [plan] = await db.select().from(studyPlans).where(eq(studyPlans.id, existingTask.studyPlanId!)).execute();
+    const invalidTopic = topicError(topic, plan.topics);
+    if (invalidTopic) {
+      return res.status(400).json({ error: invalidTopic });
+    }
+
+    const [updatedTask] = await db.update(studyTasks)
+      .set({
+        title: title || existingTask.title,
+        description: description || existingTask.description,
+        date: date || existingTask.date,
+        startTime: startTime !== undefined ? startTime : existingTask.startTime,
+        duration: duration || existingTask.duration,
+        resource: resource || existingTask.resource,
+        isCompleted: typeof isCompleted === 'boolean' ? isCompleted : existingTask.isCompleted,
+        taskType: taskType || existingTask.taskType,
+        topic: topic !== undefined ? topic : existingTask.topic,
+      })
+      .where(eq(studyTasks.id, taskId))
+      .returning()
+      .execute();
+
+    await refreshTopicMastery(plan.id);
+
+    return res.status(200).json(updatedTask);
+  } catch (error) {
+    console.error('Update task error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a task complete or not; recallRating (0-5) grades how well a reviewed topic was remembered
+// and score (0-100) records the result of a practice quiz or test
+router.patch('/:id/complete', async (req, res) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { isCompleted, recallRating, score } = req.body;
+
+    if (typeof isCompleted !== 'boolean') {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+    if (recallRating !== undefined && (!Number.isInteger(recallRating) || recallRating < 0 || recallRating > 5)) {
+      return res.status(400).json({ error: 'recallRating must be an integer from 0 to 5' });
+    }
+    if (score !== undefined && score !== null && (!Number.isInteger(score) || score < 0 || score > 100)) {
+      return res.status(400).json({ error: 'score must be an integer from 0 to 100' });
+    }
+
+    const existingTask = await findOwnedTask(taskId, userId);
+
+    if (!existingTask) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    const [updatedTask] = await db.update(studyTasks)
+      .set({ isCompleted, ...(score !== undefined ? { score } : {}) })
+      .where(eq(studyTasks.id, taskId))
+      .returning()
+      .execute();
+
+    // Only a fresh completion counts towards the topic's review schedule
+    const review = isCompleted && !existingTask.isCompleted
+      ? await recordTaskCompletion(updatedTask, recallRating)
+      : undefined;
+
+    const plan = await refreshTopicMastery(updatedTask.studyPlanId!);
+
+    return res.status(200).json({
+      ...updatedTask,
+      review: review ?? null,
+      topicsProgress: plan?.topicsProgress ?? null,
+    });
+  } catch (error) {
+    console.error('Complete task error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a task
+router.delete('/:id', async (req, res) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const existingTask = await findOwnedTask(taskId, userId);
+
+    if (!existingTask) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+
+    await db.delete(studyTasks)
+      .where(eq(studyTasks.id, taskId))
+      .execute();
+
+    await refreshTopicMastery(existingTask.studyPlanId!);
+
+    return res.status(204).send();
+  } catch (error) {
+    console.error('Delete task error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export { router as taskRoutes };
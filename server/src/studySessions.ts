@@ -0,0 +1,107 @@
+import { db, studyPlans, studyTasks, studySessions, type StudyPlan } from './db/index.js';
+import { eq, and, isNull } from 'drizzle-orm';
+import { zonedDateKey } from '../../shared/calendar.js';
+import { summarizeStudyTime, taskTopic, FOCUS_RATINGS } from '../../shared/studySessions.js';
+
+// Find a study session of the user
+export async function findOwnedSession(sessionId: number, userId: number) {
+  const [session] = await db.select()
+    .from(studySessions)
+    .where(and(
+      eq(studySessions.id, sessionId),
+      eq(studySessions.userId, userId)
+    ))
+    .execute();
+
+  return session;
+}
+
+// The session the user is timing right now, if any
+export async function runningSession(userId: number) {
+  const [session] = await db.select()
+    .from(studySessions)
+    .where(and(
+      eq(studySessions.userId, userId),
+      isNull(studySessions.endedAt)
+    ))
+    .execute();
+
+  return session;
+}
+
+/**
+ * What a session is about: a task (whose plan and topic it takes) or a plan
+ * and optional topic. Returns undefined when the task or plan isn't the user's.
+ */
+export async function sessionTarget(
+  userId: number,
+  { taskId, studyPlanId, topic }: { taskId?: number; studyPlanId?: number; topic?: string }
+): Promise<{ studyPlanId: number; taskId: number | null; topic: string | null } | undefined> {
+  if (taskId) {
+    const [row] = await db.select({ task: studyTasks, plan: studyPlans })
+      .from(studyTasks)
+      .innerJoin(studyPlans, eq(studyTasks.studyPlanId, studyPlans.id))
+      .where(and(
+        eq(studyTasks.id, taskId),
+        eq(studyPlans.userId, userId)
+      ))
+      .execute();
+
+    return row && {
+      studyPlanId: row.plan.id,
+      taskId: row.task.id,
+      topic: topic || taskTopic(row.task, row.plan.topics),
+    };
+  }
+
+  const [plan] = await db.select()
+    .from(studyPlans)
+    .where(and(
+      eq(studyPlans.id, studyPlanId!),
+      eq(studyPlans.userId, userId)
+    ))
+    .execute();
+
+  return plan && { studyPlanId: plan.id, taskId: null, topic: topic || null };
+}
+
+/**
+ * Problems with the details a session is stopped or logged with
+ */
+export function sessionDetailErrors({ interruptions, focusRating }: { interruptions?: unknown; focusRating?: unknown }): string[] {
+  const errors: string[] = [];
+
+  if (interruptions !== undefined && (!Number.isInteger(interruptions) || (interruptions as number) < 0)) {
+    errors.push('interruptions must be a whole number of 0 or more');
+  }
+  if (focusRating !== undefined && focusRating !== null && !FOCUS_RATINGS.includes(focusRating as never)) {
+    errors.push('focusRating must be an integer from 1 to 5');
+  }
+
+  return errors;
+}
+
+/**
+ * Time actually studied on a plan, per topic and per day over the last `days`
+ * days in the student's time zone
+ */
+export async function planStudyTime(plan: StudyPlan, days?: number, timeZone?: string) {
+  const [sessions, tasks] = await Promise.all([
+    db.select().from(studySessions).where(eq(studySessions.studyPlanId, plan.id)).execute(),
+    db.select().from(studyTasks).where(eq(studyTasks.studyPlanId, plan.id)).execute(),
+  ]);
+
+  return summarizeStudyTime({
+    sessions,
+    tasks,
+    topics: plan.topics,
+    today: zonedDateKey(new Date(), timeZone),
+    days,
+    timeZone,
+  });
+}
+
+// Remove every session logged on a plan, e.g. before deleting the plan
+export async function deleteStudySessions(studyPlanId: number) {
+  await db.delete(studySessions).where(eq(studySessions.studyPlanId, studyPlanId)).execute();
+}
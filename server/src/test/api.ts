@@ -0,0 +1,46 @@
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import { app } from '../app.js';
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+export type ApiClient = (method: string, path: string, body?: unknown) => Promise<ApiResponse>;
+
+/**
+ * Start the API on a free port; call `close` when the tests are done
+ */
+export async function startTestServer() {
+  const server = app.listen(0);
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/api`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Register a new user and return a client that sends their token with every request
+ */
+export async function signUp(baseUrl: string, username: string): Promise<ApiClient> {
+  const response = await fetch(`${baseUrl}/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password: 'correct horse battery staple' }),
+  });
+  const { token } = await response.json();
+
+  return async (method, path, body) => {
+    const reply = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await reply.text();
+    return { status: reply.status, body: text && reply.headers.get('content-type')?.includes('json') ? JSON.parse(text) : text };
+  };
+}
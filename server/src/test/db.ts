@@ -0,0 +1,44 @@
+import { is, sql, SQL } from 'drizzle-orm';
+import { getTableConfig, SQLiteSyncDialect, SQLiteTable, type SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { db } from '../db/index.js';
+import * as schema from '../db/schema.js';
+
+const dialect = new SQLiteSyncDialect();
+
+function defaultValue(value: unknown): string {
+  if (is(value, SQL)) return `(${dialect.sqlToQuery(value).sql})`;
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (typeof value === 'number') return String(value);
+  return `'${(typeof value === 'string' ? value : JSON.stringify(value)).replace(/'/g, "''")}'`;
+}
+
+function columnDefinition(column: SQLiteColumn): string {
+  return [
+    `"${column.name}" ${column.getSQLType()}`,
+    column.primary ? `PRIMARY KEY${'autoIncrement' in column && column.autoIncrement ? ' AUTOINCREMENT' : ''}` : '',
+    column.notNull && !column.primary ? 'NOT NULL' : '',
+    column.isUnique ? 'UNIQUE' : '',
+    column.hasDefault && column.default !== undefined ? `DEFAULT ${defaultValue(column.default)}` : '',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Create every table of the schema in the (empty) test database
+ */
+export async function createTables() {
+  const tables = Object.values(schema as Record<string, unknown>).filter((value): value is SQLiteTable => is(value, SQLiteTable));
+
+  for (const table of tables) {
+    const { name, columns, foreignKeys } = getTableConfig(table);
+    const definitions = [
+      ...columns.map(columnDefinition),
+      ...foreignKeys.map(foreignKey => {
+        const { columns: from, foreignColumns, foreignTable } = foreignKey.reference();
+        return `FOREIGN KEY (${from.map(column => `"${column.name}"`).join(', ')}) `
+          + `REFERENCES "${getTableConfig(foreignTable).name}" (${foreignColumns.map(column => `"${column.name}"`).join(', ')})`;
+      }),
+    ];
+
+    await db.run(sql.raw(`CREATE TABLE "${name}" (${definitions.join(', ')})`));
+  }
+}
@@ -0,0 +1,3 @@
+import { createTables } from './db.js';
+
+await createTables();
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Every test file gets its own in-memory database
+    env: {
+      DATABASE_URL: ':memory:',
+      NODE_ENV: 'test',
+    },
+    setupFiles: ['src/test/setup.ts'],
+  },
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { checkRefineSchedule, checkWeeklyPlan, type PlanCheckContext, type RefineSchedule } from './aiPlan.js';
+
+const context: PlanCheckContext = {
+  topics: ['Limits', 'Integrals'],
+  examDate: '2026-03-20',
+  today: new Date('2026-03-02T12:00:00Z'),
+  timeZone: 'UTC',
+};
+
+function weekWithTopic(topic: string) {
+  return [{
+    week: 1,
+    dateRange: '',
+    focus: '',
+    days: [{ day: 'Monday', tasks: [{ topic, activity: 'Read', resource: '', duration: 30, type: 'study' as const }] }],
+  }];
+}
+
+function scheduleOn(date: string): RefineSchedule {
+  return {
+    weekly_schedule: [{
+      week: 1,
+      focus_areas: [],
+      tasks: [{ title: 'Read', description: '', date, duration: 30, resource: '', taskType: 'study' }],
+    }],
+    recommended_resources: [],
+    learning_strategies: [],
+  };
+}
+
+describe('checkWeeklyPlan', () => {
+  it('accepts course topics whatever their case and spacing', () => {
+    expect(checkWeeklyPlan(weekWithTopic('  limits '), context)).toEqual([]);
+  });
+
+  it('accepts a topic name decorated with whole words', () => {
+    expect(checkWeeklyPlan(weekWithTopic('Limits review'), context)).toEqual([]);
+    expect(checkWeeklyPlan(weekWithTopic('Practice: Integrals'), context)).toEqual([]);
+  });
+
+  it('rejects names that only share part of a word with a topic', () => {
+    expect(checkWeeklyPlan(weekWithTopic('Limit'), context)).toHaveLength(1);
+    expect(checkWeeklyPlan(weekWithTopic('Sublimits'), context)).toHaveLength(1);
+    expect(checkWeeklyPlan(weekWithTopic('Its'), context)).toHaveLength(1);
+  });
+});
+
+describe('checkRefineSchedule', () => {
+  it("takes today from the student's time zone", () => {
+    // 23:30 UTC on 1 March is already 2 March in Tokyo
+    const lateEvening = { ...context, today: new Date('2026-03-01T23:30:00Z') };
+
+    expect(checkRefineSchedule(scheduleOn('2026-03-01'), lateEvening)).toEqual([]);
+    expect(checkRefineSchedule(scheduleOn('2026-03-01'), { ...lateEvening, timeZone: 'Asia/Tokyo' })).toHaveLength(1);
+    expect(checkRefineSchedule(scheduleOn('2026-03-02'), { ...lateEvening, timeZone: 'Asia/Tokyo' })).toEqual([]);
+  });
+
+  it('rejects dates after the exam', () => {
+    expect(checkRefineSchedule(scheduleOn('2026-03-20'), context)).toEqual([]);
+    expect(checkRefineSchedule(scheduleOn('2026-03-21'), context)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,251 @@
+// Shapes exchanged with the AI gateway (/api/ai).
+// The server validates model output against these schemas, plus the checks
+// below that need the plan itself, before anything reaches the client.
+
+import { z } from 'zod';
+import { zonedDateKey } from './calendar.js';
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Session types a task can have */
+export const taskTypeSchema = z.enum(['study', 'review', 'practice']);
+
+/** One activity in an AI-generated day */
+export const aiStudyTaskSchema = z.object({
+  topic: z.string().min(1),
+  activity: z.string().min(1),
+  resource: z.string().default(''),
+  duration: z.coerce.number().int().min(5).max(240), // in minutes
+  type: taskTypeSchema,
+});
+
+/** The tasks the AI planned for one weekday */
+export const aiStudyDaySchema = z.object({
+  day: z.string().min(1),
+  tasks: z.array(aiStudyTaskSchema),
+});
+
+/** One week of an AI-generated plan */
+export const aiWeeklyPlanSchema = z.object({
+  week: z.coerce.number().int().min(1),
+  dateRange: z.string().default(''),
+  focus: z.string().default(''),
+  days: z.array(aiStudyDaySchema),
+});
+
+/** The JSON object the generate and refine prompts ask the model for */
+export const aiPlanReplySchema = z.object({
+  summary: z.string().default(''),
+  weeklyPlan: z.array(aiWeeklyPlanSchema).min(1),
+  finalWeekStrategy: z.string().default(''),
+  studyTips: z.array(z.string()).default([]),
+});
+
+/** A dated task in the /api/refine schedule */
+export const scheduledTaskSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().default(''),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a yyyy-MM-dd date'),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'must be an HH:mm time').optional(),
+  duration: z.coerce.number().int().min(5).max(240),
+  resource: z.string().default(''),
+  taskType: taskTypeSchema,
+});
+
+/** The JSON object the /api/refine prompt asks the model for */
+export const refineScheduleSchema = z.object({
+  weekly_schedule: z.array(z.object({
+    week: z.coerce.number().int().min(1),
+    focus_areas: z.array(z.string()).default([]),
+    tasks: z.array(scheduledTaskSchema),
+  })).min(1),
+  recommended_resources: z.array(z.string()).default([]),
+  learning_strategies: z.array(z.string()).default([]),
+});
+
+/** A study recommendation card */
+export const aiRecommendationSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  priority: z.enum(['high', 'medium', 'low']),
+  category: z.enum(['technique', 'resource', 'schedule']),
+});
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a yyyy-MM-dd date');
+
+/**
+ * Plan changes the chat assistant can propose through tool calls. Nothing is
+ * changed until the student confirms, and then only through the plan and task
+ * routes. `type` is the name of the tool the model called.
+ */
+export const chatActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('add_task'),
+    title: z.string().min(1),
+    description: z.string().default(''),
+    date: dateKeySchema,
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, 'must be an HH:mm time').optional(),
+    duration: z.coerce.number().int().min(5).max(240),
+    taskType: taskTypeSchema.default('study'),
+  }),
+  z.object({
+    type: z.literal('move_task'),
+    taskId: z.coerce.number().int(),
+    date: dateKeySchema,
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, 'must be an HH:mm time').optional(),
+  }),
+  z.object({
+    type: z.literal('set_topic_progress'),
+    topic: z.string().min(1),
+    progress: z.coerce.number().int().min(0).max(100),
+  }),
+  z.object({
+    type: z.literal('shorten_week'),
+    weekStart: dateKeySchema,
+    reduceByPercent: z.coerce.number().int().min(10).max(90),
+  }),
+  z.object({
+    type: z.literal('regenerate_week'),
+    weekStart: dateKeySchema,
+  }),
+]);
+
+export type AIStudyTask = z.infer<typeof aiStudyTaskSchema>;
+export type AIStudyDay = z.infer<typeof aiStudyDaySchema>;
+export type AIWeeklyPlan = z.infer<typeof aiWeeklyPlanSchema>;
+export type AIPlanReply = z.infer<typeof aiPlanReplySchema>;
+export type ScheduledTask = z.infer<typeof scheduledTaskSchema>;
+export type RefineSchedule = z.infer<typeof refineScheduleSchema>;
+export type AIStudyRecommendation = z.infer<typeof aiRecommendationSchema>;
+export type ChatAction = z.infer<typeof chatActionSchema>;
+export type ChatActionType = ChatAction['type'];
+
+/** What a plan reply is checked against */
+export interface PlanCheckContext {
+  topics: string[];
+  examDate: string; // yyyy-MM-dd
+  today?: Date;
+  timeZone?: string; // the student's IANA time zone or UTC offset, which decides what "today" is
+}
+
+/** Zod issues as readable lines, e.g. "weeklyPlan.0.days.1.tasks.0.type: Invalid enum value..." */
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a name is one of the topics, or contains one as whole words: models
+ * and task titles decorate names ("Limits review"), but "Limit" is not "Limits"
+ */
+export function isKnownTopic(topic: string, topics: string[]) {
+  const name = topic.trim().toLowerCase();
+  return topics.some(known => {
+    const knownName = known.trim().toLowerCase();
+    return name === knownName
+      || (knownName !== '' && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(knownName)}($|[^\\p{L}\\p{N}])`, 'u').test(name));
+  });
+}
+
+// Days from one yyyy-MM-dd key to another, NaN if either isn't a date
+function daysBetween(fromKey: string, toKey: string) {
+  const toUTC = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUTC(toKey) - toUTC(fromKey)) / DAY_MS);
+}
+
+function todayKey(context: PlanCheckContext) {
+  return zonedDateKey(context.today ?? new Date(), context.timeZone);
+}
+
+/** Problems the schema can't see: weeks past the exam, unknown weekdays and topics */
+export function checkWeeklyPlan(weeklyPlan: AIWeeklyPlan[], context: PlanCheckContext): string[] {
+  const errors: string[] = [];
+  const lastWeek = Math.max(1, Math.ceil((daysBetween(todayKey(context), context.examDate) + 1) / 7));
+
+  weeklyPlan.forEach((week, w) => {
+    if (week.week > lastWeek) {
+      errors.push(`weeklyPlan.${w}.week: week ${week.week} is after the exam on ${context.examDate} (last week is ${lastWeek})`);
+    }
+
+    week.days.forEach((day, d) => {
+      if (!WEEKDAYS.includes(day.day.trim().toLowerCase())) {
+        errors.push(`weeklyPlan.${w}.days.${d}.day: "${day.day}" is not a weekday name`);
+      }
+
+      day.tasks.forEach((task, t) => {
+        if (context.topics.length > 0 && !isKnownTopic(task.topic, context.topics)) {
+          errors.push(`weeklyPlan.${w}.days.${d}.tasks.${t}.topic: "${task.topic}" is not one of the course topics (${context.topics.join(', ')})`);
+        }
+      });
+    });
+  });
+
+  return errors;
+}
+
+/** Problems the schema can't see: dates outside today..exam day and unknown focus topics */
+export function checkRefineSchedule(schedule: RefineSchedule, context: PlanCheckContext): string[] {
+  const errors: string[] = [];
+  const today = todayKey(context);
+  const examOffset = daysBetween(today, context.examDate);
+
+  schedule.weekly_schedule.forEach((week, w) => {
+    week.focus_areas.forEach((topic, f) => {
+      if (context.topics.length > 0 && !isKnownTopic(topic, context.topics)) {
+        errors.push(`weekly_schedule.${w}.focus_areas.${f}: "${topic}" is not one of the course topics (${context.topics.join(', ')})`);
+      }
+    });
+
+    week.tasks.forEach((task, t) => {
+      const offset = daysBetween(today, task.date);
+      if (Number.isNaN(offset) || offset < 0 || offset > examOffset) {
+        errors.push(`weekly_schedule.${w}.tasks.${t}.date: ${task.date} is not between today and the exam on ${context.examDate}`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/** Result of generating or refining a plan */
+export interface AIStudyPlanResponse {
+  success: boolean;
+  aiRecommendations: string[];
+  weeklyPlan?: AIWeeklyPlan[];
+  summary?: string;
+  finalWeekStrategy?: string;
+  rawResponse?: string;
+  partialSuccess?: boolean; // the model's answer was unusable and the previous plan was kept
+}
+
+
+/** A task the chat assistant suggests adding to the plan */
+export interface AISuggestedTask {
+  title: string;
+  description: string;
+  duration: number;
+  type: z.infer<typeof taskTypeSchema>;
+}
+
+/** A question asked before a plan is generated, to fill in what the form doesn't say */
+export interface AIClarificationQuestion {
+  question: string;
+  type: 'text' | 'choice' | 'long-text';
+  choices?: string[];
+  context?: string; // why the answer helps
+}
+
+/** Chat assistant answer */
+export interface AIChatResponse {
+  message: string;
+  suggestedTask: AISuggestedTask | null; // the first proposed add_task, for callers that only add tasks
+  actions: ChatAction[]; // proposed plan changes, waiting for the student's confirmation
+  threadId?: number; // set when the conversation is saved to a chat thread
+}
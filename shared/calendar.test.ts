@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { freeIntervalsOnDay, isValidTimeZone, zonedClock, zonedDateKey, zonedTime } from './calendar.js';
+
+describe('time zones', () => {
+  it('accepts IANA names and UTC offsets', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('+05:30')).toBe(true);
+    expect(isValidTimeZone('-0800')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('+25:00')).toBe(false);
+  });
+
+  it('converts wall-clock times to instants', () => {
+    expect(zonedTime('2026-07-01', 9 * 60, 'Europe/London')).toBe(Date.parse('2026-07-01T08:00:00Z'));
+    expect(zonedTime('2026-01-15', 9 * 60, 'Europe/London')).toBe(Date.parse('2026-01-15T09:00:00Z'));
+    expect(zonedTime('2026-01-15', 9 * 60, '+05:30')).toBe(Date.parse('2026-01-15T03:30:00Z'));
+  });
+
+  it('formats dates and times in the time zone', () => {
+    const instant = new Date('2026-01-01T23:30:00Z');
+
+    expect(zonedDateKey(instant, 'Asia/Tokyo')).toBe('2026-01-02');
+    expect(zonedDateKey(instant, 'America/Los_Angeles')).toBe('2026-01-01');
+    expect(zonedClock(instant.getTime(), 'Asia/Tokyo')).toBe('08:30');
+    expect(zonedClock(instant.getTime(), '-03:00')).toBe('20:30');
+  });
+
+  it('removes busy time from a study window in the time zone', () => {
+    const events = [{ start: '2026-03-02T14:00:00Z', end: '2026-03-02T15:00:00Z' }];
+    const free = freeIntervalsOnDay(events, new Date(2026, 2, 2), { startHour: 8, endHour: 12 }, 'America/New_York');
+
+    expect(free).toEqual([
+      [Date.parse('2026-03-02T13:00:00Z'), Date.parse('2026-03-02T14:00:00Z')],
+      [Date.parse('2026-03-02T15:00:00Z'), Date.parse('2026-03-02T17:00:00Z')],
+    ]);
+  });
+});
@@ -0,0 +1,282 @@
+// Busy-time helpers shared by the client plan generators and the server.
+// Everything here is pure: callers pass in the user's calendar commitments
+// and get back tasks that fit around them.
+
+export interface BusyBlock {
+  title?: string | null;
+  start: string; // ISO date-time
+  end: string; // ISO date-time
+  allDay?: boolean | null;
+}
+
+// Hours of the day in which study sessions may be placed; 18.5 = 6:30pm.
+// Read in the given time zone, or the local one when none is given.
+export interface StudyWindow {
+  startHour: number;
+  endHour: number;
+}
+
+export interface FitOptions {
+  firstDate?: string; // Earliest date a task may be moved to (default: today)
+  lastDate?: string; // Latest date a task may be moved to, usually the exam date
+  window?: StudyWindow;
+}
+
+type Interval = [number, number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_STUDY_WINDOW: StudyWindow = { startHour: 8, endHour: 22 };
+
+/**
+ * Formats a date as a local yyyy-MM-dd key
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parses a task date (yyyy-MM-dd or full ISO string) to local midnight of that day
+ */
+export function parseDateKey(value: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match ? new Date(+match[1], +match[2] - 1, +match[3]) : new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+// Accepts "UTC", "Z" and fixed offsets such as "+02:00", "-0530" or "UTC+1"
+const OFFSET_PATTERN = /^(?:UTC|GMT)?([+-])(\d{1,2})(?::?(\d{2}))?$/i;
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Minutes east of UTC for a fixed-offset zone, or null for an IANA name
+function fixedOffset(timeZone: string): number | null {
+  if (/^(?:UTC|GMT|Z)$/i.test(timeZone)) return 0;
+
+  const match = timeZone.match(OFFSET_PATTERN);
+  if (!match || +match[2] > 14 || +(match[3] ?? 0) >= 60) return null;
+
+  return (match[1] === '-' ? -1 : 1) * (+match[2] * 60 + +(match[3] ?? 0));
+}
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Minutes east of UTC in the time zone at the given instant
+function offsetAt(time: number, timeZone: string): number {
+  const fixed = fixedOffset(timeZone);
+  if (fixed !== null) return fixed;
+
+  const parts: Record<string, number> = {};
+  zoneFormatter(timeZone).formatToParts(new Date(time)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = +part.value;
+  });
+
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(time / 1000) * 1000) / MINUTE_MS);
+}
+
+/**
+ * Whether a time zone is an IANA name or a UTC offset this module understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (fixedOffset(timeZone) !== null) return true;
+
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The instant a wall-clock time on a date falls on in a time zone
+ * (the local zone when none is given)
+ */
+export function zonedTime(dateKey: string, minutes: number, timeZone?: string): number {
+  if (!timeZone) {
+    return parseDateKey(dateKey).setHours(0, minutes, 0, 0);
+  }
+
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // A second pass settles times near a daylight saving change
+  const guess = wallClock - offsetAt(wallClock, timeZone) * MINUTE_MS;
+  return wallClock - offsetAt(guess, timeZone) * MINUTE_MS;
+}
+
+/**
+ * Formats a date as a yyyy-MM-dd key in a time zone (the local zone when none is given)
+ */
+export function zonedDateKey(date: Date, timeZone?: string): string {
+  if (!timeZone) return toDateKey(date);
+
+  const shifted = new Date(date.getTime() + offsetAt(date.getTime(), timeZone) * MINUTE_MS);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Formats an instant as HH:mm in a time zone (the local zone when none is given)
+ */
+export function zonedClock(time: number, timeZone?: string): string {
+  const date = timeZone ? new Date(time + offsetAt(time, timeZone) * MINUTE_MS) : new Date(time);
+  const hours = timeZone ? date.getUTCHours() : date.getHours();
+  const minutes = timeZone ? date.getUTCMinutes() : date.getMinutes();
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Returns the free intervals of a day's study window after removing busy blocks.
+ * The window is read in `timeZone` when given, otherwise in local time.
+ */
+export function freeIntervalsOnDay(
+  events: BusyBlock[],
+  date: Date,
+  window: StudyWindow = DEFAULT_STUDY_WINDOW,
+  timeZone?: string
+): Interval[] {
+  const dateKey = toDateKey(date);
+  const windowStart = zonedTime(dateKey, Math.round(window.startHour * 60), timeZone);
+  const windowEnd = zonedTime(dateKey, Math.round(window.endHour * 60), timeZone);
+
+  const busy = events
+    .map(event => [new Date(event.start).getTime(), new Date(event.end).getTime()] as Interval)
+    .filter(([start, end]) => !isNaN(start) && !isNaN(end) && start < windowEnd && end > windowStart)
+    .sort((a, b) => a[0] - b[0]);
+
+  const free: Interval[] = [];
+  let cursor = windowStart;
+
+  busy.forEach(([start, end]) => {
+    if (start > cursor) {
+      free.push([cursor, Math.min(start, windowEnd)]);
+    }
+    cursor = Math.max(cursor, end);
+  });
+
+  if (cursor < windowEnd) {
+    free.push([cursor, windowEnd]);
+  }
+
+  return free;
+}
+
+/**
+ * Total free minutes in a day's study window
+ */
+export function freeMinutesOnDay(
+  events: BusyBlock[],
+  date: Date,
+  window: StudyWindow = DEFAULT_STUDY_WINDOW
+): number {
+  return freeIntervalsOnDay(events, date, window)
+    .reduce((total, [start, end]) => total + (end - start) / MINUTE_MS, 0);
+}
+
+/**
+ * Filters busy blocks down to those touching the given date range
+ */
+export function busyBlocksBetween<T extends BusyBlock>(events: T[], from: Date, to: Date): T[] {
+  return events.filter(event =>
+    new Date(event.end).getTime() > from.getTime() &&
+    new Date(event.start).getTime() < to.getTime() + DAY_MS
+  );
+}
+
+/**
+ * Moves tasks off days where they would collide with calendar commitments.
+ *
+ * Each task needs a contiguous free slot of its duration on its day. Tasks that
+ * don't fit are moved to the nearest later day with room (up to `lastDate`),
+ * then the nearest earlier one (down to `firstDate`). Tasks that fit nowhere
+ * are dropped. Completed tasks are left where they are.
+ */
+export function fitTasksAroundBusyTime<T extends { date: string; duration: number; isCompleted?: boolean | null }>(
+  tasks: T[],
+  events: BusyBlock[],
+  options: FitOptions = {}
+): T[] {
+  if (events.length === 0) return tasks;
+
+  const window = options.window ?? DEFAULT_STUDY_WINDOW;
+  const firstDay = parseDateKey(options.firstDate ?? toDateKey(new Date()));
+  const lastDay = options.lastDate ? parseDateKey(options.lastDate) : null;
+  const freeByDay = new Map<string, Interval[]>();
+
+  const getFree = (day: Date) => {
+    const key = toDateKey(day);
+    if (!freeByDay.has(key)) {
+      freeByDay.set(key, freeIntervalsOnDay(events, day, window));
+    }
+    return freeByDay.get(key)!;
+  };
+
+  // Reserves the first slot long enough for the task, splitting the free interval
+  const reserve = (day: Date, minutes: number): boolean => {
+    const free = getFree(day);
+    const index = free.findIndex(([start, end]) => end - start >= minutes * MINUTE_MS);
+    if (index === -1) return false;
+
+    const [start, end] = free[index];
+    free.splice(index, 1, ...(start + minutes * MINUTE_MS < end ? [[start + minutes * MINUTE_MS, end] as Interval] : []));
+    return true;
+  };
+
+  const ordered = tasks
+    .map((task, index) => ({ task, index, day: parseDateKey(task.date) }))
+    .sort((a, b) => a.day.getTime() - b.day.getTime() || a.index - b.index);
+
+  const placed: { task: T; index: number }[] = [];
+
+  ordered.forEach(({ task, index, day }) => {
+    if (task.isCompleted) {
+      placed.push({ task, index });
+      return;
+    }
+
+    const candidates: Date[] = [day];
+    const searchEnd = lastDay ?? addDays(day, 14);
+
+    for (let next = addDays(day, 1); next <= searchEnd; next = addDays(next, 1)) {
+      candidates.push(next);
+    }
+    for (let previous = addDays(day, -1); previous >= firstDay; previous = addDays(previous, -1)) {
+      candidates.push(previous);
+    }
+
+    const target = candidates.find(candidate => reserve(candidate, task.duration));
+    if (!target) return;
+
+    placed.push({
+      task: target.getTime() === day.getTime() ? task : { ...task, date: toDateKey(target) },
+      index
+    });
+  });
+
+  return placed.sort((a, b) => a.index - b.index).map(({ task }) => task);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { planCatchUp, type CatchUpInput } from './catchUp.js';
+
+const baseInput: CatchUpInput = {
+  tasks: [{ id: 1, title: 'Study Algebra', date: '2026-03-01', duration: 60 }],
+  today: '2026-03-02',
+  examDate: '2026-03-05',
+  weeklyStudyTime: 10,
+  window: { startHour: 8, endHour: 22 },
+  timeZone: 'UTC',
+};
+
+describe('planCatchUp', () => {
+  it('moves an overdue task to the first free slot from today', () => {
+    expect(planCatchUp(baseInput)).toEqual({
+      moved: [{ id: 1, title: 'Study Algebra', duration: 60, fromDate: '2026-03-01', toDate: '2026-03-02', startTime: '08:00' }],
+      dropped: [],
+    });
+  });
+
+  it('reads the study window and busy time in the given time zone', () => {
+    // 08:00-10:00 on 2 March in Tokyo
+    const busyEvents = [{ start: '2026-03-01T23:00:00Z', end: '2026-03-02T01:00:00Z' }];
+    const { moved } = planCatchUp({ ...baseInput, busyEvents, timeZone: 'Asia/Tokyo' });
+
+    expect(moved).toEqual([expect.objectContaining({ toDate: '2026-03-02', startTime: '10:00' })]);
+  });
+
+  it('keeps clear of upcoming tasks at their start time in the time zone', () => {
+    const { moved } = planCatchUp({
+      ...baseInput,
+      tasks: [...baseInput.tasks, { id: 2, title: 'Study Geometry', date: '2026-03-02', startTime: '08:00', duration: 90 }],
+      timeZone: '-05:00',
+    });
+
+    expect(moved).toEqual([expect.objectContaining({ id: 1, toDate: '2026-03-02', startTime: '09:30' })]);
+  });
+
+  it('moves to the next day when today has no free slot', () => {
+    const busyEvents = [{ start: '2026-03-02T08:00:00Z', end: '2026-03-02T22:00:00Z' }];
+
+    expect(planCatchUp({ ...baseInput, busyEvents }).moved).toEqual([
+      expect.objectContaining({ id: 1, toDate: '2026-03-03', startTime: '08:00' }),
+    ]);
+  });
+
+  it('drops a task when no day before the exam has a free slot', () => {
+    const busyEvents = [{ start: '2026-03-02T00:00:00Z', end: '2026-03-05T00:00:00Z' }];
+
+    expect(planCatchUp({ ...baseInput, busyEvents })).toEqual({
+      moved: [],
+      dropped: [{ id: 1, title: 'Study Algebra', duration: 60, date: '2026-03-01' }],
+    });
+  });
+
+  it("drops a task that would go over the week's study budget", () => {
+    // Three days left at 10 hours a week leave about 257 minutes
+    const tasks = [{ id: 1, title: 'Mock exam', date: '2026-03-01', duration: 300 }];
+
+    expect(planCatchUp({ ...baseInput, tasks }).dropped).toEqual([expect.objectContaining({ id: 1 })]);
+  });
+
+  it('leaves completed and upcoming tasks alone', () => {
+    const { moved, dropped } = planCatchUp({
+      ...baseInput,
+      tasks: [
+        { id: 1, title: 'Done', date: '2026-03-01', duration: 30, isCompleted: true },
+        { id: 2, title: 'Later', date: '2026-03-03', duration: 30 },
+      ],
+    });
+
+    expect(moved).toEqual([]);
+    expect(dropped).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+// Catch-up planning for missed study tasks.
+// Moves incomplete tasks dated in the past into the free time left before the
+// exam, without going over the plan's weekly study budget. Pure functions only:
+// callers load the tasks and persist the result.
+
+import {
+  BusyBlock,
+  DEFAULT_STUDY_WINDOW,
+  StudyWindow,
+  freeIntervalsOnDay,
+  parseDateKey,
+  toDateKey,
+  zonedClock,
+  zonedTime
+} from './calendar.js';
+
+export interface CatchUpTask {
+  id: number;
+  title: string;
+  date: string;
+  startTime?: string | null; // HH:mm
+  duration: number; // in minutes
+  isCompleted?: boolean | null;
+}
+
+export interface CatchUpInput {
+  tasks: CatchUpTask[];
+  examDate: string;
+  weeklyStudyTime: number; // in hours
+  today: string; // yyyy-MM-dd, in timeZone
+  busyEvents?: BusyBlock[];
+  window?: StudyWindow;
+  breakMinutes?: number;
+  timeZone?: string; // IANA name or UTC offset the window and start times are in, defaults to local time
+}
+
+export interface MovedTask {
+  id: number;
+  title: string;
+  duration: number;
+  fromDate: string;
+  toDate: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+}
+
+export interface DroppedTask {
+  id: number;
+  title: string;
+  duration: number;
+  date: string;
+}
+
+export interface CatchUpPlan {
+  moved: MovedTask[];
+  dropped: DroppedTask[];
+}
+
+type Interval = [number, number];
+
+const DEFAULT_BREAK_MINUTES = 15;
+const MINUTE_MS = 60 * 1000;
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Time a task already holds on its day, or null if it has no start time
+function taskBlock(task: CatchUpTask, timeZone?: string): BusyBlock | null {
+  if (!task.startTime || !/^\d{1,2}:\d{2}$/.test(task.startTime)) return null;
+
+  const [hours, minutes] = task.startTime.split(':').map(Number);
+  const start = zonedTime(toDateKey(parseDateKey(task.date)), hours * 60 + minutes, timeZone);
+
+  return { start: new Date(start).toISOString(), end: new Date(start + task.duration * MINUTE_MS).toISOString() };
+}
+
+/**
+ * Work out where each overdue task should go.
+ *
+ * Overdue tasks are placed oldest first on the earliest day from `today` up to
+ * the day before the exam that still has a free slot in its study window and
+ * room in that week's budget. Weeks run in 7-day blocks from `today`; their
+ * budget is weeklyStudyTime (prorated for a partial last week) minus the open
+ * tasks already scheduled in them. Tasks that don't fit anywhere are dropped.
+ */
+export function planCatchUp(input: CatchUpInput): CatchUpPlan {
+  const breakMinutes = input.breakMinutes ?? DEFAULT_BREAK_MINUTES;
+  const window = input.window ?? DEFAULT_STUDY_WINDOW;
+  const firstDay = parseDateKey(input.today);
+  const examDay = parseDateKey(input.examDate);
+
+  const openTasks = input.tasks.filter(task => !task.isCompleted);
+  const overdue = openTasks
+    .filter(task => toDateKey(parseDateKey(task.date)) < input.today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  const upcoming = openTasks.filter(task => toDateKey(parseDateKey(task.date)) >= input.today);
+
+  if (overdue.length === 0) {
+    return { moved: [], dropped: [] };
+  }
+
+  // Remaining budget of each 7-day block, in minutes
+  const dayIndex = (date: Date) => Math.round((date.getTime() - firstDay.getTime()) / (24 * 60 * MINUTE_MS));
+  const totalDays = Math.max(0, dayIndex(examDay));
+  const budgets = Array.from({ length: Math.ceil(totalDays / 7) }, (_, week) =>
+    (input.weeklyStudyTime * 60 * Math.min(7, totalDays - week * 7)) / 7
+  );
+
+  upcoming.forEach(task => {
+    const week = Math.floor(dayIndex(parseDateKey(task.date)) / 7);
+    if (week < budgets.length) budgets[week] -= task.duration;
+  });
+
+  // Free intervals of each remaining day, around busy time and timed upcoming tasks
+  const busy = [
+    ...(input.busyEvents ?? []),
+    ...upcoming.map(task => taskBlock(task, input.timeZone)).filter((block): block is BusyBlock => !!block)
+  ];
+  const freeByDay: Interval[][] = Array.from({ length: totalDays }, (_, i) =>
+    freeIntervalsOnDay(busy, addDays(firstDay, i), window, input.timeZone)
+  );
+
+  const reserve = (day: number, minutes: number): number | null => {
+    const free = freeByDay[day];
+    const index = free.findIndex(([start, end]) => end - start >= minutes * MINUTE_MS);
+    if (index === -1) return null;
+
+    const [start, end] = free[index];
+    const next = start + (minutes + breakMinutes) * MINUTE_MS;
+    free.splice(index, 1, ...(next < end ? [[next, end] as Interval] : []));
+    return start;
+  };
+
+  // Upcoming tasks without a start time still need room somewhere on their day
+  upcoming
+    .filter(task => !taskBlock(task))
+    .forEach(task => {
+      const day = dayIndex(parseDateKey(task.date));
+      if (day < totalDays) reserve(day, task.duration);
+    });
+
+  const moved: MovedTask[] = [];
+  const dropped: DroppedTask[] = [];
+
+  overdue.forEach(task => {
+    for (let day = 0; day < totalDays; day++) {
+      const week = Math.floor(day / 7);
+      if (budgets[week] < task.duration) continue;
+
+      const start = reserve(day, task.duration);
+      if (start === null) continue;
+
+      budgets[week] -= task.duration;
+      moved.push({
+        id: task.id,
+        title: task.title,
+        duration: task.duration,
+        fromDate: task.date,
+        toDate: toDateKey(addDays(firstDay, day)),
+        startTime: zonedClock(start, input.timeZone)
+      });
+      return;
+    }
+
+    dropped.push({ id: task.id, title: task.title, duration: task.duration, date: task.date });
+  });
+
+  return { moved, dropped };
+}
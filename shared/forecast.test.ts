@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { forecastExamReadiness, studyPace, type ForecastInput, type ForecastTask } from './forecast.js';
+
+function task(id: number, date: string, duration: number, isCompleted = false): ForecastTask {
+  return { id, title: `Study Limits ${id}`, topic: 'Limits', taskType: 'study', date, duration, isCompleted };
+}
+
+const openTasks = [task(1, '2026-03-02', 60), task(2, '2026-03-03', 60), task(3, '2026-03-04', 60)];
+
+const baseInput: ForecastInput = {
+  topics: ['Limits'],
+  tasks: openTasks,
+  sessions: [],
+  weeklyStudyTime: 7,
+  startDate: '2026-03-02',
+  examDate: '2026-03-10',
+  today: '2026-03-02',
+  timeZone: 'UTC',
+};
+
+describe('studyPace', () => {
+  it('has no pace before the first full day of the plan', () => {
+    expect(studyPace(new Map(), { startDate: '2026-03-02', today: '2026-03-02', days: 14 })).toBeNull();
+  });
+
+  it('averages over the days since the start when that is shorter than the window', () => {
+    const minutes = new Map([['2026-02-24', 90], ['2026-02-26', 50], ['2026-03-02', 500]]);
+    // Today doesn't count yet
+    expect(studyPace(minutes, { startDate: '2026-02-23', today: '2026-03-02', days: 14 })).toBe(20);
+  });
+});
+
+describe('forecastExamReadiness', () => {
+  it("uses the plan's weekly study time when there is no history", () => {
+    const forecast = forecastExamReadiness(baseInput);
+
+    expect(forecast).toMatchObject({
+      paceFromPlan: true,
+      minutesPerDay: 60,
+      daysLeft: 8,
+      remainingMinutes: 180,
+      projectedMinutes: 480,
+      projectedFinishDate: '2026-03-04',
+      onTrack: true,
+    });
+  });
+
+  it('projects the finish date from the recent pace', () => {
+    const forecast = forecastExamReadiness({
+      ...baseInput,
+      tasks: [task(9, '2026-02-25', 140, true), ...openTasks],
+      startDate: '2026-02-23',
+      examDate: '2026-03-06',
+    });
+
+    expect(forecast).toMatchObject({
+      paceFromPlan: false,
+      minutesPerDay: 20,
+      projectedMinutes: 80,
+      projectedFinishDate: '2026-03-10',
+      onTrack: false,
+    });
+    expect(forecast.topics[0]).toMatchObject({ remainingMinutes: 180, unfinishedMinutes: 120, atRisk: true });
+  });
+
+  it('finishes today with nothing left, and never with no study at all', () => {
+    expect(forecastExamReadiness({ ...baseInput, tasks: [task(1, '2026-03-01', 60, true)] }).projectedFinishDate).toBe('2026-03-02');
+    expect(forecastExamReadiness({ ...baseInput, startDate: '2026-02-23' })).toMatchObject({
+      minutesPerDay: 0,
+      projectedFinishDate: null,
+      onTrack: false,
+    });
+  });
+});
@@ -0,0 +1,186 @@
+// Exam readiness forecast for a study plan.
+// Projects the recent pace of study (minutes per day) forward to the exam:
+// open tasks are assumed done in date order for as long as that pace lasts,
+// and each topic's readiness is its mastery with those tasks completed.
+// Topics left below the readiness target get a suggested catch-up action.
+// Pure functions only: callers load the plan, its tasks and sessions.
+
+import { parseDateKey, toDateKey } from './calendar.js';
+import { minutesByDay, type GoalSession } from './goals.js';
+import { computeTopicMastery, type MasteryTask } from './mastery.js';
+import { taskTopic } from './studySessions.js';
+
+export interface ForecastTask extends MasteryTask {
+  date: string; // yyyy-MM-dd
+}
+
+export interface ForecastInput {
+  topics: string[];
+  tasks: ForecastTask[];
+  sessions: (GoalSession & { topic: string | null })[];
+  baseline?: Record<string, number> | null;
+  weeklyStudyTime: number; // in hours, the pace assumed until there's a full day of history
+  startDate: string; // yyyy-MM-dd, first day of the plan
+  examDate: string; // yyyy-MM-dd
+  today: string; // yyyy-MM-dd, in timeZone
+  paceDays?: number; // how many recent days the pace is measured over
+  timeZone?: string; // IANA name or UTC offset sessions are put into days in, defaults to local time
+}
+
+export type ForecastActionType = 'catch-up' | 'add-time' | 'add-practice';
+
+export interface ForecastAction {
+  type: ForecastActionType;
+  description: string;
+  minutesPerWeek?: number; // extra weekly minutes, for 'add-time'
+}
+
+export interface TopicForecast {
+  topic: string;
+  mastery: number; // 0-100 now
+  readiness: number; // 0-100 projected at the exam
+  remainingMinutes: number; // open task time on the topic
+  unfinishedMinutes: number; // of that, what the current pace won't reach
+  overdueTasks: number;
+  atRisk: boolean;
+  action: ForecastAction | null;
+}
+
+export interface ExamForecast {
+  daysLeft: number; // study days before the exam, today included
+  minutesPerDay: number; // recent pace
+  paceFromPlan: boolean; // no history yet, so the pace is the plan's weekly study time
+  remainingMinutes: number; // open task time on the plan
+  projectedMinutes: number; // what the pace covers before the exam
+  projectedFinishDate: string | null; // when the open tasks would be done; null if never at this pace
+  onTrack: boolean; // the open tasks are done before the exam
+  readiness: number; // average projected readiness over the topics
+  topics: TopicForecast[];
+}
+
+// Projected readiness below this marks a topic at risk
+export const READINESS_TARGET = 75;
+
+const DEFAULT_PACE_DAYS = 14;
+
+function addDays(date: string, days: number): string {
+  const day = parseDateKey(date);
+  day.setDate(day.getDate() + days);
+  return toDateKey(day);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000);
+}
+
+/**
+ * Average minutes studied per day over the last `days` full days, or since
+ * the plan started if that is more recent; null before the first full day
+ */
+export function studyPace(minutes: Map<string, number>, { startDate, today, days }: { startDate: string; today: string; days: number }): number | null {
+  const from = [addDays(today, -days), startDate].sort().reverse()[0];
+  const span = daysBetween(from, today);
+  if (span <= 0) return null;
+
+  let total = 0;
+  for (let date = from; date < today; date = addDays(date, 1)) {
+    total += minutes.get(date) ?? 0;
+  }
+
+  return Math.round(total / span);
+}
+
+function suggestAction(topic: string, forecast: Omit<TopicForecast, 'atRisk' | 'action'>, weeksLeft: number): ForecastAction {
+  if (forecast.overdueTasks > 0) {
+    return {
+      type: 'catch-up',
+      description: `Reschedule the ${forecast.overdueTasks} overdue ${topic} ${forecast.overdueTasks === 1 ? 'task' : 'tasks'} into the time left before the exam.`,
+    };
+  }
+
+  if (forecast.unfinishedMinutes > 0) {
+    const minutesPerWeek = Math.ceil(forecast.unfinishedMinutes / Math.max(1, weeksLeft) / 5) * 5;
+    return {
+      type: 'add-time',
+      description: `Study about ${minutesPerWeek} more minutes a week on ${topic} to finish its tasks before the exam.`,
+      minutesPerWeek,
+    };
+  }
+
+  return {
+    type: 'add-practice',
+    description: `Add a practice or review session on ${topic}; its planned work won't get it to ${READINESS_TARGET}% readiness.`,
+  };
+}
+
+/**
+ * Whether the plan's open tasks will be done before the exam at the recent
+ * pace, and how ready each topic is projected to be on exam day
+ */
+export function forecastExamReadiness(input: ForecastInput): ExamForecast {
+  const minutes = minutesByDay(input.sessions, input.tasks, input.timeZone);
+  const pace = studyPace(minutes, {
+    startDate: input.startDate,
+    today: input.today,
+    days: input.paceDays ?? DEFAULT_PACE_DAYS,
+  });
+  const minutesPerDay = pace ?? Math.round((input.weeklyStudyTime * 60) / 7);
+  const daysLeft = Math.max(0, daysBetween(input.today, input.examDate));
+  const projectedMinutes = minutesPerDay * daysLeft;
+
+  // Open tasks are expected to be done in date order while the pace lasts
+  const open = input.tasks
+    .filter(task => !task.isCompleted)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+  const remainingMinutes = open.reduce((sum, task) => sum + task.duration, 0);
+
+  const reached = new Set<number>();
+  let budget = projectedMinutes;
+  for (const task of open) {
+    if (task.duration > budget) break;
+    budget -= task.duration;
+    reached.add(task.id);
+  }
+
+  const tracksTime = input.sessions.some(session => session.minutes !== null);
+  const projectedTasks = input.tasks.map(task => reached.has(task.id) ? { ...task, isCompleted: true } : task);
+  const projectedSessions = [
+    ...input.sessions,
+    ...(tracksTime ? open.filter(task => reached.has(task.id)).map(task => ({ taskId: task.id, topic: null, minutes: task.duration })) : []),
+  ];
+
+  const mastery = computeTopicMastery({ topics: input.topics, tasks: input.tasks, sessions: input.sessions, baseline: input.baseline });
+  const readiness = computeTopicMastery({ topics: input.topics, tasks: projectedTasks, sessions: projectedSessions, baseline: input.baseline });
+  const weeksLeft = daysLeft / 7;
+
+  const topics = input.topics.map(topic => {
+    const topicOpen = open.filter(task => taskTopic(task, input.topics) === topic);
+    const forecast = {
+      topic,
+      mastery: mastery[topic],
+      readiness: readiness[topic],
+      remainingMinutes: topicOpen.reduce((sum, task) => sum + task.duration, 0),
+      unfinishedMinutes: topicOpen.filter(task => !reached.has(task.id)).reduce((sum, task) => sum + task.duration, 0),
+      overdueTasks: topicOpen.filter(task => task.date < input.today).length,
+    };
+    const atRisk = forecast.readiness < READINESS_TARGET;
+
+    return { ...forecast, atRisk, action: atRisk ? suggestAction(topic, forecast, weeksLeft) : null };
+  });
+
+  return {
+    daysLeft,
+    minutesPerDay,
+    paceFromPlan: pace === null,
+    remainingMinutes,
+    projectedMinutes,
+    projectedFinishDate: remainingMinutes === 0
+      ? input.today
+      : minutesPerDay > 0 ? addDays(input.today, Math.ceil(remainingMinutes / minutesPerDay) - 1) : null,
+    onTrack: reached.size === open.length,
+    readiness: topics.length > 0
+      ? Math.round(topics.reduce((sum, topic) => sum + topic.readiness, 0) / topics.length)
+      : 0,
+    topics,
+  };
+}
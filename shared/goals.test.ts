@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { calculateStreak, dailyTargetMinutes, minutesByDay } from './goals.js';
+
+describe('minutesByDay', () => {
+  it("puts sessions on the day they started in the student's time zone", () => {
+    // 23:30 on 1 March in New York, already 2 March at UTC
+    const sessions = [{ taskId: null, startedAt: '2026-03-02T04:30:00Z', minutes: 40 }];
+
+    expect(minutesByDay(sessions, [], 'America/New_York')).toEqual(new Map([['2026-03-01', 40]]));
+    expect(minutesByDay(sessions, [], 'UTC')).toEqual(new Map([['2026-03-02', 40]]));
+  });
+
+  it('counts completed tasks only when no session was logged for them', () => {
+    const sessions = [{ taskId: 1, startedAt: '2026-03-02T10:00:00Z', minutes: 20 }];
+    const tasks = [
+      { id: 1, date: '2026-03-02', duration: 60, isCompleted: true },
+      { id: 2, date: '2026-03-03', duration: 45, isCompleted: true },
+      { id: 3, date: '2026-03-03', duration: 30, isCompleted: false },
+    ];
+
+    expect(minutesByDay(sessions, tasks, 'UTC')).toEqual(new Map([['2026-03-02', 20], ['2026-03-03', 45]]));
+  });
+});
+
+describe('calculateStreak', () => {
+  // Monday 2 March to Monday 9 March, resting at weekends
+  const streakOptions = { from: '2026-03-02', today: '2026-03-09', dailyTarget: 30, restDays: [0, 6] };
+  const studied = (entries: [string, number][]) => new Map(entries);
+  const weekdays: [string, number][] = [
+    ['2026-03-02', 30], ['2026-03-03', 45], ['2026-03-04', 30], ['2026-03-05', 30], ['2026-03-06', 60],
+  ];
+
+  it('carries a streak over rest days and counts study on them', () => {
+    // Nothing on Saturday, some study on Sunday
+    expect(calculateStreak(studied([...weekdays, ['2026-03-08', 10]]), streakOptions)).toEqual({ current: 6, longest: 6 });
+    expect(calculateStreak(studied(weekdays), streakOptions)).toEqual({ current: 5, longest: 5 });
+  });
+
+  it("keeps the streak while today's goal is still open, and extends it once met", () => {
+    expect(calculateStreak(studied([...weekdays, ['2026-03-09', 30]]), streakOptions).current).toBe(6);
+    expect(calculateStreak(studied([...weekdays, ['2026-03-09', 20]]), { ...streakOptions, today: '2026-03-10' }).current).toBe(0);
+  });
+
+  it('breaks on a study day that missed its goal', () => {
+    const missedTuesday = studied(weekdays.map(([date, minutes]) => [date, date === '2026-03-03' ? 15 : minutes]));
+    expect(calculateStreak(missedTuesday, streakOptions)).toEqual({ current: 3, longest: 3 });
+  });
+});
+
+describe('dailyTargetMinutes', () => {
+  it('spreads the weekly study time over the days that are not rest days', () => {
+    expect(dailyTargetMinutes(10, [0, 6])).toBe(120);
+    expect(dailyTargetMinutes(7, [])).toBe(60);
+  });
+});
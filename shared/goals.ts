@@ -0,0 +1,196 @@
+// Study goals: daily and weekly minute targets, streaks and weekly attainment.
+// Targets come from the plan's weeklyStudyTime spread over the days that
+// aren't rest days. A day's minutes are the logged study sessions plus, for
+// completed tasks with no session, their planned duration on the task's date.
+// Pure functions only: callers load the plan, its tasks and sessions.
+
+import { parseDateKey, toDateKey, zonedDateKey } from './calendar.js';
+
+export interface GoalSession {
+  taskId: number | null;
+  startedAt: string; // ISO date-time
+  minutes: number | null; // null while the session is running
+}
+
+export interface GoalTask {
+  id: number;
+  date: string; // yyyy-MM-dd
+  duration: number; // planned, in minutes
+  isCompleted?: boolean | null;
+}
+
+export interface GoalInput {
+  weeklyStudyTime: number; // in hours
+  restDays: number[]; // days of the week without a study goal, 0 = Sunday
+  startDate: string; // yyyy-MM-dd, first day of the plan
+  examDate: string; // yyyy-MM-dd
+  today: string; // yyyy-MM-dd, in timeZone
+  sessions: GoalSession[];
+  tasks: GoalTask[];
+  timeZone?: string; // IANA name or UTC offset sessions are put into days in, defaults to local time
+}
+
+export interface DayGoal {
+  date: string;
+  minutes: number;
+  targetMinutes: number; // 0 on rest days
+  met: boolean;
+}
+
+export interface WeekGoal {
+  week: number; // 1, 2, 3... from the start of the plan
+  weekStart: string;
+  weekEnd: string; // last day of the week, inclusive
+  targetMinutes: number;
+  actualMinutes: number;
+  attainment: number; // percentage of the target studied, can pass 100
+  met: boolean;
+  status: 'past' | 'current' | 'upcoming';
+}
+
+export interface StreakSummary {
+  current: number; // days in a row the daily goal was met, up to today
+  longest: number;
+}
+
+export interface GoalSummary {
+  dailyTargetMinutes: number;
+  weeklyTargetMinutes: number;
+  restDays: number[];
+  today: DayGoal;
+  streak: StreakSummary;
+  weeks: WeekGoal[];
+}
+
+function addDays(date: string, days: number): string {
+  const day = parseDateKey(date);
+  day.setDate(day.getDate() + days);
+  return toDateKey(day);
+}
+
+/**
+ * Valid, distinct rest days (0-6), in order; at least one day stays a study day
+ */
+export function normalizeRestDays(restDays: unknown): number[] {
+  if (!Array.isArray(restDays)) return [];
+  const days = [...new Set(restDays.filter(day => Number.isInteger(day) && day >= 0 && day <= 6))].sort((a, b) => a - b);
+  return days.length < 7 ? days : days.slice(0, 6);
+}
+
+/**
+ * Minutes to study on each non-rest day to meet the weekly study time
+ */
+export function dailyTargetMinutes(weeklyStudyTime: number, restDays: number[]): number {
+  const studyDays = 7 - normalizeRestDays(restDays).length;
+  return Math.round((weeklyStudyTime * 60) / studyDays);
+}
+
+/**
+ * Minutes studied per day: logged sessions on the day they started in
+ * `timeZone`, plus the planned duration of completed tasks that have no
+ * session logged
+ */
+export function minutesByDay(sessions: GoalSession[], tasks: GoalTask[], timeZone?: string): Map<string, number> {
+  const finished = sessions.filter(session => session.minutes !== null);
+  const trackedTaskIds = new Set(finished.map(session => session.taskId).filter(id => id !== null));
+  const minutes = new Map<string, number>();
+  const add = (date: string, value: number) => minutes.set(date, (minutes.get(date) ?? 0) + value);
+
+  for (const session of finished) {
+    add(zonedDateKey(new Date(session.startedAt), timeZone), session.minutes!);
+  }
+  for (const task of tasks) {
+    if (task.isCompleted && !trackedTaskIds.has(task.id)) {
+      add(task.date, task.duration);
+    }
+  }
+
+  return minutes;
+}
+
+/**
+ * The goal for one day and whether it was met. Any study on a day without a
+ * target, such as a rest day, meets it.
+ */
+export function dayGoal(date: string, minutes: Map<string, number>, dailyTarget: number, restDays: number[]): DayGoal {
+  const studied = minutes.get(date) ?? 0;
+  const isRestDay = restDays.includes(parseDateKey(date).getDay());
+  const targetMinutes = isRestDay ? 0 : dailyTarget;
+
+  return {
+    date,
+    minutes: studied,
+    targetMinutes,
+    met: targetMinutes > 0 ? studied >= targetMinutes : studied > 0,
+  };
+}
+
+/**
+ * Current and longest run of days with the daily goal met, from `from` up to
+ * today. Rest days without study neither break a streak nor add to it, and
+ * today only breaks it once it's over.
+ */
+export function calculateStreak(
+  minutes: Map<string, number>,
+  { from, today, dailyTarget, restDays }: { from: string; today: string; dailyTarget: number; restDays: number[] }
+): StreakSummary {
+  let current = 0;
+  let longest = 0;
+
+  for (let date = from; date <= today; date = addDays(date, 1)) {
+    const day = dayGoal(date, minutes, dailyTarget, restDays);
+
+    if (day.met) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (day.targetMinutes > 0 && date !== today) {
+      current = 0;
+    }
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Daily and weekly targets, the streak and each week's attainment over the
+ * whole plan, from its first day to the exam
+ */
+export function summarizeGoals(input: GoalInput): GoalSummary {
+  const restDays = normalizeRestDays(input.restDays);
+  const dailyTarget = dailyTargetMinutes(input.weeklyStudyTime, restDays);
+  const minutes = minutesByDay(input.sessions, input.tasks, input.timeZone);
+  const lastDay = addDays(input.examDate, -1);
+
+  const weeks: WeekGoal[] = [];
+  for (let weekStart = input.startDate, week = 1; weekStart <= lastDay; weekStart = addDays(weekStart, 7), week++) {
+    const weekEnd = [addDays(weekStart, 6), lastDay].sort()[0];
+    let targetMinutes = 0;
+    let actualMinutes = 0;
+
+    for (let date = weekStart; date <= weekEnd; date = addDays(date, 1)) {
+      const day = dayGoal(date, minutes, dailyTarget, restDays);
+      targetMinutes += day.targetMinutes;
+      actualMinutes += day.minutes;
+    }
+
+    weeks.push({
+      week,
+      weekStart,
+      weekEnd,
+      targetMinutes,
+      actualMinutes,
+      attainment: targetMinutes > 0 ? Math.round((actualMinutes / targetMinutes) * 100) : 100,
+      met: actualMinutes >= targetMinutes,
+      status: weekEnd < input.today ? 'past' : weekStart > input.today ? 'upcoming' : 'current',
+    });
+  }
+
+  return {
+    dailyTargetMinutes: dailyTarget,
+    weeklyTargetMinutes: Math.round(input.weeklyStudyTime * 60),
+    restDays,
+    today: dayGoal(input.today, minutes, dailyTarget, restDays),
+    streak: calculateStreak(minutes, { from: input.startDate, today: input.today, dailyTarget, restDays }),
+    weeks,
+  };
+}
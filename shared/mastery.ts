@@ -0,0 +1,104 @@
+// Topic mastery derived from the work done on a plan.
+// A topic's mastery starts from the student's self-assessed level and grows
+// towards 100 with the share of its tasks completed (study counts most), the
+// time actually studied against the time planned, and practice scores.
+// Pure functions only: callers load the plan's tasks and sessions.
+
+import { taskTopic } from './studySessions.js';
+
+export interface MasteryTask {
+  id: number;
+  title: string;
+  topic?: string | null;
+  taskType: string;
+  duration: number; // planned, in minutes
+  isCompleted?: boolean | null;
+  score?: number | null; // 0-100, from a practice quiz or test
+}
+
+export interface MasterySession {
+  taskId: number | null;
+  topic: string | null;
+  minutes: number | null; // null while the session is running
+}
+
+export interface MasteryInput {
+  topics: string[];
+  tasks: MasteryTask[];
+  sessions: MasterySession[];
+  baseline?: Record<string, number> | null; // self-assessed starting level per topic (0-100)
+}
+
+// How much completing one task of each type counts towards its topic
+export const MASTERY_TASK_WEIGHTS: Record<string, number> = {
+  study: 3,
+  practice: 2,
+  review: 2,
+};
+
+// Share of the earned mastery from each signal; signals with no data are left out
+const COMPLETION_SHARE = 0.6;
+const TIME_SHARE = 0.15;
+const SCORE_SHARE = 0.25;
+
+const taskWeight = (task: MasteryTask) => MASTERY_TASK_WEIGHTS[task.taskType] ?? 1;
+
+/**
+ * Clamp a progress value to a whole percentage from 0 to 100
+ */
+export function clampProgress(value: number): number {
+  return Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : 0;
+}
+
+/**
+ * Mastery (0-100) of every plan topic. Time studied only counts once the
+ * student logs sessions on the plan, and scores only for topics with a
+ * scored task, so neither holds back students who don't use them.
+ */
+export function computeTopicMastery(input: MasteryInput): Record<string, number> {
+  const finished = input.sessions.filter(session => session.minutes !== null);
+  const tracksTime = finished.length > 0;
+  const tasksById = new Map(input.tasks.map(task => [task.id, task]));
+
+  const sessionTopic = (session: MasterySession) => {
+    const task = session.taskId !== null ? tasksById.get(session.taskId) : undefined;
+    return session.topic ?? (task ? taskTopic(task, input.topics) : null);
+  };
+
+  return Object.fromEntries(input.topics.map(topic => {
+    const baseline = clampProgress(input.baseline?.[topic] ?? 0);
+    const tasks = input.tasks.filter(task => taskTopic(task, input.topics) === topic);
+
+    if (tasks.length === 0) {
+      return [topic, baseline];
+    }
+
+    const completed = tasks.filter(task => task.isCompleted);
+    const signals: { share: number; value: number }[] = [{
+      share: COMPLETION_SHARE,
+      value: completed.reduce((sum, task) => sum + taskWeight(task), 0)
+        / tasks.reduce((sum, task) => sum + taskWeight(task), 0),
+    }];
+
+    if (tracksTime) {
+      const planned = tasks.reduce((sum, task) => sum + task.duration, 0);
+      const studied = finished
+        .filter(session => sessionTopic(session) === topic)
+        .reduce((sum, session) => sum + session.minutes!, 0);
+      signals.push({ share: TIME_SHARE, value: planned > 0 ? Math.min(1, studied / planned) : 0 });
+    }
+
+    const scores = completed
+      .map(task => task.score)
+      .filter((score): score is number => typeof score === 'number');
+    if (scores.length > 0) {
+      const average = scores.reduce((sum, score) => sum + clampProgress(score), 0) / scores.length;
+      signals.push({ share: SCORE_SHARE, value: average / 100 });
+    }
+
+    const earned = signals.reduce((sum, signal) => sum + signal.share * signal.value, 0)
+      / signals.reduce((sum, signal) => sum + signal.share, 0);
+
+    return [topic, clampProgress(baseline + (100 - baseline) * earned)];
+  }));
+}
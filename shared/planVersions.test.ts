@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlanVersions, type PlanSnapshot, type TaskSnapshot } from './planVersions.js';
+
+const plan: PlanSnapshot = {
+  courseName: 'Calculus',
+  examDate: '2026-03-20',
+  weeklyStudyTime: 10,
+  studyPreference: 'short',
+  learningStyle: null,
+  studyMaterials: null,
+  topics: ['Limits', 'Integrals'],
+  topicsProgress: null,
+  resources: [],
+};
+
+function task(id: number, title: string, date: string, overrides: Partial<TaskSnapshot> = {}): TaskSnapshot {
+  return {
+    id,
+    title,
+    description: null,
+    date,
+    startTime: null,
+    duration: 30,
+    resource: null,
+    isCompleted: false,
+    taskType: 'study',
+    ...overrides,
+  };
+}
+
+describe('diffPlanVersions', () => {
+  it('matches tasks by id even when their title changes', () => {
+    const diff = diffPlanVersions(
+      { plan, tasks: [task(1, 'Study Limits', '2026-03-02')] },
+      { plan, tasks: [task(1, 'Limits worksheet', '2026-03-04')] }
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.moved).toEqual([{ task: expect.objectContaining({ id: 1 }), fromDate: '2026-03-02', fromStartTime: null }]);
+  });
+
+  it('matches recreated tasks by title and type', () => {
+    const diff = diffPlanVersions(
+      { plan, tasks: [task(1, 'Study Limits', '2026-03-02', { startTime: '09:00' }), task(2, 'Study Limits', '2026-03-03', { taskType: 'review' })] },
+      { plan, tasks: [task(7, ' study limits ', '2026-03-02', { startTime: '18:00' }), task(8, 'Study Limits', '2026-03-05', { taskType: 'practice' })] }
+    );
+
+    expect(diff.moved).toEqual([{ task: expect.objectContaining({ id: 7 }), fromDate: '2026-03-02', fromStartTime: '09:00' }]);
+    // A different type is a different task
+    expect(diff.added.map(t => t.id)).toEqual([8]);
+    expect(diff.removed.map(t => t.id)).toEqual([2]);
+  });
+
+  it('pairs repeated titles earliest date first', () => {
+    const diff = diffPlanVersions(
+      { plan, tasks: [task(2, 'Review', '2026-03-06'), task(1, 'Review', '2026-03-02')] },
+      { plan, tasks: [task(9, 'Review', '2026-03-02')] }
+    );
+
+    expect(diff.moved).toEqual([]);
+    expect(diff.removed.map(t => t.id)).toEqual([2]);
+  });
+
+  it('lists the plan fields that changed', () => {
+    const diff = diffPlanVersions(
+      { plan, tasks: [] },
+      { plan: { ...plan, examDate: '2026-03-27', topics: ['Limits'] }, tasks: [] }
+    );
+
+    expect(diff.fields).toEqual([
+      { field: 'examDate', from: '2026-03-20', to: '2026-03-27' },
+      { field: 'topics', from: ['Limits', 'Integrals'], to: ['Limits'] },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+// Plan versions: immutable snapshots of a plan's fields and tasks, taken when
+// a plan is generated, refined or rolled back. Pure functions only: the
+// server stores the snapshots, the client shows the differences.
+
+export type PlanVersionSource = 'created' | 'generated' | 'refined' | 'edited' | 'rollback';
+
+export interface PlanSnapshot {
+  courseName: string;
+  examDate: string;
+  weeklyStudyTime: number;
+  studyPreference: string;
+  learningStyle: string | null;
+  studyMaterials: string[] | null;
+  topics: string[];
+  topicsProgress: Record<string, number> | null;
+  resources: string[];
+}
+
+export interface TaskSnapshot {
+  id: number; // the task's id when the snapshot was taken
+  title: string;
+  description: string | null;
+  date: string; // yyyy-MM-dd
+  startTime: string | null; // HH:mm
+  duration: number; // in minutes
+  resource: string | null;
+  isCompleted: boolean;
+  taskType: string;
+  topic?: string | null; // missing from snapshots taken before tasks recorded their topic
+  source?: string | null; // 'scheduler' when laid out by the scheduler; missing from older snapshots
+}
+
+export interface MovedTaskChange {
+  task: TaskSnapshot; // as it is in the newer version
+  fromDate: string;
+  fromStartTime: string | null;
+}
+
+export interface PlanFieldChange {
+  field: keyof PlanSnapshot;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PlanVersionDiff {
+  added: TaskSnapshot[];
+  removed: TaskSnapshot[];
+  moved: MovedTaskChange[];
+  fields: PlanFieldChange[];
+}
+
+const PLAN_FIELDS: (keyof PlanSnapshot)[] = [
+  'courseName',
+  'examDate',
+  'weeklyStudyTime',
+  'studyPreference',
+  'learningStyle',
+  'studyMaterials',
+  'topics',
+  'topicsProgress',
+  'resources',
+];
+
+// Key for matching tasks that were recreated under a new id, e.g. by a refinement
+function sameTaskKey(task: TaskSnapshot): string {
+  return `${task.taskType}:${task.title.trim().toLowerCase()}`;
+}
+
+/**
+ * What changed from one version to another. Tasks are matched by id, then
+ * recreated tasks by title and type; a matched task on another day or time
+ * counts as moved.
+ */
+export function diffPlanVersions(
+  from: { plan: PlanSnapshot; tasks: TaskSnapshot[] },
+  to: { plan: PlanSnapshot; tasks: TaskSnapshot[] }
+): PlanVersionDiff {
+  const fromById = new Map(from.tasks.map(task => [task.id, task]));
+  const pairs: [TaskSnapshot, TaskSnapshot][] = [];
+  const unmatchedTo: TaskSnapshot[] = [];
+
+  for (const task of to.tasks) {
+    const previous = fromById.get(task.id);
+    if (previous) {
+      pairs.push([previous, task]);
+      fromById.delete(task.id);
+    } else {
+      unmatchedTo.push(task);
+    }
+  }
+
+  // Match what's left by title and type, earliest dates first
+  const unmatchedFrom = [...fromById.values()].sort((a, b) => a.date.localeCompare(b.date));
+  const added: TaskSnapshot[] = [];
+
+  for (const task of [...unmatchedTo].sort((a, b) => a.date.localeCompare(b.date))) {
+    const index = unmatchedFrom.findIndex(previous => sameTaskKey(previous) === sameTaskKey(task));
+    if (index === -1) {
+      added.push(task);
+    } else {
+      pairs.push([unmatchedFrom[index], task]);
+      unmatchedFrom.splice(index, 1);
+    }
+  }
+
+  const moved = pairs
+    .filter(([previous, task]) => previous.date !== task.date || previous.startTime !== task.startTime)
+    .map(([previous, task]) => ({ task, fromDate: previous.date, fromStartTime: previous.startTime }));
+
+  const fields = PLAN_FIELDS
+    .filter(field => JSON.stringify(from.plan[field]) !== JSON.stringify(to.plan[field]))
+    .map(field => ({ field, from: from.plan[field], to: to.plan[field] }));
+
+  return { added, removed: unmatchedFrom, moved, fields };
+}
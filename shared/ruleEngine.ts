@@ -1,6 +1,9 @@
-import { LearningStyle } from "../types";
+// Study rules that steer AI plan generation.
+// Derived from the plan form data only, so the server can build prompts from them.
 
-interface PlanGenerationData {
+type LearningStyle = 'visual' | 'auditory' | 'reading' | 'kinesthetic';
+
+export interface PlanGenerationData {
   courseName: string;
   examDate: string;
   weeklyStudyTime: number;
@@ -13,7 +16,7 @@ interface PlanGenerationData {
   progress?: string;
 }
 
-interface StudyRules {
+export interface StudyRules {
   examDate: string;
   weeksUntilExam: number;
   daysUntilExam: number;
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { scheduleStudySessions, type SchedulerInput } from './scheduler.js';
+
+const baseInput: SchedulerInput = {
+  startDate: '2026-03-02', // a Monday
+  examDate: '2026-04-13',
+  weeklyStudyTime: 5,
+  sessionLength: 'short',
+  topics: [{ title: 'Algebra' }, { title: 'Geometry' }],
+  timeZone: 'UTC',
+};
+
+function weekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+describe('scheduleStudySessions', () => {
+  it('returns the same schedule for the same input', () => {
+    expect(scheduleStudySessions(baseInput)).toEqual(scheduleStudySessions({ ...baseInput }));
+  });
+
+  it('places sessions from the start date up to the day before the exam', () => {
+    const sessions = scheduleStudySessions(baseInput);
+
+    expect(sessions.length).toBeGreaterThan(0);
+    sessions.forEach(session => {
+      expect(session.date >= baseInput.startDate).toBe(true);
+      expect(session.date < baseInput.examDate).toBe(true);
+      expect(session.duration).toBe(30);
+    });
+  });
+
+  it('only uses the available days', () => {
+    const sessions = scheduleStudySessions({ ...baseInput, availableDays: [2, 4] });
+
+    expect(sessions.length).toBeGreaterThan(0);
+    sessions.forEach(session => expect([2, 4]).toContain(weekday(session.date)));
+  });
+
+  it('keeps sessions inside the study windows', () => {
+    const sessions = scheduleStudySessions({ ...baseInput, windows: [{ startHour: 18, endHour: 21 }] });
+
+    sessions.forEach(session => {
+      expect(session.startTime >= '18:00').toBe(true);
+      expect(session.startTime <= '20:30').toBe(true);
+    });
+  });
+
+  it('gives heavier topics more of the study phase', () => {
+    const sessions = scheduleStudySessions({
+      ...baseInput,
+      topics: [{ title: 'Algebra', weight: 3 }, { title: 'Geometry', weight: 1 }],
+    });
+    const count = (topic: string) => sessions.filter(session => session.topic === topic && session.taskType === 'study').length;
+
+    expect(count('Algebra')).toBeGreaterThan(count('Geometry'));
+  });
+
+  it('only reviews and practises topics that are nearly done', () => {
+    const sessions = scheduleStudySessions({
+      ...baseInput,
+      topics: [{ title: 'Algebra', progress: 90 }, { title: 'Geometry' }],
+    });
+
+    expect(sessions.some(session => session.topic === 'Algebra')).toBe(true);
+    expect(sessions.filter(session => session.topic === 'Algebra').every(session => session.taskType !== 'study')).toBe(true);
+  });
+
+  it('returns nothing when the exam has already passed', () => {
+    expect(scheduleStudySessions({ ...baseInput, examDate: baseInput.startDate })).toEqual([]);
+  });
+
+  describe('time zones', () => {
+    // 18:00-20:00 in New York on 2 March, 01:00-03:00 on 3 March at UTC+2
+    const busyEvents = [{ start: '2026-03-02T23:00:00Z', end: '2026-03-03T01:00:00Z' }];
+    const oneDay: SchedulerInput = {
+      ...baseInput,
+      examDate: '2026-03-03',
+      topics: [{ title: 'Algebra' }],
+      windows: [{ startHour: 18, endHour: 21 }],
+      busyEvents,
+    };
+
+    it('reads study windows and busy time in the given time zone', () => {
+      const [session] = scheduleStudySessions({ ...oneDay, timeZone: 'America/New_York' });
+
+      expect(session).toMatchObject({ date: '2026-03-02', startTime: '20:00' });
+    });
+
+    it('accepts UTC offsets', () => {
+      expect(scheduleStudySessions({ ...oneDay, timeZone: '-05:00' }))
+        .toEqual(scheduleStudySessions({ ...oneDay, timeZone: 'America/New_York' }));
+
+      const [session] = scheduleStudySessions({ ...oneDay, timeZone: '+02:00' });
+      expect(session).toMatchObject({ date: '2026-03-02', startTime: '18:00' });
+    });
+
+    it('keeps wall-clock times across a daylight saving change', () => {
+      const sessions = scheduleStudySessions({
+        ...baseInput,
+        startDate: '2026-03-06',
+        examDate: '2026-03-11',
+        windows: [{ startHour: 9, endHour: 10 }],
+        timeZone: 'America/New_York',
+      });
+
+      expect(sessions.map(session => session.date)).toContain('2026-03-08');
+      sessions.forEach(session => expect(session.startTime).toBe('09:00'));
+    });
+  });
+});
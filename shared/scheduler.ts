@@ -0,0 +1,261 @@
+// Deterministic study scheduler shared by the client and the server.
+// Given the student's availability, weekly budget and topics it lays out
+// dated, timed sessions on any day of the week, working around busy time.
+// Same input always produces the same schedule.
+
+import {
+  BusyBlock,
+  DEFAULT_STUDY_WINDOW,
+  StudyWindow,
+  freeIntervalsOnDay,
+  parseDateKey,
+  toDateKey,
+  zonedClock
+} from './calendar.js';
+
+export type SessionType = 'study' | 'review' | 'practice';
+
+export interface SchedulerTopic {
+  title: string;
+  weight?: number; // Relative difficulty/importance, defaults to 1
+  progress?: number; // 0-100 percentage already completed
+}
+
+export interface SchedulerInput {
+  startDate: string; // First day sessions may be placed on (yyyy-MM-dd)
+  examDate: string; // Sessions are placed up to the day before the exam
+  weeklyStudyTime: number; // in hours
+  sessionLength: 'short' | 'long' | number; // preference, or minutes per session
+  topics: SchedulerTopic[];
+  availableDays?: number[]; // 0 (Sunday) - 6 (Saturday), defaults to every day
+  windows?: StudyWindow[]; // Study windows used on every available day
+  dayWindows?: Partial<Record<number, StudyWindow[]>>; // Per-weekday overrides of `windows`
+  busyEvents?: BusyBlock[];
+  breakMinutes?: number; // Gap kept between two sessions on the same day
+  timeZone?: string; // IANA name or UTC offset the windows and start times are in, defaults to local time
+}
+
+export interface ScheduledSession {
+  title: string;
+  topic: string;
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm in the input's time zone
+  duration: number; // in minutes
+  taskType: SessionType;
+}
+
+export const SESSION_MINUTES = { short: 30, long: 90 } as const;
+
+const DEFAULT_BREAK_MINUTES = 15;
+const REVIEW_ONLY_PROGRESS = 70; // Topics this far along only get review and practice
+const MINUTE_MS = 60 * 1000;
+
+type Interval = [number, number];
+
+interface Slot {
+  date: string;
+  start: number;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * MINUTE_MS));
+}
+
+/**
+ * Minutes per session for a session length preference
+ */
+export function sessionLengthMinutes(sessionLength: SchedulerInput['sessionLength']): number {
+  return typeof sessionLength === 'number' ? sessionLength : SESSION_MINUTES[sessionLength];
+}
+
+// Splits `total` between topics in proportion to their effort (largest remainder method)
+function apportion(total: number, efforts: number[]): number[] {
+  const sum = efforts.reduce((a, b) => a + b, 0);
+  if (sum === 0 || total === 0) return efforts.map(() => 0);
+
+  const exact = efforts.map(effort => (effort / sum) * total);
+  const shares = exact.map(Math.floor);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  const leftover = total - shares.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < leftover; i++) {
+    shares[byRemainder[i % byRemainder.length].index]++;
+  }
+
+  // Make sure every topic that needs work gets at least one session when there's room
+  efforts.forEach((effort, index) => {
+    if (effort > 0 && shares[index] === 0) {
+      const donor = shares.indexOf(Math.max(...shares));
+      if (shares[donor] > 1) {
+        shares[donor]--;
+        shares[index]++;
+      }
+    }
+  });
+
+  return shares;
+}
+
+// Session types for one topic's block of `count` sessions
+function sessionTypes(count: number, progress: number): SessionType[] {
+  if (progress >= REVIEW_ONLY_PROGRESS) {
+    return Array.from({ length: count }, (_, i) => (i % 2 === 0 ? 'review' : 'practice'));
+  }
+
+  const studyCount = Math.max(1, Math.ceil(count * 0.6));
+  return Array.from({ length: count }, (_, i) =>
+    i < studyCount ? 'study' : (i - studyCount) % 2 === 0 ? 'practice' : 'review'
+  );
+}
+
+function sessionTitle(taskType: SessionType, topic: string): string {
+  switch (taskType) {
+    case 'study':
+      return `Study ${topic}`;
+    case 'review':
+      return `Review ${topic}`;
+    case 'practice':
+      return `Practice ${topic}`;
+  }
+}
+
+/**
+ * Lay out study sessions between the start date and the exam.
+ *
+ * Each week's budget (weeklyStudyTime, prorated for a partial last week) is
+ * split into sessions spread evenly over that week's available days, placed in
+ * the earliest free part of each day's study windows. Topics share the study
+ * phase in proportion to weight × remaining progress; the final stretch before
+ * the exam is review and practice across all topics, weakest first.
+ */
+export function scheduleStudySessions(input: SchedulerInput): ScheduledSession[] {
+  const sessionMinutes = sessionLengthMinutes(input.sessionLength);
+  const breakMinutes = input.breakMinutes ?? DEFAULT_BREAK_MINUTES;
+  const availableDays = new Set(input.availableDays ?? [0, 1, 2, 3, 4, 5, 6]);
+  const busyEvents = input.busyEvents ?? [];
+  const firstDay = parseDateKey(input.startDate);
+  const examDay = parseDateKey(input.examDate);
+  const totalDays = daysBetween(firstDay, examDay);
+
+  if (totalDays <= 0 || input.topics.length === 0 || sessionMinutes <= 0 || input.weeklyStudyTime <= 0) {
+    return [];
+  }
+
+  // Free intervals of every available day, consumed as sessions are placed
+  const freeByDay = new Map<string, Interval[]>();
+  for (let day = firstDay; day < examDay; day = addDays(day, 1)) {
+    if (!availableDays.has(day.getDay())) continue;
+
+    const windows = input.dayWindows?.[day.getDay()] ?? input.windows ?? [DEFAULT_STUDY_WINDOW];
+    freeByDay.set(
+      toDateKey(day),
+      windows.flatMap(window => freeIntervalsOnDay(busyEvents, day, window, input.timeZone)).sort((a, b) => a[0] - b[0])
+    );
+  }
+
+  const reserve = (date: string): number | null => {
+    const free = freeByDay.get(date)!;
+    const index = free.findIndex(([start, end]) => end - start >= sessionMinutes * MINUTE_MS);
+    if (index === -1) return null;
+
+    const [start, end] = free[index];
+    const next = start + (sessionMinutes + breakMinutes) * MINUTE_MS;
+    free.splice(index, 1, ...(next < end ? [[next, end] as Interval] : []));
+    return start;
+  };
+
+  // Place each week's sessions, spreading them evenly over its available days
+  const slots: Slot[] = [];
+
+  for (let weekStart = 0; weekStart < totalDays; weekStart += 7) {
+    const span = Math.min(7, totalDays - weekStart);
+    const weekDays = Array.from({ length: span }, (_, i) => toDateKey(addDays(firstDay, weekStart + i)))
+      .filter(date => freeByDay.has(date));
+
+    if (weekDays.length === 0) continue;
+
+    let remaining = Math.max(1, Math.round((input.weeklyStudyTime * 60 * span) / 7 / sessionMinutes));
+
+    while (remaining > 0) {
+      const roundSize = Math.min(remaining, weekDays.length);
+      let placedThisRound = 0;
+
+      for (let i = 0; i < roundSize; i++) {
+        const target = Math.floor(((i + 0.5) * weekDays.length) / roundSize);
+
+        // Try the target day first, then the closest days around it
+        for (let distance = 0; distance < weekDays.length * 2; distance++) {
+          const offset = distance % 2 === 0 ? distance / 2 : -(distance + 1) / 2;
+          const date = weekDays[target + offset];
+          if (!date) continue;
+
+          const start = reserve(date);
+          if (start !== null) {
+            slots.push({ date, start });
+            placedThisRound++;
+            break;
+          }
+        }
+      }
+
+      remaining -= roundSize;
+      // Stop once the week is out of free time
+      if (placedThisRound === 0) break;
+    }
+  }
+
+  slots.sort((a, b) => a.start - b.start);
+
+  // Split slots into the learning phase and the final review phase
+  const reviewDays = Math.min(14, Math.floor(totalDays / 5));
+  const reviewStart = toDateKey(addDays(examDay, -reviewDays));
+  const learningSlots = slots.filter(slot => slot.date < reviewStart);
+  const reviewSlots = slots.filter(slot => slot.date >= reviewStart);
+
+  const topics = input.topics.map(topic => ({
+    title: topic.title,
+    weight: topic.weight ?? 1,
+    progress: Math.min(100, Math.max(0, topic.progress ?? 0))
+  }));
+
+  const shares = apportion(
+    learningSlots.length,
+    topics.map(topic => topic.weight * (1 - topic.progress / 100))
+  );
+
+  const learningSessions = topics.flatMap((topic, index) =>
+    sessionTypes(shares[index], topic.progress).map(taskType => ({ topic: topic.title, taskType }))
+  );
+
+  // Weakest topics come first in the final review rotation
+  const reviewOrder = [...topics].sort((a, b) => a.progress - b.progress || b.weight - a.weight);
+  const reviewSessions = reviewSlots.map((_, i) => ({
+    topic: reviewOrder[i % reviewOrder.length].title,
+    taskType: (Math.floor(i / reviewOrder.length) % 2 === 0 ? 'review' : 'practice') as SessionType
+  }));
+
+  // When every topic is already complete the learning slots become review too
+  const assignments = learningSessions.length > 0
+    ? [...learningSessions, ...reviewSessions]
+    : learningSlots.concat(reviewSlots).map((_, i) => ({
+        topic: reviewOrder[i % reviewOrder.length].title,
+        taskType: (i % 2 === 0 ? 'review' : 'practice') as SessionType
+      }));
+
+  return [...learningSlots, ...reviewSlots].map((slot, i) => ({
+    title: sessionTitle(assignments[i].taskType, assignments[i].topic),
+    topic: assignments[i].topic,
+    date: slot.date,
+    startTime: zonedClock(slot.start, input.timeZone),
+    duration: sessionMinutes,
+    taskType: assignments[i].taskType
+  }));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { applyRecall, createReviewState, dueReviewTasks, MIN_EASE_FACTOR, type ReviewState } from './spacedRepetition.js';
+
+describe('applyRecall', () => {
+  it('reviews after one day, then six, then the interval times the ease', () => {
+    const studied = createReviewState('Limits', '2026-03-01');
+    expect(studied).toMatchObject({ interval: 1, repetitions: 0, dueDate: '2026-03-02' });
+
+    const first = applyRecall(studied, 4, '2026-03-02');
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, dueDate: '2026-03-03', easeFactor: 2.5 });
+
+    const second = applyRecall(first, 4, '2026-03-03');
+    expect(second).toMatchObject({ interval: 6, repetitions: 2, dueDate: '2026-03-09' });
+
+    // A perfect recall raises the ease to 2.6, so 6 days become 16
+    const third = applyRecall(second, 5, '2026-03-09');
+    expect(third.easeFactor).toBeCloseTo(2.6);
+    expect(third).toMatchObject({ interval: 16, repetitions: 3, dueDate: '2026-03-25', lastReviewedAt: '2026-03-09' });
+  });
+
+  it('lowers the ease on a hard recall', () => {
+    const state = applyRecall(createReviewState('Limits', '2026-03-01'), 3, '2026-03-02');
+    expect(state.easeFactor).toBeCloseTo(2.36);
+    expect(state.repetitions).toBe(1);
+  });
+
+  it('starts the topic over after a failed recall', () => {
+    const learned: ReviewState = { topic: 'Limits', easeFactor: 2.5, interval: 16, repetitions: 3, dueDate: '2026-03-25' };
+    const state = applyRecall(learned, 2, '2026-03-25');
+
+    expect(state.easeFactor).toBeCloseTo(2.18);
+    expect(state).toMatchObject({ interval: 1, repetitions: 0, dueDate: '2026-03-26' });
+  });
+
+  it('never lets the ease drop below the minimum', () => {
+    const hard: ReviewState = { topic: 'Limits', easeFactor: MIN_EASE_FACTOR, interval: 1, repetitions: 0, dueDate: '2026-03-02' };
+    expect(applyRecall(hard, 0, '2026-03-02').easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+});
+
+describe('dueReviewTasks', () => {
+  it('puts overdue reviews on today and skips topics with an open review', () => {
+    const states = [
+      { ...createReviewState('Limits', '2026-02-20'), dueDate: '2026-02-21' },
+      { ...createReviewState('Integrals', '2026-03-01'), dueDate: '2026-03-04' },
+      { ...createReviewState('Series', '2026-03-01'), dueDate: '2026-03-02' },
+      { ...createReviewState('Vectors', '2026-03-01'), dueDate: '2026-03-20' },
+    ];
+
+    expect(dueReviewTasks(states, ['series'], '2026-03-01', '2026-03-20')).toEqual([
+      { topic: 'Limits', date: '2026-03-01' },
+      { topic: 'Integrals', date: '2026-03-04' },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+// SM-2 style spaced repetition for study topics.
+// Pure functions only: callers persist the review state and create tasks.
+
+import { parseDateKey, toDateKey } from './calendar.js';
+
+// 0 = complete blackout ... 5 = perfect recall; 3 and up counts as remembered
+export type RecallRating = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewState {
+  topic: string;
+  easeFactor: number;
+  interval: number; // days until the next review
+  repetitions: number; // successful reviews in a row
+  dueDate: string; // yyyy-MM-dd
+  lastReviewedAt?: string | null;
+}
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const DEFAULT_RECALL_RATING: RecallRating = 4;
+
+function addDays(date: string, days: number): string {
+  const result = parseDateKey(date);
+  result.setDate(result.getDate() + days);
+  return toDateKey(result);
+}
+
+/**
+ * Starts tracking a topic once it has been studied; the first review is due the next day
+ */
+export function createReviewState(topic: string, studiedOn: string): ReviewState {
+  return {
+    topic,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    interval: 1,
+    repetitions: 0,
+    dueDate: addDays(studiedOn, 1),
+    lastReviewedAt: null
+  };
+}
+
+/**
+ * Applies a review with the given recall rating (SM-2)
+ */
+export function applyRecall(state: ReviewState, rating: RecallRating, reviewedOn: string): ReviewState {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - rating) * (0.08 + (5 - rating) * 0.02))
+  );
+
+  // A failed recall starts the topic over with a next-day review
+  if (rating < 3) {
+    return {
+      ...state,
+      easeFactor,
+      interval: 1,
+      repetitions: 0,
+      dueDate: addDays(reviewedOn, 1),
+      lastReviewedAt: reviewedOn
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * easeFactor);
+
+  return {
+    ...state,
+    easeFactor,
+    interval,
+    repetitions,
+    dueDate: addDays(reviewedOn, interval),
+    lastReviewedAt: reviewedOn
+  };
+}
+
+/**
+ * Whether a topic's review falls on or before the given date
+ */
+export function isReviewDue(state: ReviewState, onDate: string): boolean {
+  return state.dueDate <= onDate;
+}
+
+/**
+ * Finds the plan topic a task covers from titles like "Review Cell Biology"
+ */
+export function topicForTaskTitle(title: string, topics: string[]): string | null {
+  const normalized = title.trim().toLowerCase();
+
+  // Longest topic first so "Algebra II" wins over "Algebra"
+  const match = [...topics]
+    .sort((a, b) => b.length - a.length)
+    .find(topic => {
+      const name = topic.toLowerCase();
+      return normalized === name || normalized.endsWith(` ${name}`) || normalized.endsWith(`: ${name}`);
+    });
+
+  return match ?? null;
+}
+
+/**
+ * Review tasks that need to be created: one per topic that comes due before
+ * `lastDate` and doesn't already have an open review scheduled. Overdue
+ * reviews are placed on `today`.
+ */
+export function dueReviewTasks(
+  states: ReviewState[],
+  openReviewTopics: string[],
+  today: string,
+  lastDate: string
+): { topic: string; date: string }[] {
+  const open = new Set(openReviewTopics.map(topic => topic.toLowerCase()));
+
+  return states
+    .filter(state => state.dueDate < lastDate && !open.has(state.topic.toLowerCase()))
+    .map(state => ({ topic: state.topic, date: state.dueDate < today ? today : state.dueDate }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { minutesBetween, summarizeStudyTime, taskTopic, topicForTask, type SessionRecord } from './studySessions.js';
+
+describe('minutesBetween', () => {
+  it('rounds to whole minutes and never goes below zero', () => {
+    expect(minutesBetween('2026-03-02T10:00:00Z', '2026-03-02T10:25:40Z')).toBe(26);
+    expect(minutesBetween('2026-03-02T10:00:00Z', '2026-03-02T09:00:00Z')).toBe(0);
+  });
+});
+
+describe('topicForTask', () => {
+  const topics = ['Art', 'Set', 'Algebra', 'Algebra II'];
+
+  it('finds a topic named in the title as whole words', () => {
+    expect(topicForTask('Review Algebra', topics)).toBe('Algebra');
+    expect(topicForTask('Algebra II: practice set 3', topics)).toBe('Algebra II');
+    expect(topicForTask('Art history essay', topics)).toBe('Art');
+  });
+
+  it('ignores topics that only appear inside other words', () => {
+    expect(topicForTask('Partial fractions', topics)).toBeNull();
+    expect(topicForTask('Settlement patterns', topics)).toBeNull();
+  });
+});
+
+describe('taskTopic', () => {
+  it('prefers the topic the task was created for', () => {
+    expect(taskTopic({ title: 'Review Algebra', topic: 'Set' }, ['Algebra', 'Set'])).toBe('Set');
+  });
+
+  it('guesses from the title only when the recorded topic is unknown', () => {
+    expect(taskTopic({ title: 'Review Algebra', topic: 'Geometry' }, ['Algebra'])).toBe('Algebra');
+    expect(taskTopic({ title: 'Partial fractions', topic: null }, ['Art'])).toBeNull();
+  });
+});
+
+describe('summarizeStudyTime', () => {
+  const session = (startedAt: string, minutes: number | null, extra: Partial<SessionRecord> = {}): SessionRecord => ({
+    taskId: null,
+    topic: 'Algebra',
+    startedAt,
+    minutes,
+    interruptions: 0,
+    focusRating: null,
+    ...extra,
+  });
+
+  it("totals the last days in the student's time zone", () => {
+    const summary = summarizeStudyTime({
+      sessions: [session('2026-03-02T04:30:00Z', 40), session('2026-03-02T15:00:00Z', 20)],
+      tasks: [],
+      topics: ['Algebra'],
+      today: '2026-03-02',
+      days: 2,
+      timeZone: 'America/New_York',
+    });
+
+    expect(summary.byDay).toEqual([{ date: '2026-03-01', minutes: 40 }, { date: '2026-03-02', minutes: 20 }]);
+  });
+
+  it('leaves running sessions out and averages the focus ratings given', () => {
+    const summary = summarizeStudyTime({
+      sessions: [
+        session('2026-03-02T10:00:00Z', 30, { focusRating: 4, interruptions: 1 }),
+        session('2026-03-02T11:00:00Z', 30, { focusRating: 5 }),
+        session('2026-03-02T12:00:00Z', 15),
+        session('2026-03-02T13:00:00Z', null),
+      ],
+      tasks: [{ id: 1, title: 'Review Algebra', duration: 45, isCompleted: true }],
+      topics: ['Algebra'],
+      today: '2026-03-02',
+      timeZone: 'UTC',
+    });
+
+    expect(summary).toMatchObject({
+      actualMinutes: 75,
+      plannedMinutes: 45,
+      untrackedMinutes: 45,
+      sessionCount: 3,
+      interruptions: 1,
+      averageFocus: 4.5,
+      byTopic: [{ topic: 'Algebra', actualMinutes: 75, plannedMinutes: 45 }],
+    });
+  });
+
+  it("counts a session towards its task's topic and not as untracked time", () => {
+    const summary = summarizeStudyTime({
+      sessions: [
+        session('2026-03-02T10:00:00Z', 25, { taskId: 1, topic: null }),
+        // Older than the days shown: still in the totals
+        session('2026-01-10T10:00:00Z', 10),
+      ],
+      tasks: [
+        { id: 1, title: 'Practice Geometry', duration: 30, isCompleted: true },
+        { id: 2, title: 'Review Algebra', duration: 20, isCompleted: false },
+      ],
+      topics: ['Algebra', 'Geometry'],
+      today: '2026-03-02',
+      days: 7,
+      timeZone: 'UTC',
+    });
+
+    expect(summary).toMatchObject({ actualMinutes: 35, plannedMinutes: 30, untrackedMinutes: 0 });
+    expect(summary.byTopic).toEqual([
+      { topic: 'Algebra', actualMinutes: 10, plannedMinutes: 0 },
+      { topic: 'Geometry', actualMinutes: 25, plannedMinutes: 30 },
+    ]);
+    expect(summary.byDay).toHaveLength(7);
+    expect(summary.byDay.reduce((sum, day) => sum + day.minutes, 0)).toBe(25);
+  });
+});
@@ -0,0 +1,136 @@
+// Study time analytics from logged study sessions.
+// Sessions record the time actually spent on a task or topic; these functions
+// total it per topic and per day, next to the time the completed tasks were
+// planned to take. Pure functions only: callers load the sessions and tasks.
+
+import { parseDateKey, toDateKey, zonedDateKey } from './calendar.js';
+import { topicForTaskTitle } from './spacedRepetition.js';
+import { isKnownTopic } from './aiPlan.js';
+
+export const FOCUS_RATINGS = [1, 2, 3, 4, 5] as const;
+export type FocusRating = typeof FOCUS_RATINGS[number];
+
+export interface SessionRecord {
+  taskId: number | null;
+  topic: string | null;
+  startedAt: string; // ISO date-time
+  minutes: number | null; // null while the session is running
+  interruptions: number;
+  focusRating: number | null;
+}
+
+export interface SessionTask {
+  id: number;
+  title: string;
+  topic?: string | null; // the plan topic the task covers, when recorded
+  duration: number; // planned, in minutes
+  isCompleted?: boolean | null;
+}
+
+export interface TopicStudyTime {
+  topic: string;
+  actualMinutes: number;
+  plannedMinutes: number; // of the topic's completed tasks
+}
+
+export interface StudyTimeSummary {
+  actualMinutes: number;
+  plannedMinutes: number; // of all completed tasks
+  untrackedMinutes: number; // planned time of completed tasks with no session logged
+  sessionCount: number;
+  interruptions: number;
+  averageFocus: number | null; // 1-5, over the sessions that were rated
+  byTopic: TopicStudyTime[];
+  byDay: { date: string; minutes: number }[]; // the last `days` days, oldest first
+}
+
+export interface StudyTimeInput {
+  sessions: SessionRecord[];
+  tasks: SessionTask[];
+  topics: string[];
+  today: string; // yyyy-MM-dd, in timeZone
+  days?: number;
+  timeZone?: string; // IANA name or UTC offset sessions are put into days in, defaults to local time
+}
+
+const DEFAULT_DAYS = 30;
+
+/**
+ * Whole minutes between two ISO date-times, never negative
+ */
+export function minutesBetween(startedAt: string, endedAt: string): number {
+  return Math.max(0, Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 60000));
+}
+
+/**
+ * The plan topic a task covers, by exact title match first, then by the
+ * longest topic named in the title as whole words
+ */
+export function topicForTask(title: string, topics: string[]): string | null {
+  return topicForTaskTitle(title, topics)
+    ?? [...topics].sort((a, b) => b.length - a.length).find(topic => isKnownTopic(title, [topic]))
+    ?? null;
+}
+
+/**
+ * The plan topic a task covers: the topic it was created for, or for tasks
+ * saved without one, the topic named in its title
+ */
+export function taskTopic(task: { title: string; topic?: string | null }, topics: string[]): string | null {
+  return task.topic && topics.includes(task.topic) ? task.topic : topicForTask(task.title, topics);
+}
+
+export function summarizeStudyTime(input: StudyTimeInput): StudyTimeSummary {
+  const finished = input.sessions.filter(session => session.minutes !== null);
+  const tasksById = new Map(input.tasks.map(task => [task.id, task]));
+  const trackedTaskIds = new Set(finished.map(session => session.taskId).filter(id => id !== null));
+  const completed = input.tasks.filter(task => task.isCompleted);
+
+  const sessionTopic = (session: SessionRecord) => {
+    const task = session.taskId !== null ? tasksById.get(session.taskId) : undefined;
+    return session.topic ?? (task ? taskTopic(task, input.topics) : null);
+  };
+
+  const byTopic = input.topics.map(topic => ({
+    topic,
+    actualMinutes: finished
+      .filter(session => sessionTopic(session) === topic)
+      .reduce((sum, session) => sum + session.minutes!, 0),
+    plannedMinutes: completed
+      .filter(task => taskTopic(task, input.topics) === topic)
+      .reduce((sum, task) => sum + task.duration, 0),
+  }));
+
+  const days = input.days ?? DEFAULT_DAYS;
+  const minutesByDay = new Map<string, number>();
+  const first = parseDateKey(input.today);
+  first.setDate(first.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    const day = new Date(first);
+    day.setDate(first.getDate() + i);
+    minutesByDay.set(toDateKey(day), 0);
+  }
+  for (const session of finished) {
+    const date = zonedDateKey(new Date(session.startedAt), input.timeZone);
+    if (minutesByDay.has(date)) {
+      minutesByDay.set(date, minutesByDay.get(date)! + session.minutes!);
+    }
+  }
+
+  const rated = finished.filter(session => session.focusRating !== null);
+
+  return {
+    actualMinutes: finished.reduce((sum, session) => sum + session.minutes!, 0),
+    plannedMinutes: completed.reduce((sum, task) => sum + task.duration, 0),
+    untrackedMinutes: completed
+      .filter(task => !trackedTaskIds.has(task.id))
+      .reduce((sum, task) => sum + task.duration, 0),
+    sessionCount: finished.length,
+    interruptions: finished.reduce((sum, session) => sum + session.interruptions, 0),
+    averageFocus: rated.length > 0
+      ? Math.round((rated.reduce((sum, session) => sum + session.focusRating!, 0) / rated.length) * 10) / 10
+      : null,
+    byTopic,
+    byDay: [...minutesByDay].map(([date, minutes]) => ({ date, minutes })),
+  };
+}